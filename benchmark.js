@@ -0,0 +1,112 @@
+// benchmark for windowed stream transfers
+//
+// usage: node benchmark.js [delay in ms] [size in KB]
+//
+// sends a file over a local TCP proxy, that delays all data
+// in each direction (default: 25 ms, so round trip is about 50 ms),
+// with different window sizes and prints the throughput
+
+var crypto = require('crypto');
+var fs = require('fs');
+var net = require('net');
+var os = require('os');
+var path = require('path');
+var simpleSocket = require('./index');
+
+var delay = parseInt(process.argv[2] || '25');
+var size = parseInt(process.argv[3] || '2048') * 1024;
+var windowSizes = [ 1, 4, 8, 16, 32 ];
+
+var serverPort = 30905;
+var proxyPort = 30906;
+
+var srcFile = path.join(os.tmpdir(), 'simple-socket-benchmark.src');
+var targetFile = path.join(os.tmpdir(), 'simple-socket-benchmark.out');
+
+fs.writeFileSync(srcFile, crypto.randomBytes(size));
+
+// forwards data with a delay and keeps the order
+function pipeDelayed(from, to) {
+    from.on('data', (data) => {
+        setTimeout(() => {
+            to.write(data);
+        }, delay);
+    });
+
+    from.on('close', () => {
+        setTimeout(() => {
+            to.destroy();
+        }, delay);
+    });
+    from.on('error', () => { });
+}
+
+var proxy = net.createServer((clientSocket) => {
+    var serverSocket = net.connect(serverPort, '127.0.0.1');
+
+    pipeDelayed(clientSocket, serverSocket);
+    pipeDelayed(serverSocket, clientSocket);
+});
+
+var serverToClient;
+var onServerToClient;
+var serverToClientReady = new Promise((resolve) => {
+    onServerToClient = resolve;
+});
+
+function runBenchmark(clientToServer, index) {
+    if (index >= windowSizes.length) {
+        return Promise.resolve();
+    }
+
+    var windowSize = windowSizes[index];
+    var startTime = Date.now();
+
+    return Promise.all([
+        serverToClient.readFile(targetFile),
+        clientToServer.writeFile(srcFile, null, null, 'r', {
+            windowSize: windowSize,
+        }),
+    ]).then(() => {
+        var seconds = (Date.now() - startTime) / 1000.0;
+
+        console.log('window ' + ('  ' + windowSize).slice(-3) + ': ' +
+                    (size / 1024.0 / seconds).toFixed(1) + ' KB/s (' + seconds.toFixed(2) + ' s)');
+
+        return runBenchmark(clientToServer, index + 1);
+    });
+}
+
+simpleSocket.listen(serverPort, (err, stc) => {
+    serverToClient = stc;
+    onServerToClient();
+}).then((server) => {
+    proxy.listen(proxyPort, '127.0.0.1', () => {
+        console.log('Sending ' + (size / 1024) + ' KB with a delay of ' + delay + ' ms in each direction...');
+
+        simpleSocket.connect(proxyPort, '127.0.0.1').then((clientToServer) => {
+            // first write negotiates the features
+            return serverToClientReady.then(() => {
+                return Promise.all([
+                    serverToClient.read(),
+                    clientToServer.write('ping'),
+                ]);
+            }).then(() => {
+                return runBenchmark(clientToServer, 0);
+            }).then(() => {
+                clientToServer.end();
+            });
+        }).then(() => {
+            fs.unlinkSync(srcFile);
+            fs.unlinkSync(targetFile);
+
+            process.exit(0);
+        }, (err) => {
+            console.log('[ERROR] ' + err);
+
+            process.exit(1);
+        });
+    });
+}, (err) => {
+    console.log('[ERROR] Could not listen on port ' + serverPort + ': ' + err);
+});
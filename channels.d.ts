@@ -0,0 +1,202 @@
+/// <reference types="node" />
+import * as ssocket_helpers from './helpers';
+/**
+ * The number of bytes, a side can send on a new channel
+ * before the remote has granted more.
+ */
+export declare const INITIAL_WINDOW_SIZE: number;
+/**
+ * A frame, which waits to be sent.
+ */
+export interface ChannelFrame {
+    /**
+     * Is invoked after the frame has been sent.
+     */
+    completed: ssocket_helpers.SimpleCompletedAction<any>;
+    /**
+     * The frame data.
+     */
+    data: Buffer;
+    /**
+     * Closes the channel or not.
+     */
+    isClosing?: boolean;
+    /**
+     * The size of the data (without the header),
+     * which is sent with the frame.
+     */
+    size?: number;
+}
+/**
+ * Connects a multiplexer with the underlying socket.
+ */
+export interface ChannelMultiplexerHost {
+    /**
+     * Is invoked when the remote has closed a channel.
+     *
+     * @param {string} name The name of the channel.
+     */
+    close: (name: string) => void;
+    /**
+     * Is invoked when data for a channel has been received.
+     *
+     * @param {string} name The name of the channel.
+     * @param {Buffer} data The data.
+     */
+    data: (name: string, data: Buffer) => void;
+    /**
+     * Is invoked when the multiplexer waits for frames from the remote.
+     */
+    receive: () => void;
+    /**
+     * Sends a frame to the remote.
+     *
+     * @param {Buffer} frame The frame to send.
+     *
+     * @return {PromiseLike<any>} The promise.
+     */
+    send: (frame: Buffer) => PromiseLike<any>;
+}
+/**
+ * The state of a channel.
+ */
+export interface ChannelState {
+    /**
+     * The number of bytes that can be sent.
+     */
+    credit: number;
+    /**
+     * Is open or not.
+     */
+    isOpen: boolean;
+    /**
+     * The name of the channel.
+     */
+    name: string;
+    /**
+     * The number of bytes, which have been read, but not granted to the remote yet.
+     */
+    pendingCredit: number;
+    /**
+     * The frames, which wait to be sent.
+     */
+    queue: ChannelFrame[];
+    /**
+     * The number of bytes, the remote can send before the data is read.
+     */
+    windowSize: number;
+}
+/**
+ * Sends and receives the frames of logical channels over one connection.
+ *
+ * Each channel has its own window: A side can only send data on a channel,
+ * as long as the remote has granted it, by reading data from it.
+ *
+ * Frames of channels with data to send are sent in turn (round robin).
+ */
+export declare class ChannelMultiplexer {
+    /**
+     * Stores the control frames, which are sent before any data.
+     */
+    protected _control: ChannelFrame[];
+    /**
+     * Stores the underlying host.
+     */
+    protected _host: ChannelMultiplexerHost;
+    /**
+     * Stores if a frame is currently sent or not.
+     */
+    protected _isSending: boolean;
+    /**
+     * Stores the index of the channel, which is the next one to send data.
+     */
+    protected _nextChannel: number;
+    /**
+     * Stores the states of the channels.
+     */
+    protected _states: ChannelState[];
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {ChannelMultiplexerHost} host The underlying host.
+     */
+    constructor(host: ChannelMultiplexerHost);
+    /**
+     * Closes a channel, after all pending data has been sent.
+     *
+     * @param {string} name The name of the channel.
+     *
+     * @return {Promise<any>} The promise.
+     */
+    close(name: string): Promise<any>;
+    /**
+     * Grants the remote to send more data on a channel,
+     * after data has been read from it.
+     *
+     * @param {string} name The name of the channel.
+     * @param {number} numberOfBytes The number of bytes.
+     */
+    consume(name: string, numberOfBytes: number): void;
+    /**
+     * Sends the next frame, if possible.
+     */
+    protected flush(): void;
+    /**
+     * Returns the state of a channel.
+     *
+     * @param {string} name The name of the channel.
+     * @param {boolean} [create] Create the state if it does not exist or not.
+     *
+     * @return {ChannelState} The state (if found).
+     */
+    protected getState(name: string, create?: boolean): ChannelState;
+    /**
+     * Grants the remote to send more data on a channel.
+     *
+     * @param {ChannelState} state The state of the channel.
+     * @param {number} numberOfBytes The number of bytes.
+     */
+    protected grant(state: ChannelState, numberOfBytes: number): void;
+    /**
+     * Handles a frame from the remote.
+     *
+     * @param {Buffer} frame The frame.
+     */
+    handleFrame(frame: Buffer): void;
+    /**
+     * Gets if there is data that waits for credit from the remote.
+     */
+    readonly isWaiting: boolean;
+    /**
+     * Returns the next data frame to send.
+     *
+     * @return {ChannelFrame} The frame or (undefined) if there is nothing to send.
+     */
+    protected nextDataFrame(): ChannelFrame;
+    /**
+     * Opens a channel.
+     *
+     * @param {string} name The name of the channel.
+     * @param {number} windowSize The number of bytes, the remote can send before the data is read.
+     */
+    open(name: string, windowSize: number): void;
+    /**
+     * Requests frames from the remote.
+     */
+    receive(): void;
+    /**
+     * Removes the state of a channel.
+     *
+     * @param {ChannelState} state The state to remove.
+     */
+    protected removeState(state: ChannelState): void;
+    /**
+     * Sends data on a channel.
+     *
+     * @param {string} name The name of the channel.
+     * @param {Buffer} data The data to send.
+     *
+     * @return {Promise<any>} The promise with the result of the underlying host.
+     */
+    send(name: string, data: Buffer): Promise<any>;
+}
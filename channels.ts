@@ -0,0 +1,481 @@
+/// <reference types="node" />
+
+// The MIT License (MIT)
+// 
+// node-simple-socket (https://github.com/mkloubert/node-simple-socket)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+import * as ssocket_helpers from './helpers';
+
+
+const FRAME_TYPE_CLOSE = 2;
+const FRAME_TYPE_CREDIT = 1;
+const FRAME_TYPE_DATA = 0;
+/**
+ * The number of bytes, a side can send on a new channel
+ * before the remote has granted more.
+ */
+export const INITIAL_WINDOW_SIZE = 65536;
+const MAX_NAME_SIZE = 65535;
+
+
+/**
+ * A frame, which waits to be sent.
+ */
+export interface ChannelFrame {
+    /**
+     * Is invoked after the frame has been sent.
+     */
+    completed: ssocket_helpers.SimpleCompletedAction<any>;
+    /**
+     * The frame data.
+     */
+    data: Buffer;
+    /**
+     * Closes the channel or not.
+     */
+    isClosing?: boolean;
+    /**
+     * The size of the data (without the header),
+     * which is sent with the frame.
+     */
+    size?: number;
+}
+
+/**
+ * Connects a multiplexer with the underlying socket.
+ */
+export interface ChannelMultiplexerHost {
+    /**
+     * Is invoked when the remote has closed a channel.
+     * 
+     * @param {string} name The name of the channel.
+     */
+    close: (name: string) => void;
+    /**
+     * Is invoked when data for a channel has been received.
+     * 
+     * @param {string} name The name of the channel.
+     * @param {Buffer} data The data.
+     */
+    data: (name: string, data: Buffer) => void;
+    /**
+     * Is invoked when the multiplexer waits for frames from the remote.
+     */
+    receive: () => void;
+    /**
+     * Sends a frame to the remote.
+     * 
+     * @param {Buffer} frame The frame to send.
+     * 
+     * @return {PromiseLike<any>} The promise.
+     */
+    send: (frame: Buffer) => PromiseLike<any>;
+}
+
+/**
+ * The state of a channel.
+ */
+export interface ChannelState {
+    /**
+     * The number of bytes that can be sent.
+     */
+    credit: number;
+    /**
+     * Is open or not.
+     */
+    isOpen: boolean;
+    /**
+     * The name of the channel.
+     */
+    name: string;
+    /**
+     * The number of bytes, which have been read, but not granted to the remote yet.
+     */
+    pendingCredit: number;
+    /**
+     * The frames, which wait to be sent.
+     */
+    queue: ChannelFrame[];
+    /**
+     * The number of bytes, the remote can send before the data is read.
+     */
+    windowSize: number;
+}
+
+
+/**
+ * Sends and receives the frames of logical channels over one connection.
+ * 
+ * Each channel has its own window: A side can only send data on a channel,
+ * as long as the remote has granted it, by reading data from it.
+ * 
+ * Frames of channels with data to send are sent in turn (round robin).
+ */
+export class ChannelMultiplexer {
+    /**
+     * Stores the control frames, which are sent before any data.
+     */
+    protected _control: ChannelFrame[] = [];
+    /**
+     * Stores the underlying host.
+     */
+    protected _host: ChannelMultiplexerHost;
+    /**
+     * Stores if a frame is currently sent or not.
+     */
+    protected _isSending = false;
+    /**
+     * Stores the index of the channel, which is the next one to send data.
+     */
+    protected _nextChannel = 0;
+    /**
+     * Stores the states of the channels.
+     */
+    protected _states: ChannelState[] = [];
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {ChannelMultiplexerHost} host The underlying host.
+     */
+    constructor(host: ChannelMultiplexerHost) {
+        this._host = host;
+    }
+
+    /**
+     * Closes a channel, after all pending data has been sent.
+     * 
+     * @param {string} name The name of the channel.
+     * 
+     * @return {Promise<any>} The promise.
+     */
+    public close(name: string): Promise<any> {
+        let me = this;
+
+        return new Promise<any>((resolve, reject) => {
+            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            let state = me.getState(name);
+            if (!state) {
+                completed(null);  // not open
+                return;
+            }
+
+            state.isOpen = false;
+            state.queue.push({
+                completed: completed,
+                data: createFrame(FRAME_TYPE_CLOSE, name),
+                isClosing: true,
+            });
+
+            me.flush();
+        });
+    }
+
+    /**
+     * Grants the remote to send more data on a channel,
+     * after data has been read from it.
+     * 
+     * @param {string} name The name of the channel.
+     * @param {number} numberOfBytes The number of bytes.
+     */
+    public consume(name: string, numberOfBytes: number) {
+        let state = this.getState(name);
+        if (!state || !state.isOpen) {
+            return;
+        }
+
+        state.pendingCredit += numberOfBytes;
+
+        // grant in larger steps, so the remote
+        // does not get a frame for each read
+        if (state.pendingCredit >= state.windowSize / 2) {
+            this.grant(state, state.pendingCredit);
+
+            state.pendingCredit = 0;
+        }
+    }
+
+    /**
+     * Sends the next frame, if possible.
+     */
+    protected flush() {
+        let me = this;
+
+        if (me._isSending) {
+            return;
+        }
+
+        let frame = me._control.shift();
+        if (!frame) {
+            frame = me.nextDataFrame();
+        }
+
+        if (!frame) {
+            if (me.isWaiting) {
+                // wait for new credit
+                me._host.receive();
+            }
+
+            return;
+        }
+
+        me._isSending = true;
+
+        let frameCompleted = (err: any, result?: any) => {
+            me._isSending = false;
+
+            frame.completed(err, result);
+
+            me.flush();
+        };
+
+        try {
+            me._host.send(frame.data).then((result) => {
+                frameCompleted(null, result);
+            }, (err) => {
+                frameCompleted(err);
+            });
+        }
+        catch (e) {
+            frameCompleted(e);
+        }
+    }
+
+    /**
+     * Returns the state of a channel.
+     * 
+     * @param {string} name The name of the channel.
+     * @param {boolean} [create] Create the state if it does not exist or not.
+     * 
+     * @return {ChannelState} The state (if found).
+     */
+    protected getState(name: string, create = false): ChannelState {
+        let state = this._states.filter((s) => s.name === name)[0];
+        if (!state && create) {
+            state = {
+                credit: INITIAL_WINDOW_SIZE,
+                isOpen: false,
+                name: name,
+                pendingCredit: 0,
+                queue: [],
+                windowSize: INITIAL_WINDOW_SIZE,
+            };
+
+            this._states.push(state);
+        }
+
+        return state;
+    }
+
+    /**
+     * Grants the remote to send more data on a channel.
+     * 
+     * @param {ChannelState} state The state of the channel.
+     * @param {number} numberOfBytes The number of bytes.
+     */
+    protected grant(state: ChannelState, numberOfBytes: number) {
+        if (numberOfBytes < 1) {
+            return;
+        }
+
+        let body = Buffer.alloc(4);
+        body.writeUInt32LE(numberOfBytes, 0);
+
+        this._control.push({
+            completed: () => { },
+            data: createFrame(FRAME_TYPE_CREDIT, state.name, body),
+        });
+
+        this.flush();
+    }
+
+    /**
+     * Handles a frame from the remote.
+     * 
+     * @param {Buffer} frame The frame.
+     */
+    public handleFrame(frame: Buffer) {
+        let me = this;
+
+        let type = frame.readUInt8(0);
+        let nameLength = frame.readUInt16LE(1);
+        let name = frame.toString('utf8', 3, 3 + nameLength);
+        let body = frame.slice(3 + nameLength);
+
+        switch (type) {
+            case FRAME_TYPE_CLOSE:
+                {
+                    let state = me.getState(name);
+                    if (state) {
+                        me.removeState(state);
+
+                        state.queue.forEach((f) => {
+                            f.completed(new Error(`Channel '${name}' has been closed by remote!`));
+                        });
+                    }
+
+                    me._host.close(name);
+                }
+                break;
+
+            case FRAME_TYPE_CREDIT:
+                me.getState(name, true).credit += body.readUInt32LE(0);
+
+                me.flush();
+                break;
+
+            case FRAME_TYPE_DATA:
+                me._host.data(name, body);
+                break;
+        }
+    }
+
+    /**
+     * Gets if there is data that waits for credit from the remote.
+     */
+    public get isWaiting(): boolean {
+        return this._states.some((s) => {
+            return s.queue.length > 0 &&
+                   !s.queue[0].isClosing &&
+                   s.credit <= 0;
+        });
+    }
+
+    /**
+     * Returns the next data frame to send.
+     * 
+     * @return {ChannelFrame} The frame or (undefined) if there is nothing to send.
+     */
+    protected nextDataFrame(): ChannelFrame {
+        let states = this._states;
+
+        for (let i = 0; i < states.length; i++) {
+            let index = (this._nextChannel + i) % states.length;
+            let state = states[index];
+
+            if (state.queue.length < 1) {
+                continue;
+            }
+
+            let frame = state.queue[0];
+            if (frame.isClosing) {
+                this.removeState(state);
+                this._nextChannel = index;
+            }
+            else if (state.credit > 0) {
+                // the last frame can exceed the window
+                state.credit -= frame.size;
+
+                this._nextChannel = index + 1;
+            }
+            else {
+                continue;  // wait for credit
+            }
+
+            state.queue.shift();
+            return frame;
+        }
+    }
+
+    /**
+     * Opens a channel.
+     * 
+     * @param {string} name The name of the channel.
+     * @param {number} windowSize The number of bytes, the remote can send before the data is read.
+     */
+    public open(name: string, windowSize: number) {
+        if (Buffer.byteLength(name, 'utf8') > MAX_NAME_SIZE) {
+            throw new Error('Channel name is too long!');
+        }
+
+        let state = this.getState(name, true);
+        if (state.isOpen) {
+            return;
+        }
+
+        state.isOpen = true;
+        state.windowSize = Math.max(windowSize, INITIAL_WINDOW_SIZE);
+
+        this.grant(state, state.windowSize - INITIAL_WINDOW_SIZE);
+    }
+
+    /**
+     * Requests frames from the remote.
+     */
+    public receive() {
+        this._host.receive();
+    }
+
+    /**
+     * Removes the state of a channel.
+     * 
+     * @param {ChannelState} state The state to remove.
+     */
+    protected removeState(state: ChannelState) {
+        let index = this._states.indexOf(state);
+        if (index > -1) {
+            this._states.splice(index, 1);
+        }
+    }
+
+    /**
+     * Sends data on a channel.
+     * 
+     * @param {string} name The name of the channel.
+     * @param {Buffer} data The data to send.
+     * 
+     * @return {Promise<any>} The promise with the result of the underlying host.
+     */
+    public send(name: string, data: Buffer): Promise<any> {
+        let me = this;
+
+        return new Promise<any>((resolve, reject) => {
+            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            let state = me.getState(name);
+            if (!state || !state.isOpen) {
+                completed(new Error(`Channel '${name}' is not open!`));
+                return;
+            }
+
+            state.queue.push({
+                completed: completed,
+                data: createFrame(FRAME_TYPE_DATA, name, data),
+                size: data.length,
+            });
+
+            me.flush();
+        });
+    }
+}
+
+
+function createFrame(type: number, name: string, body?: Buffer): Buffer {
+    let nameData = Buffer.from(name, 'utf8');
+
+    let header = Buffer.alloc(3);
+    header.writeUInt8(type, 0);
+    header.writeUInt16LE(nameData.length, 1);
+
+    return Buffer.concat([ header, nameData, body || Buffer.alloc(0) ]);
+}
@@ -0,0 +1,212 @@
+/// <reference types="node" />
+/**
+ * A compression codec.
+ */
+export interface Codec {
+    /**
+     * Compresses data.
+     *
+     * @param {Buffer} data The data to compress.
+     * @param {number} [level] The custom compression level.
+     *
+     * @return {Promise<Buffer>} The promise with the compressed data.
+     */
+    compress: (data: Buffer, level?: number) => Promise<Buffer>;
+    /**
+     * Creates a context for compressing data, which is kept between packages (optional).
+     *
+     * @param {number} [level] The custom compression level.
+     * @param {Buffer} [dictionary] The preset dictionary.
+     *
+     * @return {CodecContext} The new context.
+     */
+    createCompressContext?: (level?: number, dictionary?: Buffer) => CodecContext;
+    /**
+     * Creates a context for decompressing data, which is kept between packages (optional).
+     *
+     * @param {Buffer} [dictionary] The preset dictionary.
+     *
+     * @return {CodecContext} The new context.
+     */
+    createDecompressContext?: (dictionary?: Buffer) => CodecContext;
+    /**
+     * Decompresses data.
+     *
+     * @param {Buffer} data The data to decompress.
+     *
+     * @return {Promise<Buffer>} The promise with the uncompressed data.
+     */
+    decompress: (data: Buffer) => Promise<Buffer>;
+    /**
+     * The ID, which is sent in the header of a package (1 - 255).
+     */
+    id: number;
+    /**
+     * The (unique) name, like 'gzip'.
+     */
+    name: string;
+    /**
+     * Indicates if the context of the codec uses the preset dictionary or not.
+     */
+    supportsDictionary?: boolean;
+}
+/**
+ * A context of a codec, which keeps its state between packages.
+ */
+export interface CodecContext {
+    /**
+     * Frees the resources of the context.
+     */
+    close: () => void;
+    /**
+     * Processes the data of a package and returns all of its output.
+     *
+     * @param {Buffer} data The data to process.
+     *
+     * @return {Promise<Buffer>} The promise with the output.
+     */
+    process: (data: Buffer) => Promise<Buffer>;
+}
+/**
+ * The output of a 'CompressionContext'.
+ */
+export interface CompressionContextOutput {
+    /**
+     * The processed data.
+     */
+    data: Buffer;
+    /**
+     * A new context has been started for that data or not.
+     */
+    isReset: boolean;
+}
+/**
+ * Statistics about the compression of a package.
+ */
+export interface CompressionStats {
+    /**
+     * The name of the codec.
+     */
+    codec: string;
+    /**
+     * The size of the compressed data.
+     */
+    compressedSize: number;
+    /**
+     * The content type of the data (if known).
+     */
+    contentType?: string;
+    /**
+     * The time in milliseconds, the compression took.
+     */
+    duration: number;
+    /**
+     * The compressed data is sent or not.
+     */
+    isCompressed: boolean;
+    /**
+     * The ratio of compressed size to uncompressed size, like 0.25.
+     */
+    ratio: number;
+    /**
+     * The size of the uncompressed data.
+     */
+    uncompressedSize: number;
+}
+/**
+ * A context of a codec, which processes the data of packages one after another
+ * and is kept, until it is reset.
+ */
+export declare class CompressionContext {
+    /**
+     * Stores the current context of the codec.
+     */
+    protected _context: CodecContext;
+    /**
+     * Stores the function, which creates a new context of the codec.
+     */
+    protected _factory: () => CodecContext;
+    /**
+     * Stores if a new context has to be started or not.
+     */
+    protected _isResetRequired: boolean;
+    /**
+     * Stores the promise of the last operation.
+     */
+    protected _queue: Promise<any>;
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {Function} factory The function, which creates a new context of the codec.
+     */
+    constructor(factory: () => CodecContext);
+    /**
+     * Closes the current context of the codec.
+     */
+    protected closeContext(): void;
+    /**
+     * Frees the resources.
+     */
+    dispose(): void;
+    /**
+     * Processes the data of a package, after all data, which has been submitted before.
+     *
+     * @param {Buffer} data The data to process.
+     * @param {boolean} [reset] Start a new context for that data or not.
+     *
+     * @return {Promise<CompressionContextOutput>} The promise.
+     */
+    process(data: Buffer, reset?: boolean): Promise<CompressionContextOutput>;
+    /**
+     * Starts a new context with the next data.
+     */
+    reset(): void;
+}
+/**
+ * Detects the content type of data by its first bytes.
+ *
+ * @param {Buffer} data The data.
+ *
+ * @return {string} The content type or (undefined) if unknown.
+ */
+export declare function detectContentType(data: Buffer): string;
+/**
+ * Returns a registered codec.
+ *
+ * @param {string|number} nameOrId The name or the ID of the codec.
+ *
+ * @return {Codec} The codec or (undefined) if not found.
+ */
+export declare function getCodec(nameOrId: string | number): Codec;
+/**
+ * Returns the names of all registered codecs.
+ *
+ * @return {string[]} The list of names.
+ */
+export declare function getCodecNames(): string[];
+/**
+ * Returns the content type of a file by its extension.
+ *
+ * @param {string} path The path of the file.
+ *
+ * @return {string} The content type or (undefined) if unknown.
+ */
+export declare function getContentTypeByExtension(path: string): string;
+/**
+ * Checks if a content type matches one of a list of patterns,
+ * like 'image/png' or 'image/*'.
+ *
+ * @param {string} contentType The content type.
+ * @param {string[]} patterns The patterns.
+ *
+ * @return {boolean} Does match or not.
+ */
+export declare function isContentTypeMatching(contentType: string, patterns: string[]): boolean;
+/**
+ * Registers a codec.
+ *
+ * A codec with the same name is replaced.
+ *
+ * @param {Codec} codec The codec to register.
+ */
+export declare function registerCodec(codec: Codec): void;
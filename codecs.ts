@@ -0,0 +1,602 @@
+/// <reference types="node" />
+
+// The MIT License (MIT)
+// 
+// node-simple-socket (https://github.com/mkloubert/node-simple-socket)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+import * as Path from 'path';
+import * as ssocket_compat from './compat';
+import * as ssocket_helpers from './helpers';
+import * as ZLib from 'zlib';
+
+
+/**
+ * A compression codec.
+ */
+export interface Codec {
+    /**
+     * Compresses data.
+     * 
+     * @param {Buffer} data The data to compress.
+     * @param {number} [level] The custom compression level.
+     * 
+     * @return {Promise<Buffer>} The promise with the compressed data.
+     */
+    compress: (data: Buffer, level?: number) => Promise<Buffer>;
+    /**
+     * Creates a context for compressing data, which is kept between packages (optional).
+     * 
+     * @param {number} [level] The custom compression level.
+     * @param {Buffer} [dictionary] The preset dictionary.
+     * 
+     * @return {CodecContext} The new context.
+     */
+    createCompressContext?: (level?: number, dictionary?: Buffer) => CodecContext;
+    /**
+     * Creates a context for decompressing data, which is kept between packages (optional).
+     * 
+     * @param {Buffer} [dictionary] The preset dictionary.
+     * 
+     * @return {CodecContext} The new context.
+     */
+    createDecompressContext?: (dictionary?: Buffer) => CodecContext;
+    /**
+     * Decompresses data.
+     * 
+     * @param {Buffer} data The data to decompress.
+     * 
+     * @return {Promise<Buffer>} The promise with the uncompressed data.
+     */
+    decompress: (data: Buffer) => Promise<Buffer>;
+    /**
+     * The ID, which is sent in the header of a package (1 - 255).
+     */
+    id: number;
+    /**
+     * The (unique) name, like 'gzip'.
+     */
+    name: string;
+    /**
+     * Indicates if the context of the codec uses the preset dictionary or not.
+     */
+    supportsDictionary?: boolean;
+}
+
+/**
+ * A context of a codec, which keeps its state between packages.
+ */
+export interface CodecContext {
+    /**
+     * Frees the resources of the context.
+     */
+    close: () => void;
+    /**
+     * Processes the data of a package and returns all of its output.
+     * 
+     * @param {Buffer} data The data to process.
+     * 
+     * @return {Promise<Buffer>} The promise with the output.
+     */
+    process: (data: Buffer) => Promise<Buffer>;
+}
+
+/**
+ * The output of a 'CompressionContext'.
+ */
+export interface CompressionContextOutput {
+    /**
+     * The processed data.
+     */
+    data: Buffer;
+    /**
+     * A new context has been started for that data or not.
+     */
+    isReset: boolean;
+}
+
+/**
+ * Statistics about the compression of a package.
+ */
+export interface CompressionStats {
+    /**
+     * The name of the codec.
+     */
+    codec: string;
+    /**
+     * The size of the compressed data.
+     */
+    compressedSize: number;
+    /**
+     * The content type of the data (if known).
+     */
+    contentType?: string;
+    /**
+     * The time in milliseconds, the compression took.
+     */
+    duration: number;
+    /**
+     * The compressed data is sent or not.
+     */
+    isCompressed: boolean;
+    /**
+     * The ratio of compressed size to uncompressed size, like 0.25.
+     */
+    ratio: number;
+    /**
+     * The size of the uncompressed data.
+     */
+    uncompressedSize: number;
+}
+
+
+/**
+ * Stores the registered codecs.
+ */
+const CODECS: Codec[] = [];
+/**
+ * Content types by file extensions.
+ */
+const CONTENT_TYPES_BY_EXTENSION: { [ext: string]: string } = {
+    '.7z': 'application/x-7z-compressed',
+    '.avi': 'video/x-msvideo',
+    '.br': 'application/x-brotli',
+    '.bz2': 'application/x-bzip2',
+    '.css': 'text/css',
+    '.csv': 'text/csv',
+    '.docx': 'application/zip',
+    '.gif': 'image/gif',
+    '.gz': 'application/gzip',
+    '.htm': 'text/html',
+    '.html': 'text/html',
+    '.jar': 'application/zip',
+    '.jpeg': 'image/jpeg',
+    '.jpg': 'image/jpeg',
+    '.js': 'application/javascript',
+    '.json': 'application/json',
+    '.mkv': 'video/x-matroska',
+    '.mov': 'video/quicktime',
+    '.mp3': 'audio/mpeg',
+    '.mp4': 'video/mp4',
+    '.ogg': 'audio/ogg',
+    '.pdf': 'application/pdf',
+    '.png': 'image/png',
+    '.rar': 'application/vnd.rar',
+    '.svg': 'image/svg+xml',
+    '.tgz': 'application/gzip',
+    '.txt': 'text/plain',
+    '.webm': 'video/webm',
+    '.webp': 'image/webp',
+    '.xlsx': 'application/zip',
+    '.xml': 'application/xml',
+    '.xz': 'application/x-xz',
+    '.zip': 'application/zip',
+    '.zst': 'application/zstd',
+};
+/**
+ * Content types by the first bytes of data.
+ */
+const MAGIC_NUMBERS: { contentType: string, offset: number, signature: number[] }[] = [
+    { contentType: 'application/gzip', offset: 0, signature: [ 0x1F, 0x8B ] },
+    { contentType: 'application/pdf', offset: 0, signature: [ 0x25, 0x50, 0x44, 0x46 ] },
+    { contentType: 'application/vnd.rar', offset: 0, signature: [ 0x52, 0x61, 0x72, 0x21, 0x1A, 0x07 ] },
+    { contentType: 'application/x-7z-compressed', offset: 0, signature: [ 0x37, 0x7A, 0xBC, 0xAF, 0x27, 0x1C ] },
+    { contentType: 'application/x-bzip2', offset: 0, signature: [ 0x42, 0x5A, 0x68 ] },
+    { contentType: 'application/x-xz', offset: 0, signature: [ 0xFD, 0x37, 0x7A, 0x58, 0x5A, 0x00 ] },
+    { contentType: 'application/zip', offset: 0, signature: [ 0x50, 0x4B, 0x03, 0x04 ] },
+    { contentType: 'application/zstd', offset: 0, signature: [ 0x28, 0xB5, 0x2F, 0xFD ] },
+    { contentType: 'audio/mpeg', offset: 0, signature: [ 0x49, 0x44, 0x33 ] },
+    { contentType: 'audio/ogg', offset: 0, signature: [ 0x4F, 0x67, 0x67, 0x53 ] },
+    { contentType: 'image/gif', offset: 0, signature: [ 0x47, 0x49, 0x46, 0x38 ] },
+    { contentType: 'image/jpeg', offset: 0, signature: [ 0xFF, 0xD8, 0xFF ] },
+    { contentType: 'image/png', offset: 0, signature: [ 0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A ] },
+    { contentType: 'image/webp', offset: 8, signature: [ 0x57, 0x45, 0x42, 0x50 ] },
+    { contentType: 'video/mp4', offset: 4, signature: [ 0x66, 0x74, 0x79, 0x70 ] },
+    { contentType: 'video/webm', offset: 0, signature: [ 0x1A, 0x45, 0xDF, 0xA3 ] },
+];
+
+
+/**
+ * A context of a codec, which processes the data of packages one after another
+ * and is kept, until it is reset.
+ */
+export class CompressionContext {
+    /**
+     * Stores the current context of the codec.
+     */
+    protected _context: CodecContext;
+    /**
+     * Stores the function, which creates a new context of the codec.
+     */
+    protected _factory: () => CodecContext;
+    /**
+     * Stores if a new context has to be started or not.
+     */
+    protected _isResetRequired = true;
+    /**
+     * Stores the promise of the last operation.
+     */
+    protected _queue: Promise<any> = Promise.resolve();
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {Function} factory The function, which creates a new context of the codec.
+     */
+    constructor(factory: () => CodecContext) {
+        this._factory = factory;
+    }
+
+    /**
+     * Closes the current context of the codec.
+     */
+    protected closeContext() {
+        let context = this._context;
+        this._context = null;
+
+        if (context) {
+            try {
+                context.close();
+            }
+            catch (e) { /* ignore */ }
+        }
+    }
+
+    /**
+     * Frees the resources.
+     */
+    public dispose() {
+        this._isResetRequired = true;
+
+        this.closeContext();
+    }
+
+    /**
+     * Processes the data of a package, after all data, which has been submitted before.
+     * 
+     * @param {Buffer} data The data to process.
+     * @param {boolean} [reset] Start a new context for that data or not.
+     * 
+     * @return {Promise<CompressionContextOutput>} The promise.
+     */
+    public process(data: Buffer, reset = false): Promise<CompressionContextOutput> {
+        let me = this;
+
+        let result = me._queue.then(() => {
+            let isReset = reset || me._isResetRequired;
+            if (isReset) {
+                me.closeContext();
+
+                me._context = me._factory();
+                me._isResetRequired = false;
+            }
+
+            return me._context.process(data).then((output) => {
+                return {
+                    data: output,
+                    isReset: isReset,
+                };
+            });
+        });
+
+        me._queue = result.then(() => { }, () => {
+            me._isResetRequired = true;  // state of context is unknown
+        });
+
+        return result;
+    }
+
+    /**
+     * Starts a new context with the next data.
+     */
+    public reset() {
+        this._isResetRequired = true;
+    }
+}
+
+
+/**
+ * Detects the content type of data by its first bytes.
+ * 
+ * @param {Buffer} data The data.
+ * 
+ * @return {string} The content type or (undefined) if unknown.
+ */
+export function detectContentType(data: Buffer): string {
+    if (!data) {
+        return;
+    }
+
+    for (let i = 0; i < MAGIC_NUMBERS.length; i++) {
+        let magic = MAGIC_NUMBERS[i];
+
+        if (data.length < (magic.offset + magic.signature.length)) {
+            continue;
+        }
+
+        let isMatching = magic.signature.every((b, index) => {
+            return data[magic.offset + index] === b;
+        });
+
+        if (isMatching) {
+            return magic.contentType;
+        }
+    }
+}
+
+/**
+ * Returns a registered codec.
+ * 
+ * @param {string|number} nameOrId The name or the ID of the codec.
+ * 
+ * @return {Codec} The codec or (undefined) if not found.
+ */
+export function getCodec(nameOrId: string | number): Codec {
+    let byId = 'number' === typeof nameOrId;
+    let name = ssocket_helpers.normalizeString(nameOrId);
+
+    return CODECS.filter((c) => {
+        return byId ? c.id === nameOrId
+                    : c.name === name;
+    })[0];
+}
+
+/**
+ * Returns the names of all registered codecs.
+ * 
+ * @return {string[]} The list of names.
+ */
+export function getCodecNames(): string[] {
+    return CODECS.map((c) => c.name);
+}
+
+/**
+ * Returns the content type of a file by its extension.
+ * 
+ * @param {string} path The path of the file.
+ * 
+ * @return {string} The content type or (undefined) if unknown.
+ */
+export function getContentTypeByExtension(path: string): string {
+    let ext = ssocket_helpers.normalizeString(Path.extname(ssocket_helpers.toStringSafe(path)));
+
+    if (CONTENT_TYPES_BY_EXTENSION.hasOwnProperty(ext)) {
+        return CONTENT_TYPES_BY_EXTENSION[ext];
+    }
+}
+
+/**
+ * Checks if a content type matches one of a list of patterns,
+ * like 'image/png' or 'image/*'.
+ * 
+ * @param {string} contentType The content type.
+ * @param {string[]} patterns The patterns.
+ * 
+ * @return {boolean} Does match or not.
+ */
+export function isContentTypeMatching(contentType: string, patterns: string[]): boolean {
+    contentType = ssocket_helpers.normalizeString(contentType);
+    if ('' === contentType || !patterns) {
+        return false;
+    }
+
+    // remove parameters, like '; charset=utf-8'
+    contentType = contentType.split(';')[0].trim();
+
+    return patterns.map((p) => ssocket_helpers.normalizeString(p)).some((p) => {
+        if ('*' === p || '*/*' === p) {
+            return true;
+        }
+
+        if (/\/\*$/.test(p)) {
+            return 0 === contentType.indexOf(p.substr(0, p.length - 1));
+        }
+
+        return contentType === p;
+    });
+}
+
+/**
+ * Registers a codec.
+ * 
+ * A codec with the same name is replaced.
+ * 
+ * @param {Codec} codec The codec to register.
+ */
+export function registerCodec(codec: Codec) {
+    let name = ssocket_helpers.normalizeString(codec.name);
+    if ('' === name) {
+        throw new Error('Codec has no name!');
+    }
+
+    let id = codec.id;
+    if ('none' !== name && (id !== Math.floor(id) || id < 1 || id > 255)) {
+        throw new Error(`Invalid ID ${id} for codec '${name}'!`);
+    }
+
+    let index = -1;
+    for (let i = 0; i < CODECS.length; i++) {
+        if (CODECS[i].name === name) {
+            index = i;
+        }
+        else if (CODECS[i].id === id) {
+            throw new Error(`ID ${id} is already used by codec '${CODECS[i].name}'!`);
+        }
+    }
+
+    let newCodec: Codec = {
+        compress: codec.compress,
+        createCompressContext: codec.createCompressContext,
+        createDecompressContext: codec.createDecompressContext,
+        decompress: codec.decompress,
+        id: id,
+        name: name,
+        supportsDictionary: codec.supportsDictionary,
+    };
+
+    if (index > -1) {
+        CODECS[index] = newCodec;
+    }
+    else {
+        CODECS.push(newCodec);
+    }
+}
+
+
+function createZLibContext(stream: ssocket_compat.ZLibStream, flushKind: number): CodecContext {
+    return {
+        close: () => {
+            stream.close();
+        },
+        process: (data) => {
+            return new Promise<Buffer>((resolve, reject) => {
+                let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+
+                let chunks: Buffer[] = [];
+
+                let onData = (chunk: Buffer) => {
+                    chunks.push(chunk);
+                };
+
+                let onError = (err: any) => {
+                    stream.removeListener('data', onData);
+
+                    completed(err);
+                };
+
+                try {
+                    stream.on('data', onData);
+                    stream.once('error', onError);
+
+                    stream.write(data);
+                    stream.flush(flushKind, () => {
+                        stream.removeListener('data', onData);
+                        stream.removeListener('error', onError);
+
+                        completed(null, Buffer.concat(chunks));
+                    });
+                }
+                catch (e) {
+                    stream.removeListener('data', onData);
+                    stream.removeListener('error', onError);
+
+                    completed(e);
+                }
+            });
+        },
+    };
+}
+
+function createZLibCodec(id: number, name: string,
+                         compress: Function, decompress: Function,
+                         toOptions: (level: number) => any): Codec {
+    let invoke = (func: Function, data: Buffer, opts: any) => {
+        return new Promise<Buffer>((resolve, reject) => {
+            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            try {
+                func(data, opts || {}, (err: any, result: Buffer) => {
+                    completed(err, result);
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    };
+
+    return {
+        compress: (data, level?) => {
+            let opts: any;
+            if (!ssocket_helpers.isNullOrUndefined(level)) {
+                opts = toOptions(level);
+            }
+
+            return invoke(compress, data, opts);
+        },
+        decompress: (data) => {
+            return invoke(decompress, data, null);
+        },
+        id: id,
+        name: name,
+    };
+}
+
+
+let zlib = ssocket_compat.zlib;
+
+registerCodec({
+    compress: (data) => Promise.resolve(data),
+    decompress: (data) => Promise.resolve(data),
+    id: 0,
+    name: 'none',
+});
+registerCodec(createZLibCodec(1, 'gzip', ZLib.gzip, ZLib.gunzip, (level) => {
+    return { level: level };
+}));
+
+let deflate = createZLibCodec(2, 'deflate', ZLib.deflate, ZLib.inflate, (level) => {
+    return { level: level };
+});
+deflate.createCompressContext = (level?, dictionary?) => {
+    let opts: ZLib.ZlibOptions = {};
+    if (!ssocket_helpers.isNullOrUndefined(level)) {
+        opts.level = level;
+    }
+    if (dictionary) {
+        opts.dictionary = dictionary;
+    }
+
+    return createZLibContext(zlib.createDeflate(opts), zlib.constants.Z_SYNC_FLUSH);
+};
+deflate.createDecompressContext = (dictionary?) => {
+    let opts: ZLib.ZlibOptions = {};
+    if (dictionary) {
+        opts.dictionary = dictionary;
+    }
+
+    return createZLibContext(zlib.createInflate(opts), zlib.constants.Z_SYNC_FLUSH);
+};
+deflate.supportsDictionary = true;
+registerCodec(deflate);
+
+if (zlib.brotliCompress) {
+    // Node.js 11.7+
+    let brotli = createZLibCodec(3, 'brotli', zlib.brotliCompress, zlib.brotliDecompress, (level) => {
+        let params: { [param: number]: number } = {};
+        params[zlib.constants.BROTLI_PARAM_QUALITY] = level;
+
+        return { params: params };
+    });
+    // Node.js does not support preset dictionaries for brotli
+    brotli.createCompressContext = (level?) => {
+        let params: { [param: number]: number } = {};
+        if (!ssocket_helpers.isNullOrUndefined(level)) {
+            params[zlib.constants.BROTLI_PARAM_QUALITY] = level;
+        }
+
+        return createZLibContext(zlib.createBrotliCompress({ params: params }), zlib.constants.BROTLI_OPERATION_FLUSH);
+    };
+    brotli.createDecompressContext = () => {
+        return createZLibContext(zlib.createBrotliDecompress(), zlib.constants.BROTLI_OPERATION_FLUSH);
+    };
+    registerCodec(brotli);
+}
@@ -0,0 +1,188 @@
+/// <reference types="node" />
+import * as Crypto from 'crypto';
+import * as Stream from 'stream';
+import * as ZLib from 'zlib';
+/**
+ * Options for an AEAD cipher.
+ */
+export interface AEADCipherOptions {
+    /**
+     * The size of the authentication tag, in bytes.
+     */
+    authTagLength: number;
+}
+/**
+ * Options for a brotli stream.
+ */
+export interface BrotliOptions {
+    /**
+     * The parameters, by 'BROTLI_PARAM_*' constant.
+     */
+    params?: {
+        [param: number]: number;
+    };
+}
+/**
+ * The 'crypto' module.
+ */
+export interface CryptoModule {
+    /**
+     * Creates a cipher.
+     */
+    createCipheriv: (algorithm: string, key: Buffer, iv: Buffer, options?: AEADCipherOptions) => Crypto.Cipher;
+    /**
+     * Creates a decipher.
+     */
+    createDecipheriv: (algorithm: string, key: Buffer, iv: Buffer, options?: AEADCipherOptions) => Crypto.Decipher;
+    /**
+     * Creates a private key object (Node.js 11.6+).
+     */
+    createPrivateKey?: (key: any) => KeyObject;
+    /**
+     * Creates a public key object (Node.js 11.6+).
+     */
+    createPublicKey?: (key: any) => KeyObject;
+    /**
+     * Computes a shared secret (Node.js 13.9+).
+     */
+    diffieHellman?: (options: {
+        privateKey: KeyObject;
+        publicKey: KeyObject;
+    }) => Buffer;
+    /**
+     * Generates a key pair (Node.js 10.12+).
+     */
+    generateKeyPairSync?: (type: string) => KeyPair;
+    /**
+     * Signs data (Node.js 12+).
+     */
+    sign?: (algorithm: string, data: Buffer, key: KeyObject) => Buffer;
+    /**
+     * Verifies a signature (Node.js 12+).
+     */
+    verify?: (algorithm: string, data: Buffer, key: KeyObject, signature: Buffer) => boolean;
+}
+/**
+ * Options for exporting a key object.
+ */
+export interface KeyExportOptions {
+    /**
+     * The format, like 'der' or 'pem'.
+     */
+    format: string;
+    /**
+     * The type, like 'spki'.
+     */
+    type: string;
+}
+/**
+ * A key object.
+ */
+export interface KeyObject {
+    /**
+     * The type of an asymmetric key, like 'ed25519' or 'rsa'.
+     */
+    asymmetricKeyType?: string;
+    /**
+     * Exports the key.
+     *
+     * @param {KeyExportOptions} options The options.
+     *
+     * @return {Buffer} The exported key.
+     */
+    export: (options: KeyExportOptions) => Buffer;
+    /**
+     * The type, like 'private' or 'public'.
+     */
+    type: string;
+}
+/**
+ * A key pair.
+ */
+export interface KeyPair {
+    /**
+     * The private key.
+     */
+    privateKey: KeyObject;
+    /**
+     * The public key.
+     */
+    publicKey: KeyObject;
+}
+/**
+ * The 'zlib' module.
+ */
+export interface ZLibModule {
+    /**
+     * Compresses data with brotli (Node.js 11.7+).
+     */
+    brotliCompress?: (data: Buffer, options: BrotliOptions, callback: (err: any, result: Buffer) => void) => void;
+    /**
+     * Decompresses brotli data (Node.js 11.7+).
+     */
+    brotliDecompress?: (data: Buffer, options: BrotliOptions, callback: (err: any, result: Buffer) => void) => void;
+    /**
+     * The constants (Node.js 7+).
+     */
+    constants: {
+        BROTLI_OPERATION_FLUSH?: number;
+        BROTLI_PARAM_QUALITY?: number;
+        Z_SYNC_FLUSH: number;
+    };
+    /**
+     * Creates a brotli compression stream (Node.js 11.7+).
+     */
+    createBrotliCompress?: (options?: BrotliOptions) => ZLibStream;
+    /**
+     * Creates a brotli decompression stream (Node.js 11.7+).
+     */
+    createBrotliDecompress?: () => ZLibStream;
+    /**
+     * Creates a deflate stream.
+     */
+    createDeflate: (options?: ZLib.ZlibOptions) => ZLibStream;
+    /**
+     * Creates an inflate stream.
+     */
+    createInflate: (options?: ZLib.ZlibOptions) => ZLibStream;
+}
+/**
+ * A zlib / brotli stream.
+ */
+export interface ZLibStream extends Stream.Transform {
+    /**
+     * Closes the stream.
+     */
+    close: () => void;
+    /**
+     * Flushes pending data.
+     *
+     * @param {number} kind The flush mode.
+     * @param {Function} callback The callback.
+     */
+    flush: (kind: number, callback: () => void) => void;
+}
+/**
+ * The symbol for async iterators.
+ */
+export declare const asyncIterator: symbol;
+/**
+ * The 'BigInt()' function or (undefined), if not supported.
+ */
+export declare const bigInt: (value: number | string) => any;
+/**
+ * The 'BigInt64Array' class or (undefined), if not supported.
+ */
+export declare const bigInt64Array: Function;
+/**
+ * The 'BigUint64Array' class or (undefined), if not supported.
+ */
+export declare const bigUint64Array: Function;
+/**
+ * The 'crypto' module.
+ */
+export declare const crypto: CryptoModule;
+/**
+ * The 'zlib' module.
+ */
+export declare const zlib: ZLibModule;
@@ -0,0 +1,53 @@
+/// <reference types="node" />
+"use strict";
+// The MIT License (MIT)
+// 
+// node-simple-socket (https://github.com/mkloubert/node-simple-socket)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+// typed access to APIs of newer Node.js versions,
+// which are not part of the type definitions of Node.js 6
+const Crypto = require('crypto');
+const ZLib = require('zlib');
+/**
+ * The symbol for async iterators.
+ */
+exports.asyncIterator = Symbol.asyncIterator || Symbol.for('Symbol.asyncIterator');
+/**
+ * The 'BigInt()' function or (undefined), if not supported.
+ */
+exports.bigInt = global.BigInt;
+/**
+ * The 'BigInt64Array' class or (undefined), if not supported.
+ */
+exports.bigInt64Array = global.BigInt64Array;
+/**
+ * The 'BigUint64Array' class or (undefined), if not supported.
+ */
+exports.bigUint64Array = global.BigUint64Array;
+/**
+ * The 'crypto' module.
+ */
+exports.crypto = Crypto;
+/**
+ * The 'zlib' module.
+ */
+exports.zlib = ZLib;
+//# sourceMappingURL=compat.js.map
\ No newline at end of file
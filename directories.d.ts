@@ -0,0 +1,118 @@
+/// <reference types="node" />
+/**
+ * An entry of a directory tree.
+ */
+export interface DirectoryEntry {
+    /**
+     * The mode (permissions).
+     */
+    mode: number;
+    /**
+     * The time of the last modification (UNIX timestamp in milliseconds).
+     */
+    mtime: number;
+    /**
+     * The path, relative to the root directory, with '/' as separator.
+     */
+    path: string;
+    /**
+     * The size in bytes (files only).
+     */
+    size: number;
+    /**
+     * The target of a symbolic link.
+     */
+    target?: string;
+    /**
+     * The type.
+     */
+    type: DirectoryEntryType;
+}
+/**
+ * List of types of a directory entry.
+ */
+export declare type DirectoryEntryType = 'directory' | 'file' | 'symlink';
+/**
+ * A filter for directory entries, which can be a glob pattern, like '*.txt' or 'src/**',
+ * a regular expression, that is tested with the relative path, or a function.
+ */
+export declare type DirectoryFilter = string | RegExp | ((entry: DirectoryEntry) => boolean);
+/**
+ * Options for scanning a directory tree.
+ */
+export interface ScanOptions {
+    /**
+     * Send empty directories or not. Default: (true)
+     */
+    emptyDirectories?: boolean;
+    /**
+     * One or more filters for entries, which should NOT be sent.
+     * An excluded directory is not scanned.
+     */
+    exclude?: DirectoryFilter | DirectoryFilter[];
+    /**
+     * One or more filters for files and symbolic links, which should be sent.
+     * If not defined, all are sent.
+     */
+    include?: DirectoryFilter | DirectoryFilter[];
+    /**
+     * Describes how to handle symbolic links. Default: 'preserve'
+     */
+    symlinks?: SymlinkPolicy;
+}
+/**
+ * List of ways to handle symbolic links.
+ *
+ * 'follow': send the entry, a link points to
+ * 'preserve': send the link itself
+ * 'skip': ignore links
+ */
+export declare type SymlinkPolicy = 'follow' | 'preserve' | 'skip';
+/**
+ * Checks the entries of a received directory tree.
+ *
+ * @param {any} entries The entries to check.
+ *
+ * @return {DirectoryEntry[]} The checked entries.
+ *
+ * @throws Invalid entry.
+ */
+export declare function checkEntries(entries: any): DirectoryEntry[];
+/**
+ * Checks that no existing parent directory of an entry, below the root directory,
+ * is a symbolic link, like one of a previous transfer.
+ *
+ * @param {string} root The root directory.
+ * @param {DirectoryEntry} entry The entry.
+ *
+ * @return {Promise<any>} The promise.
+ */
+export declare function checkParents(root: string, entry: DirectoryEntry): Promise<any>;
+/**
+ * Creates a directory and its parents, if needed.
+ *
+ * @param {string} dir The path of the directory.
+ *
+ * @return {Promise<any>} The promise.
+ */
+export declare function makeDirectory(dir: string): Promise<any>;
+/**
+ * Scans a directory tree.
+ *
+ * A directory is always listed before its content.
+ *
+ * @param {string} root The path of the root directory.
+ * @param {ScanOptions} [opts] Additional options.
+ *
+ * @return {Promise<DirectoryEntry[]>} The promise with the entries.
+ */
+export declare function scanDirectory(root: string, opts?: ScanOptions): Promise<DirectoryEntry[]>;
+/**
+ * Returns the full path of a directory entry.
+ *
+ * @param {string} root The path of the root directory.
+ * @param {DirectoryEntry} entry The entry.
+ *
+ * @return {string} The full path.
+ */
+export declare function toFullPath(root: string, entry: DirectoryEntry): string;
@@ -0,0 +1,545 @@
+/// <reference types="node" />
+
+// The MIT License (MIT)
+// 
+// node-simple-socket (https://github.com/mkloubert/node-simple-socket)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+import * as FS from 'fs';
+import * as Path from 'path';
+import * as ssocket_helpers from './helpers';
+
+
+/**
+ * An entry of a directory tree.
+ */
+export interface DirectoryEntry {
+    /**
+     * The mode (permissions).
+     */
+    mode: number;
+    /**
+     * The time of the last modification (UNIX timestamp in milliseconds).
+     */
+    mtime: number;
+    /**
+     * The path, relative to the root directory, with '/' as separator.
+     */
+    path: string;
+    /**
+     * The size in bytes (files only).
+     */
+    size: number;
+    /**
+     * The target of a symbolic link.
+     */
+    target?: string;
+    /**
+     * The type.
+     */
+    type: DirectoryEntryType;
+}
+
+/**
+ * List of types of a directory entry.
+ */
+export type DirectoryEntryType = 'directory' | 'file' | 'symlink';
+
+/**
+ * A filter for directory entries, which can be a glob pattern, like '*.txt' or 'src/**',
+ * a regular expression, that is tested with the relative path, or a function.
+ */
+export type DirectoryFilter = string | RegExp | ((entry: DirectoryEntry) => boolean);
+
+/**
+ * Options for scanning a directory tree.
+ */
+export interface ScanOptions {
+    /**
+     * Send empty directories or not. Default: (true)
+     */
+    emptyDirectories?: boolean;
+    /**
+     * One or more filters for entries, which should NOT be sent.
+     * An excluded directory is not scanned.
+     */
+    exclude?: DirectoryFilter | DirectoryFilter[];
+    /**
+     * One or more filters for files and symbolic links, which should be sent.
+     * If not defined, all are sent.
+     */
+    include?: DirectoryFilter | DirectoryFilter[];
+    /**
+     * Describes how to handle symbolic links. Default: 'preserve'
+     */
+    symlinks?: SymlinkPolicy;
+}
+
+/**
+ * List of ways to handle symbolic links.
+ * 
+ * 'follow': send the entry, a link points to
+ * 'preserve': send the link itself
+ * 'skip': ignore links
+ */
+export type SymlinkPolicy = 'follow' | 'preserve' | 'skip';
+
+
+/**
+ * Checks the entries of a received directory tree.
+ * 
+ * @param {any} entries The entries to check.
+ * 
+ * @return {DirectoryEntry[]} The checked entries.
+ * 
+ * @throws Invalid entry.
+ */
+export function checkEntries(entries: any): DirectoryEntry[] {
+    if (!Array.isArray(entries)) {
+        throw new Error('Invalid directory tree!');
+    }
+
+    let symlinks: string[] = [];
+
+    return entries.map((e: any) => {
+        if (!e || ['directory', 'file', 'symlink'].indexOf(e.type) < 0) {
+            throw new Error('Invalid directory entry!');
+        }
+
+        let path = normalizeEntryPath(e.path);
+        if (!path) {
+            throw new Error('Invalid path of directory entry: ' + e.path);
+        }
+
+        // nothing may be written through a symbolic link
+        // (case-insensitive, because of file systems like the ones of Windows and macOS)
+        let lowerPath = path.toLowerCase();
+        if (symlinks.some((sl) => 0 === lowerPath.indexOf(sl + '/'))) {
+            throw new Error('Path of directory entry is inside a symbolic link: ' + path);
+        }
+        if (symlinks.indexOf(lowerPath) > -1) {
+            throw new Error('Path of directory entry is a symbolic link: ' + path);
+        }
+
+        let entry: DirectoryEntry = {
+            mode: toNumber(e.mode),
+            mtime: toNumber(e.mtime),
+            path: path,
+            size: toNumber(e.size),
+            type: e.type,
+        };
+
+        if ('symlink' === entry.type) {
+            entry.target = ssocket_helpers.toStringSafe(e.target);
+
+            symlinks.push(lowerPath);
+        }
+
+        return entry;
+    });
+}
+
+/**
+ * Checks that no existing parent directory of an entry, below the root directory,
+ * is a symbolic link, like one of a previous transfer.
+ * 
+ * @param {string} root The root directory.
+ * @param {DirectoryEntry} entry The entry.
+ * 
+ * @return {Promise<any>} The promise.
+ */
+export function checkParents(root: string, entry: DirectoryEntry): Promise<any> {
+    return new Promise<any>((resolve, reject) => {
+        let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+
+        try {
+            let parts = entry.path.split('/');
+            parts.pop();  // the entry itself
+
+            let dir = root;
+
+            let nextPart = () => {
+                if (parts.length < 1) {
+                    completed();
+                    return;
+                }
+
+                dir = Path.join(dir, parts.shift());
+
+                FS.lstat(dir, (err, stats) => {
+                    if (err) {
+                        if ('ENOENT' === err.code) {
+                            completed();  // does not exist, so it is created as directory
+                        }
+                        else {
+                            completed(err);
+                        }
+
+                        return;
+                    }
+
+                    if (stats.isSymbolicLink()) {
+                        completed(new Error('Parent of directory entry is a symbolic link: ' + entry.path));
+                    }
+                    else {
+                        nextPart();
+                    }
+                });
+            };
+
+            nextPart();
+        }
+        catch (e) {
+            completed(e);
+        }
+    });
+}
+
+/**
+ * Creates a directory and its parents, if needed.
+ * 
+ * @param {string} dir The path of the directory.
+ * 
+ * @return {Promise<any>} The promise.
+ */
+export function makeDirectory(dir: string): Promise<any> {
+    return new Promise<any>((resolve, reject) => {
+        let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+
+        try {
+            FS.mkdir(dir, (err) => {
+                if (!err) {
+                    completed();
+                    return;
+                }
+
+                if ('ENOENT' === err.code) {
+                    // create parent first
+                    makeDirectory(Path.dirname(dir)).then(() => {
+                        return makeDirectory(dir);
+                    }).then(() => {
+                        completed();
+                    }, (err) => {
+                        completed(err);
+                    });
+                }
+                else {
+                    FS.stat(dir, (e, stats) => {
+                        if (!e && stats.isDirectory()) {
+                            completed();  // already exists
+                        }
+                        else {
+                            completed(err);
+                        }
+                    });
+                }
+            });
+        }
+        catch (e) {
+            completed(e);
+        }
+    });
+}
+
+/**
+ * Scans a directory tree.
+ * 
+ * A directory is always listed before its content.
+ * 
+ * @param {string} root The path of the root directory.
+ * @param {ScanOptions} [opts] Additional options.
+ * 
+ * @return {Promise<DirectoryEntry[]>} The promise with the entries.
+ */
+export function scanDirectory(root: string, opts?: ScanOptions): Promise<DirectoryEntry[]> {
+    if (!opts) {
+        opts = {};
+    }
+
+    let emptyDirectories = ssocket_helpers.toBooleanSafe(opts.emptyDirectories, true);
+    let exclude = toFilterList(opts.exclude);
+    let include = toFilterList(opts.include);
+
+    let symlinks = ssocket_helpers.normalizeString(opts.symlinks);
+    if (!symlinks) {
+        symlinks = 'preserve';
+    }
+
+    let scan = (dir: string, relativeDir: string, parentDirs: string[]): Promise<DirectoryEntry[]> => {
+        let realDirs: string[];
+
+        return realPath(dir).then((realDir) => {
+            if (parentDirs.indexOf(realDir) > -1) {
+                return [];  // loop of symbolic links
+            }
+            realDirs = parentDirs.concat([ realDir ]);
+
+            return readDirectory(dir);
+        }).then((names) => {
+            let entries: DirectoryEntry[] = [];
+
+            let nextName = (): Promise<DirectoryEntry[]> => {
+                if (names.length < 1) {
+                    return Promise.resolve(entries);
+                }
+
+                let name = names.shift();
+                let fullPath = Path.join(dir, name);
+                let relativePath = relativeDir ? (relativeDir + '/' + name) : name;
+
+                return getStats(fullPath, 'follow' === symlinks).then((stats) => {
+                    if (!stats) {
+                        return;  // broken link
+                    }
+
+                    let entry: DirectoryEntry = {
+                        mode: stats.mode,
+                        mtime: stats.mtime.getTime(),
+                        path: relativePath,
+                        size: 0,
+                        type: null,
+                    };
+
+                    if (stats.isSymbolicLink()) {
+                        if ('skip' === symlinks) {
+                            return;
+                        }
+
+                        entry.type = 'symlink';
+
+                        return readLink(fullPath).then((target) => {
+                            entry.target = target;
+
+                            if (isMatching(entry, include, exclude)) {
+                                entries.push(entry);
+                            }
+                        });
+                    }
+
+                    if (stats.isDirectory()) {
+                        entry.type = 'directory';
+
+                        if (matchesAny(entry, exclude)) {
+                            return;
+                        }
+
+                        return scan(fullPath, relativePath, realDirs).then((subEntries) => {
+                            if (emptyDirectories || subEntries.length > 0) {
+                                entries.push(entry);
+                                entries.push.apply(entries, subEntries);
+                            }
+                        });
+                    }
+
+                    if (stats.isFile()) {
+                        entry.size = stats.size;
+                        entry.type = 'file';
+
+                        if (isMatching(entry, include, exclude)) {
+                            entries.push(entry);
+                        }
+                    }
+
+                    // other types, like sockets, are ignored
+                }).then(() => {
+                    return nextName();
+                });
+            };
+
+            return nextName();
+        });
+    };
+
+    return scan(root, '', []);
+}
+
+/**
+ * Returns the full path of a directory entry.
+ * 
+ * @param {string} root The path of the root directory.
+ * @param {DirectoryEntry} entry The entry.
+ * 
+ * @return {string} The full path.
+ */
+export function toFullPath(root: string, entry: DirectoryEntry): string {
+    return Path.join.apply(null,
+                           [ root ].concat(entry.path.split('/')));
+}
+
+
+function getStats(path: string, followLinks: boolean): Promise<FS.Stats> {
+    return new Promise<FS.Stats>((resolve, reject) => {
+        let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+
+        let callback = (err: any, stats: FS.Stats) => {
+            if (err) {
+                if (followLinks && 'ENOENT' === err.code) {
+                    completed(null, null);  // broken link
+                }
+                else {
+                    completed(err);
+                }
+            }
+            else {
+                completed(null, stats);
+            }
+        };
+
+        if (followLinks) {
+            FS.stat(path, callback);
+        }
+        else {
+            FS.lstat(path, callback);
+        }
+    });
+}
+
+function globToRegExp(pattern: string): RegExp {
+    let regex = '';
+    for (let i = 0; i < pattern.length; i++) {
+        let c = pattern[i];
+
+        if ('*' === c) {
+            if ('*' === pattern[i + 1]) {
+                regex += '.*';
+                ++i;
+
+                if ('/' === pattern[i + 1]) {
+                    regex += '/?';  // '**/' also matches no directory
+                    ++i;
+                }
+            }
+            else {
+                regex += '[^/]*';
+            }
+        }
+        else if ('?' === c) {
+            regex += '[^/]';
+        }
+        else {
+            regex += c.replace(/[\\^$.|+()[\]{}]/g, '\\$&');
+        }
+    }
+
+    return new RegExp('^' + regex + '$');
+}
+
+function isMatching(entry: DirectoryEntry, include: DirectoryFilter[], exclude: DirectoryFilter[]): boolean {
+    if (include.length > 0 && !matchesAny(entry, include)) {
+        return false;
+    }
+
+    return !matchesAny(entry, exclude);
+}
+
+function matchesAny(entry: DirectoryEntry, filters: DirectoryFilter[]): boolean {
+    return filters.some((f) => {
+        if ('function' === typeof f) {
+            return ssocket_helpers.toBooleanSafe((<(entry: DirectoryEntry) => boolean>f)(entry));
+        }
+
+        if (f instanceof RegExp) {
+            return f.test(entry.path);
+        }
+
+        let pattern = ssocket_helpers.toStringSafe(f);
+        if (pattern.indexOf('/') < 0) {
+            // compare with name only
+            return globToRegExp(pattern).test(entry.path.substr(entry.path.lastIndexOf('/') + 1));
+        }
+
+        return globToRegExp(pattern).test(entry.path);
+    });
+}
+
+function normalizeEntryPath(path: any): string {
+    let parts = ssocket_helpers.toStringSafe(path).split('/');
+
+    if (parts.some((p) => '' === p || '.' === p || '..' === p || p.indexOf('\\') > -1 || p.indexOf('\0') > -1)) {
+        return null;  // empty, absolute or outside of root
+    }
+
+    if (/^[a-z]:$/i.test(parts[0])) {
+        return null;  // Windows drive
+    }
+
+    return parts.join('/');
+}
+
+function readDirectory(dir: string): Promise<string[]> {
+    return new Promise<string[]>((resolve, reject) => {
+        FS.readdir(dir, (err, names) => {
+            if (err) {
+                reject(err);
+            }
+            else {
+                resolve(names.sort());
+            }
+        });
+    });
+}
+
+function readLink(path: string): Promise<string> {
+    return new Promise<string>((resolve, reject) => {
+        FS.readlink(path, (err, target) => {
+            if (err) {
+                reject(err);
+            }
+            else {
+                resolve(target);
+            }
+        });
+    });
+}
+
+function realPath(path: string): Promise<string> {
+    return new Promise<string>((resolve, reject) => {
+        FS.realpath(path, (err, resolvedPath) => {
+            if (err) {
+                reject(err);
+            }
+            else {
+                resolve(resolvedPath);
+            }
+        });
+    });
+}
+
+function toFilterList(filters: DirectoryFilter | DirectoryFilter[]): DirectoryFilter[] {
+    if (ssocket_helpers.isNullOrUndefined(filters)) {
+        return [];
+    }
+
+    if (!Array.isArray(filters)) {
+        filters = [ <DirectoryFilter>filters ];
+    }
+
+    return (<DirectoryFilter[]>filters).filter((f) => !ssocket_helpers.isNullOrUndefined(f));
+}
+
+function toNumber(val: any): number {
+    let result = parseInt(ssocket_helpers.toStringSafe(val).trim());
+    if (isNaN(result) || result < 0) {
+        result = 0;
+    }
+
+    return result;
+}
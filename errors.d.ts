@@ -0,0 +1,122 @@
+/// <reference types="node" />
+/**
+ * An error that is thrown if an operation has been aborted.
+ */
+export declare class AbortError extends Error {
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {string} [message] The message.
+     */
+    constructor(message?: string);
+}
+/**
+ * An error that is thrown if a client could not be authenticated.
+ */
+export declare class AuthenticationError extends Error {
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {string} [message] The message.
+     */
+    constructor(message?: string);
+}
+/**
+ * An error that is thrown if the identity of a remote could not be verified.
+ */
+export declare class IdentityError extends Error {
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {string} [message] The message.
+     * @param {string} [fingerprint] The fingerprint of the key, the remote has presented.
+     */
+    constructor(message?: string, fingerprint?: string);
+    /**
+     * The fingerprint of the key, the remote has presented.
+     */
+    fingerprint: string;
+}
+/**
+ * An error that is thrown if the integrity of received data could not be verified,
+ * e.g. because a package has been tampered with.
+ */
+export declare class IntegrityError extends Error {
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {string} [message] The message.
+     */
+    constructor(message?: string);
+}
+/**
+ * An error that has been submitted by the remote,
+ * e.g. by a method that has been called via RPC.
+ */
+export declare class RemoteError extends Error {
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {string} [message] The message.
+     * @param {string} [code] The error code.
+     * @param {any} [data] Additional data.
+     */
+    constructor(message?: string, code?: string, data?: any);
+    /**
+     * The error code.
+     */
+    code: string;
+    /**
+     * Additional data.
+     */
+    data: any;
+}
+/**
+ * An error that is thrown if a received package has been
+ * replayed, reordered or reflected.
+ */
+export declare class ReplayError extends Error {
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {string} [message] The message.
+     * @param {number} [sequence] The sequence number of the package.
+     * @param {number} [expectedSequence] The expected sequence number.
+     */
+    constructor(message?: string, sequence?: number, expectedSequence?: number);
+    /**
+     * The expected sequence number.
+     */
+    expectedSequence: number;
+    /**
+     * The sequence number of the package.
+     */
+    sequence: number;
+}
+/**
+ * An error that is thrown if a value could not be serialized or deserialized.
+ */
+export declare class SerializationError extends Error {
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {string} [message] The message.
+     */
+    constructor(message?: string);
+}
+/**
+ * An error that is thrown if an operation has timed out.
+ */
+export declare class TimeoutError extends Error {
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {string} [message] The message.
+     * @param {number} [timeout] The timeout in milliseconds.
+     */
+    constructor(message?: string, timeout?: number);
+    /**
+     * The timeout in milliseconds.
+     */
+    timeout: number;
+}
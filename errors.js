@@ -0,0 +1,160 @@
+/// <reference types="node" />
+"use strict";
+// The MIT License (MIT)
+// 
+// node-simple-socket (https://github.com/mkloubert/node-simple-socket)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+/**
+ * An error that is thrown if an operation has been aborted.
+ */
+class AbortError extends Error {
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {string} [message] The message.
+     */
+    constructor(message) {
+        super(message);
+        this.name = 'AbortError';
+    }
+}
+exports.AbortError = AbortError;
+/**
+ * An error that is thrown if a client could not be authenticated.
+ */
+class AuthenticationError extends Error {
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {string} [message] The message.
+     */
+    constructor(message) {
+        super(message);
+        this.name = 'AuthenticationError';
+    }
+}
+exports.AuthenticationError = AuthenticationError;
+/**
+ * An error that is thrown if the identity of a remote could not be verified.
+ */
+class IdentityError extends Error {
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {string} [message] The message.
+     * @param {string} [fingerprint] The fingerprint of the key, the remote has presented.
+     */
+    constructor(message, fingerprint) {
+        super(message);
+        this.name = 'IdentityError';
+        this.fingerprint = fingerprint;
+    }
+}
+exports.IdentityError = IdentityError;
+/**
+ * An error that is thrown if the integrity of received data could not be verified,
+ * e.g. because a package has been tampered with.
+ */
+class IntegrityError extends Error {
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {string} [message] The message.
+     */
+    constructor(message) {
+        super(message);
+        this.name = 'IntegrityError';
+    }
+}
+exports.IntegrityError = IntegrityError;
+/**
+ * An error that has been submitted by the remote,
+ * e.g. by a method that has been called via RPC.
+ */
+class RemoteError extends Error {
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {string} [message] The message.
+     * @param {string} [code] The error code.
+     * @param {any} [data] Additional data.
+     */
+    constructor(message, code, data) {
+        super(message);
+        this.name = 'RemoteError';
+        this.code = code;
+        this.data = data;
+    }
+}
+exports.RemoteError = RemoteError;
+/**
+ * An error that is thrown if a received package has been
+ * replayed, reordered or reflected.
+ */
+class ReplayError extends Error {
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {string} [message] The message.
+     * @param {number} [sequence] The sequence number of the package.
+     * @param {number} [expectedSequence] The expected sequence number.
+     */
+    constructor(message, sequence, expectedSequence) {
+        super(message);
+        this.name = 'ReplayError';
+        this.expectedSequence = expectedSequence;
+        this.sequence = sequence;
+    }
+}
+exports.ReplayError = ReplayError;
+/**
+ * An error that is thrown if a value could not be serialized or deserialized.
+ */
+class SerializationError extends Error {
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {string} [message] The message.
+     */
+    constructor(message) {
+        super(message);
+        this.name = 'SerializationError';
+    }
+}
+exports.SerializationError = SerializationError;
+/**
+ * An error that is thrown if an operation has timed out.
+ */
+class TimeoutError extends Error {
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {string} [message] The message.
+     * @param {number} [timeout] The timeout in milliseconds.
+     */
+    constructor(message, timeout) {
+        super(message);
+        this.name = 'TimeoutError';
+        this.timeout = timeout;
+    }
+}
+exports.TimeoutError = TimeoutError;
+//# sourceMappingURL=errors.js.map
\ No newline at end of file
@@ -0,0 +1,196 @@
+/// <reference types="node" />
+
+// The MIT License (MIT)
+// 
+// node-simple-socket (https://github.com/mkloubert/node-simple-socket)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+
+/**
+ * An error that is thrown if an operation has been aborted.
+ */
+export class AbortError extends Error {
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {string} [message] The message.
+     */
+    constructor(message?: string) {
+        super(message);
+
+        this.name = 'AbortError';
+    }
+}
+
+/**
+ * An error that is thrown if a client could not be authenticated.
+ */
+export class AuthenticationError extends Error {
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {string} [message] The message.
+     */
+    constructor(message?: string) {
+        super(message);
+
+        this.name = 'AuthenticationError';
+    }
+}
+
+/**
+ * An error that is thrown if the identity of a remote could not be verified.
+ */
+export class IdentityError extends Error {
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {string} [message] The message.
+     * @param {string} [fingerprint] The fingerprint of the key, the remote has presented.
+     */
+    constructor(message?: string, fingerprint?: string) {
+        super(message);
+
+        this.name = 'IdentityError';
+        this.fingerprint = fingerprint;
+    }
+
+    /**
+     * The fingerprint of the key, the remote has presented.
+     */
+    public fingerprint: string;
+}
+
+/**
+ * An error that is thrown if the integrity of received data could not be verified,
+ * e.g. because a package has been tampered with.
+ */
+export class IntegrityError extends Error {
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {string} [message] The message.
+     */
+    constructor(message?: string) {
+        super(message);
+
+        this.name = 'IntegrityError';
+    }
+}
+
+/**
+ * An error that has been submitted by the remote,
+ * e.g. by a method that has been called via RPC.
+ */
+export class RemoteError extends Error {
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {string} [message] The message.
+     * @param {string} [code] The error code.
+     * @param {any} [data] Additional data.
+     */
+    constructor(message?: string, code?: string, data?: any) {
+        super(message);
+
+        this.name = 'RemoteError';
+        this.code = code;
+        this.data = data;
+    }
+
+    /**
+     * The error code.
+     */
+    public code: string;
+    /**
+     * Additional data.
+     */
+    public data: any;
+}
+
+/**
+ * An error that is thrown if a received package has been
+ * replayed, reordered or reflected.
+ */
+export class ReplayError extends Error {
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {string} [message] The message.
+     * @param {number} [sequence] The sequence number of the package.
+     * @param {number} [expectedSequence] The expected sequence number.
+     */
+    constructor(message?: string, sequence?: number, expectedSequence?: number) {
+        super(message);
+
+        this.name = 'ReplayError';
+        this.expectedSequence = expectedSequence;
+        this.sequence = sequence;
+    }
+
+    /**
+     * The expected sequence number.
+     */
+    public expectedSequence: number;
+    /**
+     * The sequence number of the package.
+     */
+    public sequence: number;
+}
+
+/**
+ * An error that is thrown if a value could not be serialized or deserialized.
+ */
+export class SerializationError extends Error {
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {string} [message] The message.
+     */
+    constructor(message?: string) {
+        super(message);
+
+        this.name = 'SerializationError';
+    }
+}
+
+/**
+ * An error that is thrown if an operation has timed out.
+ */
+export class TimeoutError extends Error {
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {string} [message] The message.
+     * @param {number} [timeout] The timeout in milliseconds.
+     */
+    constructor(message?: string, timeout?: number) {
+        super(message);
+
+        this.name = 'TimeoutError';
+        this.timeout = timeout;
+    }
+
+    /**
+     * The timeout in milliseconds.
+     */
+    public timeout: number;
+}
@@ -1,5 +1,29 @@
 /// <reference types="node" />
 import * as Net from 'net';
+/**
+ * Describes a signal, that tells if an operation should be aborted,
+ * like an 'AbortSignal' of an 'AbortController'.
+ */
+export interface AbortSignalLike {
+    /**
+     * Gets if operation should be aborted or not.
+     */
+    aborted: boolean;
+    /**
+     * Adds a listener.
+     *
+     * @param {string} type The type of the event.
+     * @param {Function} listener The listener.
+     */
+    addEventListener(type: string, listener: () => void): void;
+    /**
+     * Removes a listener.
+     *
+     * @param {string} type The type of the event.
+     * @param {Function} listener The listener.
+     */
+    removeEventListener(type: string, listener: () => void): void;
+}
 /**
  * Describes a simple 'completed' action.
  *
@@ -25,6 +49,18 @@ export declare function asBuffer(data: any, encoding?: string): Buffer;
  * @return {SimpleCompletedAction<TResult>} The created action.
  */
 export declare function createSimplePromiseCompletedAction<TResult>(resolve: (value?: TResult | PromiseLike<TResult>) => void, reject?: (reason: any) => void): SimpleCompletedAction<TResult>;
+/**
+ * Derives a key from a secret (HKDF, s. RFC 5869).
+ *
+ * @param {Buffer} secret The input key material.
+ * @param {Buffer} salt The salt.
+ * @param {any} info The context information.
+ * @param {number} length The length of the key in bytes.
+ * @param {string} [digest] The underlying hash algorithm.
+ *
+ * @return {Buffer} The derived key.
+ */
+export declare function hkdf(secret: Buffer, salt: Buffer, info: any, length: number, digest?: string): Buffer;
 /**
  * Checks if the string representation of a value is empty
  * or contains whitespaces only.
@@ -78,3 +114,12 @@ export declare function toBooleanSafe(val: any, defaultValue?: any): boolean;
  * @return {string} The output value.
  */
 export declare function toStringSafe(str: any, defValue?: any): string;
+/**
+ * Writes data to a socket.
+ *
+ * @param {net.Socket} socket The socket.
+ * @param {Buffer} data The data to write.
+ *
+ * @return {Promise<any>} The promise.
+ */
+export declare function writeSocket(socket: Net.Socket, data: Buffer): Promise<any>;
@@ -1,5 +1,28 @@
 /// <reference types="node" />
 "use strict";
+// The MIT License (MIT)
+// 
+// node-simple-socket (https://github.com/mkloubert/node-simple-socket)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+const Crypto = require('crypto');
 /**
  * Returns data as buffer.
  *
@@ -46,6 +69,39 @@ function createSimplePromiseCompletedAction(resolve, reject) {
     };
 }
 exports.createSimplePromiseCompletedAction = createSimplePromiseCompletedAction;
+/**
+ * Derives a key from a secret (HKDF, s. RFC 5869).
+ *
+ * @param {Buffer} secret The input key material.
+ * @param {Buffer} salt The salt.
+ * @param {any} info The context information.
+ * @param {number} length The length of the key in bytes.
+ * @param {string} [digest] The underlying hash algorithm.
+ *
+ * @return {Buffer} The derived key.
+ */
+function hkdf(secret, salt, info, length, digest = 'sha256') {
+    if (!salt) {
+        salt = Buffer.alloc(0);
+    }
+    let infoBuffer = asBuffer(info) || Buffer.alloc(0);
+    // extract
+    let prk = Crypto.createHmac(digest, salt)
+        .update(secret).digest();
+    // expand
+    let blocks = [];
+    let prevBlock = Buffer.alloc(0);
+    let len = 0;
+    for (let i = 1; len < length; i++) {
+        prevBlock = Crypto.createHmac(digest, prk)
+            .update(Buffer.concat([prevBlock, infoBuffer, Buffer.from([i])]))
+            .digest();
+        blocks.push(prevBlock);
+        len += prevBlock.length;
+    }
+    return Buffer.concat(blocks).slice(0, length);
+}
+exports.hkdf = hkdf;
 /**
  * Checks if the string representation of a value is empty
  * or contains whitespaces only.
@@ -99,13 +155,26 @@ function readSocket(socket, numberOfBytes) {
         try {
             let buff = socket.read(numberOfBytes);
             if (null === buff) {
-                socket.once('readable', function () {
+                if (socket.destroyed) {
+                    completed(new Error('Connection has been closed!'));
+                    return;
+                }
+                let onClose;
+                let onReadable;
+                onClose = () => {
+                    socket.removeListener('readable', onReadable);
+                    completed(new Error('Connection has been closed!'));
+                };
+                onReadable = () => {
+                    socket.removeListener('close', onClose);
                     readSocket(socket, numberOfBytes).then((b) => {
                         completed(null, b);
                     }, (err) => {
                         completed(err);
                     });
-                });
+                };
+                socket.once('close', onClose);
+                socket.once('readable', onReadable);
             }
             else {
                 completed(null, buff);
@@ -151,4 +220,26 @@ function toStringSafe(str, defValue = '') {
     return str;
 }
 exports.toStringSafe = toStringSafe;
+/**
+ * Writes data to a socket.
+ *
+ * @param {net.Socket} socket The socket.
+ * @param {Buffer} data The data to write.
+ *
+ * @return {Promise<any>} The promise.
+ */
+function writeSocket(socket, data) {
+    return new Promise((resolve, reject) => {
+        let completed = createSimplePromiseCompletedAction(resolve, reject);
+        try {
+            socket.write(data, (err) => {
+                completed(err);
+            });
+        }
+        catch (e) {
+            completed(e);
+        }
+    });
+}
+exports.writeSocket = writeSocket;
 //# sourceMappingURL=helpers.js.map
\ No newline at end of file
@@ -23,9 +23,35 @@
 // FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
 // DEALINGS IN THE SOFTWARE.
 
+import * as Crypto from 'crypto';
 import * as Net from 'net';
 
 
+/**
+ * Describes a signal, that tells if an operation should be aborted,
+ * like an 'AbortSignal' of an 'AbortController'.
+ */
+export interface AbortSignalLike {
+    /**
+     * Gets if operation should be aborted or not.
+     */
+    aborted: boolean;
+    /**
+     * Adds a listener.
+     * 
+     * @param {string} type The type of the event.
+     * @param {Function} listener The listener.
+     */
+    addEventListener(type: string, listener: () => void): void;
+    /**
+     * Removes a listener.
+     * 
+     * @param {string} type The type of the event.
+     * @param {Function} listener The listener.
+     */
+    removeEventListener(type: string, listener: () => void): void;
+}
+
 /**
  * Describes a simple 'completed' action.
  * 
@@ -85,6 +111,44 @@ export function createSimplePromiseCompletedAction<TResult>(resolve: (value?: TR
     };
 }
 
+/**
+ * Derives a key from a secret (HKDF, s. RFC 5869).
+ *
+ * @param {Buffer} secret The input key material.
+ * @param {Buffer} salt The salt.
+ * @param {any} info The context information.
+ * @param {number} length The length of the key in bytes.
+ * @param {string} [digest] The underlying hash algorithm.
+ *
+ * @return {Buffer} The derived key.
+ */
+export function hkdf(secret: Buffer, salt: Buffer, info: any, length: number, digest = 'sha256'): Buffer {
+    if (!salt) {
+        salt = Buffer.alloc(0);
+    }
+
+    let infoBuffer = asBuffer(info) || Buffer.alloc(0);
+
+    // extract
+    let prk = Crypto.createHmac(digest, salt)
+                    .update(secret).digest();
+
+    // expand
+    let blocks: Buffer[] = [];
+    let prevBlock = Buffer.alloc(0);
+    let len = 0;
+    for (let i = 1; len < length; i++) {
+        prevBlock = Crypto.createHmac(digest, prk)
+                          .update(Buffer.concat([ prevBlock, infoBuffer, Buffer.from([ i ]) ]))
+                          .digest();
+
+        blocks.push(prevBlock);
+        len += prevBlock.length;
+    }
+
+    return Buffer.concat(blocks).slice(0, length);
+}
+
 /**
  * Checks if the string representation of a value is empty
  * or contains whitespaces only.
@@ -140,13 +204,32 @@ export function readSocket(socket: Net.Socket, numberOfBytes?: number): Promise<
         try {
             let buff: Buffer = socket.read(numberOfBytes);
             if (null === buff) {
-                socket.once('readable', function() {
+                if (socket.destroyed) {
+                    completed(new Error('Connection has been closed!'));
+                    return;
+                }
+
+                let onClose: () => void;
+                let onReadable: () => void;
+
+                onClose = () => {
+                    socket.removeListener('readable', onReadable);
+
+                    completed(new Error('Connection has been closed!'));
+                };
+
+                onReadable = () => {
+                    socket.removeListener('close', onClose);
+
                     readSocket(socket, numberOfBytes).then((b) => {
                         completed(null, b);
                     }, (err) => {
                         completed(err);
                     });
-                });
+                };
+
+                socket.once('close', onClose);
+                socket.once('readable', onReadable);
             }
             else {
                 completed(null, buff);
@@ -193,3 +276,26 @@ export function toStringSafe(str: any, defValue: any = ''): string {
 
     return str;
 }
+
+/**
+ * Writes data to a socket.
+ * 
+ * @param {net.Socket} socket The socket.
+ * @param {Buffer} data The data to write.
+ * 
+ * @return {Promise<any>} The promise.
+ */
+export function writeSocket(socket: Net.Socket, data: Buffer): Promise<any> {
+    return new Promise<any>((resolve, reject) => {
+        let completed = createSimplePromiseCompletedAction(resolve, reject);
+
+        try {
+            socket.write(data, (err) => {
+                completed(err);
+            });
+        }
+        catch (e) {
+            completed(e);
+        }
+    });
+}
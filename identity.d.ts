@@ -0,0 +1,70 @@
+/// <reference types="node" />
+/**
+ * A signed handshake.
+ */
+export interface SignedTranscript {
+    /**
+     * The public key of the signer (SPKI, DER).
+     */
+    publicKey: Buffer;
+    /**
+     * The signature.
+     */
+    signature: Buffer;
+}
+/**
+ * Checks a fingerprint with a 'known hosts' file
+ * (trust on first use).
+ *
+ * If the file contains no entry for the host, the fingerprint is added.
+ *
+ * @param {string} file The path to the file.
+ * @param {string} host The name of the host.
+ * @param {string} fingerprint The fingerprint to check.
+ *
+ * @return {Promise<boolean>} The promise that indicates if fingerprint is trusted or not.
+ */
+export declare function checkKnownHost(file: string, host: string, fingerprint: string): Promise<boolean>;
+/**
+ * Returns the fingerprint of a (public) key.
+ *
+ * @param {any} key The key, like a PEM string or a 'KeyObject'.
+ *
+ * @return {string} The fingerprint in the format 'SHA256:<base64>'.
+ */
+export declare function getFingerprint(key: any): string;
+/**
+ * Checks if two fingerprints are the same.
+ *
+ * @param {string} x The first fingerprint, as 'SHA256:<base64>' or hex string.
+ * @param {string} y The second fingerprint, as 'SHA256:<base64>' or hex string.
+ *
+ * @return {boolean} Are the same or not.
+ */
+export declare function isSameFingerprint(x: string, y: string): boolean;
+/**
+ * Signs a handshake (transcript).
+ *
+ * @param {any} privateKey The private key of the signer.
+ * @param {Buffer} transcriptHash The hash of the transcript.
+ *
+ * @return {SignedTranscript} The signed transcript.
+ */
+export declare function signTranscript(privateKey: any, transcriptHash: Buffer): SignedTranscript;
+/**
+ * Returns the fingerprint of a public key.
+ *
+ * @param {Buffer} publicKey The public key (SPKI, DER).
+ *
+ * @return {string} The fingerprint in the format 'SHA256:<base64>'.
+ */
+export declare function toFingerprint(publicKey: Buffer): string;
+/**
+ * Verifies a signed handshake (transcript).
+ *
+ * @param {SignedTranscript} signed The signed transcript.
+ * @param {Buffer} transcriptHash The hash of the transcript.
+ *
+ * @return {boolean} Signature is valid or not.
+ */
+export declare function verifyTranscript(signed: SignedTranscript, transcriptHash: Buffer): boolean;
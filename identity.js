@@ -0,0 +1,209 @@
+/// <reference types="node" />
+"use strict";
+// The MIT License (MIT)
+// 
+// node-simple-socket (https://github.com/mkloubert/node-simple-socket)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+const Crypto = require('crypto');
+const FS = require('fs');
+const ssocket_compat = require('./compat');
+const ssocket_helpers = require('./helpers');
+const SIGNATURE_CONTEXT = 'node-simple-socket/identity';
+/**
+ * Checks a fingerprint with a 'known hosts' file
+ * (trust on first use).
+ *
+ * If the file contains no entry for the host, the fingerprint is added.
+ *
+ * @param {string} file The path to the file.
+ * @param {string} host The name of the host.
+ * @param {string} fingerprint The fingerprint to check.
+ *
+ * @return {Promise<boolean>} The promise that indicates if fingerprint is trusted or not.
+ */
+function checkKnownHost(file, host, fingerprint) {
+    return new Promise((resolve, reject) => {
+        let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+        try {
+            host = ssocket_helpers.normalizeString(host);
+            FS.readFile(file, 'utf8', (err, content) => {
+                if (err) {
+                    if ('ENOENT' !== err.code) {
+                        completed(err);
+                        return;
+                    }
+                    content = '';
+                }
+                try {
+                    let knownFingerprints = ssocket_helpers.toStringSafe(content).split('\n').map((line) => {
+                        return line.trim();
+                    }).filter((line) => {
+                        return '' !== line &&
+                            '#' !== line[0];
+                    }).map((line) => {
+                        return line.split(/\s+/);
+                    }).filter((entry) => {
+                        return ssocket_helpers.normalizeString(entry[0]) === host;
+                    }).map((entry) => {
+                        return entry[1];
+                    });
+                    if (knownFingerprints.length > 0) {
+                        completed(null, knownFingerprints.some((kf) => isSameFingerprint(kf, fingerprint)));
+                    }
+                    else {
+                        // first use
+                        FS.appendFile(file, host + ' ' + fingerprint + '\n', 'utf8', (err) => {
+                            if (err) {
+                                completed(err);
+                            }
+                            else {
+                                completed(null, true);
+                            }
+                        });
+                    }
+                }
+                catch (e) {
+                    completed(e);
+                }
+            });
+        }
+        catch (e) {
+            completed(e);
+        }
+    });
+}
+exports.checkKnownHost = checkKnownHost;
+/**
+ * Returns the fingerprint of a (public) key.
+ *
+ * @param {any} key The key, like a PEM string or a 'KeyObject'.
+ *
+ * @return {string} The fingerprint in the format 'SHA256:<base64>'.
+ */
+function getFingerprint(key) {
+    return toFingerprint(toPublicKeyDER(key));
+}
+exports.getFingerprint = getFingerprint;
+/**
+ * Checks if two fingerprints are the same.
+ *
+ * @param {string} x The first fingerprint, as 'SHA256:<base64>' or hex string.
+ * @param {string} y The second fingerprint, as 'SHA256:<base64>' or hex string.
+ *
+ * @return {boolean} Are the same or not.
+ */
+function isSameFingerprint(x, y) {
+    let hashX = parseFingerprint(x);
+    let hashY = parseFingerprint(y);
+    if (!hashX || !hashY || hashX.length !== hashY.length) {
+        return false;
+    }
+    return Crypto.timingSafeEqual(hashX, hashY);
+}
+exports.isSameFingerprint = isSameFingerprint;
+/**
+ * Signs a handshake (transcript).
+ *
+ * @param {any} privateKey The private key of the signer.
+ * @param {Buffer} transcriptHash The hash of the transcript.
+ *
+ * @return {SignedTranscript} The signed transcript.
+ */
+function signTranscript(privateKey, transcriptHash) {
+    let crypto = ssocket_compat.crypto;
+    let key = privateKey;
+    if (!key || 'function' !== typeof key.export || 'private' !== key.type) {
+        // no private KeyObject
+        key = crypto.createPrivateKey(privateKey);
+    }
+    return {
+        publicKey: toPublicKeyDER(crypto.createPublicKey(key)),
+        signature: crypto.sign(getDigest(key), Buffer.concat([new Buffer(SIGNATURE_CONTEXT, 'ascii'), transcriptHash]), key),
+    };
+}
+exports.signTranscript = signTranscript;
+/**
+ * Returns the fingerprint of a public key.
+ *
+ * @param {Buffer} publicKey The public key (SPKI, DER).
+ *
+ * @return {string} The fingerprint in the format 'SHA256:<base64>'.
+ */
+function toFingerprint(publicKey) {
+    let hash = Crypto.createHash('sha256')
+        .update(publicKey).digest();
+    return 'SHA256:' + hash.toString('base64').replace(/=+$/, '');
+}
+exports.toFingerprint = toFingerprint;
+/**
+ * Verifies a signed handshake (transcript).
+ *
+ * @param {SignedTranscript} signed The signed transcript.
+ * @param {Buffer} transcriptHash The hash of the transcript.
+ *
+ * @return {boolean} Signature is valid or not.
+ */
+function verifyTranscript(signed, transcriptHash) {
+    let crypto = ssocket_compat.crypto;
+    let key = crypto.createPublicKey({
+        key: signed.publicKey,
+        format: 'der',
+        type: 'spki',
+    });
+    return crypto.verify(getDigest(key), Buffer.concat([new Buffer(SIGNATURE_CONTEXT, 'ascii'), transcriptHash]), key, signed.signature);
+}
+exports.verifyTranscript = verifyTranscript;
+function getDigest(key) {
+    switch (ssocket_helpers.normalizeString(key.asymmetricKeyType)) {
+        case 'ed25519':
+        case 'ed448':
+            return null; // those keys have a fixed hash algorithm
+    }
+    return 'sha256';
+}
+function parseFingerprint(fingerprint) {
+    fingerprint = ssocket_helpers.toStringSafe(fingerprint).trim();
+    let match = /^sha256:([a-z0-9+/]+)=*$/i.exec(fingerprint);
+    if (match) {
+        return new Buffer(match[1], 'base64');
+    }
+    // hex string, like 'ab:cd:...' or 'abcd...'
+    let hex = fingerprint.replace(/:/g, '');
+    if (/^[0-9a-f]{64}$/i.test(hex)) {
+        return new Buffer(hex, 'hex');
+    }
+    return null;
+}
+function toPublicKeyDER(key) {
+    let crypto = ssocket_compat.crypto;
+    if (!key || 'function' !== typeof key.export) {
+        // no KeyObject
+        key = crypto.createPublicKey(key);
+    }
+    else if ('private' === key.type) {
+        key = crypto.createPublicKey(key);
+    }
+    return key.export({
+        format: 'der',
+        type: 'spki',
+    });
+}
+//# sourceMappingURL=identity.js.map
\ No newline at end of file
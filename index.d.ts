@@ -1,10 +1,69 @@
 /// <reference types="node" />
 import * as Events from 'events';
 import * as Net from 'net';
+import * as ssocket_channels from './channels';
+import * as ssocket_codecs from './codecs';
+import * as ssocket_directories from './directories';
+import * as ssocket_helpers from './helpers';
+import * as ssocket_progress from './progress';
+import * as ssocket_queue from './queue';
+import * as ssocket_ratelimit from './ratelimit';
+import * as ssocket_reconnect from './reconnect';
+import * as ssocket_rpc from './rpc';
+import * as ssocket_serializer from './serializer';
+import * as ssocket_streams from './streams';
+import * as Stream from 'stream';
+export { Codec, CompressionStats, getCodec, getCodecNames, registerCodec } from './codecs';
+export { DirectoryEntry, DirectoryEntryType, DirectoryFilter, SymlinkPolicy } from './directories';
+export * from './errors';
+export { AbortSignalLike } from './helpers';
+export { getFingerprint } from './identity';
+export { ProgressListener, TransferProgress } from './progress';
+export { RateLimiter } from './ratelimit';
+export { ReconnectingClient, ReconnectOptions, WritePolicy } from './reconnect';
+export { CallOptions, RPCContext, RPCHandler } from './rpc';
+export { Serializer, TypeCodec, deserialize, registerType, serialize } from './serializer';
+export { SocketReadStream, SocketWriteStream } from './streams';
 /**
  * The default (string) encoding.
  */
 export declare const DEFAULT_ENCODING: string;
+/**
+ * The version of the protocol, which is supported by that module.
+ */
+export declare const PROTOCOL_VERSION: number;
+/**
+ * The default symetric encryption algorithm.
+ */
+export declare let DefaultAlgorithm: string;
+/**
+ * The default number of bytes, the remote can send on a channel, before the data is read.
+ */
+export declare let DefaultChannelWindowSize: number;
+/**
+ * The default list of compression codecs, ordered by preference.
+ */
+export declare let DefaultCodecs: string[];
+/**
+ * The default value that indicates if a compression context should be kept between packages or not.
+ */
+export declare let DefaultCompressionContext: boolean;
+/**
+ * The default preset dictionary for compression.
+ */
+export declare let DefaultCompressionDictionary: Buffer | string;
+/**
+ * The default compression level.
+ */
+export declare let DefaultCompressionLevel: number;
+/**
+ * The default list of content types, which are not compressed.
+ */
+export declare let DefaultCompressionSkipTypes: string[];
+/**
+ * The default minimum size of data in bytes, which is compressed.
+ */
+export declare let DefaultCompressionThreshold: number;
 /**
  * Default value that indicates if compression should be used or not.
  */
@@ -21,10 +80,27 @@ export declare let DefaultEncoding: string;
  * Default data transformer.
  */
 export declare let DefaultDataTransformer: DataTransformer;
+/**
+ * The default time in milliseconds, a handshake can take.
+ */
+export declare let DefaultHandshakeTimeout: number;
 /**
  * Default handshake transformer.
  */
 export declare let DefaultHandshakeTransformer: DataTransformer;
+/**
+ * The default time in milliseconds between two heartbeats.
+ */
+export declare let DefaultHeartbeatInterval: number;
+/**
+ * The default number of heartbeats, the remote can leave unanswered,
+ * before the connection is closed.
+ */
+export declare let DefaultHeartbeatMaxMisses: number;
+/**
+ * The default key exchange method.
+ */
+export declare let DefaultKeyExchange: string;
 /**
  * The default size for a maximum data package.
  */
@@ -33,18 +109,74 @@ export declare let DefaultMaxPackageSize: number;
  * The default password generator.
  */
 export declare let DefaultPasswordGenerator: PasswordGenerator;
+/**
+ * The default rate limit for sending data.
+ */
+export declare let DefaultRateLimit: RateLimit;
 /**
  * Default buffer size for reading streams.
  */
 export declare let DefaultReadBufferSize: number;
+/**
+ * The default time in milliseconds, an operation, which reads data, can take.
+ */
+export declare let DefaultReadTimeout: number;
+/**
+ * The default number of bytes, after that the key for sending data is renewed.
+ */
+export declare let DefaultRekeyAfterBytes: number;
+/**
+ * The default number of packages, after that the key for sending data is renewed.
+ */
+export declare let DefaultRekeyAfterMessages: number;
+/**
+ * The default time in milliseconds, after that the key for sending data is renewed.
+ */
+export declare let DefaultRekeyInterval: number;
+/**
+ * The default number of messages, which are buffered by the receive loop.
+ */
+export declare let DefaultReceiveHighWaterMark: number;
 /**
  * The default RSA key size.
  */
 export declare let DefaultRSAKeySize: number;
+/**
+ * The default serializer for 'writeValue()' and 'readValue()'.
+ */
+export declare let DefaultSerializer: ssocket_serializer.Serializer;
+/**
+ * The default number of chunks of a stream, which are sent before waiting for an answer.
+ */
+export declare let DefaultStreamWindowSize: number;
+/**
+ * The default time in milliseconds, an operation, which writes data, can take.
+ */
+export declare let DefaultWriteTimeout: number;
+/**
+ * Checks the credentials of a client.
+ *
+ * @param {Credentials} credentials The credentials, the client has sent (if available).
+ * @param {SimpleSocket} socket The socket of the client.
+ *
+ * @return {AuthenticatorResult} The result.
+ */
+export declare type Authenticator = (credentials: Credentials, socket: SimpleSocket) => AuthenticatorResult;
+/**
+ * The result of an authenticator.
+ *
+ * (false) or (null) rejects the client, (true) accepts it and an object
+ * accepts it with that object as identity.
+ */
+export declare type AuthenticatorResult = boolean | Object | PromiseLike<boolean | Object>;
 /**
  * A compression result.
  */
 export interface CompressionResult {
+    /**
+     * The codec (if compressed).
+     */
+    codec?: ssocket_codecs.Codec;
     /**
      * The compressed data (if available).
      */
@@ -61,11 +193,79 @@ export interface CompressionResult {
      * Data is compressed or not.
      */
     isCompressed: boolean;
+    /**
+     * Data has been compressed with a new compression context or not.
+     */
+    isContextReset?: boolean;
+    /**
+     * Data has been compressed with the compression context of the connection or not.
+     */
+    isContextUsed?: boolean;
     /**
      * The original (uncompressed) data.
      */
     uncompressed: Buffer;
 }
+/**
+ * Options for 'connect()' function.
+ */
+export interface ConnectOptions {
+    /**
+     * Keep a compression context between packages or not.
+     */
+    compressionContext?: boolean;
+    /**
+     * The preset dictionary for compression, which must be the same on the server.
+     */
+    compressionDictionary?: Buffer | string;
+    /**
+     * The credentials for the server.
+     */
+    credentials?: Credentials;
+    /**
+     * One or more trusted fingerprints of the server's identity key,
+     * as 'SHA256:<base64>' or hex string.
+     */
+    fingerprint?: string | string[];
+    /**
+     * The path to a 'known hosts' file, which stores the fingerprints of
+     * servers, the client connected to before (trust on first use).
+     */
+    knownHostsFile?: string;
+    /**
+     * A list of trusted (public) identity keys of servers.
+     */
+    trustedKeys?: any[];
+    /**
+     * The pre-shared key, the server also knows.
+     */
+    psk?: any;
+}
+/**
+ * Credentials of a client.
+ */
+export interface Credentials {
+    /**
+     * The password.
+     */
+    password?: string;
+    /**
+     * The token.
+     */
+    token?: string;
+    /**
+     * The type, like 'token' or 'password'.
+     */
+    type?: string;
+    /**
+     * The name of the user.
+     */
+    user?: string;
+    /**
+     * Additional data.
+     */
+    [key: string]: any;
+}
 /**
  * A data transformer.
  *
@@ -105,204 +305,1218 @@ export declare enum DataTransformerDirection {
  */
 export declare type DataTransformerResult = Buffer | PromiseLike<Buffer>;
 /**
- * A listener callback.
- *
- * @param {any} err The error (if occurred).
- * @param {SimpleSocket} [socket] The socket if no error ocurred.
- */
-export declare type ListenCallback = (err: any, socket?: SimpleSocket) => void;
-/**
- * A password generator.
- *
- * @return {PasswordGeneratorResult} The result.
- */
-export declare type PasswordGenerator = () => PasswordGeneratorResult;
-/**
- * The result of a password generator.
+ * Options for a directory transfer.
  */
-export declare type PasswordGeneratorResult = Buffer | PromiseLike<Buffer> | string | PromiseLike<string>;
+export interface DirectoryTransferOptions extends OperationOptions, ssocket_directories.ScanOptions {
+}
 /**
- * List of socket types.
+ * The metadata of a file, which is sent before its content.
  */
-export declare enum SocketType {
+export interface FileMetadata {
     /**
-     * Server
+     * The SHA-256 hash of the content as hex string.
      */
-    Server = 1,
+    hash: string;
     /**
-     * Client
+     * The mode (permissions).
      */
-    Client = 2,
+    mode: number;
+    /**
+     * The time of the last modification (UNIX timestamp in milliseconds).
+     */
+    mtime: number;
+    /**
+     * The name of the file.
+     */
+    name: string;
+    /**
+     * The size in bytes.
+     */
+    size: number;
 }
 /**
- * A "simple" socket.
+ * List of handshake states.
  */
-export declare class SimpleSocket extends Events.EventEmitter {
+export declare enum HandshakeState {
     /**
-     * Stores the wrapped socket.
+     * No handshake has been made yet.
      */
-    protected _socket: Net.Socket;
+    Idle = 0,
     /**
-     * Stores the type.
+     * Handshake is running.
      */
-    protected _type: SocketType;
+    Handshaking = 1,
     /**
-     * Initializes a new instance of that class.
-     *
-     * @param {Socket} type The type.
-     * @param {Net.Socket} [socket] The "real" socket.
+     * Handshake has been finished.
      */
-    constructor(type: SocketType, socket?: Net.Socket);
+    Ready = 2,
     /**
-     * Gets the symetric encryption algorithm.
+     * Handshake has failed.
      */
-    readonly algorithm: string;
+    Failed = 3,
+}
+/**
+ * A listener callback.
+ *
+ * @param {any} err The error (if occurred).
+ * @param {SimpleSocket} [socket] The socket if no error ocurred.
+ */
+export declare type ListenCallback = (err: any, socket?: SimpleSocket) => void;
+/**
+ * Options for 'listen()' function.
+ */
+export interface ListenOptions {
     /**
-     * Try compress data or not.
+     * Checks the credentials of the clients.
      */
-    compress: boolean;
+    authenticator?: Authenticator;
     /**
-     * The path of the working directory.
+     * Keep a compression context between packages or not.
      */
-    cwd: string;
+    compressionContext?: boolean;
     /**
-     * A custom function that transformes data
-     * before it is send or after it has been received.
+     * The preset dictionary for compression, which must be the same on the clients.
      */
-    dataTransformer: DataTransformer;
+    compressionDictionary?: Buffer | string;
     /**
-     * Disposes the socket.
+     * The long-term (private) identity key of the server,
+     * which signs the handshakes, like a PEM string.
      */
-    dispose(): void;
+    identityKey?: any;
     /**
-     * Gets or sets the (string) encoding to use.
+     * The pre-shared key, each client must know.
      */
-    encoding: string;
+    psk?: any;
     /**
-     * Sends the connection.
-     *
-     * @param {any} [data] The optional data to send.
-     * @param {string} [encoding] The encoding to use.
-     *
-     * @return {Promise<any>} The promise.
+     * The rate limit for sending data, which is shared by all clients.
      */
-    end(data?: any, encoding?: string): Promise<any>;
+    rateLimit?: RateLimit;
+}
+/**
+ * Iterates over the messages from the remote (s. 'SimpleSocket.messages()').
+ */
+export interface MessageIterator {
     /**
-     * Generates a password based on the 'passwordGenerator' property.
+     * Returns the next message.
      *
-     * @param {Promise<Buffer>} The promise.
+     * @return {Promise<IteratorResult<Buffer>>} The promise with the message.
      */
-    protected generatePassword(): Promise<Buffer>;
+    next(): Promise<IteratorResult<Buffer>>;
     /**
-     * Returns the working directory.
+     * Stops the iteration.
      *
-     * @return {string} The working directory.
+     * @return {Promise<IteratorResult<Buffer>>} The promise.
      */
-    protected getCwd(): string;
+    return(): Promise<IteratorResult<Buffer>>;
+}
+/**
+ * Options that have been negotiated with the remote while a handshake.
+ */
+export interface NegotiatedOptions {
     /**
-     * Returns the (string) encoding that should be used by that socket.
-     *
-     * @return {string} The encoding.
+     * The symetric encryption algorithm.
      */
-    protected getEncoding(): string;
+    readonly cipher: string;
     /**
-     * Gets the maximum size for a package.
-     *
-     * @return {number} The maximum package size.
+     * The compression codec.
      */
-    getMaxPackageSize(): number;
+    readonly codec: string;
     /**
-     * Gets the size for a RSA key.
-     *
-     * @return {number} The RSA key size.
+     * The list of features both sides support.
      */
-    protected getRSAKeySize(): number;
+    readonly features: string[];
     /**
-     * Returns the buffer size for reading streams.
-     *
-     * @return {number} The buffer size.
+     * The key exchange method.
      */
-    protected getReadBufferSize(): number;
+    readonly keyExchange: string;
     /**
-     * A custom function that transforms the handshake
-     * public key before it is send or after it has been received.
+     * The maximum size of a package.
      */
-    handshakeTransformer: DataTransformer;
+    readonly maxPackageSize: number;
     /**
-     * Makes a CLIENT handshake.
-     *
-     * @param {Promise<Buffer>} The promise.
+     * The protocol version.
      */
-    protected makeClientHandshake(): Promise<Buffer>;
+    readonly version: number;
+}
+/**
+ * The context of an operation, like 'read()' or 'write()'.
+ */
+export interface OperationContext {
     /**
-     * Makes a handshake if needed.
-     *
-     * @param {Promise<Buffer>} The promise.
+     * Gets if the operation has been cancelled or not.
      */
-    makeHandshakeIfNeeded(): Promise<Buffer>;
+    isCancelled: boolean;
     /**
-     * Makes a SERVER handshake.
+     * Registers a listener that is invoked if the operation is cancelled.
      *
-     * @param {Promise<Buffer>} The promise.
+     * @param {Function} listener The listener.
      */
-    protected makeServerHandshake(): Promise<Buffer>;
+    onCancel: (listener: (err: any) => void) => void;
+}
+/**
+ * Options for an operation, like 'read()' or 'write()'.
+ */
+export interface OperationOptions {
     /**
-     * Defines the maximum size of a package.
+     * The content type of the data, like 'image/png', which tells if it should be compressed or not.
      */
-    maxPackageSize: number;
+    contentType?: string;
     /**
-     * Stores the current password.
+     * The rate limit for sending data, like for 'write()' or 'writeFile()'.
      */
-    password: Buffer;
+    rateLimit?: RateLimit;
     /**
-     * Defines a custom logic to generate a password (for the connection).
+     * A signal that cancels the operation.
      */
-    passwordGenerator: PasswordGenerator;
+    signal?: ssocket_helpers.AbortSignalLike;
     /**
-     * Reads data from the remote.
-     *
-     * @param {Promise<Buffer>} The promise.
+     * The maximum time in milliseconds, the operation can take.
      */
-    read(): Promise<Buffer>;
+    timeout?: number;
+}
+/**
+ * A password generator.
+ *
+ * @return {PasswordGeneratorResult} The result.
+ */
+export declare type PasswordGenerator = () => PasswordGeneratorResult;
+/**
+ * The result of a password generator.
+ */
+export declare type PasswordGeneratorResult = Buffer | PromiseLike<Buffer> | string | PromiseLike<string>;
+/**
+ * A rate limit, which can be a number of bytes per second
+ * or a limiter, which is shared with other sockets.
+ */
+export declare type RateLimit = number | ssocket_ratelimit.RateLimiter;
+/**
+ * A package that has been received from the remote.
+ */
+export interface ReceivedPackage {
     /**
-     * The default buffer size for reading a stream.
+     * The (uncrypted) data.
      */
-    readBufferSize: number;
+    data: Buffer;
     /**
-     * Reads data from remote and writes it to a file on this machine.
-     *
-     * @param {string} path The path to the target file.
-     * @param {string|number} [flags] The custom flags for opening the target file.
-     *
-     * @return {Promise<number>} The promise.
+     * The type.
      */
-    readFile(path: string, flags?: string | number): Promise<number>;
+    type: number;
+}
+/**
+ * Describes which identities of a server a client trusts.
+ */
+export interface ServerTrustOptions {
     /**
-     * Reads data as JSON object.
-     *
-     * @return {Promise<T>} The promise.
+     * A list of trusted fingerprints.
      */
-    readJSON<T>(): Promise<T>;
+    fingerprints?: string[];
     /**
-     * Reads data from remote and writes it to a stream on this machine.
-     *
-     * @param {number} fdTarget The stream pointer of the target.
-     *
-     * @return {Promise<number>} The promise.
+     * The path to a 'known hosts' file.
      */
-    readStream(fdTarget: number): Promise<number>;
+    knownHostsFile?: string;
     /**
-     * Reads data as string.
-     *
-     * @return {Promise<string>} The promise.
+     * The name of the server inside the 'known hosts' file.
      */
-    readString(): Promise<string>;
+    knownHostsName?: string;
     /**
-     * The RSA key size.
+     * A list of trusted (public) keys.
      */
-    rsaKeySize: number;
+    trustedKeys?: any[];
+}
+/**
+ * List of socket types.
+ */
+export declare enum SocketType {
     /**
-     * Sets up the events.
+     * Server
+     */
+    Server = 1,
+    /**
+     * Client
+     */
+    Client = 2,
+}
+/**
+ * Options for a file / stream transfer.
+ */
+export interface TransferOptions extends OperationOptions {
+    /**
+     * Send / receive the metadata of a file, like its name, size and
+     * modification time, before its content (file methods only).
+     * Both sides have to use that option.
+     */
+    metadata?: boolean;
+    /**
+     * A listener for the progress of the transfer.
+     */
+    onProgress?: ssocket_progress.ProgressListener;
+    /**
+     * Continue a transfer, which has been broken before, or not.
+     * Both sides have to use that option.
+     */
+    resume?: boolean;
+    /**
+     * The number of chunks, which are sent before waiting for an answer (sender only).
+     */
+    windowSize?: number;
+}
+/**
+ * A "simple" socket.
+ */
+export declare class SimpleSocket extends Events.EventEmitter {
+    /**
+     * Stores the open channels.
+     */
+    protected _channels: {
+        [name: string]: Channel;
+    };
+    /**
+     * Stores the error, why the connection has been closed by this side.
+     */
+    protected _closeError: any;
+    /**
+     * Stores the compression context for sending data.
+     */
+    protected _compressContext: ssocket_codecs.CompressionContext;
+    /**
+     * Stores the reason, why the connection has been closed by this side, like 'timeout'.
+     */
+    protected _closeReason: string;
+    /**
+     * Stores the compression context for received data.
+     */
+    protected _decompressContext: ssocket_codecs.CompressionContext;
+    /**
+     * Stores the running handshake.
+     */
+    protected _handshake: Promise<Buffer>;
+    /**
+     * Stores the error, why the handshake has failed.
+     */
+    protected _handshakeError: any;
+    /**
+     * Stores the state of the handshake.
+     */
+    protected _handshakeState: HandshakeState;
+    /**
+     * Stores the number of heartbeats, the remote has not answered.
+     */
+    protected _heartbeatMisses: number;
+    /**
+     * Stores the timer, which sends the heartbeats.
+     */
+    protected _heartbeatTimer: NodeJS.Timer;
+    /**
+     * Stores the identity of the authenticated client.
+     */
+    protected _identity: Object;
+    /**
+     * Stores if the connection has been closed or not.
+     */
+    protected _isClosed: boolean;
+    /**
+     * Stores if a package is currently received or not.
+     */
+    protected _isReceivingPackage: boolean;
+    /**
+     * Stores the multiplexer for the channels.
+     */
+    protected _multiplexer: ssocket_channels.ChannelMultiplexer;
+    /**
+     * Stores the options that have been negotiated with the remote.
+     */
+    protected _negotiated: NegotiatedOptions;
+    /**
+     * Stores the ID of the last ping.
+     */
+    protected _pingId: number;
+    /**
+     * Stores the time, the last ping has been sent, or (null) if it has been answered.
+     */
+    protected _pingTime: number;
+    /**
+     * Stores the limiter, which has been created from the 'rateLimit' property.
+     */
+    protected _rateLimiter: ssocket_ratelimit.RateLimiter;
+    /**
+     * Stores the callbacks of the 'read()' calls that wait for data.
+     */
+    protected _readers: ssocket_helpers.SimpleCompletedAction<Buffer>[];
+    /**
+     * Stores the queue for the operations, which read data.
+     */
+    protected _readQueue: ssocket_queue.OperationQueue;
+    /**
+     * Stores data that has been received, but not read yet.
+     */
+    protected _receivedData: Buffer[];
+    /**
+     * Stores if the receive loop is running or not.
+     */
+    protected _receiveLoop: boolean;
+    /**
+     * Stores the sequence number of the next package that is expected from the remote.
+     */
+    protected _receiveSequence: number;
+    /**
+     * Stores the fingerprint of the identity key of the remote.
+     */
+    protected _remoteFingerprint: string;
+    /**
+     * Stores the handler for remote calls.
+     */
+    protected _rpc: ssocket_rpc.RPCEndpoint;
+    /**
+     * Stores the sequence number of the next package that is sent to the remote.
+     */
+    protected _sendSequence: number;
+    /**
+     * Stores the keys of the current session.
+     */
+    protected _sessionKeys: {
+        lastRekey: number;
+        password: Buffer;
+        receive: Buffer;
+        receiveGeneration: number;
+        send: Buffer;
+        sendGeneration: number;
+        sentBytes: number;
+        sentMessages: number;
+    };
+    /**
+     * Stores the wrapped socket.
+     */
+    protected _socket: Net.Socket;
+    /**
+     * Stores the data, which has been exchanged while the current handshake.
+     */
+    protected _transcript: Buffer[];
+    /**
+     * Stores the type.
+     */
+    protected _type: SocketType;
+    /**
+     * Stores the queue for the operations, which write data.
+     */
+    protected _writeQueue: ssocket_queue.OperationQueue;
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {Socket} type The type.
+     * @param {Net.Socket} [socket] The "real" socket.
+     */
+    constructor(type: SocketType, socket?: Net.Socket);
+    /**
+     * The symetric encryption algorithm.
+     */
+    algorithm: string;
+    /**
+     * Waits for the resume offer of the remote and answers it (SENDER side).
+     *
+     * The offer is only accepted if the first bytes of the source
+     * have the same hash as the data the remote already holds.
+     *
+     * @param {number} fdSrc The stream pointer of the source.
+     * @param {number} maxSize The maximum number of bytes to send.
+     * @param {number} bufferSize The buffer size for the read operation(s).
+     *
+     * @return {Promise<number>} The promise with the offset to continue from.
+     */
+    protected answerResume(fdSrc: number, maxSize: number, bufferSize: number): Promise<number>;
+    /**
+     * Sends the credentials to the server and waits for the result (CLIENT side).
+     *
+     * @param {Buffer} pwd The current password.
+     *
+     * @return {Promise<Buffer>} The promise with the final password.
+     */
+    protected authenticate(pwd: Buffer): Promise<Buffer>;
+    /**
+     * Receives the credentials of a client and checks them (SERVER side).
+     *
+     * @param {Buffer} pwd The current password.
+     *
+     * @return {Promise<Buffer>} The promise with the final password.
+     */
+    protected authenticateClient(pwd: Buffer): Promise<Buffer>;
+    /**
+     * Checks the credentials of clients (SERVER side).
+     */
+    authenticator: Authenticator;
+    /**
+     * Calls a method of the remote, which has been registered there via 'registerMethod()'.
+     *
+     * @param {string} method The name of the method.
+     * @param {any} [params] The parameters for the method.
+     * @param {CallOptions} [opts] Additional options.
+     *
+     * @return {Promise<TResult>} The promise with the result.
+     */
+    call<TResult>(method: string, params?: any, opts?: ssocket_rpc.CallOptions): Promise<TResult>;
+    /**
+     * Is invoked if a running transfer of a file or stream has been cancelled.
+     *
+     * The remote still waits for answers, so the connection is closed.
+     */
+    protected cancelTransfer(): void;
+    /**
+     * The number of bytes, the remote can send on a channel, before the data is read.
+     */
+    channelWindowSize: number;
+    /**
+     * Checks if the fingerprint of a server is trusted (CLIENT side).
+     *
+     * @param {string} fingerprint The fingerprint of the server.
+     *
+     * @return {Promise<any>} The promise.
+     */
+    protected checkServerTrust(fingerprint: string): Promise<any>;
+    /**
+     * The list of compression codecs, ordered by preference.
+     */
+    codecs: string[];
+    /**
+     * Try compress data or not.
+     */
+    compress: boolean;
+    /**
+     * Keep a compression context between packages or not, if the remote supports it.
+     */
+    compressionContext: boolean;
+    /**
+     * The preset dictionary for compression, if a compression context is used.
+     */
+    compressionDictionary: string | Buffer;
+    /**
+     * The compression level, like '9' for 'gzip'.
+     */
+    compressionLevel: number;
+    /**
+     * The list of content types, like 'image/png' or 'video/*', which are not compressed.
+     */
+    compressionSkipTypes: string[];
+    /**
+     * The minimum size of data in bytes, which is compressed.
+     */
+    compressionThreshold: number;
+    /**
+     * Creates a tracker for the progress of a transfer, which
+     * emits 'progress' events and invokes the listener of the options.
+     *
+     * @param {string} direction The direction: 'read' or 'write'.
+     * @param {number} fd The stream pointer of the source / target.
+     * @param {TransferOptions} [opts] The options of the transfer.
+     *
+     * @return {ssocket_progress.ProgressTracker} The new tracker.
+     */
+    protected createProgressTracker(direction: string, fd: number, opts?: TransferOptions): ssocket_progress.ProgressTracker;
+    /**
+     * Creates a readable stream, which receives the data
+     * that is sent by the remote via 'writeStream()', 'writeFile()' or 'createWriteStream()'.
+     *
+     * @param {Stream.ReadableOptions} [opts] Options for the stream, like 'highWaterMark'.
+     *
+     * @return {ssocket_streams.SocketReadStream} The new stream.
+     */
+    createReadStream(opts?: Stream.ReadableOptions): ssocket_streams.SocketReadStream;
+    /**
+     * Creates a writable stream, which sends its data to the remote,
+     * that can receive it via 'readStream()', 'readFile()' or 'createReadStream()'.
+     *
+     * @param {Stream.WritableOptions} [opts] Options for the stream, like 'highWaterMark'.
+     *
+     * @return {ssocket_streams.SocketWriteStream} The new stream.
+     */
+    createWriteStream(opts?: Stream.WritableOptions): ssocket_streams.SocketWriteStream;
+    /**
+     * The credentials, which are sent to the server (CLIENT side).
+     */
+    credentials: Credentials;
+    /**
+     * The path of the working directory.
+     */
+    cwd: string;
+    /**
+     * A custom function that transformes data
+     * before it is send or after it has been received.
+     */
+    dataTransformer: DataTransformer;
+    /**
+     * Decrypts data that has been received from the remote.
+     *
+     * @param {Buffer} cryptedData The crypted data.
+     * @param {Buffer} pwd The password.
+     *
+     * @return {Buffer} The uncrypted data.
+     */
+    protected decryptData(cryptedData: Buffer, pwd: Buffer): Buffer;
+    /**
+     * Reads and skips the chunks of a stream until its end.
+     *
+     * @return {Promise<any>} The promise.
+     */
+    protected drainChunks(): Promise<any>;
+    /**
+     * Disposes the socket.
+     */
+    dispose(): void;
+    /**
+     * Gets or sets the (string) encoding to use.
+     */
+    encoding: string;
+    /**
+     * Encrypts data that should be send to the remote.
+     *
+     * @param {Buffer} uncryptedData The data to encrypt.
+     * @param {Buffer} pwd The password.
+     *
+     * @return {Buffer} The crypted data.
+     */
+    protected encryptData(uncryptedData: Buffer, pwd: Buffer): Buffer;
+    /**
+     * Sends the connection.
+     *
+     * @param {any} [data] The optional data to send.
+     * @param {string} [encoding] The encoding to use.
+     *
+     * @return {Promise<any>} The promise.
+     */
+    end(data?: any, encoding?: string): Promise<any>;
+    /**
+     * Invokes an action, which reads and writes data, so that no
+     * other 'read()' or 'write()' call can run at the same time.
+     *
+     * @param {Function} action The action to invoke.
+     *
+     * @return {Promise<TResult>} The promise.
+     */
+    protected exclusive<TResult>(action: () => PromiseLike<TResult>): Promise<TResult>;
+    /**
+     * Generates a password based on the 'passwordGenerator' property.
+     *
+     * @param {Promise<Buffer>} The promise.
+     */
+    protected generatePassword(): Promise<Buffer>;
+    /**
+     * Returns the symetric encryption algorithm that should be used by that socket.
+     *
+     * @return {string} The algorithm.
+     */
+    protected getAlgorithm(): string;
+    /**
+     * Returns the compression codecs that are supported by that socket, ordered by preference.
+     *
+     * @return {string[]} The list of codecs.
+     */
+    protected getCodecs(): string[];
+    /**
+     * Returns the compression context for sending data.
+     *
+     * @param {ssocket_codecs.Codec} codec The codec.
+     *
+     * @return {ssocket_codecs.CompressionContext} The context.
+     */
+    protected getCompressContext(codec: ssocket_codecs.Codec): ssocket_codecs.CompressionContext;
+    /**
+     * Returns the preset dictionary for compression.
+     *
+     * @return {Buffer} The dictionary or (null) if not defined.
+     */
+    protected getCompressionDictionary(): Buffer;
+    /**
+     * Returns the compression level.
+     *
+     * @return {number} The level or (undefined) for the default of the codec.
+     */
+    protected getCompressionLevel(): number;
+    /**
+     * Returns the symetric encryption algorithms that are supported by that socket, ordered by preference.
+     *
+     * @return {string[]} The list of algorithms.
+     */
+    protected getCiphers(): string[];
+    /**
+     * Returns the number of bytes, the encryption adds to a package.
+     *
+     * @return {number} The number of bytes.
+     */
+    protected getCryptOverhead(): number;
+    /**
+     * Returns the number of bytes, the remote can send on a channel, before the data is read.
+     *
+     * @return {number} The number of bytes.
+     */
+    protected getChannelWindowSize(): number;
+    /**
+     * Returns the working directory.
+     *
+     * @return {string} The working directory.
+     */
+    protected getCwd(): string;
+    /**
+     * Returns the compression context for received data.
+     *
+     * @param {ssocket_codecs.Codec} codec The codec.
+     *
+     * @return {ssocket_codecs.CompressionContext} The context.
+     */
+    protected getDecompressContext(codec: ssocket_codecs.Codec): ssocket_codecs.CompressionContext;
+    /**
+     * Returns the (string) encoding that should be used by that socket.
+     *
+     * @return {string} The encoding.
+     */
+    protected getEncoding(): string;
+    /**
+     * Returns the key exchange method that should be used by that socket.
+     *
+     * @return {string} The method.
+     */
+    protected getKeyExchange(): string;
+    /**
+     * Returns the key exchange methods that are supported by that socket, ordered by preference.
+     *
+     * @return {string[]} The list of methods.
+     */
+    protected getKeyExchanges(): string[];
+    /**
+     * Gets the maximum size for a package.
+     *
+     * @return {number} The maximum package size.
+     */
+    getMaxPackageSize(): number;
+    /**
+     * Returns a limit for renewing the key for sending data.
+     *
+     * @param {any} value The value of the socket.
+     * @param {any} defaultValue The default value.
+     *
+     * @return {number} The limit or (0) if not defined.
+     */
+    protected getRekeyLimit(value: any, defaultValue: any): number;
+    /**
+     * Gets the size for a RSA key.
+     *
+     * @return {number} The RSA key size.
+     */
+    protected getRSAKeySize(): number;
+    /**
+     * Returns the multiplexer for the channels.
+     *
+     * @return {ssocket_channels.ChannelMultiplexer} The multiplexer.
+     */
+    protected getMultiplexer(): ssocket_channels.ChannelMultiplexer;
+    /**
+     * Returns the handler for remote calls.
+     *
+     * @return {ssocket_rpc.RPCEndpoint} The handler.
+     */
+    protected getRPC(): ssocket_rpc.RPCEndpoint;
+    /**
+     * Returns the limiter for sending data.
+     *
+     * @param {OperationOptions} [opts] The options of the operation, which can define an own limit.
+     *
+     * @return {ssocket_ratelimit.RateLimiter} The limiter or (null) if there is no limit.
+     */
+    protected getRateLimiter(opts?: OperationOptions): ssocket_ratelimit.RateLimiter;
+    /**
+     * Returns the serializer for 'writeValue()' and 'readValue()'.
+     *
+     * @return {ssocket_serializer.Serializer} The serializer.
+     */
+    protected getSerializer(): ssocket_serializer.Serializer;
+    /**
+     * Returns the time in milliseconds, an operation, which reads data, can take.
+     *
+     * @return {number} The timeout or 0 if there is no limit.
+     */
+    protected getReadTimeout(): number;
+    /**
+     * Returns the number of messages, which are buffered by the receive loop.
+     *
+     * @return {number} The number of messages.
+     */
+    protected getReceiveHighWaterMark(): number;
+    /**
+     * Returns the time in milliseconds, a handshake can take.
+     *
+     * @return {number} The timeout or 0 if there is no limit.
+     */
+    protected getHandshakeTimeout(): number;
+    /**
+     * Returns the time in milliseconds between two heartbeats.
+     *
+     * @return {number} The interval or 0 if heartbeats are disabled.
+     */
+    protected getHeartbeatInterval(): number;
+    /**
+     * Returns the number of heartbeats, the remote can leave unanswered.
+     *
+     * @return {number} The number of heartbeats.
+     */
+    protected getHeartbeatMaxMisses(): number;
+    /**
+     * Returns the keys of the current session.
+     *
+     * @param {Buffer} pwd The password of the session.
+     *
+     * @return {Object} The keys.
+     */
+    protected getSessionKeys(pwd: Buffer): {
+        lastRekey: number;
+        password: Buffer;
+        receive: Buffer;
+        receiveGeneration: number;
+        send: Buffer;
+        sendGeneration: number;
+        sentBytes: number;
+        sentMessages: number;
+    };
+    /**
+     * Returns the buffer size for reading streams.
+     *
+     * @return {number} The buffer size.
+     */
+    protected getReadBufferSize(): number;
+    /**
+     * Returns the number of chunks of a stream, which are sent before waiting for an answer.
+     *
+     * @param {TransferOptions} [opts] The options of the transfer, which can define an own size.
+     *
+     * @return {number} The window size.
+     */
+    protected getStreamWindowSize(opts?: TransferOptions): number;
+    /**
+     * Returns the time in milliseconds, an operation, which writes data, can take.
+     *
+     * @return {number} The timeout or 0 if there is no limit.
+     */
+    protected getWriteTimeout(): number;
+    /**
+     * Is invoked after the connection has been closed.
+     *
+     * @param {any} err The error for the calls, which wait for data.
+     */
+    protected handleClose(err: any): void;
+    /**
+     * Is invoked after received data has been passed to a 'read()' call or a 'message' listener.
+     *
+     * @param {Buffer} data The data.
+     */
+    protected handleDataRead(data: Buffer): void;
+    /**
+     * Handles a package, which has been received from the remote.
+     *
+     * @param {ReceivedPackage} pkg The package.
+     */
+    protected handlePackage(pkg: ReceivedPackage): void;
+    /**
+     * Checks if packages contain a type (and can be control packages) or not.
+     *
+     * @return {boolean} Has types or not.
+     */
+    protected hasPackageTypes(): boolean;
+    /**
+     * Makes the handshake with the remote, if it has not been made yet.
+     *
+     * All calls share the same handshake, which is also made by the first
+     * 'read()' or 'write()' call.
+     *
+     * @return {Promise<Buffer>} The promise with the password.
+     */
+    handshake(): Promise<Buffer>;
+    /**
+     * Gets the state of the handshake.
+     */
+    readonly handshakeState: HandshakeState;
+    /**
+     * The time in milliseconds, a handshake can take before it fails.
+     * A value of 0 means that there is no limit.
+     */
+    handshakeTimeout: number;
+    /**
+     * A custom function that transforms the handshake
+     * public key before it is send or after it has been received.
+     */
+    handshakeTransformer: DataTransformer;
+    /**
+     * The time in milliseconds between two heartbeats, which are sent
+     * to detect a dead remote. A value of 0 disables heartbeats.
+     */
+    heartbeatInterval: number;
+    /**
+     * The number of heartbeats, the remote can leave unanswered,
+     * before the connection is closed.
+     */
+    heartbeatMaxMisses: number;
+    /**
+     * Gets the identity of the authenticated client (SERVER side).
+     */
+    readonly identity: Object;
+    /**
+     * The long-term (private) identity key, which is used by a SERVER
+     * to sign its handshakes.
+     */
+    identityKey: any;
+    /**
+     * Checks if anyone waits for packages from the remote.
+     *
+     * @return {boolean} Packages are required or not.
+     */
+    protected isReceiveRequired(): boolean;
+    /**
+     * Gets if the receive loop is running or not.
+     */
+    readonly isReceiving: boolean;
+    /**
+     * Makes a CLIENT handshake.
+     *
+     * @param {Promise<Buffer>} The promise.
+     */
+    protected makeClientHandshake(): Promise<Buffer>;
+    /**
+     * Sends the 'hello' of a CLIENT and receives the answer of the server.
+     *
+     * @return {Promise<NegotiatedOptions>} The promise.
+     */
+    protected makeClientHello(): Promise<NegotiatedOptions>;
+    /**
+     * Exchanges the password with the server (CLIENT side).
+     *
+     * @param {Promise<Buffer>} The promise.
+     */
+    protected makeClientKeyExchange(): Promise<Buffer>;
+    /**
+     * Makes a handshake if needed.
+     *
+     * @param {Promise<Buffer>} The promise.
+     */
+    makeHandshakeIfNeeded(): Promise<Buffer>;
+    /**
+     * Makes a key agreement with ephemeral keys (ECDH), where
+     * both sides derive the password for the connection.
+     *
+     * @param {Promise<Buffer>} The promise.
+     */
+    protected makeKeyAgreement(): Promise<Buffer>;
+    /**
+     * Makes a SERVER handshake.
+     *
+     * @param {Promise<Buffer>} The promise.
+     */
+    protected makeServerHandshake(): Promise<Buffer>;
+    /**
+     * Receives the 'hello' of a client and sends the answer (SERVER side).
+     *
+     * @return {Promise<NegotiatedOptions>} The promise.
+     */
+    protected makeServerHello(): Promise<NegotiatedOptions>;
+    /**
+     * Receives the public key of the client and sends the password (SERVER side).
+     *
+     * @param {number} publicKeyLength The size of the public key.
+     *
+     * @param {Promise<Buffer>} The promise.
+     */
+    protected makeServerKeyExchange(publicKeyLength: number): Promise<Buffer>;
+    /**
+     * The key exchange method, like 'x25519', 'ecdh-p256' or 'rsa'.
+     */
+    keyExchange: string;
+    /**
+     * Defines the maximum size of a package.
+     */
+    maxPackageSize: number;
+    /**
+     * Starts the receive loop and returns an iterator for the received data,
+     * which ends, when the connection has been closed.
+     *
+     * @return {MessageIterator} The iterator.
+     */
+    messages(): MessageIterator;
+    /**
+     * Gets the options that have been negotiated with the remote while the handshake.
+     */
+    readonly negotiated: NegotiatedOptions;
+    /**
+     * Stores the current password.
+     */
+    password: Buffer;
+    /**
+     * Defines a custom logic to generate a password (for the connection).
+     */
+    passwordGenerator: PasswordGenerator;
+    /**
+     * The pre-shared key, both sides must know.
+     */
+    psk: any;
+    /**
+     * Tells the remote how many bytes the target already holds and
+     * waits for the offset to continue from (RECEIVER side).
+     *
+     * @param {number} fdTarget The stream pointer of the target.
+     *
+     * @return {Promise<number>} The promise with the offset to continue from.
+     */
+    protected offerResume(fdTarget: number): Promise<number>;
+    /**
+     * Opens a channel (or returns the one, which is already open).
+     *
+     * @param {string} name The name of the channel, which must be the same on both sides.
+     *
+     * @return {Channel} The channel.
+     */
+    openChannel(name: string): Channel;
+    /**
+     * The rate limit for sending data, like a number of bytes per second
+     * or a limiter, which is shared with other sockets.
+     */
+    rateLimit: RateLimit;
+    /**
+     * Reads data from the remote.
+     *
+     * @param {OperationOptions} [opts] Additional options, like a timeout.
+     *
+     * @param {Promise<Buffer>} The promise.
+     */
+    read(opts?: OperationOptions): Promise<Buffer>;
+    /**
+     * The default buffer size for reading a stream.
+     */
+    readBufferSize: number;
+    /**
+     * Reads the answer of the remote, which is an empty string on success
+     * or an error message.
+     *
+     * @return {Promise<any>} The promise.
+     */
+    protected readAnswer(): Promise<any>;
+    /**
+     * Reads a chunk of a stream and answers the remote.
+     *
+     * @param {Function} [handler] The optional function, which handles the chunk before the answer is sent.
+     *                             It also gets the window size of the remote, if sent, or NaN.
+     * @param {boolean} [answer] Send the answer or let the caller do this.
+     *
+     * @return {Promise<Buffer>} The promise with the chunk or (null) if there is no more data.
+     */
+    protected readChunk(handler?: (chunk: Buffer, hash: Buffer, windowSize: number) => PromiseLike<any>, answer?: boolean): Promise<Buffer>;
+    /**
+     * Reads the answer of the remote for one or more chunks of a stream.
+     *
+     * @return {Promise<number>} The promise with the number of chunks, which have been answered.
+     */
+    protected readChunkAnswer(): Promise<number>;
+    /**
+     * Reads the next data from the remote (without queue).
+     *
+     * @param {OperationContext} [ctx] The context of the operation, which can be cancelled.
+     *
+     * @param {Promise<Buffer>} The promise.
+     */
+    protected readData(ctx?: OperationContext): Promise<Buffer>;
+    /**
+     * Reads a directory tree from remote and writes it to a directory on this machine.
+     *
+     * @param {string} path The path to the target directory.
+     * @param {DirectoryTransferOptions} [opts] Additional options, like a timeout.
+     *                                          'symlinks' with 'skip' does not create symbolic links.
+     *
+     * @return {Promise<ssocket_directories.DirectoryEntry[]>} The promise with the received entries.
+     */
+    readDirectory(path: string, opts?: DirectoryTransferOptions): Promise<ssocket_directories.DirectoryEntry[]>;
+    /**
+     * Reads data from remote and writes it to a file on this machine.
+     *
+     * If the path is an existing directory, the metadata of the file is received
+     * and the file is written to that directory with the name from the remote.
+     *
+     * @param {string} path The path to the target file or directory.
+     * @param {string|number} [flags] The custom flags for opening the target file.
+     *                                Default: 'w' or 'a+' in resume mode, 'w+' if metadata is received
+     * @param {TransferOptions} [opts] Additional options, like a timeout.
+     *
+     * @return {Promise<number>} The promise.
+     */
+    readFile(path: string, flags?: string | number, opts?: TransferOptions): Promise<number>;
+    /**
+     * Receives the metadata and the content of a file from the remote.
+     *
+     * @param {string} path The path to the target file or directory.
+     * @param {boolean} isDirectory Is 'path' a directory or not.
+     * @param {string|number} flags The custom flags for opening the target file.
+     * @param {TransferOptions} opts Additional options, like a timeout.
+     *
+     * @return {Promise<number>} The promise.
+     */
+    protected readFileWithMetadata(path: string, isDirectory: boolean, flags: string | number, opts: TransferOptions): Promise<number>;
+    /**
+     * Reads a crypted message while a handshake.
+     *
+     * @param {Buffer} pwd The password.
+     *
+     * @return {Promise<any>} The promise.
+     */
+    protected readHandshakeMessage(pwd: Buffer): Promise<any>;
+    /**
+     * Reads data as JSON object.
+     *
+     * @param {OperationOptions} [opts] Additional options, like a timeout.
+     *
+     * @return {Promise<T>} The promise.
+     */
+    readJSON<T>(opts?: OperationOptions): Promise<T>;
+    /**
+     * Reads the next package from the remote.
+     *
+     * @param {Buffer} pwd The password of the session.
+     *
+     * @param {Promise<ReceivedPackage>} The promise.
+     */
+    protected readPackage(pwd: Buffer): Promise<ReceivedPackage>;
+    /**
+     * Gets the number of 'read()' calls, which are running or waiting.
+     */
+    readonly readQueueLength: number;
+    /**
+     * Reads data from remote and writes it to a stream on this machine.
+     *
+     * @param {number} fdTarget The stream pointer of the target.
+     * @param {TransferOptions} [opts] Additional options, like a timeout.
+     *
+     * @return {Promise<number>} The promise.
+     */
+    readStream(fdTarget: number, opts?: TransferOptions): Promise<number>;
+    /**
+     * Reads data as string.
+     *
+     * @param {OperationOptions} [opts] Additional options, like a timeout.
+     *
+     * @return {Promise<string>} The promise.
+     */
+    readString(opts?: OperationOptions): Promise<string>;
+    /**
+     * The default time in milliseconds, an operation, which reads data,
+     * like 'read()' or 'readFile()', can take. A value of 0 means that there is no limit.
+     */
+    readTimeout: number;
+    /**
+     * Reads a value, which has been sent by 'writeValue()'.
+     *
+     * @param {OperationOptions} [opts] Additional options, like a timeout.
+     *
+     * @return {Promise<T>} The promise.
+     */
+    readValue<T>(opts?: OperationOptions): Promise<T>;
+    /**
+     * Receives the next package from the remote, if there is someone
+     * who waits for it, and handles it.
+     */
+    protected receive(): void;
+    /**
+     * Receives the chunks of a stream from the remote (without queue)
+     * and writes them to a stream on this machine.
+     *
+     * If the remote supports it, one answer is sent for several chunks:
+     * each time a quarter of the window of the remote is used, and at the end of the stream.
+     *
+     * @param {number} fdTarget The stream pointer of the target.
+     * @param {boolean} [resume] Continue a transfer, which has been broken before, or not.
+     * @param {ssocket_progress.ProgressTracker} [tracker] The tracker for the progress.
+     *
+     * @return {Promise<number>} The promise.
+     */
+    protected receiveStream(fdTarget: number, resume?: boolean, tracker?: ssocket_progress.ProgressTracker): Promise<number>;
+    /**
+     * The number of messages, which are buffered by the receive loop,
+     * before it stops receiving data from the remote.
+     */
+    receiveHighWaterMark: number;
+    /**
+     * Registers a method, which can be called by the remote via 'call()'.
+     *
+     * @param {string} name The name of the method.
+     * @param {RPCHandler} handler The method.
+     */
+    registerMethod(name: string, handler: ssocket_rpc.RPCHandler): void;
+    /**
+     * The number of bytes, after that the key for sending data is renewed.
+     */
+    rekeyAfterBytes: number;
+    /**
+     * The number of packages, after that the key for sending data is renewed.
+     */
+    rekeyAfterMessages: number;
+    /**
+     * Creates a package, which tells the remote that the key for sending data
+     * is renewed, if one of the limits has been reached.
+     *
+     * @param {Buffer} pwd The password of the session.
+     *
+     * @return {Buffer} The package (with its length) or (null) if no new key is required.
+     */
+    protected rekeyIfNeeded(pwd: Buffer): Buffer;
+    /**
+     * The time in milliseconds, after that the key for sending data is renewed.
+     */
+    rekeyInterval: number;
+    /**
+     * Removes a channel, after it has been closed.
+     *
+     * @param {Channel} channel The channel.
+     * @param {any} [err] The error for the calls, which wait for data of the channel.
+     */
+    protected removeChannel(channel: Channel, err?: any): void;
+    /**
+     * Renews the key for receiving data, after the remote has renewed its key.
+     *
+     * @param {Buffer} pwd The password of the session.
+     */
+    protected renewReceiveKey(pwd: Buffer): void;
+    /**
+     * The RSA key size.
+     */
+    rsaKeySize: number;
+    /**
+     * Gets the fingerprint of the identity key, the remote has presented while the handshake.
+     */
+    readonly remoteFingerprint: string;
+    /**
+     * Sends the next heartbeat to the remote
+     * or closes the connection, if the remote has not answered the last ones.
+     */
+    protected sendHeartbeat(): void;
+    /**
+     * Signs the handshake with the identity key and sends it to the client (SERVER side).
+     *
+     * @return {Promise<any>} The promise.
+     */
+    protected sendIdentity(): Promise<any>;
+    /**
+     * Sends the data of a stream to the remote as chunks (without queue).
+     *
+     * If the remote supports it, several chunks are sent before their answers are received.
+     *
+     * @param {number} fdSrc The stream pointer from where to read.
+     * @param {number} maxSize The maximum number of bytes to send.
+     * @param {number} bufferSize The buffer size for the read operation(s).
+     * @param {TransferOptions} [opts] The options of the transfer.
+     * @param {ssocket_progress.ProgressTracker} [tracker] The tracker for the progress.
+     *
+     * @return {Promise<number>} The promise.
+     */
+    protected sendStream(fdSrc: number, maxSize: number, bufferSize: number, opts?: TransferOptions, tracker?: ssocket_progress.ProgressTracker): Promise<number>;
+    /**
+     * The serializer for 'writeValue()' and 'readValue()'.
+     */
+    serializer: ssocket_serializer.Serializer;
+    /**
+     * Describes which identities of a server are trusted (CLIENT side).
+     */
+    serverTrust: ServerTrustOptions;
+    /**
+     * Sets up the events.
      */
     protected setupEvents(): void;
     /**
@@ -311,6 +1525,43 @@ export declare class SimpleSocket extends Events.EventEmitter {
      * @return {Net.Socket} The wrapped socket.
      */
     readonly socket: Net.Socket;
+    /**
+     * Starts sending heartbeats to the remote, if 'heartbeatInterval' is set
+     * and the remote supports them.
+     *
+     * This is done automatically after the handshake.
+     *
+     * @return {boolean} Heartbeats are sent or not.
+     */
+    startHeartbeat(): boolean;
+    /**
+     * Starts the receive loop, which receives data from the remote, even if nobody
+     * calls 'read()', and emits a 'message' event for each package, if there are listeners.
+     *
+     * Without listeners, received data is buffered, until it is read
+     * (s. 'receiveHighWaterMark').
+     */
+    startReceiving(): void;
+    /**
+     * Stops sending heartbeats to the remote.
+     */
+    stopHeartbeat(): void;
+    /**
+     * Stops the receive loop after the current package.
+     */
+    stopReceiving(): void;
+    /**
+     * The number of chunks of a stream, which are sent before waiting for an answer.
+     */
+    streamWindowSize: number;
+    /**
+     * Checks if a feature is supported by both sides.
+     *
+     * @param {string} feature The feature.
+     *
+     * @return {boolean} Is supported or not.
+     */
+    protected supportsFeature(feature: string): boolean;
     /**
      * Gets the socket type.
      */
@@ -319,16 +1570,64 @@ export declare class SimpleSocket extends Events.EventEmitter {
      * Tries to compress data.
      *
      * @param {any} data The data to compress.
+     * @param {string} [contentType] The content type of the data. If not defined, it is detected from the data.
      *
      * @return {Promise<CompressionResult>} The promise.
      */
-    protected tryCompress(data: any): Promise<CompressionResult>;
+    protected tryCompress(data: any, contentType?: string): Promise<CompressionResult>;
     /**
-     * Reads data from the remote.
+     * Receives the signed handshake of the server and checks if its identity is trusted (CLIENT side).
+     *
+     * @return {Promise<any>} The promise.
+     */
+    protected verifyIdentity(): Promise<any>;
+    /**
+     * Removes a method, which has been registered via 'registerMethod()'.
+     *
+     * @param {string} name The name of the method.
+     *
+     * @return {boolean} Method has been removed or not.
+     */
+    unregisterMethod(name: string): boolean;
+    /**
+     * Sends data to the remote.
+     *
+     * @param {any} data The data to send.
+     * @param {OperationOptions} [opts] Additional options, like a timeout.
      *
      * @param {Promise<Buffer>} The promise.
      */
-    write(data: any): Promise<Buffer>;
+    write(data: any, opts?: OperationOptions): Promise<Buffer>;
+    /**
+     * Sends a chunk of a stream and waits for the answer of the remote.
+     *
+     * An empty chunk tells the remote that there is no more data.
+     *
+     * @param {Buffer} chunk The chunk to send.
+     * @param {string} [contentType] The content type of the stream.
+     *
+     * @return {Promise<Buffer>} The promise with the hash of the chunk.
+     */
+    protected writeChunk(chunk: Buffer, contentType?: string): Promise<Buffer>;
+    /**
+     * Sends a chunk of a stream without waiting for an answer.
+     *
+     * @param {Buffer} chunk The chunk to send.
+     * @param {string} [contentType] The content type of the stream.
+     * @param {number} [windowSize] The window size to send after the chunk.
+     *
+     * @return {Promise<Buffer>} The promise with the hash of the chunk.
+     */
+    protected writeChunkBlock(chunk: Buffer, contentType?: string, windowSize?: number): Promise<Buffer>;
+    /**
+     * Sends a directory tree to the remote.
+     *
+     * @param {string} path The path of the directory to send.
+     * @param {DirectoryTransferOptions} [opts] Additional options, like filters or a timeout.
+     *
+     * @return {Promise<ssocket_directories.DirectoryEntry[]>} The promise with the sent entries.
+     */
+    writeDirectory(path: string, opts?: DirectoryTransferOptions): Promise<ssocket_directories.DirectoryEntry[]>;
     /**
      * Sends the data of a file to the remote.
      *
@@ -336,38 +1635,176 @@ export declare class SimpleSocket extends Events.EventEmitter {
      * @param {number} [maxSize] The maximum number of bytes to send.
      * @param {number} [bufferSize] The custom buffer size for the read operation(s).
      * @param {string|number} [flags] The custom flags for opening the file.
+     * @param {TransferOptions} [opts] Additional options, like a timeout.
+     *
+     * @return {Promise<number>} The promise.
+     */
+    writeFile(path: string, maxSize?: number, bufferSize?: number, flags?: string | number, opts?: TransferOptions): Promise<number>;
+    /**
+     * Sends the metadata and the content of a file to the remote.
+     *
+     * @param {string} path The path of the file.
+     * @param {number} fdSrc The stream pointer of the file.
+     * @param {number} [maxSize] The maximum number of bytes to send.
+     * @param {number} [bufferSize] The custom buffer size for the read operation(s).
+     * @param {TransferOptions} opts Additional options, like a timeout.
      *
      * @return {Promise<number>} The promise.
      */
-    writeFile(path: string, maxSize?: number, bufferSize?: number, flags?: string | number): Promise<number>;
+    protected writeFileWithMetadata(path: string, fdSrc: number, maxSize: number, bufferSize: number, opts: TransferOptions): Promise<number>;
+    /**
+     * Sends a crypted message while a handshake.
+     *
+     * @param {Buffer} pwd The password.
+     * @param {any} message The message.
+     *
+     * @return {Promise<any>} The promise.
+     */
+    protected writeHandshakeMessage(pwd: Buffer, message: any): Promise<any>;
     /**
      * Sends an object / value as JSON string.
      *
      * @param {T} obj The object to send.
+     * @param {OperationOptions} [opts] Additional options, like a timeout.
      *
      * @returns {Promise<Buffer>} The promise.
      */
-    writeJSON<T>(obj: T): Promise<Buffer>;
+    writeJSON<T>(obj: T, opts?: OperationOptions): Promise<Buffer>;
+    /**
+     * Sends a package to the remote.
+     *
+     * @param {number} type The type of the package.
+     * @param {any} data The data to send.
+     * @param {string} [contentType] The content type of the data.
+     *
+     * @param {Promise<Buffer>} The promise.
+     */
+    protected writePackage(type: number, data: any, contentType?: string): Promise<Buffer>;
+    /**
+     * Gets the number of 'write()' calls, which are running or waiting.
+     */
+    readonly writeQueueLength: number;
     /**
      * Sends the data of a stream to the remote.
      *
      * @param {number} fdSrc The stream pointer from where to read.
      * @param {number} [maxSize] The maximum number of bytes to send.
      * @param {number} [bufferSize] The custom buffer size for the read operation(s).
+     * @param {TransferOptions} [opts] Additional options, like a timeout.
      *
      * @return {Promise<number>} The promise.
      */
-    writeStream(fdSrc: number, maxSize?: number, bufferSize?: number): Promise<number>;
+    writeStream(fdSrc: number, maxSize?: number, bufferSize?: number, opts?: TransferOptions): Promise<number>;
+    /**
+     * The default time in milliseconds, an operation, which writes data,
+     * like 'write()' or 'writeFile()', can take. A value of 0 means that there is no limit.
+     */
+    writeTimeout: number;
+    /**
+     * Sends a value, like an object with buffers, dates or maps, which
+     * can be read by 'readValue()'.
+     *
+     * Other than 'writeJSON()', the value is serialized to a binary format, which keeps the types of the value.
+     *
+     * @param {T} value The value to send.
+     * @param {OperationOptions} [opts] Additional options, like a timeout.
+     *
+     * @returns {Promise<Buffer>} The promise.
+     */
+    writeValue<T>(value: T, opts?: OperationOptions): Promise<Buffer>;
+}
+/**
+ * A logical channel, which is multiplexed with other channels
+ * over the connection of a SimpleSocket.
+ */
+export declare class Channel extends SimpleSocket {
+    /**
+     * Stores the underlying multiplexer.
+     */
+    protected _multiplexer: ssocket_channels.ChannelMultiplexer;
+    /**
+     * Stores the name.
+     */
+    protected _name: string;
+    /**
+     * Stores the socket, the channel belongs to.
+     */
+    protected _parent: SimpleSocket;
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {SimpleSocket} parent The socket, the channel belongs to.
+     * @param {string} name The name.
+     * @param {ssocket_channels.ChannelMultiplexer} multiplexer The underlying multiplexer.
+     */
+    constructor(parent: SimpleSocket, name: string, multiplexer: ssocket_channels.ChannelMultiplexer);
+    /**
+     * Closes the channel (and not the underlying connection),
+     * if a running transfer has been cancelled.
+     */
+    protected cancelTransfer(): void;
+    /**
+     * Closes the channel.
+     *
+     * @return {Promise<any>} The promise.
+     */
+    end(): Promise<any>;
+    /**
+     * Is invoked after received data has been passed to a 'read()' call or a 'message' listener.
+     *
+     * @param {Buffer} data The data.
+     */
+    protected handleDataRead(data: Buffer): void;
+    /**
+     * Gets the state of the handshake of the underlying connection.
+     */
+    readonly handshakeState: HandshakeState;
+    /**
+     * Makes a handshake of the underlying connection if needed.
+     *
+     * @param {Promise<Buffer>} The promise.
+     */
+    makeHandshakeIfNeeded(): Promise<Buffer>;
+    /**
+     * Gets the name of the channel.
+     */
+    readonly name: string;
+    /**
+     * Gets the options, which have been negotiated for the underlying connection.
+     */
+    readonly negotiated: NegotiatedOptions;
+    /**
+     * Gets the socket, the channel belongs to.
+     */
+    readonly parent: SimpleSocket;
+    /**
+     * Receives packages of the underlying connection.
+     */
+    protected receive(): void;
+    /**
+     * Sets up the events.
+     */
+    protected setupEvents(): void;
+    /**
+     * Sends data on the channel.
+     *
+     * @param {number} type The type of the package.
+     * @param {any} data The data to send.
+     *
+     * @param {Promise<Buffer>} The promise.
+     */
+    protected writePackage(type: number, data: any): Promise<Buffer>;
 }
 /**
  * Connects to a remote (server).
  *
  * @param {number} port The TCP port of the remote machine.
  * @param {string} host The host (address).
+ * @param {ConnectOptions} [opts] Additional options.
  *
  * @return {Promise<SimpleSocket>} The promise.
  */
-export declare function connect(port: number, host?: string): Promise<SimpleSocket>;
+export declare function connect(port: number, host?: string, opts?: ConnectOptions): Promise<SimpleSocket>;
 /**
  * Creates a new instance.
  *
@@ -385,6 +1822,17 @@ export declare function create(socket?: Net.Socket, type?: SocketType): SimpleSo
  * @return {SimpleSocket} The new instance.
  */
 export declare function createClient(socket?: Net.Socket): SimpleSocket;
+/**
+ * Creates a new client, which connects to a server again,
+ * if the connection has been lost.
+ *
+ * @param {number} port The TCP port of the remote machine.
+ * @param {string} [host] The host (address).
+ * @param {ssocket_reconnect.ReconnectOptions} [opts] Additional options.
+ *
+ * @return {ssocket_reconnect.ReconnectingClient} The new client.
+ */
+export declare function createReconnectingClient(port: number, host?: string, opts?: ssocket_reconnect.ReconnectOptions): ssocket_reconnect.ReconnectingClient;
 /**
  * Creates a new SERVER instance.
  *
@@ -398,7 +1846,8 @@ export declare function createServer(socket?: Net.Socket): SimpleSocket;
  *
  * @param {number} port The TCP port to listen on.
  * @param {ListenCallback} cb The listener callback.
+ * @param {ListenOptions} [opts] Additional options.
  *
  * @return {Promise<Net.Server>} The promise.
  */
-export declare function listen(port: number, cb: ListenCallback): Promise<Net.Server>;
+export declare function listen(port: number, cb: ListenCallback, opts?: ListenOptions): Promise<Net.Server>;
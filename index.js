@@ -1,5 +1,8 @@
 /// <reference types="node" />
 "use strict";
+function __export(m) {
+    for (var p in m) if (!exports.hasOwnProperty(p)) exports[p] = m[p];
+}
 // The MIT License (MIT)
 // 
 // node-simple-socket (https://github.com/mkloubert/node-simple-socket)
@@ -27,16 +30,101 @@ const Events = require('events');
 const FS = require('fs');
 const Net = require('net');
 const Path = require('path');
+const ssocket_channels = require('./channels');
+const ssocket_codecs = require('./codecs');
+const ssocket_compat = require('./compat');
+const ssocket_directories = require('./directories');
 const RSA = require('node-rsa');
+const ssocket_errors = require('./errors');
 const ssocket_helpers = require('./helpers');
-const ZLib = require('zlib');
+const ssocket_identity = require('./identity');
+const ssocket_progress = require('./progress');
+const ssocket_queue = require('./queue');
+const ssocket_ratelimit = require('./ratelimit');
+const ssocket_reconnect = require('./reconnect');
+const ssocket_rpc = require('./rpc');
+const ssocket_serializer = require('./serializer');
+const ssocket_streams = require('./streams');
+var codecs_1 = require('./codecs');
+exports.getCodec = codecs_1.getCodec;
+exports.getCodecNames = codecs_1.getCodecNames;
+exports.registerCodec = codecs_1.registerCodec;
+__export(require('./errors'));
+var identity_1 = require('./identity');
+exports.getFingerprint = identity_1.getFingerprint;
+var ratelimit_1 = require('./ratelimit');
+exports.RateLimiter = ratelimit_1.RateLimiter;
+var reconnect_1 = require('./reconnect');
+exports.ReconnectingClient = reconnect_1.ReconnectingClient;
+var serializer_1 = require('./serializer');
+exports.deserialize = serializer_1.deserialize;
+exports.registerType = serializer_1.registerType;
+exports.serialize = serializer_1.serialize;
+var streams_1 = require('./streams');
+exports.SocketReadStream = streams_1.SocketReadStream;
+exports.SocketWriteStream = streams_1.SocketWriteStream;
+const AEAD_ALGORITHMS = ['aes-128-gcm', 'aes-192-gcm', 'aes-256-gcm', 'chacha20-poly1305'];
+const AEAD_HEADER_SIZE = 9;
+const AEAD_IV_SIZE = 12;
+const AEAD_TAG_SIZE = 16;
+const DEFAULT_ALGORITHM = 'aes-256-gcm';
+const DEFAULT_KEY_EXCHANGE_ECDH = 'ecdh-p256';
+const DEFAULT_KEY_EXCHANGE_X25519 = 'x25519';
 const DEFAULT_MAX_PACKAGE_SIZE = 16777211;
 const DEFAULT_DEFAULT_READ_BUFFER_SIZE = 8192;
 const DEFAULT_RSA_KEY_SIZE = 512;
+const FEATURE_AUTH = 'auth';
+const FEATURE_CODECS = 'codecs';
+const FEATURE_CONTEXT = 'context';
+const FEATURE_HEARTBEAT = 'heartbeat';
+const FEATURE_IDENTITY = 'identity';
+const FEATURE_PSK = 'psk';
+const FEATURE_REKEY = 'rekey';
+const FEATURE_WINDOW = 'window';
+const KEY_EXCHANGE_RSA = 'rsa';
+const HELLO_MAGIC = Buffer.from([0x4E, 0x53, 0x53, 0xFF]);
+const LEGACY_ALGORITHM = 'aes-256-ctr';
+const LEGACY_PROTOCOL_VERSION = 1;
+const MAX_HELLO_SIZE = 65535;
+const MAX_HANDSHAKE_MESSAGE_SIZE = 65535;
+const MAX_IDENTITY_SIZE = 65535;
+const MAX_KEY_AGREEMENT_PUBLIC_KEY_SIZE = 1024;
+const MAX_UNANSWERED_CHUNKS = 16;
+const PACKAGE_TYPE_DATA = 0;
+const PACKAGE_TYPE_REKEY = 1;
+const PACKAGE_TYPE_RPC = 2;
+const PACKAGE_TYPE_CHANNEL = 3;
+const PACKAGE_TYPE_PING = 4;
+const PACKAGE_TYPE_PONG = 5;
+const SESSION_SECRET_SIZE = 48;
 /**
  * The default (string) encoding.
  */
 exports.DEFAULT_ENCODING = 'utf8';
+/**
+ * The version of the protocol, which is supported by that module.
+ */
+exports.PROTOCOL_VERSION = 2;
+/**
+ * The default symetric encryption algorithm.
+ */
+exports.DefaultAlgorithm = DEFAULT_ALGORITHM;
+/**
+ * The default number of bytes, the remote can send on a channel, before the data is read.
+ */
+exports.DefaultChannelWindowSize = 262144;
+/**
+ * The default list of content types, which are not compressed.
+ */
+exports.DefaultCompressionSkipTypes = [
+    'application/gzip', 'application/vnd.rar', 'application/x-7z-compressed', 'application/x-brotli',
+    'application/x-bzip2', 'application/x-xz', 'application/zip', 'application/zstd',
+    'audio/*', 'image/gif', 'image/jpeg', 'image/png', 'image/webp', 'video/*',
+];
+/**
+ * The default minimum size of data in bytes, which is compressed.
+ */
+exports.DefaultCompressionThreshold = 256;
 /**
  * Default working directory.
  */
@@ -45,6 +133,15 @@ exports.DefaultCWD = process.cwd();
  * The default text encoding.
  */
 exports.DefaultEncoding = 'utf8';
+/**
+ * The default time in milliseconds, a handshake can take.
+ */
+exports.DefaultHandshakeTimeout = 30000;
+/**
+ * The default number of heartbeats, the remote can leave unanswered,
+ * before the connection is closed.
+ */
+exports.DefaultHeartbeatMaxMisses = 3;
 /**
  * The default size for a maximum data package.
  */
@@ -53,10 +150,18 @@ exports.DefaultMaxPackageSize = 16777211;
  * Default buffer size for reading streams.
  */
 exports.DefaultReadBufferSize = 8192;
+/**
+ * The default number of messages, which are buffered by the receive loop.
+ */
+exports.DefaultReceiveHighWaterMark = 16;
 /**
  * The default RSA key size.
  */
 exports.DefaultRSAKeySize = 512;
+/**
+ * The default number of chunks of a stream, which are sent before waiting for an answer.
+ */
+exports.DefaultStreamWindowSize = 8;
 /**
  * List of data transform directions.
  */
@@ -71,6 +176,28 @@ exports.DefaultRSAKeySize = 512;
     DataTransformerDirection[DataTransformerDirection["Restore"] = 2] = "Restore";
 })(exports.DataTransformerDirection || (exports.DataTransformerDirection = {}));
 var DataTransformerDirection = exports.DataTransformerDirection;
+/**
+ * List of handshake states.
+ */
+(function (HandshakeState) {
+    /**
+     * No handshake has been made yet.
+     */
+    HandshakeState[HandshakeState["Idle"] = 0] = "Idle";
+    /**
+     * Handshake is running.
+     */
+    HandshakeState[HandshakeState["Handshaking"] = 1] = "Handshaking";
+    /**
+     * Handshake has been finished.
+     */
+    HandshakeState[HandshakeState["Ready"] = 2] = "Ready";
+    /**
+     * Handshake has failed.
+     */
+    HandshakeState[HandshakeState["Failed"] = 3] = "Failed";
+})(exports.HandshakeState || (exports.HandshakeState = {}));
+var HandshakeState = exports.HandshakeState;
 /**
  * List of socket types.
  */
@@ -97,10 +224,94 @@ class SimpleSocket extends Events.EventEmitter {
      */
     constructor(type, socket) {
         super();
+        /**
+         * Stores the open channels.
+         */
+        this._channels = {};
+        /**
+         * Stores the state of the handshake.
+         */
+        this._handshakeState = HandshakeState.Idle;
+        /**
+         * Stores the number of heartbeats, the remote has not answered.
+         */
+        this._heartbeatMisses = 0;
+        /**
+         * Stores if the connection has been closed or not.
+         */
+        this._isClosed = false;
+        /**
+         * Stores if a package is currently received or not.
+         */
+        this._isReceivingPackage = false;
+        /**
+         * Stores the ID of the last ping.
+         */
+        this._pingId = 0;
+        /**
+         * Stores the callbacks of the 'read()' calls that wait for data.
+         */
+        this._readers = [];
+        /**
+         * Stores the queue for the operations, which read data.
+         */
+        this._readQueue = new ssocket_queue.OperationQueue();
+        /**
+         * Stores data that has been received, but not read yet.
+         */
+        this._receivedData = [];
+        /**
+         * Stores if the receive loop is running or not.
+         */
+        this._receiveLoop = false;
+        /**
+         * Stores the sequence number of the next package that is expected from the remote.
+         */
+        this._receiveSequence = 0;
+        /**
+         * Stores the sequence number of the next package that is sent to the remote.
+         */
+        this._sendSequence = 0;
+        /**
+         * Stores the queue for the operations, which write data.
+         */
+        this._writeQueue = new ssocket_queue.OperationQueue();
+        /**
+         * The symetric encryption algorithm.
+         */
+        this.algorithm = exports.DefaultAlgorithm;
+        /**
+         * The number of bytes, the remote can send on a channel, before the data is read.
+         */
+        this.channelWindowSize = exports.DefaultChannelWindowSize;
+        /**
+         * The list of compression codecs, ordered by preference.
+         */
+        this.codecs = exports.DefaultCodecs;
         /**
          * Try compress data or not.
          */
         this.compress = exports.Compress;
+        /**
+         * Keep a compression context between packages or not, if the remote supports it.
+         */
+        this.compressionContext = exports.DefaultCompressionContext;
+        /**
+         * The preset dictionary for compression, if a compression context is used.
+         */
+        this.compressionDictionary = exports.DefaultCompressionDictionary;
+        /**
+         * The compression level, like '9' for 'gzip'.
+         */
+        this.compressionLevel = exports.DefaultCompressionLevel;
+        /**
+         * The list of content types, like 'image/png' or 'video/*', which are not compressed.
+         */
+        this.compressionSkipTypes = exports.DefaultCompressionSkipTypes;
+        /**
+         * The minimum size of data in bytes, which is compressed.
+         */
+        this.compressionThreshold = exports.DefaultCompressionThreshold;
         /**
          * The path of the working directory.
          */
@@ -114,11 +325,30 @@ class SimpleSocket extends Events.EventEmitter {
          * Gets or sets the (string) encoding to use.
          */
         this.encoding = exports.DefaultEncoding;
+        /**
+         * The time in milliseconds, a handshake can take before it fails.
+         * A value of 0 means that there is no limit.
+         */
+        this.handshakeTimeout = exports.DefaultHandshakeTimeout;
         /**
          * A custom function that transforms the handshake
          * public key before it is send or after it has been received.
          */
         this.handshakeTransformer = exports.DefaultHandshakeTransformer;
+        /**
+         * The time in milliseconds between two heartbeats, which are sent
+         * to detect a dead remote. A value of 0 disables heartbeats.
+         */
+        this.heartbeatInterval = exports.DefaultHeartbeatInterval;
+        /**
+         * The number of heartbeats, the remote can leave unanswered,
+         * before the connection is closed.
+         */
+        this.heartbeatMaxMisses = exports.DefaultHeartbeatMaxMisses;
+        /**
+         * The key exchange method, like 'x25519', 'ecdh-p256' or 'rsa'.
+         */
+        this.keyExchange = exports.DefaultKeyExchange;
         /**
          * Defines the maximum size of a package.
          */
@@ -127,14 +357,54 @@ class SimpleSocket extends Events.EventEmitter {
          * Defines a custom logic to generate a password (for the connection).
          */
         this.passwordGenerator = exports.DefaultPasswordGenerator;
+        /**
+         * The rate limit for sending data, like a number of bytes per second
+         * or a limiter, which is shared with other sockets.
+         */
+        this.rateLimit = exports.DefaultRateLimit;
         /**
          * The default buffer size for reading a stream.
          */
         this.readBufferSize = exports.DefaultReadBufferSize;
+        /**
+         * The default time in milliseconds, an operation, which reads data,
+         * like 'read()' or 'readFile()', can take. A value of 0 means that there is no limit.
+         */
+        this.readTimeout = exports.DefaultReadTimeout;
+        /**
+         * The number of messages, which are buffered by the receive loop,
+         * before it stops receiving data from the remote.
+         */
+        this.receiveHighWaterMark = exports.DefaultReceiveHighWaterMark;
+        /**
+         * The number of bytes, after that the key for sending data is renewed.
+         */
+        this.rekeyAfterBytes = exports.DefaultRekeyAfterBytes;
+        /**
+         * The number of packages, after that the key for sending data is renewed.
+         */
+        this.rekeyAfterMessages = exports.DefaultRekeyAfterMessages;
+        /**
+         * The time in milliseconds, after that the key for sending data is renewed.
+         */
+        this.rekeyInterval = exports.DefaultRekeyInterval;
         /**
          * The RSA key size.
          */
         this.rsaKeySize = exports.DefaultRSAKeySize;
+        /**
+         * The serializer for 'writeValue()' and 'readValue()'.
+         */
+        this.serializer = exports.DefaultSerializer;
+        /**
+         * The number of chunks of a stream, which are sent before waiting for an answer.
+         */
+        this.streamWindowSize = exports.DefaultStreamWindowSize;
+        /**
+         * The default time in milliseconds, an operation, which writes data,
+         * like 'write()' or 'writeFile()', can take. A value of 0 means that there is no limit.
+         */
+        this.writeTimeout = exports.DefaultWriteTimeout;
         this._type = type;
         if (isNaN(this._type)) {
             this._type = parseInt(ssocket_helpers.toStringSafe(type).trim());
@@ -146,60 +416,108 @@ class SimpleSocket extends Events.EventEmitter {
         this.setupEvents();
     }
     /**
-     * Gets the symetric encryption algorithm.
-     */
-    get algorithm() {
-        return 'aes-256-ctr';
-    }
-    /**
-     * Disposes the socket.
+     * Waits for the resume offer of the remote and answers it (SENDER side).
+     *
+     * The offer is only accepted if the first bytes of the source
+     * have the same hash as the data the remote already holds.
+     *
+     * @param {number} fdSrc The stream pointer of the source.
+     * @param {number} maxSize The maximum number of bytes to send.
+     * @param {number} bufferSize The buffer size for the read operation(s).
+     *
+     * @return {Promise<number>} The promise with the offset to continue from.
      */
-    dispose() {
+    answerResume(fdSrc, maxSize, bufferSize) {
         let me = this;
-        me.removeAllListeners();
-        me.end().then(() => {
-            me.emit('disposed');
-        }, (err) => {
-            me.emit('error', err);
+        return new Promise((resolve, reject) => {
+            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+            let sendAnswer = (offset) => {
+                me.writePackage(PACKAGE_TYPE_DATA, JSON.stringify({
+                    offset: offset,
+                })).then(() => {
+                    completed(null, offset);
+                }, (err) => {
+                    completed(err);
+                });
+            };
+            try {
+                me.readData().then((data) => {
+                    try {
+                        let offer = JSON.parse(data.toString(exports.DEFAULT_ENCODING));
+                        let offset = parseInt(ssocket_helpers.toStringSafe(offer.offset).trim());
+                        if (isNaN(offset) || offset < 1 || offset > maxSize) {
+                            sendAnswer(0); // start from the beginning
+                            return;
+                        }
+                        hashFile(fdSrc, offset, bufferSize).then((hash) => {
+                            if (hash && hash.toString('hex') === ssocket_helpers.normalizeString(offer.hash)) {
+                                sendAnswer(offset);
+                            }
+                            else {
+                                sendAnswer(0); // data of remote is different
+                            }
+                        }, (err) => {
+                            completed(err);
+                        });
+                    }
+                    catch (e) {
+                        completed(e);
+                    }
+                }, (err) => {
+                    completed(err);
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
         });
     }
     /**
-     * Sends the connection.
+     * Sends the credentials to the server and waits for the result (CLIENT side).
      *
-     * @param {any} [data] The optional data to send.
-     * @param {string} [encoding] The encoding to use.
+     * @param {Buffer} pwd The current password.
      *
-     * @return {Promise<any>} The promise.
+     * @return {Promise<Buffer>} The promise with the final password.
      */
-    end(data, encoding) {
+    authenticate(pwd) {
         let me = this;
-        let buff;
-        if (arguments.length > 0) {
-            buff = ssocket_helpers.asBuffer(data, me.getEncoding());
-        }
         return new Promise((resolve, reject) => {
-            let completed = (err) => {
+            let completed = (err, finalPwd) => {
                 if (err) {
+                    me.socket.end();
                     reject(err);
                 }
                 else {
-                    me.emit('close');
-                    resolve();
+                    resolve(finalPwd);
                 }
             };
             try {
-                if (!buff || buff.length < 1) {
-                    me.socket.end();
-                    completed(null);
+                let features = me.negotiated.features;
+                let psk = ssocket_helpers.asBuffer(me.psk);
+                if (psk && features.indexOf(FEATURE_PSK) < 0) {
+                    completed(new ssocket_errors.AuthenticationError('Server does not know the pre-shared key!'));
                     return;
                 }
-                return this.socket.end(buff, (err) => {
-                    if (err) {
-                        completed(err);
-                    }
-                    else {
-                        completed(null);
+                if (features.indexOf(FEATURE_AUTH) < 0) {
+                    completed(null, pwd); // no authentication required
+                    return;
+                }
+                let transcriptHash = getTranscriptHash(me._transcript);
+                let request = {
+                    credentials: me.credentials,
+                };
+                if (psk) {
+                    request.psk = createPSKProof(psk, transcriptHash).toString('base64');
+                }
+                me.writeHandshakeMessage(pwd, request).then(() => {
+                    return me.readHandshakeMessage(pwd);
+                }).then((response) => {
+                    if (!response || !response.ok) {
+                        throw new ssocket_errors.AuthenticationError('Server rejected authentication: ' + ssocket_helpers.toStringSafe(response ? response.error : null));
                     }
+                    completed(null, mixPSK(pwd, psk));
+                }).then(null, (err) => {
+                    completed(err);
                 });
             }
             catch (e) {
@@ -208,56 +526,89 @@ class SimpleSocket extends Events.EventEmitter {
         });
     }
     /**
-     * Generates a password based on the 'passwordGenerator' property.
+     * Receives the credentials of a client and checks them (SERVER side).
      *
-     * @param {Promise<Buffer>} The promise.
+     * @param {Buffer} pwd The current password.
+     *
+     * @return {Promise<Buffer>} The promise with the final password.
      */
-    generatePassword() {
+    authenticateClient(pwd) {
         let me = this;
         return new Promise((resolve, reject) => {
             let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+            let rejectClient = (reason) => {
+                me.writeHandshakeMessage(pwd, { error: reason }).then(() => {
+                    me.socket.end();
+                    completed(new ssocket_errors.AuthenticationError(reason));
+                }, (err) => {
+                    completed(err);
+                });
+            };
             try {
-                let pwdGen = me.passwordGenerator;
-                if (!pwdGen) {
-                    pwdGen = () => {
-                        return new Promise((resolve, reject) => {
-                            Crypto.randomBytes(48, (err, randBuff) => {
-                                if (err) {
-                                    reject(err);
-                                }
-                                else {
-                                    resolve(randBuff);
-                                }
-                            });
+                let psk = ssocket_helpers.asBuffer(me.psk);
+                if (!psk && !me.authenticator) {
+                    completed(null, pwd); // no authentication required
+                    return;
+                }
+                let transcriptHash = getTranscriptHash(me._transcript);
+                me.readHandshakeMessage(pwd).then((request) => {
+                    if (!request) {
+                        request = {};
+                    }
+                    if (psk) {
+                        let expectedProof = createPSKProof(psk, transcriptHash);
+                        let proof = new Buffer(ssocket_helpers.toStringSafe(request.psk), 'base64');
+                        if (proof.length !== expectedProof.length || !Crypto.timingSafeEqual(proof, expectedProof)) {
+                            rejectClient('Invalid pre-shared key');
+                            return;
+                        }
+                    }
+                    let credentials = request.credentials;
+                    if (!credentials || 'object' !== typeof credentials) {
+                        credentials = null;
+                    }
+                    let acceptClient = (identity) => {
+                        me._identity = identity;
+                        me.writeHandshakeMessage(pwd, { ok: true }).then(() => {
+                            completed(null, mixPSK(pwd, psk));
+                        }, (err) => {
+                            completed(err);
                         });
                     };
-                }
-                let returnPassword = (pwd) => {
-                    if (!pwd) {
-                        pwd = Buffer.alloc(0);
+                    if (!me.authenticator) {
+                        acceptClient({
+                            type: FEATURE_PSK,
+                        });
+                        return;
                     }
-                    completed(null, pwd);
-                };
-                let pwdResult = pwdGen();
-                if ('object' === typeof pwdResult) {
-                    if ('function' === typeof pwdResult['then']) {
-                        // promise
-                        let promise = pwdResult;
-                        promise.then((pwd) => {
-                            returnPassword(ssocket_helpers.asBuffer(pwd));
+                    let handleResult = (result) => {
+                        if (!result) {
+                            rejectClient('Invalid credentials');
+                        }
+                        else if (true === result) {
+                            acceptClient({
+                                type: credentials ? credentials.type : undefined,
+                                user: credentials ? credentials.user : undefined,
+                            });
+                        }
+                        else {
+                            acceptClient(result);
+                        }
+                    };
+                    let authResult = me.authenticator(credentials, me);
+                    if (authResult && 'function' === typeof authResult['then']) {
+                        authResult.then((result) => {
+                            handleResult(result);
                         }, (err) => {
                             completed(err);
                         });
                     }
                     else {
-                        // Buffer
-                        returnPassword(ssocket_helpers.asBuffer(pwdResult));
+                        handleResult(authResult);
                     }
-                }
-                else {
-                    // string
-                    returnPassword(ssocket_helpers.asBuffer(pwdResult));
-                }
+                }).then(null, (err) => {
+                    completed(err);
+                });
             }
             catch (e) {
                 completed(e);
@@ -265,140 +616,304 @@ class SimpleSocket extends Events.EventEmitter {
         });
     }
     /**
-     * Returns the working directory.
+     * Calls a method of the remote, which has been registered there via 'registerMethod()'.
      *
-     * @return {string} The working directory.
+     * @param {string} method The name of the method.
+     * @param {any} [params] The parameters for the method.
+     * @param {CallOptions} [opts] Additional options.
+     *
+     * @return {Promise<TResult>} The promise with the result.
      */
-    getCwd() {
-        let result = ssocket_helpers.toStringSafe(this.cwd);
-        if (ssocket_helpers.isEmptyString(result)) {
-            result = process.cwd();
-        }
-        else if (!Path.isAbsolute(result)) {
-            result = Path.join(process.cwd(), result);
-        }
+    call(method, params, opts) {
+        let result = this.getRPC().call(method, params, opts);
+        // wait for response
+        this.receive();
         return result;
     }
     /**
-     * Returns the (string) encoding that should be used by that socket.
+     * Is invoked if a running transfer of a file or stream has been cancelled.
      *
-     * @return {string} The encoding.
+     * The remote still waits for answers, so the connection is closed.
      */
-    getEncoding() {
-        return ssocket_helpers.normalizeString(this.encoding) ||
-            ssocket_helpers.normalizeString(exports.DefaultEncoding) ||
-            exports.DEFAULT_ENCODING;
+    cancelTransfer() {
+        this.socket.destroy();
     }
     /**
-     * Gets the maximum size for a package.
+     * Checks if the fingerprint of a server is trusted (CLIENT side).
      *
-     * @return {number} The maximum package size.
-     */
-    getMaxPackageSize() {
-        let result = parseInt(ssocket_helpers.toStringSafe(this.maxPackageSize).trim());
-        if (isNaN(result)) {
-            result = parseInt(ssocket_helpers.toStringSafe(exports.DefaultMaxPackageSize).trim());
-        }
-        if (isNaN(result)) {
-            result = DEFAULT_MAX_PACKAGE_SIZE;
-        }
-        return result;
-    }
-    /**
-     * Gets the size for a RSA key.
+     * @param {string} fingerprint The fingerprint of the server.
      *
-     * @return {number} The RSA key size.
+     * @return {Promise<any>} The promise.
      */
-    getRSAKeySize() {
-        let result = parseInt(ssocket_helpers.toStringSafe(this.rsaKeySize).trim());
-        if (isNaN(result)) {
-            result = parseInt(ssocket_helpers.toStringSafe(exports.DefaultRSAKeySize).trim());
+    checkServerTrust(fingerprint) {
+        let me = this;
+        return new Promise((resolve, reject) => {
+            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+            try {
+                let trust = me.serverTrust;
+                if (!requiresServerIdentity(trust)) {
+                    completed(null); // trust all
+                    return;
+                }
+                let trustedFingerprints = (trust.fingerprints || []).concat((trust.trustedKeys || []).map((k) => {
+                    return ssocket_identity.getFingerprint(k);
+                }));
+                if (trustedFingerprints.length > 0) {
+                    let isTrusted = trustedFingerprints.some((tf) => {
+                        return ssocket_identity.isSameFingerprint(tf, fingerprint);
+                    });
+                    if (!isTrusted) {
+                        completed(new ssocket_errors.IdentityError('Identity ' + fingerprint + ' of server is not trusted!', fingerprint));
+                        return;
+                    }
+                }
+                if (ssocket_helpers.isEmptyString(trust.knownHostsFile)) {
+                    completed(null);
+                    return;
+                }
+                let knownHostsFile = trust.knownHostsFile;
+                if (!Path.isAbsolute(knownHostsFile)) {
+                    knownHostsFile = Path.join(me.getCwd(), knownHostsFile);
+                }
+                ssocket_identity.checkKnownHost(knownHostsFile, trust.knownHostsName, fingerprint).then((isKnown) => {
+                    if (isKnown) {
+                        completed(null);
+                    }
+                    else {
+                        completed(new ssocket_errors.IdentityError('Identity ' + fingerprint + ' of server ' + trust.knownHostsName + ' does not match the entry in ' + knownHostsFile + '!', fingerprint));
+                    }
+                }, (err) => {
+                    completed(err);
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+    /**
+     * Creates a tracker for the progress of a transfer, which
+     * emits 'progress' events and invokes the listener of the options.
+     *
+     * @param {string} direction The direction: 'read' or 'write'.
+     * @param {number} fd The stream pointer of the source / target.
+     * @param {TransferOptions} [opts] The options of the transfer.
+     *
+     * @return {ssocket_progress.ProgressTracker} The new tracker.
+     */
+    createProgressTracker(direction, fd, opts) {
+        let me = this;
+        let onProgress = opts ? opts.onProgress : null;
+        return new ssocket_progress.ProgressTracker(direction, fd, (progress) => {
+            me.emit('progress', progress);
+            if (onProgress) {
+                onProgress(progress);
+            }
+        });
+    }
+    /**
+     * Creates a readable stream, which receives the data
+     * that is sent by the remote via 'writeStream()', 'writeFile()' or 'createWriteStream()'.
+     *
+     * @param {Stream.ReadableOptions} [opts] Options for the stream, like 'highWaterMark'.
+     *
+     * @return {ssocket_streams.SocketReadStream} The new stream.
+     */
+    createReadStream(opts) {
+        let me = this;
+        // other operations must not read between the chunks
+        let lock = createStreamLock((action) => me.exclusive(action));
+        let stream = new ssocket_streams.SocketReadStream(() => {
+            return lock.run(() => me.readChunk()).then((chunk) => {
+                if (!chunk) {
+                    lock.release(); // no more data
+                }
+                return chunk;
+            }, (err) => {
+                lock.release();
+                throw err;
+            });
+        }, opts);
+        stream.once('close', () => {
+            lock.release();
+        });
+        return stream;
+    }
+    /**
+     * Creates a writable stream, which sends its data to the remote,
+     * that can receive it via 'readStream()', 'readFile()' or 'createReadStream()'.
+     *
+     * @param {Stream.WritableOptions} [opts] Options for the stream, like 'highWaterMark'.
+     *
+     * @return {ssocket_streams.SocketWriteStream} The new stream.
+     */
+    createWriteStream(opts) {
+        let me = this;
+        // other operations must not write between the chunks
+        let lock = createStreamLock((action) => me.exclusive(action));
+        let stream = new ssocket_streams.SocketWriteStream((chunk) => {
+            return lock.run(() => me.writeChunk(chunk)).then((result) => {
+                if (chunk.length < 1) {
+                    lock.release(); // no more data
+                }
+                return result;
+            }, (err) => {
+                lock.release();
+                throw err;
+            });
+        }, me.getReadBufferSize(), opts);
+        stream.once('close', () => {
+            lock.release();
+        });
+        return stream;
+    }
+    /**
+     * Decrypts data that has been received from the remote.
+     *
+     * @param {Buffer} cryptedData The crypted data.
+     * @param {Buffer} pwd The password.
+     *
+     * @return {Buffer} The uncrypted data.
+     */
+    decryptData(cryptedData, pwd) {
+        let algorithm = this.getAlgorithm();
+        if (!isAEADAlgorithm(algorithm)) {
+            // legacy mode
+            let decipher = Crypto.createDecipher(algorithm, pwd);
+            let a = decipher.update(cryptedData);
+            let b = decipher.final();
+            return Buffer.concat([a, b]);
         }
-        if (isNaN(result)) {
-            result = DEFAULT_RSA_KEY_SIZE;
+        if (cryptedData.length < (AEAD_HEADER_SIZE + AEAD_TAG_SIZE)) {
+            throw new ssocket_errors.IntegrityError('Package is too small to be authenticated!');
         }
-        return result;
+        // direction + sequence number
+        let header = cryptedData.slice(0, AEAD_HEADER_SIZE);
+        let direction = header.readUInt8(0);
+        let sequence = header.readUInt32BE(1) * 0x100000000 + header.readUInt32BE(5);
+        let authTag = cryptedData.slice(AEAD_HEADER_SIZE, AEAD_HEADER_SIZE + AEAD_TAG_SIZE);
+        let keys = this.getSessionKeys(pwd);
+        let decipher = createAEADCipher(algorithm, direction == this.type ? keys.send : keys.receive, header, true);
+        decipher.setAAD(header);
+        decipher.setAuthTag(authTag);
+        let a = decipher.update(cryptedData.slice(AEAD_HEADER_SIZE + AEAD_TAG_SIZE));
+        let b;
+        try {
+            b = decipher.final();
+        }
+        catch (e) {
+            throw new ssocket_errors.IntegrityError('Package could not be authenticated! It has been modified or was crypted with another key.');
+        }
+        // package is authentic, now check
+        // if it is the one we expect
+        if (direction == this.type) {
+            throw new ssocket_errors.ReplayError('Package has been reflected!', sequence, this._receiveSequence);
+        }
+        if (sequence < this._receiveSequence) {
+            throw new ssocket_errors.ReplayError('Package has been replayed! Expected sequence number ' + this._receiveSequence + ' but got ' + sequence + '.', sequence, this._receiveSequence);
+        }
+        if (sequence > this._receiveSequence) {
+            throw new ssocket_errors.ReplayError('Package has been reordered or dropped! Expected sequence number ' + this._receiveSequence + ' but got ' + sequence + '.', sequence, this._receiveSequence);
+        }
+        ++this._receiveSequence;
+        return Buffer.concat([a, b]);
     }
     /**
-     * Returns the buffer size for reading streams.
+     * Reads and skips the chunks of a stream until its end.
      *
-     * @return {number} The buffer size.
+     * @return {Promise<any>} The promise.
      */
-    getReadBufferSize() {
-        let result = parseInt(ssocket_helpers.toStringSafe(this.readBufferSize).trim());
-        if (isNaN(result)) {
-            result = parseInt(ssocket_helpers.toStringSafe(exports.DefaultReadBufferSize).trim());
-        }
-        if (isNaN(result)) {
-            result = DEFAULT_DEFAULT_READ_BUFFER_SIZE;
+    drainChunks() {
+        let me = this;
+        return me.readData().then((chunkBlock) => {
+            if (chunkBlock && chunkBlock.length >= 4 && chunkBlock.readUInt32LE(0) < 1) {
+                return; // end
+            }
+            return me.drainChunks();
+        });
+    }
+    /**
+     * Disposes the socket.
+     */
+    dispose() {
+        let me = this;
+        me.removeAllListeners();
+        me.end().then(() => {
+            me.emit('disposed');
+        }, (err) => {
+            me.emit('error', err);
+        });
+    }
+    /**
+     * Encrypts data that should be send to the remote.
+     *
+     * @param {Buffer} uncryptedData The data to encrypt.
+     * @param {Buffer} pwd The password.
+     *
+     * @return {Buffer} The crypted data.
+     */
+    encryptData(uncryptedData, pwd) {
+        let algorithm = this.getAlgorithm();
+        if (!isAEADAlgorithm(algorithm)) {
+            // legacy mode
+            let cipher = Crypto.createCipher(algorithm, pwd);
+            let a = cipher.update(uncryptedData);
+            let b = cipher.final();
+            return Buffer.concat([a, b]);
         }
-        return result;
+        // direction + sequence number, which
+        // are used as nonce and are authenticated
+        let sequence = this._sendSequence++;
+        let header = Buffer.alloc(AEAD_HEADER_SIZE);
+        header.writeUInt8(this.type, 0);
+        header.writeUInt32BE(Math.floor(sequence / 0x100000000), 1);
+        header.writeUInt32BE(sequence % 0x100000000, 5);
+        let keys = this.getSessionKeys(pwd);
+        keys.sentBytes += uncryptedData.length;
+        ++keys.sentMessages;
+        let cipher = createAEADCipher(algorithm, keys.send, header, false);
+        cipher.setAAD(header);
+        let a = cipher.update(uncryptedData);
+        let b = cipher.final();
+        return Buffer.concat([header, cipher.getAuthTag(), a, b]);
     }
     /**
-     * Makes a CLIENT handshake.
+     * Sends the connection.
      *
-     * @param {Promise<Buffer>} The promise.
+     * @param {any} [data] The optional data to send.
+     * @param {string} [encoding] The encoding to use.
+     *
+     * @return {Promise<any>} The promise.
      */
-    makeClientHandshake() {
+    end(data, encoding) {
         let me = this;
+        let buff;
+        if (arguments.length > 0) {
+            buff = ssocket_helpers.asBuffer(data, me.getEncoding());
+        }
         return new Promise((resolve, reject) => {
-            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+            let completed = (err) => {
+                if (err) {
+                    reject(err);
+                }
+                else {
+                    me.emit('close');
+                    resolve();
+                }
+            };
             try {
-                let keySize = parseInt(ssocket_helpers.toStringSafe(me.rsaKeySize).trim());
-                if (isNaN(keySize)) {
-                    keySize = me.getRSAKeySize();
+                if (!buff || buff.length < 1) {
+                    me.socket.end();
+                    completed(null);
+                    return;
                 }
-                me.emit('rsakey.generating', keySize);
-                let keys = RSA({
-                    b: keySize,
-                });
-                me.emit('rsakey.generated', keys);
-                let untransformerPublicKey = new Buffer(ssocket_helpers.toStringSafe(keys.exportKey('public')), me.getEncoding());
-                let transformerPromise = asDataTransformerPromise(me.handshakeTransformer, DataTransformerDirection.Transform, untransformerPublicKey);
-                transformerPromise.then((publicKey) => {
-                    let publicKeyLength = Buffer.alloc(4);
-                    publicKeyLength.writeUInt32LE(publicKey.length, 0);
-                    // first send length of public key data
-                    me.socket.write(publicKeyLength, (err) => {
-                        if (err) {
-                            completed(err);
-                            return;
-                        }
-                        // now send key
-                        me.socket.write(publicKey, (err) => {
-                            if (err) {
-                                completed(err);
-                                return;
-                            }
-                            // now lets wait for the password
-                            // first the length
-                            ssocket_helpers.readSocket(me.socket, 2).then((buff) => {
-                                try {
-                                    let pwdLength = buff.readUInt16LE(0);
-                                    if (pwdLength <= me.getMaxPackageSize()) {
-                                        // and now the password itself
-                                        ssocket_helpers.readSocket(me.socket, pwdLength).then((pwd) => {
-                                            completed(null, pwd);
-                                        }, (err) => {
-                                            completed(err);
-                                        });
-                                    }
-                                    else {
-                                        // maximum package size reached
-                                        me.socket.end();
-                                        completed(null, null);
-                                    }
-                                }
-                                catch (e) {
-                                    completed(e);
-                                }
-                            }, (err) => {
-                                completed(err);
-                            });
-                        });
-                    });
-                }, (err) => {
-                    completed(err);
+                return this.socket.end(buff, (err) => {
+                    if (err) {
+                        completed(err);
+                    }
+                    else {
+                        completed(null);
+                    }
                 });
             }
             catch (e) {
@@ -407,121 +922,2748 @@ class SimpleSocket extends Events.EventEmitter {
         });
     }
     /**
-     * Makes a handshake if needed.
+     * Invokes an action, which reads and writes data, so that no
+     * other 'read()' or 'write()' call can run at the same time.
      *
-     * @param {Promise<Buffer>} The promise.
+     * @param {Function} action The action to invoke.
+     *
+     * @return {Promise<TResult>} The promise.
      */
-    makeHandshakeIfNeeded() {
+    exclusive(action) {
         let me = this;
-        return new Promise((resolve, reject) => {
-            let type = me.type;
-            if (ssocket_helpers.isNullOrUndefined(me.password)) {
-                if (type == SocketType.Server) {
-                    // SERVER handshake
-                    me.makeServerHandshake().then((pwd) => {
-                        me.password = pwd;
-                        me.emit('handshake', pwd);
-                        resolve(pwd);
-                    }, (err) => {
-                        reject(err);
-                    });
-                }
-                else if (type == SocketType.Client) {
-                    // CLIENT handshake
-                    me.makeClientHandshake().then((pwd) => {
-                        me.password = pwd;
-                        me.emit('handshake', pwd);
-                        resolve(pwd);
-                    }, (err) => {
-                        reject(err);
-                    });
-                }
-                else {
-                    reject(new Error(`Unknown socket type ${type}`));
-                }
-            }
-            else {
-                // no handshake required
-                resolve(me.password);
-            }
+        // always lock in the same order
+        return me._writeQueue.enqueue(() => {
+            return me._readQueue.enqueue(action);
         });
     }
     /**
-     * Makes a SERVER handshake.
+     * Generates a password based on the 'passwordGenerator' property.
      *
      * @param {Promise<Buffer>} The promise.
      */
-    makeServerHandshake() {
+    generatePassword() {
         let me = this;
         return new Promise((resolve, reject) => {
             let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
             try {
-                // first read size of public key
-                ssocket_helpers.readSocket(me.socket, 4).then((buff) => {
-                    try {
-                        let publicKeyLength = buff.readUInt32LE(0);
-                        if (publicKeyLength <= me.getMaxPackageSize()) {
-                            ssocket_helpers.readSocket(me.socket, publicKeyLength).then((buff) => {
-                                try {
-                                    let transformerPromise = asDataTransformerPromise(me.handshakeTransformer, DataTransformerDirection.Restore, buff);
-                                    transformerPromise.then((untransformedBuffer) => {
-                                        try {
-                                            let publicKey = untransformedBuffer.toString(me.getEncoding());
-                                            let key = RSA(publicKey);
-                                            me.emit('password.generating');
-                                            // generate and send password
-                                            me.generatePassword().then((pwd) => {
-                                                try {
-                                                    me.emit('password.generated', pwd);
-                                                    let pwdLength = Buffer.alloc(2);
-                                                    pwdLength.writeUInt16LE(pwd.length, 0);
-                                                    // first send size of password
-                                                    me.socket.write(pwdLength, (err) => {
-                                                        if (err) {
-                                                            completed(err);
-                                                            return;
-                                                        }
-                                                        // and now the password itself
-                                                        me.socket.write(pwd, (err) => {
-                                                            if (err) {
-                                                                completed(err);
-                                                            }
-                                                            else {
-                                                                completed(null, pwd);
-                                                            }
-                                                        });
-                                                    });
-                                                }
-                                                catch (e) {
-                                                    completed(e);
-                                                }
-                                            }, (err) => {
-                                                completed(err);
-                                            });
-                                        }
-                                        catch (e) {
-                                            completed(e);
-                                        }
-                                    }, (err) => {
-                                        completed(err);
-                                    });
+                let pwdGen = me.passwordGenerator;
+                if (!pwdGen) {
+                    pwdGen = () => {
+                        return new Promise((resolve, reject) => {
+                            Crypto.randomBytes(48, (err, randBuff) => {
+                                if (err) {
+                                    reject(err);
                                 }
-                                catch (e) {
-                                    completed(e);
+                                else {
+                                    resolve(randBuff);
                                 }
-                            }, (err) => {
-                                completed(err);
                             });
-                        }
-                        else {
-                            // maximum package size reached
-                            me.socket.end();
-                            completed(null, null);
-                        }
+                        });
+                    };
+                }
+                let returnPassword = (pwd) => {
+                    if (!pwd) {
+                        pwd = Buffer.alloc(0);
                     }
-                    catch (e) {
-                        completed(e);
+                    completed(null, pwd);
+                };
+                let pwdResult = pwdGen();
+                if ('object' === typeof pwdResult) {
+                    if ('function' === typeof pwdResult['then']) {
+                        // promise
+                        let promise = pwdResult;
+                        promise.then((pwd) => {
+                            returnPassword(ssocket_helpers.asBuffer(pwd));
+                        }, (err) => {
+                            completed(err);
+                        });
+                    }
+                    else {
+                        // Buffer
+                        returnPassword(ssocket_helpers.asBuffer(pwdResult));
+                    }
+                }
+                else {
+                    // string
+                    returnPassword(ssocket_helpers.asBuffer(pwdResult));
+                }
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+    /**
+     * Returns the symetric encryption algorithm that should be used by that socket.
+     *
+     * @return {string} The algorithm.
+     */
+    getAlgorithm() {
+        if (this._negotiated) {
+            return this._negotiated.cipher;
+        }
+        return ssocket_helpers.normalizeString(this.algorithm) ||
+            ssocket_helpers.normalizeString(exports.DefaultAlgorithm) ||
+            DEFAULT_ALGORITHM;
+    }
+    /**
+     * Returns the compression codecs that are supported by that socket, ordered by preference.
+     *
+     * @return {string[]} The list of codecs.
+     */
+    getCodecs() {
+        if (false === this.compress) {
+            return ['none'];
+        }
+        let registeredCodecs = ssocket_codecs.getCodecNames();
+        let codecs = this.codecs || exports.DefaultCodecs;
+        if (codecs) {
+            codecs = codecs.map((c) => ssocket_helpers.normalizeString(c)).filter((c) => {
+                return registeredCodecs.indexOf(c) > -1;
+            });
+        }
+        else {
+            // all registered codecs
+            codecs = registeredCodecs.filter((c) => 'none' !== c);
+            codecs.push('none');
+        }
+        return codecs;
+    }
+    /**
+     * Returns the compression context for sending data.
+     *
+     * @param {ssocket_codecs.Codec} codec The codec.
+     *
+     * @return {ssocket_codecs.CompressionContext} The context.
+     */
+    getCompressContext(codec) {
+        let me = this;
+        if (!me._compressContext) {
+            let dictionary = me.getCompressionDictionary();
+            let level = me.getCompressionLevel();
+            me._compressContext = new ssocket_codecs.CompressionContext(() => {
+                return codec.createCompressContext(level, dictionary);
+            });
+        }
+        return me._compressContext;
+    }
+    /**
+     * Returns the preset dictionary for compression.
+     *
+     * @return {Buffer} The dictionary or (null) if not defined.
+     */
+    getCompressionDictionary() {
+        let dictionary = this.compressionDictionary;
+        if (ssocket_helpers.isNullOrUndefined(dictionary)) {
+            dictionary = exports.DefaultCompressionDictionary;
+        }
+        let result = ssocket_helpers.asBuffer(dictionary, this.getEncoding());
+        if (!result || result.length < 1) {
+            return null;
+        }
+        return result;
+    }
+    /**
+     * Returns the compression level.
+     *
+     * @return {number} The level or (undefined) for the default of the codec.
+     */
+    getCompressionLevel() {
+        let level = parseInt(ssocket_helpers.toStringSafe(this.compressionLevel).trim());
+        if (isNaN(level)) {
+            return undefined;
+        }
+        return level;
+    }
+    /**
+     * Returns the symetric encryption algorithms that are supported by that socket, ordered by preference.
+     *
+     * @return {string[]} The list of algorithms.
+     */
+    getCiphers() {
+        let ciphers = [this.getAlgorithm()];
+        let availableCiphers = Crypto.getCiphers();
+        AEAD_ALGORITHMS.forEach((c) => {
+            if (ciphers.indexOf(c) < 0 && availableCiphers.indexOf(c) > -1) {
+                ciphers.push(c);
+            }
+        });
+        return ciphers;
+    }
+    /**
+     * Returns the number of bytes, the encryption adds to a package.
+     *
+     * @return {number} The number of bytes.
+     */
+    getCryptOverhead() {
+        if (isAEADAlgorithm(this.getAlgorithm())) {
+            return AEAD_HEADER_SIZE + AEAD_TAG_SIZE;
+        }
+        return 0;
+    }
+    /**
+     * Returns the number of bytes, the remote can send on a channel, before the data is read.
+     *
+     * @return {number} The number of bytes.
+     */
+    getChannelWindowSize() {
+        let result = parseInt(ssocket_helpers.toStringSafe(this.channelWindowSize).trim());
+        if (isNaN(result)) {
+            result = exports.DefaultChannelWindowSize;
+        }
+        if (isNaN(result) || result < 1) {
+            result = ssocket_channels.INITIAL_WINDOW_SIZE;
+        }
+        return result;
+    }
+    /**
+     * Returns the working directory.
+     *
+     * @return {string} The working directory.
+     */
+    getCwd() {
+        let result = ssocket_helpers.toStringSafe(this.cwd);
+        if (ssocket_helpers.isEmptyString(result)) {
+            result = process.cwd();
+        }
+        else if (!Path.isAbsolute(result)) {
+            result = Path.join(process.cwd(), result);
+        }
+        return result;
+    }
+    /**
+     * Returns the compression context for received data.
+     *
+     * @param {ssocket_codecs.Codec} codec The codec.
+     *
+     * @return {ssocket_codecs.CompressionContext} The context.
+     */
+    getDecompressContext(codec) {
+        let me = this;
+        if (!me._decompressContext) {
+            let dictionary = me.getCompressionDictionary();
+            me._decompressContext = new ssocket_codecs.CompressionContext(() => {
+                return codec.createDecompressContext(dictionary);
+            });
+        }
+        return me._decompressContext;
+    }
+    /**
+     * Returns the (string) encoding that should be used by that socket.
+     *
+     * @return {string} The encoding.
+     */
+    getEncoding() {
+        return ssocket_helpers.normalizeString(this.encoding) ||
+            ssocket_helpers.normalizeString(exports.DefaultEncoding) ||
+            exports.DEFAULT_ENCODING;
+    }
+    /**
+     * Returns the key exchange method that should be used by that socket.
+     *
+     * @return {string} The method.
+     */
+    getKeyExchange() {
+        if (this._negotiated) {
+            return this._negotiated.keyExchange;
+        }
+        return ssocket_helpers.normalizeString(this.keyExchange) ||
+            ssocket_helpers.normalizeString(exports.DefaultKeyExchange) ||
+            (isX25519Supported() ? DEFAULT_KEY_EXCHANGE_X25519 : DEFAULT_KEY_EXCHANGE_ECDH);
+    }
+    /**
+     * Returns the key exchange methods that are supported by that socket, ordered by preference.
+     *
+     * @return {string[]} The list of methods.
+     */
+    getKeyExchanges() {
+        let keyExchanges = [this.getKeyExchange()];
+        let availableKeyExchanges = [DEFAULT_KEY_EXCHANGE_ECDH, KEY_EXCHANGE_RSA];
+        if (isX25519Supported()) {
+            availableKeyExchanges.unshift(DEFAULT_KEY_EXCHANGE_X25519);
+        }
+        availableKeyExchanges.forEach((kex) => {
+            if (keyExchanges.indexOf(kex) < 0) {
+                keyExchanges.push(kex);
+            }
+        });
+        return keyExchanges;
+    }
+    /**
+     * Gets the maximum size for a package.
+     *
+     * @return {number} The maximum package size.
+     */
+    getMaxPackageSize() {
+        let result = parseInt(ssocket_helpers.toStringSafe(this.maxPackageSize).trim());
+        if (isNaN(result)) {
+            result = parseInt(ssocket_helpers.toStringSafe(exports.DefaultMaxPackageSize).trim());
+        }
+        if (isNaN(result)) {
+            result = DEFAULT_MAX_PACKAGE_SIZE;
+        }
+        if (this._negotiated) {
+            result = Math.min(result, this._negotiated.maxPackageSize);
+        }
+        return result;
+    }
+    /**
+     * Returns a limit for renewing the key for sending data.
+     *
+     * @param {any} value The value of the socket.
+     * @param {any} defaultValue The default value.
+     *
+     * @return {number} The limit or (0) if not defined.
+     */
+    getRekeyLimit(value, defaultValue) {
+        let result = parseFloat(ssocket_helpers.toStringSafe(value).trim());
+        if (isNaN(result)) {
+            result = parseFloat(ssocket_helpers.toStringSafe(defaultValue).trim());
+        }
+        if (isNaN(result) || result < 0) {
+            result = 0;
+        }
+        return result;
+    }
+    /**
+     * Gets the size for a RSA key.
+     *
+     * @return {number} The RSA key size.
+     */
+    getRSAKeySize() {
+        let result = parseInt(ssocket_helpers.toStringSafe(this.rsaKeySize).trim());
+        if (isNaN(result)) {
+            result = parseInt(ssocket_helpers.toStringSafe(exports.DefaultRSAKeySize).trim());
+        }
+        if (isNaN(result)) {
+            result = DEFAULT_RSA_KEY_SIZE;
+        }
+        return result;
+    }
+    /**
+     * Returns the multiplexer for the channels.
+     *
+     * @return {ssocket_channels.ChannelMultiplexer} The multiplexer.
+     */
+    getMultiplexer() {
+        let me = this;
+        if (!me._multiplexer) {
+            me._multiplexer = new ssocket_channels.ChannelMultiplexer({
+                close: (name) => {
+                    let channel = me._channels[name];
+                    if (channel) {
+                        me.removeChannel(channel, new Error(`Channel '${name}' has been closed by remote!`));
+                    }
+                },
+                data: (name, data) => {
+                    let isNew = !me._channels[name];
+                    let channel = me.openChannel(name);
+                    if (isNew) {
+                        me.emit('channel', channel);
+                    }
+                    channel.handlePackage({
+                        data: data,
+                        type: PACKAGE_TYPE_DATA,
+                    });
+                },
+                receive: () => {
+                    me.receive();
+                },
+                send: (frame) => {
+                    return me.writePackage(PACKAGE_TYPE_CHANNEL, frame);
+                },
+            });
+        }
+        return me._multiplexer;
+    }
+    /**
+     * Returns the handler for remote calls.
+     *
+     * @return {ssocket_rpc.RPCEndpoint} The handler.
+     */
+    getRPC() {
+        let me = this;
+        if (!me._rpc) {
+            me._rpc = new ssocket_rpc.RPCEndpoint(me, (message) => {
+                return me.writePackage(PACKAGE_TYPE_RPC, JSON.stringify(message));
+            });
+        }
+        return me._rpc;
+    }
+    /**
+     * Returns the limiter for sending data.
+     *
+     * @param {OperationOptions} [opts] The options of the operation, which can define an own limit.
+     *
+     * @return {ssocket_ratelimit.RateLimiter} The limiter or (null) if there is no limit.
+     */
+    getRateLimiter(opts) {
+        let me = this;
+        let isOwnLimit = opts && !ssocket_helpers.isNullOrUndefined(opts.rateLimit);
+        let limit = isOwnLimit ? opts.rateLimit : me.rateLimit;
+        if (ssocket_helpers.isNullOrUndefined(limit)) {
+            return null;
+        }
+        if ('object' === typeof limit) {
+            return limit; // shared limiter
+        }
+        let bytesPerSecond = parseFloat(ssocket_helpers.toStringSafe(limit).trim());
+        if (isNaN(bytesPerSecond) || bytesPerSecond <= 0) {
+            return null;
+        }
+        if (isOwnLimit) {
+            return new ssocket_ratelimit.RateLimiter(bytesPerSecond); // for that operation only
+        }
+        // limiter of that socket
+        if (!me._rateLimiter || me._rateLimiter.bytesPerSecond !== bytesPerSecond) {
+            me._rateLimiter = new ssocket_ratelimit.RateLimiter(bytesPerSecond);
+        }
+        return me._rateLimiter;
+    }
+    /**
+     * Returns the serializer for 'writeValue()' and 'readValue()'.
+     *
+     * @return {ssocket_serializer.Serializer} The serializer.
+     */
+    getSerializer() {
+        let serializer = this.serializer;
+        if (!serializer) {
+            serializer = exports.DefaultSerializer;
+        }
+        if (!serializer) {
+            serializer = {
+                deserialize: ssocket_serializer.deserialize,
+                serialize: ssocket_serializer.serialize,
+            };
+        }
+        return serializer;
+    }
+    /**
+     * Returns the time in milliseconds, an operation, which reads data, can take.
+     *
+     * @return {number} The timeout or 0 if there is no limit.
+     */
+    getReadTimeout() {
+        let result = parseInt(ssocket_helpers.toStringSafe(this.readTimeout).trim());
+        if (isNaN(result)) {
+            result = parseInt(ssocket_helpers.toStringSafe(exports.DefaultReadTimeout).trim());
+        }
+        if (isNaN(result) || result < 1) {
+            result = 0;
+        }
+        return result;
+    }
+    /**
+     * Returns the number of messages, which are buffered by the receive loop.
+     *
+     * @return {number} The number of messages.
+     */
+    getReceiveHighWaterMark() {
+        let result = parseInt(ssocket_helpers.toStringSafe(this.receiveHighWaterMark).trim());
+        if (isNaN(result)) {
+            result = exports.DefaultReceiveHighWaterMark;
+        }
+        if (isNaN(result) || result < 1) {
+            result = 1;
+        }
+        return result;
+    }
+    /**
+     * Returns the time in milliseconds, a handshake can take.
+     *
+     * @return {number} The timeout or 0 if there is no limit.
+     */
+    getHandshakeTimeout() {
+        let result = parseInt(ssocket_helpers.toStringSafe(this.handshakeTimeout).trim());
+        if (isNaN(result)) {
+            result = exports.DefaultHandshakeTimeout;
+        }
+        if (isNaN(result) || result < 1) {
+            result = 0;
+        }
+        return result;
+    }
+    /**
+     * Returns the time in milliseconds between two heartbeats.
+     *
+     * @return {number} The interval or 0 if heartbeats are disabled.
+     */
+    getHeartbeatInterval() {
+        let result = parseInt(ssocket_helpers.toStringSafe(this.heartbeatInterval).trim());
+        if (isNaN(result)) {
+            result = parseInt(ssocket_helpers.toStringSafe(exports.DefaultHeartbeatInterval).trim());
+        }
+        if (isNaN(result) || result < 1) {
+            result = 0;
+        }
+        return result;
+    }
+    /**
+     * Returns the number of heartbeats, the remote can leave unanswered.
+     *
+     * @return {number} The number of heartbeats.
+     */
+    getHeartbeatMaxMisses() {
+        let result = parseInt(ssocket_helpers.toStringSafe(this.heartbeatMaxMisses).trim());
+        if (isNaN(result)) {
+            result = exports.DefaultHeartbeatMaxMisses;
+        }
+        if (isNaN(result) || result < 1) {
+            result = 1;
+        }
+        return result;
+    }
+    /**
+     * Returns the keys of the current session.
+     *
+     * @param {Buffer} pwd The password of the session.
+     *
+     * @return {Object} The keys.
+     */
+    getSessionKeys(pwd) {
+        let keys = this._sessionKeys;
+        if (!keys || keys.password !== pwd) {
+            // new session
+            let remoteType = this.type == SocketType.Server ? SocketType.Client : SocketType.Server;
+            keys = this._sessionKeys = {
+                lastRekey: Date.now(),
+                password: pwd,
+                receive: deriveDirectionSecret(pwd, remoteType),
+                receiveGeneration: 0,
+                send: deriveDirectionSecret(pwd, this.type),
+                sendGeneration: 0,
+                sentBytes: 0,
+                sentMessages: 0,
+            };
+        }
+        return keys;
+    }
+    /**
+     * Returns the buffer size for reading streams.
+     *
+     * @return {number} The buffer size.
+     */
+    getReadBufferSize() {
+        let result = parseInt(ssocket_helpers.toStringSafe(this.readBufferSize).trim());
+        if (isNaN(result)) {
+            result = parseInt(ssocket_helpers.toStringSafe(exports.DefaultReadBufferSize).trim());
+        }
+        if (isNaN(result)) {
+            result = DEFAULT_DEFAULT_READ_BUFFER_SIZE;
+        }
+        return result;
+    }
+    /**
+     * Returns the number of chunks of a stream, which are sent before waiting for an answer.
+     *
+     * @param {TransferOptions} [opts] The options of the transfer, which can define an own size.
+     *
+     * @return {number} The window size.
+     */
+    getStreamWindowSize(opts) {
+        let result = parseInt(ssocket_helpers.toStringSafe(opts ? opts.windowSize : null).trim());
+        if (isNaN(result)) {
+            result = parseInt(ssocket_helpers.toStringSafe(this.streamWindowSize).trim());
+        }
+        if (isNaN(result)) {
+            result = parseInt(ssocket_helpers.toStringSafe(exports.DefaultStreamWindowSize).trim());
+        }
+        if (isNaN(result) || result < 1) {
+            result = 1;
+        }
+        return result;
+    }
+    /**
+     * Returns the time in milliseconds, an operation, which writes data, can take.
+     *
+     * @return {number} The timeout or 0 if there is no limit.
+     */
+    getWriteTimeout() {
+        let result = parseInt(ssocket_helpers.toStringSafe(this.writeTimeout).trim());
+        if (isNaN(result)) {
+            result = parseInt(ssocket_helpers.toStringSafe(exports.DefaultWriteTimeout).trim());
+        }
+        if (isNaN(result) || result < 1) {
+            result = 0;
+        }
+        return result;
+    }
+    /**
+     * Is invoked after the connection has been closed.
+     *
+     * @param {any} err The error for the calls, which wait for data.
+     */
+    handleClose(err) {
+        let me = this;
+        me._isClosed = true;
+        me._receiveLoop = false;
+        me.stopHeartbeat();
+        if (me._compressContext) {
+            me._compressContext.dispose();
+        }
+        if (me._decompressContext) {
+            me._decompressContext.dispose();
+        }
+        let readers = me._readers;
+        me._readers = [];
+        readers.forEach((r) => {
+            r(err);
+        });
+    }
+    /**
+     * Is invoked after received data has been passed to a 'read()' call or a 'message' listener.
+     *
+     * @param {Buffer} data The data.
+     */
+    handleDataRead(data) {
+    }
+    /**
+     * Handles a package, which has been received from the remote.
+     *
+     * @param {ReceivedPackage} pkg The package.
+     */
+    handlePackage(pkg) {
+        let me = this;
+        me._heartbeatMisses = 0; // remote is alive
+        switch (pkg.type) {
+            case PACKAGE_TYPE_DATA:
+                if (me._readers.length > 0) {
+                    me.handleDataRead(pkg.data);
+                    me._readers.shift()(null, pkg.data);
+                }
+                else if (me.listenerCount('message') > 0) {
+                    me.handleDataRead(pkg.data);
+                    me.emit('message', pkg.data);
+                }
+                else {
+                    me._receivedData.push(pkg.data);
+                }
+                break;
+            case PACKAGE_TYPE_CHANNEL:
+                me.getMultiplexer().handleFrame(pkg.data);
+                break;
+            case PACKAGE_TYPE_PING:
+                if (!isSocketWritable(me.socket)) {
+                    break; // remote has gone
+                }
+                // send back the ID
+                me.writePackage(PACKAGE_TYPE_PONG, pkg.data).then(() => {
+                }, (err) => {
+                    // connection is closed
+                });
+                break;
+            case PACKAGE_TYPE_PONG:
+                if (me._pingTime && pkg.data.length >= 4 &&
+                    pkg.data.readUInt32LE(0) === me._pingId) {
+                    let roundTripTime = Date.now() - me._pingTime;
+                    me._pingTime = null;
+                    me.emit('heartbeat', roundTripTime);
+                }
+                break;
+            case PACKAGE_TYPE_RPC:
+                me.getRPC().handleMessage(JSON.parse(pkg.data.toString('utf8')));
+                break;
+        }
+    }
+    /**
+     * Checks if packages contain a type (and can be control packages) or not.
+     *
+     * @return {boolean} Has types or not.
+     */
+    hasPackageTypes() {
+        return this._negotiated &&
+            this._negotiated.version > LEGACY_PROTOCOL_VERSION;
+    }
+    /**
+     * Makes the handshake with the remote, if it has not been made yet.
+     *
+     * All calls share the same handshake, which is also made by the first
+     * 'read()' or 'write()' call.
+     *
+     * @return {Promise<Buffer>} The promise with the password.
+     */
+    handshake() {
+        return this.makeHandshakeIfNeeded();
+    }
+    /**
+     * Gets the state of the handshake.
+     */
+    get handshakeState() {
+        return this._handshakeState;
+    }
+    /**
+     * Gets the identity of the authenticated client (SERVER side).
+     */
+    get identity() {
+        return this._identity;
+    }
+    /**
+     * Checks if anyone waits for packages from the remote.
+     *
+     * @return {boolean} Packages are required or not.
+     */
+    isReceiveRequired() {
+        let me = this;
+        if (me._isClosed) {
+            return false;
+        }
+        if (me._readers.length > 0) {
+            return true;
+        }
+        if ((me._receiveLoop || me._heartbeatTimer) &&
+            me._receivedData.length < me.getReceiveHighWaterMark()) {
+            return true;
+        }
+        if (me._rpc && me._rpc.isActive) {
+            return true;
+        }
+        if (me._multiplexer && me._multiplexer.isWaiting) {
+            return true; // waits for credit
+        }
+        return Object.keys(me._channels).some((name) => {
+            return me._channels[name].isReceiveRequired();
+        });
+    }
+    /**
+     * Gets if the receive loop is running or not.
+     */
+    get isReceiving() {
+        return this._receiveLoop;
+    }
+    /**
+     * Makes a CLIENT handshake.
+     *
+     * @param {Promise<Buffer>} The promise.
+     */
+    makeClientHandshake() {
+        let me = this;
+        return new Promise((resolve, reject) => {
+            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+            try {
+                me._transcript = [];
+                me.makeClientHello().then((negotiated) => {
+                    me._negotiated = negotiated;
+                    let exchangeKeys;
+                    if (KEY_EXCHANGE_RSA === negotiated.keyExchange) {
+                        exchangeKeys = me.makeClientKeyExchange();
+                    }
+                    else {
+                        exchangeKeys = me.makeKeyAgreement();
+                    }
+                    return exchangeKeys.then((pwd) => {
+                        return me.verifyIdentity().then(() => {
+                            return me.authenticate(pwd);
+                        });
+                    });
+                }).then((pwd) => {
+                    completed(null, pwd);
+                }, (err) => {
+                    completed(err);
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+    /**
+     * Sends the 'hello' of a CLIENT and receives the answer of the server.
+     *
+     * @return {Promise<NegotiatedOptions>} The promise.
+     */
+    makeClientHello() {
+        let me = this;
+        return new Promise((resolve, reject) => {
+            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+            try {
+                let features = [FEATURE_AUTH, FEATURE_CODECS, FEATURE_HEARTBEAT, FEATURE_IDENTITY, FEATURE_REKEY, FEATURE_WINDOW];
+                if (me.compressionContext) {
+                    features.push(FEATURE_CONTEXT);
+                }
+                if (!ssocket_helpers.isNullOrUndefined(me.psk)) {
+                    features.push(FEATURE_PSK);
+                }
+                let hello = {
+                    ciphers: me.getCiphers(),
+                    codecs: me.getCodecs(),
+                    dictionary: toDictionaryHash(me.getCompressionDictionary()),
+                    features: features,
+                    keyExchanges: me.getKeyExchanges(),
+                    maxPackageSize: me.getMaxPackageSize(),
+                    version: exports.PROTOCOL_VERSION,
+                };
+                writeHello(me.socket, hello, me._transcript).then(() => {
+                    return readHello(me.socket, me._transcript);
+                }).then((answer) => {
+                    if (!ssocket_helpers.isEmptyString(answer.error)) {
+                        if (FEATURE_AUTH === answer.errorCode) {
+                            throw new ssocket_errors.AuthenticationError('Server rejected authentication: ' + answer.error);
+                        }
+                        throw new Error('Server rejected handshake: ' + answer.error);
+                    }
+                    if (hello.ciphers.indexOf(answer.cipher) < 0) {
+                        throw new Error('Server selected an unsupported cipher: ' + answer.cipher);
+                    }
+                    if (hello.codecs.indexOf(answer.codec) < 0) {
+                        throw new Error('Server selected an unsupported codec: ' + answer.codec);
+                    }
+                    if (hello.keyExchanges.indexOf(answer.keyExchange) < 0) {
+                        throw new Error('Server selected an unsupported key exchange: ' + answer.keyExchange);
+                    }
+                    completed(null, {
+                        cipher: answer.cipher,
+                        codec: answer.codec,
+                        features: (answer.features || []).filter((f) => hello.features.indexOf(f) > -1),
+                        keyExchange: answer.keyExchange,
+                        maxPackageSize: Math.min(hello.maxPackageSize, answer.maxPackageSize),
+                        version: Math.min(hello.version, answer.version),
+                    });
+                }).then(null, (err) => {
+                    completed(err);
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+    /**
+     * Exchanges the password with the server (CLIENT side).
+     *
+     * @param {Promise<Buffer>} The promise.
+     */
+    makeClientKeyExchange() {
+        let me = this;
+        return new Promise((resolve, reject) => {
+            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+            try {
+                let keySize = parseInt(ssocket_helpers.toStringSafe(me.rsaKeySize).trim());
+                if (isNaN(keySize)) {
+                    keySize = me.getRSAKeySize();
+                }
+                me.emit('rsakey.generating', keySize);
+                let keys = RSA({
+                    b: keySize,
+                });
+                me.emit('rsakey.generated', keys);
+                let untransformerPublicKey = new Buffer(ssocket_helpers.toStringSafe(keys.exportKey('public')), me.getEncoding());
+                let transformerPromise = asDataTransformerPromise(me.handshakeTransformer, DataTransformerDirection.Transform, untransformerPublicKey);
+                transformerPromise.then((publicKey) => {
+                    let publicKeyLength = Buffer.alloc(4);
+                    publicKeyLength.writeUInt32LE(publicKey.length, 0);
+                    me._transcript.push(publicKey);
+                    // first send length of public key data
+                    me.socket.write(publicKeyLength, (err) => {
+                        if (err) {
+                            completed(err);
+                            return;
+                        }
+                        // now send key
+                        me.socket.write(publicKey, (err) => {
+                            if (err) {
+                                completed(err);
+                                return;
+                            }
+                            // now lets wait for the password
+                            // first the length
+                            ssocket_helpers.readSocket(me.socket, 2).then((buff) => {
+                                try {
+                                    let pwdLength = buff.readUInt16LE(0);
+                                    if (pwdLength <= me.getMaxPackageSize()) {
+                                        // and now the (encrypted) password itself
+                                        ssocket_helpers.readSocket(me.socket, pwdLength).then((encryptedPwd) => {
+                                            try {
+                                                me._transcript.push(encryptedPwd);
+                                                completed(null, keys.decrypt(encryptedPwd));
+                                            }
+                                            catch (e) {
+                                                completed(e);
+                                            }
+                                        }, (err) => {
+                                            completed(err);
+                                        });
+                                    }
+                                    else {
+                                        // maximum package size reached
+                                        me.socket.end();
+                                        completed(new Error('Password is too big!'));
+                                    }
+                                }
+                                catch (e) {
+                                    completed(e);
+                                }
+                            }, (err) => {
+                                completed(err);
+                            });
+                        });
+                    });
+                }, (err) => {
+                    completed(err);
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+    /**
+     * Makes a handshake if needed.
+     *
+     * @param {Promise<Buffer>} The promise.
+     */
+    makeHandshakeIfNeeded() {
+        let me = this;
+        switch (me._handshakeState) {
+            case HandshakeState.Handshaking:
+                return me._handshake; // already running
+            case HandshakeState.Failed:
+                return Promise.reject(me._handshakeError);
+        }
+        if (!ssocket_helpers.isNullOrUndefined(me.password)) {
+            // no handshake required
+            me._handshakeState = HandshakeState.Ready;
+            return Promise.resolve(me.password);
+        }
+        me._handshakeState = HandshakeState.Handshaking;
+        return me._handshake = new Promise((resolve, reject) => {
+            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+            let isCompleted = false;
+            let timeout = me.getHandshakeTimeout();
+            let timer;
+            let handshakeCompleted = (err, pwd) => {
+                if (isCompleted) {
+                    return;
+                }
+                isCompleted = true;
+                if (timer) {
+                    clearTimeout(timer);
+                }
+                me._handshake = null;
+                if (err) {
+                    me._handshakeError = err;
+                    me._handshakeState = HandshakeState.Failed;
+                    // the connection is in an unknown state now
+                    if (err instanceof ssocket_errors.TimeoutError) {
+                        me.socket.destroy();
+                    }
+                    else {
+                        me.socket.end();
+                    }
+                    completed(err);
+                }
+                else {
+                    me.password = pwd;
+                    me._handshakeState = HandshakeState.Ready;
+                    me.emit('handshake', pwd, me.negotiated);
+                    me.startHeartbeat();
+                    completed(null, pwd);
+                }
+            };
+            try {
+                if (timeout > 0) {
+                    timer = setTimeout(() => {
+                        timer = null;
+                        handshakeCompleted(new ssocket_errors.TimeoutError(`Handshake has timed out after ${timeout} ms!`, timeout));
+                    }, timeout);
+                }
+                let type = me.type;
+                let makeHandshake;
+                if (type == SocketType.Server) {
+                    // SERVER handshake
+                    makeHandshake = me.makeServerHandshake();
+                }
+                else if (type == SocketType.Client) {
+                    // CLIENT handshake
+                    makeHandshake = me.makeClientHandshake();
+                }
+                else {
+                    throw new Error(`Unknown socket type ${type}`);
+                }
+                makeHandshake.then((pwd) => {
+                    handshakeCompleted(null, pwd);
+                }, (err) => {
+                    handshakeCompleted(err);
+                });
+            }
+            catch (e) {
+                handshakeCompleted(e);
+            }
+        });
+    }
+    /**
+     * Makes a key agreement with ephemeral keys (ECDH), where
+     * both sides derive the password for the connection.
+     *
+     * @param {Promise<Buffer>} The promise.
+     */
+    makeKeyAgreement() {
+        let me = this;
+        return new Promise((resolve, reject) => {
+            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+            try {
+                let keyExchange = me.getKeyExchange();
+                me.emit('keyagreement.generating', keyExchange);
+                let agreement = createKeyAgreement(keyExchange);
+                me.emit('keyagreement.generated', keyExchange);
+                let sendPublicKey = () => {
+                    return asDataTransformerPromise(me.handshakeTransformer, DataTransformerDirection.Transform, agreement.publicKey).then((publicKey) => {
+                        let publicKeyLength = Buffer.alloc(2);
+                        publicKeyLength.writeUInt16LE(publicKey.length, 0);
+                        me._transcript.push(publicKey);
+                        return ssocket_helpers.writeSocket(me.socket, Buffer.concat([publicKeyLength, publicKey]));
+                    });
+                };
+                let receivePublicKey = () => {
+                    return ssocket_helpers.readSocket(me.socket, 2).then((buff) => {
+                        let publicKeyLength = buff.readUInt16LE(0);
+                        if (publicKeyLength < 1 || publicKeyLength > MAX_KEY_AGREEMENT_PUBLIC_KEY_SIZE) {
+                            throw new Error('Invalid public key size: ' + publicKeyLength);
+                        }
+                        return ssocket_helpers.readSocket(me.socket, publicKeyLength);
+                    }).then((publicKey) => {
+                        me._transcript.push(publicKey);
+                        return asDataTransformerPromise(me.handshakeTransformer, DataTransformerDirection.Restore, publicKey);
+                    });
+                };
+                let exchange;
+                if (me.type == SocketType.Server) {
+                    exchange = receivePublicKey().then((remotePublicKey) => {
+                        return sendPublicKey().then(() => remotePublicKey);
+                    });
+                }
+                else {
+                    exchange = sendPublicKey().then(() => {
+                        return receivePublicKey();
+                    });
+                }
+                exchange.then((remotePublicKey) => {
+                    let sharedSecret = agreement.computeSecret(remotePublicKey);
+                    // bind the password to everything
+                    // that has been exchanged so far
+                    let transcriptHash = getTranscriptHash(me._transcript);
+                    completed(null, ssocket_helpers.hkdf(sharedSecret, transcriptHash, 'node-simple-socket/session', SESSION_SECRET_SIZE));
+                }).then(null, (err) => {
+                    completed(err);
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+    /**
+     * Makes a SERVER handshake.
+     *
+     * @param {Promise<Buffer>} The promise.
+     */
+    makeServerHandshake() {
+        let me = this;
+        return new Promise((resolve, reject) => {
+            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+            try {
+                me._transcript = [];
+                // first read the 'hello' or the size of public key
+                ssocket_helpers.readSocket(me.socket, 4).then((buff) => {
+                    try {
+                        if (buff.equals(HELLO_MAGIC)) {
+                            me.makeServerHello().then((negotiated) => {
+                                me._negotiated = negotiated;
+                                let exchangeKeys;
+                                if (KEY_EXCHANGE_RSA === negotiated.keyExchange) {
+                                    // now read size of public key
+                                    exchangeKeys = ssocket_helpers.readSocket(me.socket, 4).then((buff) => {
+                                        return me.makeServerKeyExchange(buff.readUInt32LE(0));
+                                    });
+                                }
+                                else {
+                                    exchangeKeys = me.makeKeyAgreement();
+                                }
+                                return exchangeKeys.then((pwd) => {
+                                    return me.sendIdentity().then(() => {
+                                        return me.authenticateClient(pwd);
+                                    });
+                                });
+                            }).then((pwd) => {
+                                completed(null, pwd);
+                            }, (err) => {
+                                completed(err);
+                            });
+                        }
+                        else {
+                            // client with an older version
+                            me._negotiated = {
+                                cipher: LEGACY_ALGORITHM,
+                                codec: 'gzip',
+                                features: [],
+                                keyExchange: KEY_EXCHANGE_RSA,
+                                maxPackageSize: me.getMaxPackageSize(),
+                                version: LEGACY_PROTOCOL_VERSION,
+                            };
+                            if (!ssocket_helpers.isNullOrUndefined(me.psk) || me.authenticator) {
+                                me.socket.end();
+                                completed(new ssocket_errors.AuthenticationError('Client does not support the required authentication!'));
+                                return;
+                            }
+                            me.makeServerKeyExchange(buff.readUInt32LE(0)).then((pwd) => {
+                                completed(null, pwd);
+                            }, (err) => {
+                                completed(err);
+                            });
+                        }
+                    }
+                    catch (e) {
+                        completed(e);
+                    }
+                }, (err) => {
+                    completed(err);
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+    /**
+     * Receives the 'hello' of a client and sends the answer (SERVER side).
+     *
+     * @return {Promise<NegotiatedOptions>} The promise.
+     */
+    makeServerHello() {
+        let me = this;
+        return new Promise((resolve, reject) => {
+            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+            try {
+                // magic has already been read by makeServerHandshake()
+                readHello(me.socket, me._transcript, false).then((hello) => {
+                    let ciphers = me.getCiphers();
+                    let codecs = me.getCodecs();
+                    let features = [FEATURE_CODECS, FEATURE_HEARTBEAT, FEATURE_REKEY, FEATURE_WINDOW];
+                    if (!ssocket_helpers.isNullOrUndefined(me.psk) || me.authenticator) {
+                        features.push(FEATURE_AUTH);
+                    }
+                    if (me.compressionContext) {
+                        features.push(FEATURE_CONTEXT);
+                    }
+                    if (!ssocket_helpers.isNullOrUndefined(me.identityKey)) {
+                        features.push(FEATURE_IDENTITY);
+                    }
+                    if (!ssocket_helpers.isNullOrUndefined(me.psk)) {
+                        features.push(FEATURE_PSK);
+                    }
+                    let keyExchanges = me.getKeyExchanges();
+                    let answer = {
+                        cipher: chooseOption(ciphers, hello.ciphers),
+                        codec: chooseOption(codecs, hello.codecs),
+                        features: features.filter((f) => (hello.features || []).indexOf(f) > -1),
+                        keyExchange: chooseOption(keyExchanges, hello.keyExchanges),
+                        maxPackageSize: Math.min(me.getMaxPackageSize(), parseInt(ssocket_helpers.toStringSafe(hello.maxPackageSize).trim()) || 0),
+                        version: Math.min(exports.PROTOCOL_VERSION, parseInt(ssocket_helpers.toStringSafe(hello.version).trim()) || LEGACY_PROTOCOL_VERSION),
+                    };
+                    if (answer.features.indexOf(FEATURE_CONTEXT) > -1) {
+                        // a compression context requires the same dictionary
+                        // and a codec, which supports both
+                        let dictionary = me.getCompressionDictionary();
+                        let contextCodec = chooseOption(codecs.filter((c) => isCompressionContextSupported(c, dictionary)), hello.codecs);
+                        if (contextCodec &&
+                            ssocket_helpers.toStringSafe(hello.dictionary) === toDictionaryHash(dictionary)) {
+                            answer.codec = contextCodec;
+                        }
+                        else {
+                            answer.features = answer.features.filter((f) => FEATURE_CONTEXT !== f);
+                        }
+                    }
+                    let error;
+                    if (!answer.cipher) {
+                        error = 'No common cipher';
+                    }
+                    else if (!answer.codec) {
+                        error = 'No common compression codec';
+                    }
+                    else if (!answer.keyExchange) {
+                        error = 'No common key exchange';
+                    }
+                    else if (answer.maxPackageSize < 1) {
+                        error = 'Invalid maximum package size';
+                    }
+                    let authError;
+                    if (features.indexOf(FEATURE_AUTH) > -1 && answer.features.indexOf(FEATURE_AUTH) < 0) {
+                        authError = 'Client does not support the required authentication';
+                    }
+                    else if (features.indexOf(FEATURE_PSK) > -1 && answer.features.indexOf(FEATURE_PSK) < 0) {
+                        authError = 'Client does not know the pre-shared key';
+                    }
+                    if (error || authError) {
+                        let hello = {
+                            error: error || authError,
+                        };
+                        if (!error) {
+                            hello.errorCode = FEATURE_AUTH;
+                        }
+                        writeHello(me.socket, hello, me._transcript).then(() => {
+                            me.socket.end();
+                            if (error) {
+                                completed(new Error('Handshake with client failed: ' + error));
+                            }
+                            else {
+                                completed(new ssocket_errors.AuthenticationError(authError));
+                            }
+                        }, (err) => {
+                            completed(err);
+                        });
+                    }
+                    else {
+                        writeHello(me.socket, answer, me._transcript).then(() => {
+                            completed(null, {
+                                cipher: answer.cipher,
+                                codec: answer.codec,
+                                features: answer.features,
+                                keyExchange: answer.keyExchange,
+                                maxPackageSize: answer.maxPackageSize,
+                                version: answer.version,
+                            });
+                        }, (err) => {
+                            completed(err);
+                        });
+                    }
+                }, (err) => {
+                    completed(err);
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+    /**
+     * Receives the public key of the client and sends the password (SERVER side).
+     *
+     * @param {number} publicKeyLength The size of the public key.
+     *
+     * @param {Promise<Buffer>} The promise.
+     */
+    makeServerKeyExchange(publicKeyLength) {
+        let me = this;
+        return new Promise((resolve, reject) => {
+            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+            try {
+                if (publicKeyLength <= me.getMaxPackageSize()) {
+                    ssocket_helpers.readSocket(me.socket, publicKeyLength).then((buff) => {
+                        try {
+                            me._transcript.push(buff);
+                            let transformerPromise = asDataTransformerPromise(me.handshakeTransformer, DataTransformerDirection.Restore, buff);
+                            transformerPromise.then((untransformedBuffer) => {
+                                try {
+                                    let publicKey = untransformedBuffer.toString(me.getEncoding());
+                                    let key = RSA(publicKey);
+                                    me.emit('password.generating');
+                                    // generate and send password
+                                    me.generatePassword().then((pwd) => {
+                                        try {
+                                            me.emit('password.generated', pwd);
+                                            let pwdData = pwd;
+                                            if (me.hasPackageTypes()) {
+                                                // clients with an older version
+                                                // expect an unencrypted password
+                                                pwdData = key.encrypt(pwd);
+                                            }
+                                            let pwdLength = Buffer.alloc(2);
+                                            pwdLength.writeUInt16LE(pwdData.length, 0);
+                                            // first send size of password
+                                            me.socket.write(pwdLength, (err) => {
+                                                if (err) {
+                                                    completed(err);
+                                                    return;
+                                                }
+                                                // and now the password itself
+                                                me.socket.write(pwdData, (err) => {
+                                                    if (err) {
+                                                        completed(err);
+                                                    }
+                                                    else {
+                                                        me._transcript.push(pwdData);
+                                                        completed(null, pwd);
+                                                    }
+                                                });
+                                            });
+                                        }
+                                        catch (e) {
+                                            completed(e);
+                                        }
+                                    }, (err) => {
+                                        completed(err);
+                                    });
+                                }
+                                catch (e) {
+                                    completed(e);
+                                }
+                            }, (err) => {
+                                completed(err);
+                            });
+                        }
+                        catch (e) {
+                            completed(e);
+                        }
+                    }, (err) => {
+                        completed(err);
+                    });
+                }
+                else {
+                    // maximum package size reached
+                    me.socket.end();
+                    completed(new Error('Public key is too big!'));
+                }
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+    /**
+     * Starts the receive loop and returns an iterator for the received data,
+     * which ends, when the connection has been closed.
+     *
+     * @return {MessageIterator} The iterator.
+     */
+    messages() {
+        let me = this;
+        let done = () => {
+            return {
+                done: true,
+                value: undefined,
+            };
+        };
+        let iterator = {
+            next: () => {
+                return me.read().then((data) => {
+                    return {
+                        done: false,
+                        value: data,
+                    };
+                }, (err) => {
+                    if (me._isClosed) {
+                        return done();
+                    }
+                    throw err;
+                });
+            },
+            return: () => {
+                me.stopReceiving();
+                return Promise.resolve(done());
+            },
+        };
+        iterator[ssocket_compat.asyncIterator] = () => iterator;
+        me.startReceiving();
+        return iterator;
+    }
+    /**
+     * Gets the options that have been negotiated with the remote while the handshake.
+     */
+    get negotiated() {
+        return this._negotiated;
+    }
+    /**
+     * Tells the remote how many bytes the target already holds and
+     * waits for the offset to continue from (RECEIVER side).
+     *
+     * @param {number} fdTarget The stream pointer of the target.
+     *
+     * @return {Promise<number>} The promise with the offset to continue from.
+     */
+    offerResume(fdTarget) {
+        let me = this;
+        return new Promise((resolve, reject) => {
+            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+            try {
+                FS.fstat(fdTarget, (err, stats) => {
+                    if (err) {
+                        completed(err);
+                        return;
+                    }
+                    let size = stats.size;
+                    hashFile(fdTarget, size, me.getReadBufferSize()).then((hash) => {
+                        return me.writePackage(PACKAGE_TYPE_DATA, JSON.stringify({
+                            hash: hash.toString('hex'),
+                            offset: size,
+                        }));
+                    }).then(() => {
+                        return me.readData();
+                    }).then((data) => {
+                        let answer = JSON.parse(data.toString(exports.DEFAULT_ENCODING));
+                        let offset = parseInt(ssocket_helpers.toStringSafe(answer.offset).trim());
+                        if (isNaN(offset) || offset < 0 || offset > size) {
+                            throw new Error('Invalid resume offset: ' + answer.offset);
+                        }
+                        if (offset < size) {
+                            // remove the data, which will be sent again
+                            FS.ftruncate(fdTarget, offset, (err) => {
+                                completed(err, offset);
+                            });
+                        }
+                        else {
+                            completed(null, offset);
+                        }
+                    }).then(null, (err) => {
+                        completed(err);
+                    });
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+    /**
+     * Opens a channel (or returns the one, which is already open).
+     *
+     * @param {string} name The name of the channel, which must be the same on both sides.
+     *
+     * @return {Channel} The channel.
+     */
+    openChannel(name) {
+        let me = this;
+        name = ssocket_helpers.toStringSafe(name);
+        let channel = me._channels[name];
+        if (!channel) {
+            let multiplexer = me.getMultiplexer();
+            multiplexer.open(name, me.getChannelWindowSize());
+            channel = me._channels[name] = new Channel(me, name, multiplexer);
+            channel.once('close', () => {
+                me.removeChannel(channel);
+            });
+        }
+        return channel;
+    }
+    /**
+     * Reads data from the remote.
+     *
+     * @param {OperationOptions} [opts] Additional options, like a timeout.
+     *
+     * @param {Promise<Buffer>} The promise.
+     */
+    read(opts) {
+        let me = this;
+        return runOperation('read()', opts, me.getReadTimeout(), (ctx) => {
+            return me._readQueue.enqueue(() => {
+                if (ctx.isCancelled) {
+                    return Promise.resolve(null); // nobody waits anymore
+                }
+                return me.readData(ctx);
+            });
+        });
+    }
+    /**
+     * Reads the answer of the remote, which is an empty string on success
+     * or an error message.
+     *
+     * @return {Promise<any>} The promise.
+     */
+    readAnswer() {
+        let me = this;
+        return me.readData().then((answer) => {
+            let errMsg = answer ? answer.toString(me.getEncoding()) : null;
+            if (!ssocket_helpers.isEmptyString(errMsg)) {
+                // error on remote side
+                throw new Error('Remote error: ' + errMsg);
+            }
+        });
+    }
+    /**
+     * Reads a chunk of a stream and answers the remote.
+     *
+     * @param {Function} [handler] The optional function, which handles the chunk before the answer is sent.
+     *                             It also gets the window size of the remote, if sent, or NaN.
+     * @param {boolean} [answer] Send the answer or let the caller do this.
+     *
+     * @return {Promise<Buffer>} The promise with the chunk or (null) if there is no more data.
+     */
+    readChunk(handler, answer = true) {
+        let me = this;
+        return new Promise((resolve, reject) => {
+            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+            let sendAnswer = (err, chunk) => {
+                if (!answer) {
+                    completed(err, chunk); // is done by caller
+                    return;
+                }
+                let errMsg = '';
+                if (err) {
+                    errMsg = ssocket_helpers.toStringSafe(err);
+                }
+                me.writePackage(PACKAGE_TYPE_DATA, errMsg).then(() => {
+                    if (err) {
+                        if (me.supportsFeature(FEATURE_WINDOW)) {
+                            // remote sends the end after an error
+                            me.drainChunks().then(() => {
+                                completed(err);
+                            }, () => {
+                                completed(err);
+                            });
+                        }
+                        else {
+                            completed(err);
+                        }
+                    }
+                    else {
+                        completed(null, chunk);
+                    }
+                }, (e) => {
+                    completed(err || e);
+                });
+            };
+            try {
+                me.readData().then((chunkBlock) => {
+                    try {
+                        if (!chunkBlock) {
+                            sendAnswer(new Error('Chunk is too big!'));
+                            return;
+                        }
+                        let chunkLength = chunkBlock.readUInt32LE(0);
+                        if (chunkLength < 1) {
+                            completed(null, null); // no more data
+                            return;
+                        }
+                        if (chunkLength > me.getMaxPackageSize()) {
+                            sendAnswer(new Error('Chunk is too big!'));
+                            return;
+                        }
+                        let hash = chunkBlock.slice(4, 4 + 32);
+                        let chunk = chunkBlock.slice(4 + 32, 4 + 32 + chunkLength);
+                        let windowSize = NaN;
+                        if (chunkBlock.length >= 4 + 32 + chunkLength + 4) {
+                            windowSize = chunkBlock.readUInt32LE(4 + 32 + chunkLength);
+                        }
+                        let realHash = Crypto.createHash('sha256')
+                            .update(chunk).digest();
+                        if (!hash.equals(realHash)) {
+                            // unique hashes
+                            sendAnswer(new Error('Invalid chunk hash: ' + realHash.toString('hex')));
+                            return;
+                        }
+                        if (handler) {
+                            handler(chunk, hash, windowSize).then(() => {
+                                sendAnswer(null, chunk);
+                            }, (err) => {
+                                sendAnswer(err);
+                            });
+                        }
+                        else {
+                            sendAnswer(null, chunk);
+                        }
+                    }
+                    catch (e) {
+                        sendAnswer(e);
+                    }
+                }, (err) => {
+                    completed(err);
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+    /**
+     * Reads the answer of the remote for one or more chunks of a stream.
+     *
+     * @return {Promise<number>} The promise with the number of chunks, which have been answered.
+     */
+    readChunkAnswer() {
+        let me = this;
+        return me.readData().then((answer) => {
+            let str = answer ? answer.toString(me.getEncoding()) : null;
+            if (ssocket_helpers.isEmptyString(str)) {
+                return 1; // single chunk
+            }
+            let obj;
+            try {
+                if ('{' === str.trim()[0]) {
+                    obj = JSON.parse(str);
+                }
+            }
+            catch (e) {
+                obj = null;
+            }
+            if (!obj) {
+                // error on remote side
+                throw new Error('Remote error: ' + str);
+            }
+            if (!ssocket_helpers.isNullOrUndefined(obj.error)) {
+                // error on remote side
+                throw new Error('Remote error: ' + ssocket_helpers.toStringSafe(obj.error));
+            }
+            let count = parseInt(ssocket_helpers.toStringSafe(obj.acked).trim());
+            return (isNaN(count) || count < 0) ? 0 : count;
+        });
+    }
+    /**
+     * Reads the next data from the remote (without queue).
+     *
+     * @param {OperationContext} [ctx] The context of the operation, which can be cancelled.
+     *
+     * @param {Promise<Buffer>} The promise.
+     */
+    readData(ctx) {
+        let me = this;
+        return new Promise((resolve, reject) => {
+            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+            try {
+                if (me._receivedData.length > 0) {
+                    // data has been received before
+                    let data = me._receivedData.shift();
+                    me.handleDataRead(data);
+                    completed(null, data);
+                    // continue receive loop
+                    me.receive();
+                }
+                else if (me._isClosed) {
+                    completed(new Error('Connection has been closed!'));
+                }
+                else {
+                    me._readers.push(completed);
+                    if (ctx) {
+                        ctx.onCancel((err) => {
+                            // received data will be buffered
+                            let index = me._readers.indexOf(completed);
+                            if (index > -1) {
+                                me._readers.splice(index, 1);
+                                completed(err);
+                            }
+                        });
+                    }
+                    me.receive();
+                }
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+    /**
+     * Reads a directory tree from remote and writes it to a directory on this machine.
+     *
+     * @param {string} path The path to the target directory.
+     * @param {DirectoryTransferOptions} [opts] Additional options, like a timeout.
+     *                                          'symlinks' with 'skip' does not create symbolic links.
+     *
+     * @return {Promise<ssocket_directories.DirectoryEntry[]>} The promise with the received entries.
+     */
+    readDirectory(path, opts) {
+        let me = this;
+        if (!opts) {
+            opts = {};
+        }
+        if (!Path.isAbsolute(path)) {
+            path = Path.join(me.getCwd(), path);
+        }
+        let skipSymlinks = 'skip' === ssocket_helpers.normalizeString(opts.symlinks);
+        return runOperation('readDirectory()', opts, me.getReadTimeout(), (ctx) => {
+            return me.exclusive(() => {
+                if (ctx.isCancelled) {
+                    return Promise.resolve([]); // nobody waits anymore
+                }
+                ctx.onCancel(() => {
+                    me.cancelTransfer();
+                });
+                let entries;
+                let receiveEntry = (entry) => {
+                    let fullPath = ssocket_directories.toFullPath(path, entry);
+                    switch (entry.type) {
+                        case 'directory':
+                            // do not use a link of a previous transfer as directory
+                            return removeLink(fullPath, false).then(() => {
+                                return ssocket_directories.makeDirectory(fullPath);
+                            });
+                        case 'symlink':
+                            if (skipSymlinks) {
+                                return Promise.resolve();
+                            }
+                            return removeLink(fullPath, true).then(() => {
+                                return invokeFS(FS.symlink, entry.target, fullPath);
+                            });
+                    }
+                    // file
+                    return removeLink(fullPath, false).then(() => {
+                        return invokeFS(FS.open, fullPath, 'w');
+                    }).then((fdTarget) => {
+                        return me.receiveStream(fdTarget).then(() => {
+                            return invokeFS(FS.close, fdTarget);
+                        }, (err) => {
+                            FS.close(fdTarget, () => { });
+                            throw err;
+                        });
+                    }).then(() => {
+                        return setFileAttributes(fullPath, entry);
+                    });
+                };
+                return me.readData().then((data) => {
+                    let errMsg = '';
+                    try {
+                        entries = ssocket_directories.checkEntries(JSON.parse(data.toString(exports.DEFAULT_ENCODING)).entries);
+                    }
+                    catch (e) {
+                        errMsg = ssocket_helpers.toStringSafe(e ? (e.message || e) : 'Invalid directory tree!');
+                    }
+                    // tell the remote if we accept the tree
+                    return me.writePackage(PACKAGE_TYPE_DATA, errMsg).then(() => {
+                        if ('' !== errMsg) {
+                            throw new Error(errMsg);
+                        }
+                    });
+                }).then(() => {
+                    return ssocket_directories.makeDirectory(path).then(() => {
+                        let index = -1;
+                        let nextEntry = () => {
+                            if (++index >= entries.length) {
+                                return Promise.resolve();
+                            }
+                            let entry = entries[index];
+                            // do not write through a link, which already exists
+                            return ssocket_directories.checkParents(path, entry).then(() => {
+                                return receiveEntry(entry);
+                            }).then(() => {
+                                me.emit('directory.read', entry, index, entries.length);
+                                return nextEntry();
+                            });
+                        };
+                        return nextEntry();
+                    }).then(() => {
+                        // now, after the content has been written
+                        let directories = entries.filter((e) => 'directory' === e.type)
+                            .reverse();
+                        let nextDirectory = () => {
+                            if (directories.length < 1) {
+                                return Promise.resolve();
+                            }
+                            let dir = directories.shift();
+                            return setFileAttributes(ssocket_directories.toFullPath(path, dir), dir).then(() => {
+                                return nextDirectory();
+                            });
+                        };
+                        return nextDirectory();
+                    }).then(() => {
+                        return entries;
+                    }, (err) => {
+                        // the remote still sends data
+                        me.cancelTransfer();
+                        throw err;
+                    });
+                });
+            });
+        });
+    }
+    /**
+     * Reads data from remote and writes it to a file on this machine.
+     *
+     * If the path is an existing directory, the metadata of the file is received
+     * and the file is written to that directory with the name from the remote.
+     *
+     * @param {string} path The path to the target file or directory.
+     * @param {string|number} [flags] The custom flags for opening the target file.
+     *                                Default: 'w' or 'a+' in resume mode, 'w+' if metadata is received
+     * @param {TransferOptions} [opts] Additional options, like a timeout.
+     *
+     * @return {Promise<number>} The promise.
+     */
+    readFile(path, flags, opts) {
+        let me = this;
+        if (!opts) {
+            opts = {};
+        }
+        if (!Path.isAbsolute(path)) {
+            path = Path.join(me.getCwd(), path);
+        }
+        return new Promise((resolve, reject) => {
+            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+            let readStream = () => {
+                if (ssocket_helpers.isNullOrUndefined(flags)) {
+                    flags = opts.resume ? 'a+' : 'w';
+                }
+                FS.open(path, flags, (err, fdTarget) => {
+                    if (err) {
+                        completed(err);
+                    }
+                    else {
+                        let closeFile = (err, bytesWritten) => {
+                            FS.close(fdTarget, (e) => {
+                                if (e) {
+                                    completed(e, bytesWritten);
+                                }
+                                else {
+                                    completed(err, bytesWritten);
+                                }
+                            });
+                        };
+                        me.readStream(fdTarget, opts).then((bytesWritten) => {
+                            closeFile(null, bytesWritten);
+                        }, (err) => {
+                            closeFile(err);
+                        });
+                    }
+                });
+            };
+            try {
+                FS.stat(path, (err, stats) => {
+                    try {
+                        let isDirectory = !err && stats.isDirectory();
+                        if (opts.metadata || isDirectory) {
+                            me.readFileWithMetadata(path, isDirectory, flags, opts).then((bytesWritten) => {
+                                completed(null, bytesWritten);
+                            }, (err) => {
+                                completed(err);
+                            });
+                        }
+                        else {
+                            readStream();
+                        }
+                    }
+                    catch (e) {
+                        completed(e);
+                    }
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+    /**
+     * Receives the metadata and the content of a file from the remote.
+     *
+     * @param {string} path The path to the target file or directory.
+     * @param {boolean} isDirectory Is 'path' a directory or not.
+     * @param {string|number} flags The custom flags for opening the target file.
+     * @param {TransferOptions} opts Additional options, like a timeout.
+     *
+     * @return {Promise<number>} The promise.
+     */
+    readFileWithMetadata(path, isDirectory, flags, opts) {
+        let me = this;
+        if (ssocket_helpers.isNullOrUndefined(flags)) {
+            flags = opts.resume ? 'a+' : 'w+';
+        }
+        return runOperation('readFile()', opts, me.getReadTimeout(), (ctx) => {
+            return me.exclusive(() => {
+                if (ctx.isCancelled) {
+                    return Promise.resolve(0); // nobody waits anymore
+                }
+                ctx.onCancel(() => {
+                    me.cancelTransfer();
+                });
+                let metadata;
+                let fdTarget;
+                let bytesWritten;
+                let sendAnswer = (err) => {
+                    let errMsg = '';
+                    if (err) {
+                        errMsg = ssocket_helpers.toStringSafe(err.message || err);
+                    }
+                    return me.writePackage(PACKAGE_TYPE_DATA, errMsg).then(() => {
+                        if (err) {
+                            throw err;
+                        }
+                    });
+                };
+                return me.readData().then((data) => {
+                    return new Promise((resolve, reject) => {
+                        try {
+                            metadata = toFileMetadata(JSON.parse(data.toString(exports.DEFAULT_ENCODING)));
+                            let prepareTarget;
+                            if (isDirectory) {
+                                // keep file inside the directory
+                                path = Path.join(path, metadata.name);
+                                // do not write through a link
+                                prepareTarget = removeLink(path, false);
+                            }
+                            else {
+                                prepareTarget = Promise.resolve();
+                            }
+                            prepareTarget.then(() => {
+                                FS.open(path, flags, (err, fd) => {
+                                    if (err) {
+                                        reject(err);
+                                    }
+                                    else {
+                                        fdTarget = fd;
+                                        resolve();
+                                    }
+                                });
+                            }, (err) => {
+                                reject(err);
+                            });
+                        }
+                        catch (e) {
+                            reject(e);
+                        }
+                    }).then(() => {
+                        return sendAnswer();
+                    }, (err) => {
+                        return sendAnswer(err);
+                    });
+                }).then(() => {
+                    let tracker = me.createProgressTracker('read', fdTarget, opts);
+                    tracker.total = metadata.size;
+                    return me.receiveStream(fdTarget, opts.resume, tracker).then((result) => {
+                        bytesWritten = result;
+                        return hashFile(fdTarget, metadata.size, me.getReadBufferSize()).then((hash) => {
+                            if (!hash || hash.toString('hex') !== metadata.hash) {
+                                throw new ssocket_errors.IntegrityError('Content of file does not match its hash!');
+                            }
+                            // no setuid, setgid and sticky bits of the remote
+                            return invokeFS(FS.fchmod, fdTarget, metadata.mode & 0o777);
+                        }).then(() => {
+                            let mtime = metadata.mtime / 1000;
+                            return invokeFS(FS.futimes, fdTarget, mtime, mtime);
+                        }).then(() => {
+                            return sendAnswer();
+                        }, (err) => {
+                            return sendAnswer(err);
+                        });
+                    }).then(() => {
+                        return invokeFS(FS.close, fdTarget);
+                    }, (err) => {
+                        FS.close(fdTarget, () => { });
+                        throw err;
+                    });
+                }).then(() => {
+                    me.emit('file.metadata', metadata, path);
+                    return bytesWritten;
+                });
+            });
+        });
+    }
+    /**
+     * Reads a crypted message while a handshake.
+     *
+     * @param {Buffer} pwd The password.
+     *
+     * @return {Promise<any>} The promise.
+     */
+    readHandshakeMessage(pwd) {
+        let me = this;
+        return ssocket_helpers.readSocket(me.socket, 4).then((buff) => {
+            let messageLength = buff.readUInt32LE(0);
+            if (messageLength < 1 || messageLength > MAX_HANDSHAKE_MESSAGE_SIZE) {
+                throw new Error('Invalid handshake message size: ' + messageLength);
+            }
+            return ssocket_helpers.readSocket(me.socket, messageLength);
+        }).then((cryptedMessage) => {
+            return JSON.parse(me.decryptData(cryptedMessage, pwd)
+                .toString(exports.DEFAULT_ENCODING));
+        });
+    }
+    /**
+     * Reads data as JSON object.
+     *
+     * @param {OperationOptions} [opts] Additional options, like a timeout.
+     *
+     * @return {Promise<T>} The promise.
+     */
+    readJSON(opts) {
+        let me = this;
+        return new Promise((resolve, reject) => {
+            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+            try {
+                me.readString(opts).then((json) => {
+                    try {
+                        let obj;
+                        if (ssocket_helpers.isNullOrUndefined(json)) {
+                            obj = json;
+                        }
+                        else {
+                            obj = JSON.parse(json);
+                        }
+                        completed(null, obj);
+                    }
+                    catch (e) {
+                        completed(e);
+                    }
+                }, (err) => {
+                    completed(err);
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+    /**
+     * Reads the next package from the remote.
+     *
+     * @param {Buffer} pwd The password of the session.
+     *
+     * @param {Promise<ReceivedPackage>} The promise.
+     */
+    readPackage(pwd) {
+        let me = this;
+        return new Promise((resolve, reject) => {
+            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+            try {
+                ssocket_helpers.readSocket(me.socket, 4).then((buff) => {
+                    try {
+                        let dataLength = buff.readUInt32LE(0);
+                        if (dataLength <= me.getMaxPackageSize()) {
+                            if (dataLength < 1) {
+                                completed(null, {
+                                    data: Buffer.alloc(0),
+                                    type: PACKAGE_TYPE_DATA,
+                                });
+                            }
+                            else {
+                                ssocket_helpers.readSocket(me.socket, dataLength).then((cryptedData) => {
+                                    try {
+                                        let uncryptedData = me.decryptData(cryptedData, pwd);
+                                        let packageType = PACKAGE_TYPE_DATA;
+                                        if (me.hasPackageTypes()) {
+                                            packageType = uncryptedData.readUInt8(0) & 0x7F;
+                                            if (PACKAGE_TYPE_REKEY === packageType) {
+                                                // remote has renewed its key
+                                                me.renewReceiveKey(pwd);
+                                                // continue with next package
+                                                me.readPackage(pwd).then((pkg) => {
+                                                    completed(null, pkg);
+                                                }, (err) => {
+                                                    completed(err);
+                                                });
+                                                return;
+                                            }
+                                        }
+                                        let isCompressed = uncryptedData.readUInt8(0) > 127;
+                                        let codec = ssocket_codecs.getCodec('gzip');
+                                        let headerSize = 1;
+                                        let isContextReset = false;
+                                        let isContextUsed = false;
+                                        if (isCompressed && me.supportsFeature(FEATURE_CODECS)) {
+                                            // codec is sent after the type
+                                            let codecId = uncryptedData.readUInt8(1);
+                                            codec = ssocket_codecs.getCodec(codecId);
+                                            if (!codec) {
+                                                completed(new Error('Data has been compressed by an unknown codec: ' + codecId));
+                                                return;
+                                            }
+                                            headerSize = 2;
+                                            if (me.supportsFeature(FEATURE_CONTEXT)) {
+                                                if (codec.name !== me.negotiated.codec) {
+                                                    completed(new Error('Data has been compressed by an unexpected codec: ' + codec.name));
+                                                    return;
+                                                }
+                                                // followed by the flags of the compression context
+                                                isContextReset = 1 === (uncryptedData.readUInt8(2) & 1);
+                                                isContextUsed = true;
+                                                headerSize = 3;
+                                            }
+                                        }
+                                        let compressedData = Buffer.alloc(uncryptedData.length - headerSize);
+                                        uncryptedData.copy(compressedData, 0, headerSize);
+                                        let untransformData = (transformedData) => {
+                                            let transformerPromise = asDataTransformerPromise(me.dataTransformer, DataTransformerDirection.Restore, transformedData);
+                                            transformerPromise.then((untransformedData) => {
+                                                completed(null, {
+                                                    data: untransformedData,
+                                                    type: packageType,
+                                                });
+                                            }, (err) => {
+                                                completed(err);
+                                            });
+                                        };
+                                        if (isContextUsed) {
+                                            me.getDecompressContext(codec).process(compressedData, isContextReset).then((output) => {
+                                                untransformData(output.data);
+                                            }, (err) => {
+                                                completed(err);
+                                            });
+                                        }
+                                        else if (isCompressed) {
+                                            codec.decompress(compressedData).then((uncompressedData) => {
+                                                untransformData(uncompressedData);
+                                            }, (err) => {
+                                                completed(err);
+                                            });
+                                        }
+                                        else {
+                                            // not compressed
+                                            untransformData(compressedData);
+                                        }
+                                    }
+                                    catch (e) {
+                                        completed(e);
+                                    }
+                                }, (err) => {
+                                    completed(err);
+                                });
+                            }
+                        }
+                        else {
+                            completed(null, {
+                                data: null,
+                                type: PACKAGE_TYPE_DATA,
+                            });
+                        }
+                    }
+                    catch (e) {
+                        completed(e);
+                    }
+                }, (err) => {
+                    completed(err);
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+    /**
+     * Gets the number of 'read()' calls, which are running or waiting.
+     */
+    get readQueueLength() {
+        return this._readQueue.length;
+    }
+    /**
+     * Reads data from remote and writes it to a stream on this machine.
+     *
+     * @param {number} fdTarget The stream pointer of the target.
+     * @param {TransferOptions} [opts] Additional options, like a timeout.
+     *
+     * @return {Promise<number>} The promise.
+     */
+    readStream(fdTarget, opts) {
+        let me = this;
+        return runOperation('readStream()', opts, me.getReadTimeout(), (ctx) => {
+            return me.exclusive(() => {
+                if (ctx.isCancelled) {
+                    return Promise.resolve(0); // nobody waits anymore
+                }
+                ctx.onCancel(() => {
+                    me.cancelTransfer();
+                });
+                return me.receiveStream(fdTarget, opts && opts.resume, me.createProgressTracker('read', fdTarget, opts));
+            });
+        });
+    }
+    /**
+     * Reads data as string.
+     *
+     * @param {OperationOptions} [opts] Additional options, like a timeout.
+     *
+     * @return {Promise<string>} The promise.
+     */
+    readString(opts) {
+        let me = this;
+        return new Promise((resolve, reject) => {
+            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+            try {
+                me.read(opts).then((buff) => {
+                    try {
+                        if (buff) {
+                            completed(null, buff.toString(me.getEncoding()));
+                        }
+                        else {
+                            completed(null, null);
+                        }
+                    }
+                    catch (e) {
+                        completed(e);
+                    }
+                }, (err) => {
+                    completed(err);
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+    /**
+     * Reads a value, which has been sent by 'writeValue()'.
+     *
+     * @param {OperationOptions} [opts] Additional options, like a timeout.
+     *
+     * @return {Promise<T>} The promise.
+     */
+    readValue(opts) {
+        let me = this;
+        return new Promise((resolve, reject) => {
+            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+            try {
+                me.read(opts).then((data) => {
+                    try {
+                        let value;
+                        if (ssocket_helpers.isNullOrUndefined(data)) {
+                            value = data;
+                        }
+                        else {
+                            value = me.getSerializer().deserialize(data);
+                        }
+                        completed(null, value);
+                    }
+                    catch (e) {
+                        completed(e);
+                    }
+                }, (err) => {
+                    completed(err);
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+    /**
+     * Receives the next package from the remote, if there is someone
+     * who waits for it, and handles it.
+     */
+    receive() {
+        let me = this;
+        if (me._isReceivingPackage) {
+            return; // already running
+        }
+        if (!me.isReceiveRequired()) {
+            return; // nobody waits for data
+        }
+        let rpc = me._rpc;
+        me._isReceivingPackage = true;
+        let receiveCompleted = (err, pkg) => {
+            me._isReceivingPackage = false;
+            if (!err) {
+                try {
+                    me.handlePackage(pkg);
+                }
+                catch (e) {
+                    err = e;
+                }
+            }
+            if (err) {
+                let readers = me._readers;
+                me._readers = [];
+                let hasRunningCalls = rpc && rpc.isActive;
+                readers.forEach((r) => {
+                    r(err);
+                });
+                if (rpc) {
+                    rpc.rejectAll(err);
+                }
+                if (readers.length < 1 && !hasRunningCalls && !me._isClosed) {
+                    me.emit('error', err);
+                }
+            }
+            else {
+                // continue with next package
+                me.receive();
+            }
+        };
+        me.makeHandshakeIfNeeded().then((pwd) => {
+            return me.readPackage(pwd);
+        }).then((pkg) => {
+            receiveCompleted(null, pkg);
+        }, (err) => {
+            receiveCompleted(err);
+        });
+    }
+    /**
+     * Receives the chunks of a stream from the remote (without queue)
+     * and writes them to a stream on this machine.
+     *
+     * If the remote supports it, one answer is sent for several chunks:
+     * each time a quarter of the window of the remote is used, and at the end of the stream.
+     *
+     * @param {number} fdTarget The stream pointer of the target.
+     * @param {boolean} [resume] Continue a transfer, which has been broken before, or not.
+     * @param {ssocket_progress.ProgressTracker} [tracker] The tracker for the progress.
+     *
+     * @return {Promise<number>} The promise.
+     */
+    receiveStream(fdTarget, resume, tracker) {
+        let me = this;
+        return new Promise((resolve, reject) => {
+            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+            try {
+                let bytesWritten = 0;
+                let position = null;
+                let failure;
+                let chunksToAnswer = 0;
+                let answerAfter = 1;
+                let writeChunk = (chunk, hash, windowSize) => {
+                    if (failure) {
+                        return Promise.resolve(); // skip
+                    }
+                    if (!isNaN(windowSize)) {
+                        answerAfter = Math.max(1, Math.min(MAX_UNANSWERED_CHUNKS, Math.ceil(windowSize / 4)));
+                    }
+                    // write to stream
+                    return new Promise((res, rej) => {
+                        FS.write(fdTarget, chunk, 0, chunk.length, position, (err, written) => {
+                            if (err) {
+                                rej(err);
+                            }
+                            else {
+                                if (written > 0) {
+                                    bytesWritten += written;
+                                    if (null !== position) {
+                                        position += written;
+                                    }
+                                }
+                                me.emit('stream.read', fdTarget, chunk, written, hash);
+                                if (tracker) {
+                                    tracker.update(written);
+                                }
+                                res();
+                            }
+                        });
+                    });
+                };
+                // one answer for each chunk
+                let nextChunk = () => {
+                    me.readChunk(writeChunk).then((chunk) => {
+                        if (chunk) {
+                            nextChunk();
+                        }
+                        else {
+                            // no more data
+                            completed(null, bytesWritten);
+                        }
+                    }, (err) => {
+                        completed(err);
+                    });
+                };
+                let sendWindowAnswer = (err) => {
+                    let answer = {
+                        acked: chunksToAnswer,
+                    };
+                    if (err) {
+                        answer.error = ssocket_helpers.toStringSafe(err);
+                    }
+                    chunksToAnswer = 0;
+                    return me.writePackage(PACKAGE_TYPE_DATA, JSON.stringify(answer));
+                };
+                // one answer for several chunks
+                let nextWindowChunk = () => {
+                    me.readChunk(writeChunk, false).then((chunk) => {
+                        if (!chunk) {
+                            // no more data
+                            if (failure) {
+                                completed(failure); // has already been answered
+                            }
+                            else if (chunksToAnswer > 0) {
+                                // answer the rest
+                                sendWindowAnswer().then(() => {
+                                    completed(null, bytesWritten);
+                                }, (err) => {
+                                    completed(err);
+                                });
+                            }
+                            else {
+                                completed(null, bytesWritten);
+                            }
+                            return;
+                        }
+                        if (failure) {
+                            nextWindowChunk(); // skip until the end
+                            return;
+                        }
+                        ++chunksToAnswer;
+                        if (chunksToAnswer >= answerAfter) {
+                            sendWindowAnswer().then(() => {
+                                nextWindowChunk();
+                            }, (err) => {
+                                completed(err);
+                            });
+                        }
+                        else {
+                            nextWindowChunk();
+                        }
+                    }, (err) => {
+                        if (me._isClosed) {
+                            completed(err);
+                            return;
+                        }
+                        if (failure) {
+                            nextWindowChunk(); // skip until the end
+                            return;
+                        }
+                        failure = err;
+                        sendWindowAnswer(err).then(() => {
+                            nextWindowChunk();
+                        }, () => {
+                            completed(err);
+                        });
+                    });
+                };
+                let startReceiving = () => {
+                    if (me.supportsFeature(FEATURE_WINDOW)) {
+                        nextWindowChunk();
+                    }
+                    else {
+                        nextChunk();
+                    }
+                };
+                me.makeHandshakeIfNeeded().then(() => {
+                    if (resume) {
+                        return me.offerResume(fdTarget).then((offset) => {
+                            position = offset;
+                            me.emit('stream.resume', fdTarget, offset);
+                            if (tracker) {
+                                tracker.start(offset);
+                            }
+                        });
+                    }
+                }).then(() => {
+                    startReceiving();
+                }, (err) => {
+                    completed(err);
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+    /**
+     * Registers a method, which can be called by the remote via 'call()'.
+     *
+     * @param {string} name The name of the method.
+     * @param {RPCHandler} handler The method.
+     */
+    registerMethod(name, handler) {
+        this.getRPC().registerMethod(name, handler);
+        // wait for requests
+        this.receive();
+    }
+    /**
+     * Creates a package, which tells the remote that the key for sending data
+     * is renewed, if one of the limits has been reached.
+     *
+     * @param {Buffer} pwd The password of the session.
+     *
+     * @return {Buffer} The package (with its length) or (null) if no new key is required.
+     */
+    rekeyIfNeeded(pwd) {
+        let me = this;
+        if (!isAEADAlgorithm(me.getAlgorithm()) ||
+            me.negotiated.features.indexOf(FEATURE_REKEY) < 0) {
+            return null;
+        }
+        let keys = me.getSessionKeys(pwd);
+        let afterBytes = me.getRekeyLimit(me.rekeyAfterBytes, exports.DefaultRekeyAfterBytes);
+        let afterMessages = me.getRekeyLimit(me.rekeyAfterMessages, exports.DefaultRekeyAfterMessages);
+        let interval = me.getRekeyLimit(me.rekeyInterval, exports.DefaultRekeyInterval);
+        let reason;
+        if (afterBytes > 0 && keys.sentBytes >= afterBytes) {
+            reason = 'bytes';
+        }
+        else if (afterMessages > 0 && keys.sentMessages >= afterMessages) {
+            reason = 'messages';
+        }
+        else if (interval > 0 && (Date.now() - keys.lastRekey) >= interval) {
+            reason = 'time';
+        }
+        if (!reason) {
+            return null;
+        }
+        let packageType = Buffer.alloc(1);
+        packageType.writeUInt8(PACKAGE_TYPE_REKEY, 0);
+        // the last package with the old key
+        let rekeyPackage = me.encryptData(packageType, pwd);
+        let packageLength = Buffer.alloc(4);
+        packageLength.writeUInt32LE(rekeyPackage.length, 0);
+        keys.lastRekey = Date.now();
+        keys.send = renewSecret(keys.send);
+        keys.sentBytes = 0;
+        keys.sentMessages = 0;
+        ++keys.sendGeneration;
+        if (me._compressContext) {
+            // the next compressed package starts a new context
+            me._compressContext.reset();
+        }
+        me.emit('rekey', 'send', keys.sendGeneration, reason);
+        return Buffer.concat([packageLength, rekeyPackage]);
+    }
+    /**
+     * Removes a channel, after it has been closed.
+     *
+     * @param {Channel} channel The channel.
+     * @param {any} [err] The error for the calls, which wait for data of the channel.
+     */
+    removeChannel(channel, err) {
+        let me = this;
+        if (me._channels[channel.name] !== channel) {
+            return; // already removed
+        }
+        delete me._channels[channel.name];
+        channel.handleClose(err || new Error(`Channel '${channel.name}' has been closed!`));
+        if (err) {
+            channel.emit('close');
+        }
+    }
+    /**
+     * Renews the key for receiving data, after the remote has renewed its key.
+     *
+     * @param {Buffer} pwd The password of the session.
+     */
+    renewReceiveKey(pwd) {
+        let keys = this.getSessionKeys(pwd);
+        keys.receive = renewSecret(keys.receive);
+        ++keys.receiveGeneration;
+        this.emit('rekey', 'receive', keys.receiveGeneration);
+    }
+    /**
+     * Gets the fingerprint of the identity key, the remote has presented while the handshake.
+     */
+    get remoteFingerprint() {
+        return this._remoteFingerprint;
+    }
+    /**
+     * Sends the next heartbeat to the remote
+     * or closes the connection, if the remote has not answered the last ones.
+     */
+    sendHeartbeat() {
+        let me = this;
+        if (me._isClosed || !isSocketWritable(me.socket)) {
+            // no heartbeats, which are not requested by
+            // the application, to a closed connection
+            me.stopHeartbeat();
+            return;
+        }
+        if (me._pingTime && me.isReceiveRequired()) {
+            // no answer since last ping
+            // and we were able to receive it
+            ++me._heartbeatMisses;
+        }
+        let maxMisses = me.getHeartbeatMaxMisses();
+        if (me._heartbeatMisses >= maxMisses) {
+            let timeout = me.getHeartbeatInterval() * maxMisses;
+            me.stopHeartbeat();
+            me._closeError = new ssocket_errors.TimeoutError(`Remote has not answered ${maxMisses} heartbeat(s)!`, timeout);
+            me._closeReason = 'timeout';
+            me.socket.destroy();
+            return;
+        }
+        me._pingId = (me._pingId + 1) % 0x100000000;
+        me._pingTime = Date.now();
+        let ping = Buffer.alloc(4);
+        ping.writeUInt32LE(me._pingId, 0);
+        me.writePackage(PACKAGE_TYPE_PING, ping).then(() => {
+        }, (err) => {
+            // connection is closed
+        });
+        me.receive(); // wait for answer
+    }
+    /**
+     * Signs the handshake with the identity key and sends it to the client (SERVER side).
+     *
+     * @return {Promise<any>} The promise.
+     */
+    sendIdentity() {
+        let me = this;
+        return new Promise((resolve, reject) => {
+            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+            try {
+                if (me.negotiated.features.indexOf(FEATURE_IDENTITY) < 0) {
+                    completed(null); // no identity
+                    return;
+                }
+                let signed = ssocket_identity.signTranscript(me.identityKey, getTranscriptHash(me._transcript));
+                let publicKeyLength = Buffer.alloc(2);
+                publicKeyLength.writeUInt16LE(signed.publicKey.length, 0);
+                let signatureLength = Buffer.alloc(2);
+                signatureLength.writeUInt16LE(signed.signature.length, 0);
+                ssocket_helpers.writeSocket(me.socket, Buffer.concat([publicKeyLength, signed.publicKey,
+                    signatureLength, signed.signature])).then(() => {
+                    completed(null);
+                }, (err) => {
+                    completed(err);
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+    /**
+     * Sends the data of a stream to the remote as chunks (without queue).
+     *
+     * If the remote supports it, several chunks are sent before their answers are received.
+     *
+     * @param {number} fdSrc The stream pointer from where to read.
+     * @param {number} maxSize The maximum number of bytes to send.
+     * @param {number} bufferSize The buffer size for the read operation(s).
+     * @param {TransferOptions} [opts] The options of the transfer.
+     * @param {ssocket_progress.ProgressTracker} [tracker] The tracker for the progress.
+     *
+     * @return {Promise<number>} The promise.
+     */
+    sendStream(fdSrc, maxSize, bufferSize, opts, tracker) {
+        let me = this;
+        if (!opts) {
+            opts = {};
+        }
+        let contentType = opts.contentType;
+        let limiter = me.getRateLimiter(opts);
+        let windowSize = me.getStreamWindowSize(opts);
+        return new Promise((resolve, reject) => {
+            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+            try {
+                let remainingBytes = maxSize;
+                let bytesCount = 0;
+                let position = null;
+                // sizes of the chunks, which wait for an answer
+                let chunksInFlight = [];
+                let readNextChunk = () => {
+                    return new Promise((res, rej) => {
+                        let buffer = Buffer.alloc(bufferSize);
+                        let bytesToRead;
+                        if (isNaN(remainingBytes)) {
+                            bytesToRead = buffer.length;
+                        }
+                        else {
+                            if (remainingBytes < 1) {
+                                remainingBytes = 0;
+                            }
+                            bytesToRead = remainingBytes;
+                            bytesToRead = Math.min(bytesToRead, buffer.length);
+                        }
+                        if (bytesToRead < 1) {
+                            res(Buffer.alloc(0)); // nothing more to send
+                            return;
+                        }
+                        FS.read(fdSrc, buffer, 0, bytesToRead, position, (err, bytesRead) => {
+                            if (err) {
+                                rej(err);
+                                return;
+                            }
+                            let chunk;
+                            if (bytesRead > 0) {
+                                chunk = Buffer.alloc(bytesRead);
+                                buffer.copy(chunk, 0, 0, bytesRead);
+                            }
+                            else {
+                                chunk = Buffer.alloc(0);
+                            }
+                            if (ssocket_helpers.isNullOrUndefined(contentType) && chunk.length > 0) {
+                                contentType = ssocket_codecs.detectContentType(chunk) || '';
+                            }
+                            bytesCount += chunk.length;
+                            remainingBytes -= chunk.length;
+                            if (null !== position) {
+                                position += chunk.length;
+                            }
+                            res(chunk);
+                        });
+                    });
+                };
+                let waitForLimiter = (chunk) => {
+                    if (limiter) {
+                        return limiter.acquire(chunk.length);
+                    }
+                    return Promise.resolve();
+                };
+                let chunksAnswered = (count) => {
+                    while (count-- > 0 && chunksInFlight.length > 0) {
+                        let chunkSize = chunksInFlight.shift();
+                        if (tracker) {
+                            tracker.update(chunkSize);
+                        }
+                    }
+                };
+                // one chunk after another
+                let nextChunk = () => {
+                    readNextChunk().then((chunk) => {
+                        return waitForLimiter(chunk).then(() => {
+                            return me.writeChunk(chunk, contentType);
+                        }).then((hash) => {
+                            me.emit('stream.write', fdSrc, remainingBytes, chunk, hash);
+                            if (chunk.length > 0) {
+                                chunksInFlight.push(chunk.length);
+                                chunksAnswered(1);
+                                nextChunk();
+                            }
+                            else {
+                                completed(null, bytesCount); // we have finished
+                            }
+                        });
+                    }).then(null, (err) => {
+                        completed(err);
+                    });
+                };
+                // tell the remote that there is no more data, after an error
+                let abortWindow = (err) => {
+                    me.writeChunkBlock(Buffer.alloc(0)).then(() => {
+                        completed(err);
+                    }, () => {
+                        completed(err);
+                    });
+                };
+                // wait for the answers of the rest, after the end has been sent
+                let waitForRest = () => {
+                    if (chunksInFlight.length < 1) {
+                        completed(null, bytesCount); // we have finished
+                        return;
+                    }
+                    me.readChunkAnswer().then((count) => {
+                        chunksAnswered(count);
+                        waitForRest();
+                    }, (err) => {
+                        completed(err); // the remote has the end already
+                    });
+                };
+                let finishWindow = () => {
+                    let lastChunk = Buffer.alloc(0);
+                    me.writeChunkBlock(lastChunk).then((hash) => {
+                        me.emit('stream.write', fdSrc, remainingBytes, lastChunk, hash);
+                        waitForRest();
+                    }, (err) => {
+                        completed(err);
+                    });
+                };
+                // several chunks, which wait for their answers
+                let nextWindowChunk = () => {
+                    if (chunksInFlight.length >= windowSize ||
+                        (chunksInFlight.length > 0 && me._receivedData.length > 0)) {
+                        // window is full or answers are available
+                        me.readChunkAnswer().then((count) => {
+                            chunksAnswered(count);
+                            nextWindowChunk();
+                        }, abortWindow);
+                        return;
+                    }
+                    readNextChunk().then((chunk) => {
+                        if (chunk.length < 1) {
+                            finishWindow();
+                            return;
+                        }
+                        waitForLimiter(chunk).then(() => {
+                            // the remote answers, each time a quarter of the window is used
+                            return me.writeChunkBlock(chunk, contentType, windowSize);
+                        }).then((hash) => {
+                            chunksInFlight.push(chunk.length);
+                            me.emit('stream.write', fdSrc, remainingBytes, chunk, hash);
+                            nextWindowChunk();
+                        }, (err) => {
+                            completed(err);
+                        });
+                    }, (err) => {
+                        completed(err);
+                    });
+                };
+                let startSending = () => {
+                    if (me.supportsFeature(FEATURE_WINDOW)) {
+                        nextWindowChunk();
+                    }
+                    else {
+                        nextChunk();
+                    }
+                };
+                me.makeHandshakeIfNeeded().then(() => {
+                    if (opts.resume) {
+                        return me.answerResume(fdSrc, maxSize, bufferSize).then((offset) => {
+                            position = offset;
+                            remainingBytes -= offset;
+                            me.emit('stream.resume', fdSrc, offset);
+                            if (tracker) {
+                                tracker.start(offset);
+                            }
+                        });
                     }
+                }).then(() => {
+                    startSending();
                 }, (err) => {
                     completed(err);
                 });
@@ -532,125 +3674,221 @@ class SimpleSocket extends Events.EventEmitter {
         });
     }
     /**
-     * Reads data from the remote.
-     *
-     * @param {Promise<Buffer>} The promise.
+     * Sets up the events.
      */
-    read() {
+    setupEvents() {
         let me = this;
-        return new Promise((resolve, reject) => {
-            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
-            try {
-                me.makeHandshakeIfNeeded().then((pwd) => {
-                    try {
-                        ssocket_helpers.readSocket(me.socket, 4).then((buff) => {
-                            try {
-                                let dataLength = buff.readUInt32LE(0);
-                                if (dataLength <= me.getMaxPackageSize()) {
-                                    if (dataLength < 1) {
-                                        completed(null, Buffer.alloc(0));
-                                    }
-                                    else {
-                                        ssocket_helpers.readSocket(me.socket, dataLength).then((cryptedData) => {
-                                            try {
-                                                let decipher = Crypto.createDecipher(me.algorithm, pwd);
-                                                let a = decipher.update(cryptedData);
-                                                let b = decipher.final();
-                                                let uncryptedData = Buffer.concat([a, b]);
-                                                let isCompressed = uncryptedData.readUInt8(0) > 127;
-                                                let compressedData = Buffer.alloc(uncryptedData.length - 1);
-                                                uncryptedData.copy(compressedData, 0, 1);
-                                                let untransformData = (transformedData) => {
-                                                    let transformerPromise = asDataTransformerPromise(me.dataTransformer, DataTransformerDirection.Restore, transformedData);
-                                                    transformerPromise.then((untransformedData) => {
-                                                        completed(null, untransformedData);
-                                                    }, (err) => {
-                                                        completed(err);
-                                                    });
-                                                };
-                                                if (isCompressed) {
-                                                    ZLib.gunzip(compressedData, (err, uncompressedData) => {
-                                                        if (err) {
-                                                            completed(err);
-                                                        }
-                                                        else {
-                                                            untransformData(uncompressedData);
-                                                        }
-                                                    });
-                                                }
-                                                else {
-                                                    // not compressed
-                                                    untransformData(compressedData);
-                                                }
-                                            }
-                                            catch (e) {
-                                                completed(e);
-                                            }
-                                        }, (err) => {
-                                            completed(err);
-                                        });
-                                    }
-                                }
-                                else {
-                                    completed(null, null); // maximum reached
-                                }
-                            }
-                            catch (e) {
-                                completed(e);
-                            }
-                        }, (err) => {
-                            completed(err);
-                        });
-                    }
-                    catch (e) {
-                        completed(e);
-                    }
-                }, (err) => {
-                    completed(err);
-                });
+        // the answers of the chunks of a stream are small packages,
+        // which must not wait until the ones before have been acknowledged
+        me.socket.setNoDelay(true);
+        me.socket.on('error', (err) => {
+            me.stopHeartbeat();
+            if (err) {
+                me.emit('error', err);
             }
-            catch (e) {
-                completed(e);
+        });
+        me.socket.on('end', () => {
+            // remote will not answer anymore
+            me.stopHeartbeat();
+        });
+        me.socket.on('close', () => {
+            let err = me._closeError || new Error('Connection has been closed!');
+            me.handleClose(err);
+            if (me._rpc) {
+                me._rpc.rejectAll(err);
             }
+            Object.keys(me._channels).forEach((name) => {
+                me.removeChannel(me._channels[name], err);
+            });
+            me.emit('close', me._closeReason);
         });
     }
     /**
-     * Reads data from remote and writes it to a file on this machine.
+     * Gets the wrapped socket.
      *
-     * @param {string} path The path to the target file.
-     * @param {string|number} [flags] The custom flags for opening the target file.
+     * @return {Net.Socket} The wrapped socket.
+     */
+    get socket() {
+        return this._socket;
+    }
+    /**
+     * Starts sending heartbeats to the remote, if 'heartbeatInterval' is set
+     * and the remote supports them.
      *
-     * @return {Promise<number>} The promise.
+     * This is done automatically after the handshake.
+     *
+     * @return {boolean} Heartbeats are sent or not.
      */
-    readFile(path, flags = 'w') {
+    startHeartbeat() {
         let me = this;
-        if (!Path.isAbsolute(path)) {
-            path = Path.join(me.getCwd(), path);
+        if (me._heartbeatTimer) {
+            return true; // already running
+        }
+        let interval = me.getHeartbeatInterval();
+        if (interval < 1 || me._isClosed || !me._negotiated ||
+            me._negotiated.features.indexOf(FEATURE_HEARTBEAT) < 0) {
+            return false;
+        }
+        me._heartbeatMisses = 0;
+        me._pingTime = null;
+        me._heartbeatTimer = setInterval(() => {
+            me.sendHeartbeat();
+        }, interval);
+        me.receive(); // answer the pings of the remote
+        return true;
+    }
+    /**
+     * Starts the receive loop, which receives data from the remote, even if nobody
+     * calls 'read()', and emits a 'message' event for each package, if there are listeners.
+     *
+     * Without listeners, received data is buffered, until it is read
+     * (s. 'receiveHighWaterMark').
+     */
+    startReceiving() {
+        this._receiveLoop = true;
+        this.receive();
+    }
+    /**
+     * Stops sending heartbeats to the remote.
+     */
+    stopHeartbeat() {
+        let timer = this._heartbeatTimer;
+        if (timer) {
+            this._heartbeatTimer = null;
+            clearInterval(timer);
         }
+    }
+    /**
+     * Stops the receive loop after the current package.
+     */
+    stopReceiving() {
+        this._receiveLoop = false;
+    }
+    /**
+     * Checks if a feature is supported by both sides.
+     *
+     * @param {string} feature The feature.
+     *
+     * @return {boolean} Is supported or not.
+     */
+    supportsFeature(feature) {
+        let negotiated = this.negotiated;
+        return negotiated && negotiated.features &&
+            negotiated.features.indexOf(feature) > -1;
+    }
+    /**
+     * Gets the socket type.
+     */
+    get type() {
+        return this._type;
+    }
+    /**
+     * Tries to compress data.
+     *
+     * @param {any} data The data to compress.
+     * @param {string} [contentType] The content type of the data. If not defined, it is detected from the data.
+     *
+     * @return {Promise<CompressionResult>} The promise.
+     */
+    tryCompress(data, contentType) {
+        let me = this;
         return new Promise((resolve, reject) => {
             let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
             try {
-                FS.open(path, flags, (err, fdTarget) => {
-                    if (err) {
-                        completed(err);
+                let uncompressedData = ssocket_helpers.asBuffer(data);
+                let result = {
+                    data: uncompressedData,
+                    isCompressed: false,
+                    uncompressed: uncompressedData,
+                };
+                let returnResult = () => {
+                    completed(null, result);
+                };
+                if (ssocket_helpers.isNullOrUndefined(uncompressedData)) {
+                    returnResult();
+                    return;
+                }
+                if (!ssocket_helpers.toBooleanSafe(me.compress, true)) {
+                    returnResult(); // do not compress
+                    return;
+                }
+                let codec = ssocket_codecs.getCodec(me.negotiated ? me.negotiated.codec : 'gzip');
+                if (!codec || 'none' === codec.name) {
+                    returnResult(); // remote does not want compressed data
+                    return;
+                }
+                if ('gzip' !== codec.name && !me.supportsFeature(FEATURE_CODECS)) {
+                    returnResult(); // remote knows 'gzip' only
+                    return;
+                }
+                let isForced = ssocket_helpers.toBooleanSafe(me.compress);
+                let useContext = me.supportsFeature(FEATURE_CONTEXT);
+                if (!isForced) {
+                    // with a context, small data is compressed
+                    // by the data, which has been sent before
+                    let threshold = parseInt(ssocket_helpers.toStringSafe(me.compressionThreshold).trim());
+                    if (!useContext && uncompressedData.length < threshold) {
+                        returnResult(); // too small
+                        return;
                     }
-                    else {
-                        let closeFile = (err, bytesWritten) => {
-                            FS.close(fdTarget, (e) => {
-                                if (e) {
-                                    completed(e, bytesWritten);
-                                }
-                                else {
-                                    completed(err, bytesWritten);
-                                }
-                            });
+                    if (ssocket_helpers.isNullOrUndefined(contentType)) {
+                        contentType = ssocket_codecs.detectContentType(uncompressedData);
+                    }
+                    if (ssocket_codecs.isContentTypeMatching(contentType, me.compressionSkipTypes)) {
+                        returnResult(); // already compressed, like an image
+                        return;
+                    }
+                }
+                if (useContext &&
+                    (uncompressedData.length + (uncompressedData.length >> 3) + 1024) > me.getMaxPackageSize()) {
+                    returnResult(); // compressed data might be too big
+                    return;
+                }
+                let startTime = Date.now();
+                let compress;
+                if (useContext) {
+                    compress = me.getCompressContext(codec).process(uncompressedData);
+                }
+                else {
+                    compress = codec.compress(uncompressedData, me.getCompressionLevel()).then((compressedData) => {
+                        return {
+                            data: compressedData,
+                            isReset: false,
                         };
-                        me.readStream(fdTarget).then((bytesWritten) => {
-                            closeFile(null, bytesWritten);
-                        }, (err) => {
-                            closeFile(err);
-                        });
+                    });
+                }
+                compress.then((output) => {
+                    let compressedData = output.data;
+                    result.compressed = compressedData;
+                    if (compressedData.length < uncompressedData.length || isForced || useContext) {
+                        // compressed data is smaller,
+                        // compression is forced or
+                        // the remote expects the data to update its context
+                        result.codec = codec;
+                        result.data = result.compressed;
+                        result.isCompressed = true;
+                        result.isContextReset = output.isReset;
+                        result.isContextUsed = useContext;
+                    }
+                    let stats = {
+                        codec: codec.name,
+                        compressedSize: compressedData.length,
+                        contentType: contentType || undefined,
+                        duration: Date.now() - startTime,
+                        isCompressed: result.isCompressed,
+                        ratio: uncompressedData.length > 0 ? compressedData.length / uncompressedData.length
+                            : 1,
+                        uncompressedSize: uncompressedData.length,
+                    };
+                    me.emit('compression', stats);
+                    returnResult();
+                }, (err) => {
+                    result.error = err;
+                    if (useContext) {
+                        // state of the context is unknown
+                        me.getCompressContext(codec).reset();
                     }
+                    returnResult();
                 });
             }
             catch (e) {
@@ -659,29 +3897,67 @@ class SimpleSocket extends Events.EventEmitter {
         });
     }
     /**
-     * Reads data as JSON object.
+     * Receives the signed handshake of the server and checks if its identity is trusted (CLIENT side).
      *
-     * @return {Promise<T>} The promise.
+     * @return {Promise<any>} The promise.
      */
-    readJSON() {
+    verifyIdentity() {
         let me = this;
         return new Promise((resolve, reject) => {
-            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+            let completed = (err) => {
+                if (err) {
+                    me.socket.end();
+                    reject(err);
+                }
+                else {
+                    resolve();
+                }
+            };
             try {
-                me.readString().then((json) => {
-                    try {
-                        let obj;
-                        if (ssocket_helpers.isNullOrUndefined(json)) {
-                            obj = json;
-                        }
-                        else {
-                            obj = JSON.parse(json);
+                if (me.negotiated.features.indexOf(FEATURE_IDENTITY) < 0) {
+                    if (requiresServerIdentity(me.serverTrust)) {
+                        completed(new ssocket_errors.IdentityError('Server has no identity!'));
+                    }
+                    else {
+                        completed(null);
+                    }
+                    return;
+                }
+                // hash of the data, the server has signed
+                let transcriptHash = getTranscriptHash(me._transcript);
+                let readBlock = () => {
+                    return ssocket_helpers.readSocket(me.socket, 2).then((buff) => {
+                        let blockLength = buff.readUInt16LE(0);
+                        if (blockLength < 1 || blockLength > MAX_IDENTITY_SIZE) {
+                            throw new ssocket_errors.IdentityError('Invalid identity of server!');
                         }
-                        completed(null, obj);
+                        return ssocket_helpers.readSocket(me.socket, blockLength);
+                    });
+                };
+                let signed = {
+                    publicKey: undefined,
+                    signature: undefined,
+                };
+                readBlock().then((publicKey) => {
+                    signed.publicKey = publicKey;
+                    return readBlock();
+                }).then((signature) => {
+                    signed.signature = signature;
+                    let fingerprint = ssocket_identity.toFingerprint(signed.publicKey);
+                    let isValid = false;
+                    try {
+                        isValid = ssocket_identity.verifyTranscript(signed, transcriptHash);
                     }
                     catch (e) {
-                        completed(e);
+                        isValid = false;
                     }
+                    if (!isValid) {
+                        throw new ssocket_errors.IdentityError('Invalid signature of server!', fingerprint);
+                    }
+                    me._remoteFingerprint = fingerprint;
+                    return me.checkServerTrust(fingerprint);
+                }).then(() => {
+                    completed(null);
                 }, (err) => {
                     completed(err);
                 });
@@ -692,83 +3968,120 @@ class SimpleSocket extends Events.EventEmitter {
         });
     }
     /**
-     * Reads data from remote and writes it to a stream on this machine.
+     * Removes a method, which has been registered via 'registerMethod()'.
      *
-     * @param {number} fdTarget The stream pointer of the target.
+     * @param {string} name The name of the method.
      *
-     * @return {Promise<number>} The promise.
+     * @return {boolean} Method has been removed or not.
+     */
+    unregisterMethod(name) {
+        return this.getRPC().unregisterMethod(name);
+    }
+    /**
+     * Sends data to the remote.
+     *
+     * @param {any} data The data to send.
+     * @param {OperationOptions} [opts] Additional options, like a timeout.
+     *
+     * @param {Promise<Buffer>} The promise.
+     */
+    write(data, opts) {
+        let me = this;
+        let limiter = me.getRateLimiter(opts);
+        return runOperation('write()', opts, me.getWriteTimeout(), (ctx) => {
+            return me._writeQueue.enqueue(() => {
+                if (ctx.isCancelled) {
+                    return Promise.resolve(null); // do not send anymore
+                }
+                let waitForLimiter = Promise.resolve();
+                if (limiter) {
+                    let buff = ssocket_helpers.asBuffer(data);
+                    if (Buffer.isBuffer(buff)) {
+                        waitForLimiter = limiter.acquire(buff.length);
+                    }
+                }
+                return waitForLimiter.then(() => {
+                    if (ctx.isCancelled) {
+                        return null; // do not send anymore
+                    }
+                    // a package, which has been started to be sent,
+                    // is always sent completely
+                    return me.writePackage(PACKAGE_TYPE_DATA, data, opts ? opts.contentType : undefined);
+                });
+            });
+        });
+    }
+    /**
+     * Sends a chunk of a stream and waits for the answer of the remote.
+     *
+     * An empty chunk tells the remote that there is no more data.
+     *
+     * @param {Buffer} chunk The chunk to send.
+     * @param {string} [contentType] The content type of the stream.
+     *
+     * @return {Promise<Buffer>} The promise with the hash of the chunk.
+     */
+    writeChunk(chunk, contentType) {
+        let me = this;
+        let hash;
+        return me.writeChunkBlock(chunk, contentType).then((h) => {
+            hash = h;
+            if (chunk.length < 1) {
+                return; // no answer for the end
+            }
+            // wait for answer
+            return me.readChunkAnswer().then(null, (err) => {
+                if (!me.supportsFeature(FEATURE_WINDOW)) {
+                    throw err;
+                }
+                // remote waits for the end after an error
+                return me.writeChunkBlock(Buffer.alloc(0)).then(() => {
+                    throw err;
+                }, () => {
+                    throw err;
+                });
+            });
+        }).then(() => {
+            return hash;
+        });
+    }
+    /**
+     * Sends a chunk of a stream without waiting for an answer.
+     *
+     * @param {Buffer} chunk The chunk to send.
+     * @param {string} [contentType] The content type of the stream.
+     * @param {number} [windowSize] The window size to send after the chunk.
+     *
+     * @return {Promise<Buffer>} The promise with the hash of the chunk.
      */
-    readStream(fdTarget) {
+    writeChunkBlock(chunk, contentType, windowSize) {
         let me = this;
         return new Promise((resolve, reject) => {
             let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
             try {
-                let bytesWritten = 0;
-                let nextChunk;
-                let sendAnswer = (err) => {
-                    let errMsg = ssocket_helpers.toStringSafe(err);
-                    if (ssocket_helpers.isEmptyString(errMsg)) {
-                        errMsg = '';
-                    }
-                    me.write(errMsg).then(() => {
-                        if (errMsg) {
-                            completed(err);
-                        }
-                        else {
-                            nextChunk();
-                        }
-                    }, (err) => {
-                        completed(err);
-                    });
-                };
-                nextChunk = () => {
-                    // check chunk block
-                    me.read().then((chunkBlock) => {
-                        try {
-                            let chunkLength = chunkBlock.readUInt32LE(0);
-                            if (chunkLength < 1) {
-                                // no more data
-                                completed(null, bytesWritten);
-                            }
-                            else {
-                                if (chunkLength > me.getMaxPackageSize()) {
-                                    // chunk is too big
-                                    sendAnswer(new Error('Chunk is too big!'));
-                                }
-                                else {
-                                    // write to stream
-                                    let hash = Buffer.alloc(32);
-                                    chunkBlock.copy(hash, 0, 4, 4 + hash.length);
-                                    let chunk = Buffer.alloc(chunkLength);
-                                    chunkBlock.copy(chunk, 0, 4 + hash.length);
-                                    let realHash = Crypto.createHash('sha256')
-                                        .update(chunk).digest();
-                                    if (hash.equals(realHash)) {
-                                        FS.write(fdTarget, chunk, (err, written) => {
-                                            if (!err) {
-                                                if (written > 0) {
-                                                    bytesWritten += written;
-                                                }
-                                                me.emit('stream.read', fdTarget, chunk, written, hash);
-                                            }
-                                            sendAnswer(err);
-                                        });
-                                    }
-                                    else {
-                                        // unique hashes
-                                        sendAnswer(new Error('Invalid chunk hash: ' + realHash.toString('hex')));
-                                    }
-                                }
-                            }
-                        }
-                        catch (e) {
-                            sendAnswer(e);
-                        }
-                    }, (err) => {
-                        sendAnswer(err);
-                    });
-                };
-                nextChunk(); // start reading chunks
+                let chunkLength = Buffer.alloc(4);
+                chunkLength.writeUInt32LE(chunk.length, 0);
+                let hash;
+                if (chunk.length > 0) {
+                    hash = Crypto.createHash('sha256')
+                        .update(chunk).digest();
+                }
+                else {
+                    hash = Buffer.alloc(0); // we have no data to hash
+                }
+                let blockParts = [chunkLength, hash, chunk];
+                if (!ssocket_helpers.isNullOrUndefined(windowSize)) {
+                    // is ignored by remotes, which do not need it
+                    let windowSizeBuffer = Buffer.alloc(4);
+                    windowSizeBuffer.writeUInt32LE(windowSize, 0);
+                    blockParts.push(windowSizeBuffer);
+                }
+                // the header of the chunk is no content
+                me.writePackage(PACKAGE_TYPE_DATA, Buffer.concat(blockParts), contentType || '').then(() => {
+                    completed(null, hash);
+                }, (err) => {
+                    completed(err);
+                });
             }
             catch (e) {
                 completed(e);
@@ -776,29 +4089,124 @@ class SimpleSocket extends Events.EventEmitter {
         });
     }
     /**
-     * Reads data as string.
+     * Sends a directory tree to the remote.
      *
-     * @return {Promise<string>} The promise.
+     * @param {string} path The path of the directory to send.
+     * @param {DirectoryTransferOptions} [opts] Additional options, like filters or a timeout.
+     *
+     * @return {Promise<ssocket_directories.DirectoryEntry[]>} The promise with the sent entries.
+     */
+    writeDirectory(path, opts) {
+        let me = this;
+        if (!Path.isAbsolute(path)) {
+            path = Path.join(me.getCwd(), path);
+        }
+        return runOperation('writeDirectory()', opts, me.getWriteTimeout(), (ctx) => {
+            return ssocket_directories.scanDirectory(path, opts).then((entries) => {
+                return me.exclusive(() => {
+                    if (ctx.isCancelled) {
+                        return Promise.resolve([]); // nobody waits anymore
+                    }
+                    ctx.onCancel(() => {
+                        me.cancelTransfer();
+                    });
+                    let limiter = me.getRateLimiter(opts);
+                    let sendEntry = (entry) => {
+                        if ('file' !== entry.type) {
+                            return Promise.resolve(); // is part of the tree
+                        }
+                        return invokeFS(FS.open, ssocket_directories.toFullPath(path, entry), 'r').then((fdSrc) => {
+                            return me.sendStream(fdSrc, entry.size, me.getReadBufferSize(), {
+                                contentType: ssocket_codecs.getContentTypeByExtension(entry.path),
+                                rateLimit: limiter,
+                            }).then(() => {
+                                return invokeFS(FS.close, fdSrc);
+                            }, (err) => {
+                                FS.close(fdSrc, () => { });
+                                throw err;
+                            });
+                        });
+                    };
+                    return me.writePackage(PACKAGE_TYPE_DATA, JSON.stringify({
+                        entries: entries,
+                    })).then(() => {
+                        return me.readAnswer(); // tree can be rejected
+                    }).then(() => {
+                        let index = -1;
+                        let nextEntry = () => {
+                            if (++index >= entries.length) {
+                                return Promise.resolve();
+                            }
+                            let entry = entries[index];
+                            return sendEntry(entry).then(() => {
+                                me.emit('directory.write', entry, index, entries.length);
+                                return nextEntry();
+                            });
+                        };
+                        return nextEntry().then(() => {
+                            return entries;
+                        }, (err) => {
+                            // the remote still waits for data
+                            me.cancelTransfer();
+                            throw err;
+                        });
+                    });
+                });
+            });
+        });
+    }
+    /**
+     * Sends the data of a file to the remote.
+     *
+     * @param {string} path The path of the file to send.
+     * @param {number} [maxSize] The maximum number of bytes to send.
+     * @param {number} [bufferSize] The custom buffer size for the read operation(s).
+     * @param {string|number} [flags] The custom flags for opening the file.
+     * @param {TransferOptions} [opts] Additional options, like a timeout.
+     *
+     * @return {Promise<number>} The promise.
      */
-    readString() {
+    writeFile(path, maxSize, bufferSize, flags = 'r', opts) {
         let me = this;
+        if (!Path.isAbsolute(path)) {
+            path = Path.join(me.getCwd(), path);
+        }
+        if (!opts || ssocket_helpers.isNullOrUndefined(opts.contentType)) {
+            opts = Object.assign({}, opts, {
+                contentType: ssocket_codecs.getContentTypeByExtension(path),
+            });
+        }
         return new Promise((resolve, reject) => {
             let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
             try {
-                me.read().then((buff) => {
-                    try {
-                        if (buff) {
-                            completed(null, buff.toString(me.getEncoding()));
+                FS.open(path, flags, (err, fdSrc) => {
+                    if (err) {
+                        completed(err);
+                    }
+                    else {
+                        let closeFile = (err, bytesSend) => {
+                            FS.close(fdSrc, (e) => {
+                                if (e) {
+                                    completed(e, bytesSend);
+                                }
+                                else {
+                                    completed(err, bytesSend);
+                                }
+                            });
+                        };
+                        let sendData;
+                        if (opts && opts.metadata) {
+                            sendData = me.writeFileWithMetadata(path, fdSrc, maxSize, bufferSize, opts);
                         }
                         else {
-                            completed(null, null);
+                            sendData = me.writeStream(fdSrc, maxSize, bufferSize, opts);
                         }
+                        sendData.then((bytesSend) => {
+                            closeFile(null, bytesSend);
+                        }, (err) => {
+                            closeFile(err);
+                        });
                     }
-                    catch (e) {
-                        completed(e);
-                    }
-                }, (err) => {
-                    completed(err);
                 });
             }
             catch (e) {
@@ -807,77 +4215,99 @@ class SimpleSocket extends Events.EventEmitter {
         });
     }
     /**
-     * Sets up the events.
+     * Sends the metadata and the content of a file to the remote.
+     *
+     * @param {string} path The path of the file.
+     * @param {number} fdSrc The stream pointer of the file.
+     * @param {number} [maxSize] The maximum number of bytes to send.
+     * @param {number} [bufferSize] The custom buffer size for the read operation(s).
+     * @param {TransferOptions} opts Additional options, like a timeout.
+     *
+     * @return {Promise<number>} The promise.
      */
-    setupEvents() {
+    writeFileWithMetadata(path, fdSrc, maxSize, bufferSize, opts) {
         let me = this;
-        me.socket.on('error', (err) => {
-            if (err) {
-                me.emit('error', err);
-            }
-        });
-        me.socket.on('close', () => {
-            me.emit('close');
+        bufferSize = parseInt(ssocket_helpers.toStringSafe(bufferSize).trim());
+        if (isNaN(bufferSize)) {
+            bufferSize = me.getReadBufferSize();
+        }
+        maxSize = parseInt(ssocket_helpers.toStringSafe(maxSize).trim());
+        return runOperation('writeFile()', opts, me.getWriteTimeout(), (ctx) => {
+            let metadata;
+            return invokeFS(FS.fstat, fdSrc).then((stats) => {
+                metadata = {
+                    hash: null,
+                    mode: stats.mode,
+                    mtime: stats.mtime.getTime(),
+                    name: Path.basename(path),
+                    size: isNaN(maxSize) ? stats.size : Math.min(stats.size, Math.max(0, maxSize)),
+                };
+                return hashFile(fdSrc, metadata.size, bufferSize);
+            }).then((hash) => {
+                metadata.hash = hash.toString('hex');
+                return me.exclusive(() => {
+                    if (ctx.isCancelled) {
+                        return Promise.resolve(0); // nobody waits anymore
+                    }
+                    ctx.onCancel(() => {
+                        me.cancelTransfer();
+                    });
+                    let bytesSend;
+                    return me.writePackage(PACKAGE_TYPE_DATA, JSON.stringify(metadata)).then(() => {
+                        return me.readAnswer();
+                    }).then(() => {
+                        let tracker = me.createProgressTracker('write', fdSrc, opts);
+                        tracker.total = metadata.size;
+                        return me.sendStream(fdSrc, metadata.size, bufferSize, opts, tracker);
+                    }).then((result) => {
+                        bytesSend = result;
+                        // wait until the remote has checked the file
+                        return me.readAnswer();
+                    }).then(() => {
+                        return bytesSend;
+                    });
+                });
+            });
         });
     }
     /**
-     * Gets the wrapped socket.
+     * Sends a crypted message while a handshake.
      *
-     * @return {Net.Socket} The wrapped socket.
-     */
-    get socket() {
-        return this._socket;
-    }
-    /**
-     * Gets the socket type.
+     * @param {Buffer} pwd The password.
+     * @param {any} message The message.
+     *
+     * @return {Promise<any>} The promise.
      */
-    get type() {
-        return this._type;
+    writeHandshakeMessage(pwd, message) {
+        let cryptedMessage = this.encryptData(new Buffer(JSON.stringify(message), exports.DEFAULT_ENCODING), pwd);
+        let messageLength = Buffer.alloc(4);
+        messageLength.writeUInt32LE(cryptedMessage.length, 0);
+        return ssocket_helpers.writeSocket(this.socket, Buffer.concat([messageLength, cryptedMessage]));
     }
     /**
-     * Tries to compress data.
+     * Sends an object / value as JSON string.
      *
-     * @param {any} data The data to compress.
+     * @param {T} obj The object to send.
+     * @param {OperationOptions} [opts] Additional options, like a timeout.
      *
-     * @return {Promise<CompressionResult>} The promise.
+     * @returns {Promise<Buffer>} The promise.
      */
-    tryCompress(data) {
+    writeJSON(obj, opts) {
         let me = this;
         return new Promise((resolve, reject) => {
             let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
             try {
-                let uncompressedData = ssocket_helpers.asBuffer(data);
-                let result = {
-                    data: uncompressedData,
-                    isCompressed: false,
-                    uncompressed: uncompressedData,
-                };
-                let returnResult = () => {
-                    completed(null, result);
-                };
-                if (ssocket_helpers.isNullOrUndefined(uncompressedData)) {
-                    returnResult();
-                    return;
+                let json;
+                if (ssocket_helpers.isNullOrUndefined(obj)) {
+                    json = obj;
                 }
-                if (!ssocket_helpers.toBooleanSafe(me.compress, true)) {
-                    returnResult(); // do not compress
-                    return;
+                else {
+                    json = JSON.stringify(obj);
                 }
-                ZLib.gzip(uncompressedData, (err, compressedData) => {
-                    if (err) {
-                        result.error = err;
-                    }
-                    else {
-                        result.compressed = compressedData;
-                        if (compressedData.length < uncompressedData.length ||
-                            ssocket_helpers.toBooleanSafe(me.compress)) {
-                            // compressed data is smaller or
-                            // compression is forced
-                            result.data = result.compressed;
-                            result.isCompressed = true;
-                        }
-                    }
-                    returnResult();
+                me.write(json, opts).then((buff) => {
+                    completed(null, buff);
+                }, (err) => {
+                    completed(err);
                 });
             }
             catch (e) {
@@ -886,11 +4316,15 @@ class SimpleSocket extends Events.EventEmitter {
         });
     }
     /**
-     * Reads data from the remote.
+     * Sends a package to the remote.
+     *
+     * @param {number} type The type of the package.
+     * @param {any} data The data to send.
+     * @param {string} [contentType] The content type of the data.
      *
      * @param {Promise<Buffer>} The promise.
      */
-    write(data) {
+    writePackage(type, data, contentType) {
         let me = this;
         return new Promise((resolve, reject) => {
             let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
@@ -903,27 +4337,47 @@ class SimpleSocket extends Events.EventEmitter {
                         noDataSend();
                         return;
                     }
-                    me.tryCompress(uncryptedData).then((result) => {
-                        me.makeHandshakeIfNeeded().then((pwd) => {
+                    me.makeHandshakeIfNeeded().then((pwd) => {
+                        me.tryCompress(uncryptedData, contentType).then((result) => {
                             try {
-                                let cipher = Crypto.createCipher(me.algorithm, pwd);
-                                let n = Math.floor(Math.random() * 128);
-                                if (n > 127) {
-                                    n = 127;
+                                let n;
+                                if (me.hasPackageTypes()) {
+                                    n = type;
                                 }
-                                else if (n < 0) {
-                                    n = 0;
+                                else if (PACKAGE_TYPE_DATA !== type) {
+                                    completed(new Error('Remote does not support packages of that type!'));
+                                    return;
+                                }
+                                else {
+                                    n = Math.floor(Math.random() * 128);
+                                    if (n > 127) {
+                                        n = 127;
+                                    }
+                                    else if (n < 0) {
+                                        n = 0;
+                                    }
                                 }
                                 let isCompressed = Buffer.alloc(1);
                                 isCompressed.writeUInt8(n + (result.isCompressed ? 128 : 0), 0);
-                                let a = cipher.update(Buffer.concat([isCompressed,
-                                    result.data]));
-                                let b = cipher.final();
-                                let cryptedData = Buffer.concat([a, b]);
-                                if (cryptedData.length > me.getMaxPackageSize()) {
+                                let header = [isCompressed];
+                                if (result.isCompressed && me.supportsFeature(FEATURE_CODECS)) {
+                                    header.push(Buffer.from([result.codec.id]));
+                                }
+                                if (result.isContextUsed) {
+                                    header.push(Buffer.from([result.isContextReset ? 1 : 0]));
+                                }
+                                let uncryptedPackage = Buffer.concat(header.concat([result.data]));
+                                if ((uncryptedPackage.length + me.getCryptOverhead()) > me.getMaxPackageSize()) {
+                                    if (result.isContextUsed) {
+                                        // remote will not receive the data
+                                        // of the compression context
+                                        me._compressContext.reset();
+                                    }
                                     completed(null, null); // maximum package size reached
                                     return;
                                 }
+                                let rekeyPackage = me.rekeyIfNeeded(pwd);
+                                let cryptedData = me.encryptData(uncryptedPackage, pwd);
                                 let dataLength = Buffer.alloc(4);
                                 dataLength.writeUInt32LE(cryptedData.length, 0);
                                 // emit 'write.before'
@@ -940,22 +4394,19 @@ class SimpleSocket extends Events.EventEmitter {
                                         completed(null, uncryptedData);
                                     }
                                 };
-                                // first send data length
-                                me.socket.write(dataLength, (err) => {
+                                let packages = [dataLength, cryptedData];
+                                if (rekeyPackage) {
+                                    packages.unshift(rekeyPackage);
+                                }
+                                // send data length and crypted data at once,
+                                // so the order of the sequence numbers is kept
+                                me.socket.write(Buffer.concat(packages), (err) => {
                                     if (err) {
-                                        writeCompleted(err);
+                                        writeCompleted(err, [dataLength]);
                                     }
                                     else {
-                                        // now the crypted data
-                                        me.socket.write(cryptedData, (err) => {
-                                            if (err) {
-                                                writeCompleted(err, [dataLength]);
-                                            }
-                                            else {
-                                                // all send
-                                                writeCompleted(err, [dataLength, cryptedData]);
-                                            }
-                                        });
+                                        // all send
+                                        writeCompleted(err, [dataLength, cryptedData]);
                                     }
                                 });
                             }
@@ -982,44 +4433,65 @@ class SimpleSocket extends Events.EventEmitter {
         });
     }
     /**
-     * Sends the data of a file to the remote.
+     * Gets the number of 'write()' calls, which are running or waiting.
+     */
+    get writeQueueLength() {
+        return this._writeQueue.length;
+    }
+    /**
+     * Sends the data of a stream to the remote.
      *
-     * @param {string} path The path of the file to send.
+     * @param {number} fdSrc The stream pointer from where to read.
      * @param {number} [maxSize] The maximum number of bytes to send.
      * @param {number} [bufferSize] The custom buffer size for the read operation(s).
-     * @param {string|number} [flags] The custom flags for opening the file.
+     * @param {TransferOptions} [opts] Additional options, like a timeout.
      *
      * @return {Promise<number>} The promise.
      */
-    writeFile(path, maxSize, bufferSize, flags = 'r') {
+    writeStream(fdSrc, maxSize, bufferSize, opts) {
         let me = this;
-        if (!Path.isAbsolute(path)) {
-            path = Path.join(me.getCwd(), path);
+        bufferSize = parseInt(ssocket_helpers.toStringSafe(bufferSize).trim());
+        if (isNaN(bufferSize)) {
+            bufferSize = me.getReadBufferSize();
         }
+        maxSize = parseInt(ssocket_helpers.toStringSafe(maxSize).trim());
+        return runOperation('writeStream()', opts, me.getWriteTimeout(), (ctx) => {
+            return me.exclusive(() => {
+                if (ctx.isCancelled) {
+                    return Promise.resolve(0); // nobody waits anymore
+                }
+                ctx.onCancel(() => {
+                    me.cancelTransfer();
+                });
+                let tracker = me.createProgressTracker('write', fdSrc, opts);
+                return getTransferSize(fdSrc, maxSize).then((total) => {
+                    tracker.total = total;
+                    return me.sendStream(fdSrc, maxSize, bufferSize, opts, tracker);
+                });
+            });
+        });
+    }
+    /**
+     * Sends a value, like an object with buffers, dates or maps, which
+     * can be read by 'readValue()'.
+     *
+     * Other than 'writeJSON()', the value is serialized to a binary format, which keeps the types of the value.
+     *
+     * @param {T} value The value to send.
+     * @param {OperationOptions} [opts] Additional options, like a timeout.
+     *
+     * @returns {Promise<Buffer>} The promise.
+     */
+    writeValue(value, opts) {
+        let me = this;
         return new Promise((resolve, reject) => {
             let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
             try {
-                FS.open(path, flags, (err, fdSrc) => {
-                    if (err) {
-                        completed(err);
-                    }
-                    else {
-                        let closeFile = (err, bytesSend) => {
-                            FS.close(fdSrc, (e) => {
-                                if (e) {
-                                    completed(e, bytesSend);
-                                }
-                                else {
-                                    completed(err, bytesSend);
-                                }
-                            });
-                        };
-                        me.writeStream(fdSrc, maxSize, bufferSize).then((bytesSend) => {
-                            closeFile(null, bytesSend);
-                        }, (err) => {
-                            closeFile(err);
-                        });
-                    }
+                let data = me.getSerializer().serialize(value);
+                me.write(data, opts).then((buff) => {
+                    completed(null, buff);
+                }, (err) => {
+                    completed(err);
                 });
             }
             catch (e) {
@@ -1027,27 +4499,130 @@ class SimpleSocket extends Events.EventEmitter {
             }
         });
     }
+}
+exports.SimpleSocket = SimpleSocket;
+// make 'for await (const data of socket)' possible
+SimpleSocket.prototype[ssocket_compat.asyncIterator] = function () {
+    return this.messages();
+};
+/**
+ * A logical channel, which is multiplexed with other channels
+ * over the connection of a SimpleSocket.
+ */
+class Channel extends SimpleSocket {
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {SimpleSocket} parent The socket, the channel belongs to.
+     * @param {string} name The name.
+     * @param {ssocket_channels.ChannelMultiplexer} multiplexer The underlying multiplexer.
+     */
+    constructor(parent, name, multiplexer) {
+        super(parent.type, parent.socket);
+        this._multiplexer = multiplexer;
+        this._name = name;
+        this._parent = parent;
+        this.cwd = parent.cwd;
+        this.encoding = parent.encoding;
+        this.maxPackageSize = parent.maxPackageSize;
+        this.rateLimit = parent.rateLimit;
+        this.readBufferSize = parent.readBufferSize;
+        this.serializer = parent.serializer;
+    }
+    /**
+     * Closes the channel (and not the underlying connection),
+     * if a running transfer has been cancelled.
+     */
+    cancelTransfer() {
+        this.handleClose(new Error(`Channel '${this.name}' has been closed!`));
+        this.end().then(() => { }, () => { });
+    }
+    /**
+     * Closes the channel.
+     *
+     * @return {Promise<any>} The promise.
+     */
+    end() {
+        let me = this;
+        return me._multiplexer.close(me.name).then(() => {
+            me.emit('close');
+        });
+    }
+    /**
+     * Is invoked after received data has been passed to a 'read()' call or a 'message' listener.
+     *
+     * @param {Buffer} data The data.
+     */
+    handleDataRead(data) {
+        if (data) {
+            // remote can send more
+            this._multiplexer.consume(this.name, data.length);
+        }
+    }
+    /**
+     * Gets the state of the handshake of the underlying connection.
+     */
+    get handshakeState() {
+        return this.parent.handshakeState;
+    }
+    /**
+     * Makes a handshake of the underlying connection if needed.
+     *
+     * @param {Promise<Buffer>} The promise.
+     */
+    makeHandshakeIfNeeded() {
+        return this.parent.makeHandshakeIfNeeded();
+    }
+    /**
+     * Gets the name of the channel.
+     */
+    get name() {
+        return this._name;
+    }
+    /**
+     * Gets the options, which have been negotiated for the underlying connection.
+     */
+    get negotiated() {
+        return this.parent.negotiated;
+    }
+    /**
+     * Gets the socket, the channel belongs to.
+     */
+    get parent() {
+        return this._parent;
+    }
+    /**
+     * Receives packages of the underlying connection.
+     */
+    receive() {
+        this._multiplexer.receive();
+    }
+    /**
+     * Sets up the events.
+     */
+    setupEvents() {
+        // events of the connection are emitted by the parent
+    }
     /**
-     * Sends an object / value as JSON string.
+     * Sends data on the channel.
      *
-     * @param {T} obj The object to send.
+     * @param {number} type The type of the package.
+     * @param {any} data The data to send.
      *
-     * @returns {Promise<Buffer>} The promise.
+     * @param {Promise<Buffer>} The promise.
      */
-    writeJSON(obj) {
+    writePackage(type, data) {
         let me = this;
         return new Promise((resolve, reject) => {
             let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
             try {
-                let json;
-                if (ssocket_helpers.isNullOrUndefined(obj)) {
-                    json = obj;
-                }
-                else {
-                    json = JSON.stringify(obj);
+                if (PACKAGE_TYPE_DATA !== type) {
+                    completed(new Error('Channels only support data!'));
+                    return;
                 }
-                me.write(json).then((buff) => {
-                    completed(null, buff);
+                let uncryptedData = ssocket_helpers.asBuffer(data) || Buffer.alloc(0);
+                me._multiplexer.send(me.name, uncryptedData).then((result) => {
+                    completed(null, result ? uncryptedData : null);
                 }, (err) => {
                     completed(err);
                 });
@@ -1057,144 +4632,66 @@ class SimpleSocket extends Events.EventEmitter {
             }
         });
     }
-    /**
-     * Sends the data of a stream to the remote.
-     *
-     * @param {number} fdSrc The stream pointer from where to read.
-     * @param {number} [maxSize] The maximum number of bytes to send.
-     * @param {number} [bufferSize] The custom buffer size for the read operation(s).
-     *
-     * @return {Promise<number>} The promise.
-     */
-    writeStream(fdSrc, maxSize, bufferSize) {
-        let me = this;
-        bufferSize = parseInt(ssocket_helpers.toStringSafe(bufferSize).trim());
-        if (isNaN(bufferSize)) {
-            bufferSize = me.getReadBufferSize();
-        }
-        maxSize = parseInt(ssocket_helpers.toStringSafe(maxSize).trim());
-        return new Promise((resolve, reject) => {
-            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
-            try {
-                let remainingBytes = maxSize;
-                let bytesCount = 0;
-                let nextChunk;
-                let sendChunk = (chunk) => {
-                    try {
-                        if (!chunk) {
-                            chunk = Buffer.alloc(0);
-                        }
-                        // chunk size
-                        let chunkLength = Buffer.alloc(4);
-                        chunkLength.writeUInt32LE(chunk.length, 0);
-                        let hash;
-                        if (chunk.length > 0) {
-                            hash = Crypto.createHash('sha256')
-                                .update(chunk).digest();
-                        }
-                        else {
-                            hash = Buffer.alloc(0); // we have no data to hash
-                        }
-                        // send to remote
-                        me.write(Buffer.concat([chunkLength, hash, chunk])).then(() => {
-                            me.emit('stream.write', fdSrc, remainingBytes, chunk, hash);
-                            if (chunk.length > 0) {
-                                // wait for answer
-                                me.readString().then((errMsg) => {
-                                    if (ssocket_helpers.isEmptyString(errMsg)) {
-                                        nextChunk();
-                                    }
-                                    else {
-                                        // error on remote side => abort
-                                        completed(new Error('Remote error: ' + ssocket_helpers.toStringSafe(errMsg)));
-                                    }
-                                }, (err) => {
-                                    completed(err);
-                                });
-                            }
-                            else {
-                                completed(null, bytesCount); // we have finished
-                            }
-                        }, (err) => {
-                            completed(err);
-                        });
-                    }
-                    catch (e) {
-                        completed(e);
-                    }
-                };
-                nextChunk = () => {
-                    try {
-                        let buffer = Buffer.alloc(bufferSize);
-                        let bytesToRead;
-                        if (isNaN(remainingBytes)) {
-                            bytesToRead = buffer.length;
-                        }
-                        else {
-                            if (remainingBytes < 1) {
-                                remainingBytes = 0;
-                            }
-                            bytesToRead = remainingBytes;
-                            bytesToRead = Math.min(bytesToRead, buffer.length);
-                        }
-                        if (bytesToRead > 0) {
-                            // read chunk
-                            FS.read(fdSrc, buffer, 0, bytesToRead, null, (err, bytesRead) => {
-                                try {
-                                    let chunkToSend;
-                                    if (bytesRead > 0) {
-                                        chunkToSend = Buffer.alloc(bytesRead);
-                                        buffer.copy(chunkToSend, 0, 0, bytesRead);
-                                    }
-                                    else {
-                                        chunkToSend = Buffer.alloc(0);
-                                    }
-                                    bytesCount += chunkToSend.length;
-                                    remainingBytes -= chunkToSend.length;
-                                    sendChunk(chunkToSend);
-                                }
-                                catch (e) {
-                                    completed(e);
-                                }
-                            });
-                        }
-                        else {
-                            sendChunk(); // nothing more to send
-                        }
-                    }
-                    catch (e) {
-                        completed(e);
-                    }
-                };
-                nextChunk(); // start sending chunks
-            }
-            catch (e) {
-                completed(e);
-            }
-        });
-    }
 }
-exports.SimpleSocket = SimpleSocket;
+exports.Channel = Channel;
 /**
  * Connects to a remote (server).
  *
  * @param {number} port The TCP port of the remote machine.
  * @param {string} host The host (address).
+ * @param {ConnectOptions} [opts] Additional options.
  *
  * @return {Promise<SimpleSocket>} The promise.
  */
-function connect(port, host) {
+function connect(port, host, opts) {
+    if (!opts) {
+        opts = {};
+    }
     return new Promise((resolve, reject) => {
         let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
         try {
             let client = new Net.Socket();
+            let onError = (err) => {
+                completed(err); // could not connect
+            };
+            client.once('error', onError);
             client.connect(port, host, (err) => {
                 try {
+                    client.removeListener('error', onError);
                     if (err) {
                         completed(err);
+                        return;
+                    }
+                    let socket = createClient(client);
+                    let fingerprints = [];
+                    if (!ssocket_helpers.isNullOrUndefined(opts.fingerprint)) {
+                        fingerprints = fingerprints.concat(opts.fingerprint);
+                    }
+                    socket.credentials = opts.credentials;
+                    socket.psk = opts.psk;
+                    if (!ssocket_helpers.isNullOrUndefined(opts.compressionContext)) {
+                        socket.compressionContext = opts.compressionContext;
+                    }
+                    if (!ssocket_helpers.isNullOrUndefined(opts.compressionDictionary)) {
+                        socket.compressionDictionary = opts.compressionDictionary;
+                    }
+                    socket.serverTrust = {
+                        fingerprints: fingerprints,
+                        knownHostsFile: opts.knownHostsFile,
+                        knownHostsName: (ssocket_helpers.toStringSafe(host).trim() || 'localhost') + ':' + port,
+                        trustedKeys: opts.trustedKeys,
+                    };
+                    if (requiresServerIdentity(socket.serverTrust) ||
+                        !ssocket_helpers.isNullOrUndefined(socket.psk) || socket.credentials) {
+                        // verify server and authenticate now
+                        socket.makeHandshakeIfNeeded().then(() => {
+                            completed(null, socket);
+                        }, (err) => {
+                            completed(err);
+                        });
                     }
                     else {
-                        completed(null, createClient(client));
+                        completed(null, socket);
                     }
                 }
                 catch (e) {
@@ -1231,6 +4728,22 @@ function createClient(socket) {
     return new SimpleSocket(SocketType.Client, socket);
 }
 exports.createClient = createClient;
+/**
+ * Creates a new client, which connects to a server again,
+ * if the connection has been lost.
+ *
+ * @param {number} port The TCP port of the remote machine.
+ * @param {string} [host] The host (address).
+ * @param {ssocket_reconnect.ReconnectOptions} [opts] Additional options.
+ *
+ * @return {ssocket_reconnect.ReconnectingClient} The new client.
+ */
+function createReconnectingClient(port, host, opts) {
+    return new ssocket_reconnect.ReconnectingClient(() => {
+        return connect(port, host, opts);
+    }, opts);
+}
+exports.createReconnectingClient = createReconnectingClient;
 /**
  * Creates a new SERVER instance.
  *
@@ -1247,19 +4760,56 @@ exports.createServer = createServer;
  *
  * @param {number} port The TCP port to listen on.
  * @param {ListenCallback} cb The listener callback.
+ * @param {ListenOptions} [opts] Additional options.
  *
  * @return {Promise<Net.Server>} The promise.
  */
-function listen(port, cb) {
+function listen(port, cb, opts) {
+    if (!opts) {
+        opts = {};
+    }
+    // all clients share the same budget
+    let rateLimit = opts.rateLimit;
+    if (!ssocket_helpers.isNullOrUndefined(rateLimit) && 'object' !== typeof rateLimit) {
+        rateLimit = new ssocket_ratelimit.RateLimiter(rateLimit);
+    }
     return new Promise((resolve, reject) => {
         let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
         try {
-            let serverToClient;
             let server = Net.createServer((connectionWithClient) => {
                 try {
-                    if (cb) {
-                        cb(null, createServer(connectionWithClient));
+                    let serverToClient = createServer(connectionWithClient);
+                    serverToClient.authenticator = opts.authenticator;
+                    serverToClient.identityKey = opts.identityKey;
+                    serverToClient.psk = opts.psk;
+                    if (!ssocket_helpers.isNullOrUndefined(opts.compressionContext)) {
+                        serverToClient.compressionContext = opts.compressionContext;
+                    }
+                    if (!ssocket_helpers.isNullOrUndefined(opts.compressionDictionary)) {
+                        serverToClient.compressionDictionary = opts.compressionDictionary;
+                    }
+                    if (!ssocket_helpers.isNullOrUndefined(rateLimit)) {
+                        serverToClient.rateLimit = rateLimit;
+                    }
+                    if (ssocket_helpers.isNullOrUndefined(serverToClient.psk) && !serverToClient.authenticator) {
+                        if (cb) {
+                            cb(null, serverToClient);
+                        }
+                        return;
                     }
+                    // authenticate client first
+                    serverToClient.makeHandshakeIfNeeded().then(() => {
+                        if (cb) {
+                            cb(null, serverToClient);
+                        }
+                    }, (err) => {
+                        if (err instanceof ssocket_errors.AuthenticationError) {
+                            server.emit('auth.error', err, serverToClient);
+                        }
+                        else if (cb) {
+                            cb(err);
+                        }
+                    });
                 }
                 catch (e) {
                     if (cb) {
@@ -1315,6 +4865,358 @@ function asDataTransformerPromise(transformer, direction, data) {
         }
     });
 }
+function chooseOption(preferredOptions, remoteOptions) {
+    if (!remoteOptions) {
+        remoteOptions = [];
+    }
+    for (let i = 0; i < preferredOptions.length; i++) {
+        if (remoteOptions.indexOf(preferredOptions[i]) > -1) {
+            return preferredOptions[i];
+        }
+    }
+}
+function createAEADCipher(algorithm, secret, header, decipher) {
+    let keySize = 32;
+    let match = /^aes-(128|192|256)-/.exec(algorithm);
+    if (match) {
+        keySize = parseInt(match[1]) / 8;
+    }
+    // derive a key with the required size
+    let key = ssocket_helpers.hkdf(secret, null, 'node-simple-socket/' + algorithm, keySize);
+    // header is unique for each package of a direction
+    let iv = Buffer.alloc(AEAD_IV_SIZE);
+    header.copy(iv, AEAD_IV_SIZE - header.length);
+    let options = {
+        authTagLength: AEAD_TAG_SIZE,
+    };
+    if (decipher) {
+        return ssocket_compat.crypto.createDecipheriv(algorithm, key, iv, options);
+    }
+    return ssocket_compat.crypto.createCipheriv(algorithm, key, iv, options);
+}
+function createKeyAgreement(keyExchange) {
+    if (DEFAULT_KEY_EXCHANGE_X25519 === keyExchange) {
+        let crypto = ssocket_compat.crypto;
+        let keyPair = crypto.generateKeyPairSync('x25519');
+        return {
+            computeSecret: (remotePublicKey) => {
+                let publicKey = crypto.createPublicKey({
+                    key: remotePublicKey,
+                    format: 'der',
+                    type: 'spki',
+                });
+                if ('x25519' !== publicKey.asymmetricKeyType) {
+                    throw new Error('Remote public key is no X25519 key!');
+                }
+                return crypto.diffieHellman({
+                    privateKey: keyPair.privateKey,
+                    publicKey: publicKey,
+                });
+            },
+            publicKey: keyPair.publicKey.export({
+                format: 'der',
+                type: 'spki',
+            }),
+        };
+    }
+    if (DEFAULT_KEY_EXCHANGE_ECDH === keyExchange) {
+        let ecdh = Crypto.createECDH('prime256v1');
+        return {
+            computeSecret: (remotePublicKey) => {
+                return ecdh.computeSecret(remotePublicKey);
+            },
+            publicKey: ecdh.generateKeys(),
+        };
+    }
+    throw new Error('Key exchange ' + keyExchange + ' is not supported!');
+}
+function createPSKProof(psk, transcriptHash) {
+    return Crypto.createHmac('sha256', psk)
+        .update('node-simple-socket/psk')
+        .update(transcriptHash)
+        .digest();
+}
+function createStreamLock(exclusive) {
+    let lock;
+    return {
+        release: () => {
+            if (lock) {
+                let heldLock = lock;
+                lock = null;
+                heldLock.then((unlock) => {
+                    unlock();
+                });
+            }
+        },
+        run: (action) => {
+            if (!lock) {
+                // hold the queues from the first chunk
+                // until 'release()' is called
+                lock = new Promise((resolve) => {
+                    exclusive(() => {
+                        return new Promise((unlock) => {
+                            resolve(() => unlock(null));
+                        });
+                    });
+                });
+            }
+            return lock.then(() => action());
+        },
+    };
+}
+function deriveDirectionSecret(pwd, direction) {
+    return ssocket_helpers.hkdf(pwd, null, 'node-simple-socket/' + (direction == SocketType.Server ? 'server' : 'client'), SESSION_SECRET_SIZE);
+}
+function getTransferSize(fd, maxSize) {
+    return new Promise((resolve) => {
+        FS.fstat(fd, (err, stats) => {
+            let size = null;
+            if (!err && stats.isFile()) {
+                size = stats.size;
+            }
+            if (!isNaN(maxSize)) {
+                size = null === size ? maxSize : Math.min(size, maxSize);
+            }
+            resolve(size);
+        });
+    });
+}
+function getTranscriptHash(transcript) {
+    return Crypto.createHash('sha256')
+        .update(Buffer.concat(transcript))
+        .digest();
+}
+function hashFile(fd, length, bufferSize) {
+    return new Promise((resolve, reject) => {
+        let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+        try {
+            let hasher = Crypto.createHash('sha256');
+            let buffer = Buffer.alloc(bufferSize);
+            let position = 0;
+            let nextBlock = () => {
+                let bytesToRead = Math.min(length - position, buffer.length);
+                if (bytesToRead < 1) {
+                    completed(null, hasher.digest());
+                    return;
+                }
+                FS.read(fd, buffer, 0, bytesToRead, position, (err, bytesRead) => {
+                    if (err) {
+                        completed(err);
+                    }
+                    else if (bytesRead < 1) {
+                        completed(null, null); // file is smaller
+                    }
+                    else {
+                        hasher.update(buffer.slice(0, bytesRead));
+                        position += bytesRead;
+                        nextBlock();
+                    }
+                });
+            };
+            nextBlock();
+        }
+        catch (e) {
+            completed(e);
+        }
+    });
+}
+function invokeFS(func, ...args) {
+    return new Promise((resolve, reject) => {
+        func.apply(FS, args.concat([(err, result) => {
+                if (err) {
+                    reject(err);
+                }
+                else {
+                    resolve(result);
+                }
+            }]));
+    });
+}
+function isAEADAlgorithm(algorithm) {
+    return AEAD_ALGORITHMS.indexOf(algorithm) > -1;
+}
+function isCompressionContextSupported(codecName, dictionary) {
+    let codec = ssocket_codecs.getCodec(codecName);
+    return codec &&
+        'function' === typeof codec.createCompressContext &&
+        'function' === typeof codec.createDecompressContext &&
+        (!dictionary || true === codec.supportsDictionary); // a codec would ignore it
+}
+function isSocketWritable(socket) {
+    return !socket.destroyed &&
+        false !== socket.writable;
+}
+function isX25519Supported() {
+    let crypto = ssocket_compat.crypto;
+    return 'function' === typeof crypto.generateKeyPairSync &&
+        'function' === typeof crypto.diffieHellman;
+}
+function mixPSK(pwd, psk) {
+    if (!psk) {
+        return pwd;
+    }
+    return ssocket_helpers.hkdf(pwd, psk, 'node-simple-socket/psk', SESSION_SECRET_SIZE);
+}
+function readHello(socket, transcript, withMagic = true) {
+    let readMagic;
+    if (withMagic) {
+        readMagic = ssocket_helpers.readSocket(socket, HELLO_MAGIC.length).then((magic) => {
+            if (!magic.equals(HELLO_MAGIC)) {
+                throw new Error('Remote does not support protocol version ' + exports.PROTOCOL_VERSION);
+            }
+        }, (err) => {
+            // older versions close the connection,
+            // because they read the 'hello' as the size of a RSA key
+            throw new Error('Remote has closed the connection without answering the hello! ' +
+                'It may use an older version, which does not support protocol version ' + exports.PROTOCOL_VERSION + '.');
+        });
+    }
+    else {
+        readMagic = Promise.resolve();
+    }
+    return readMagic.then(() => {
+        return ssocket_helpers.readSocket(socket, 4);
+    }).then((buff) => {
+        let helloLength = buff.readUInt32LE(0);
+        if (helloLength < 1 || helloLength > MAX_HELLO_SIZE) {
+            throw new Error('Invalid hello size: ' + helloLength);
+        }
+        return ssocket_helpers.readSocket(socket, helloLength);
+    }).then((buff) => {
+        transcript.push(buff);
+        let hello = JSON.parse(buff.toString(exports.DEFAULT_ENCODING));
+        if (!hello || 'object' !== typeof hello) {
+            throw new Error('Invalid hello!');
+        }
+        return hello;
+    });
+}
+function removeLink(path, removeFile) {
+    return new Promise((resolve, reject) => {
+        FS.lstat(path, (err, stats) => {
+            if (err) {
+                if ('ENOENT' === err.code) {
+                    resolve(); // does not exist
+                }
+                else {
+                    reject(err);
+                }
+                return;
+            }
+            if (stats.isSymbolicLink() || (removeFile && !stats.isDirectory())) {
+                // do not write through a link
+                FS.unlink(path, (err) => {
+                    if (err) {
+                        reject(err);
+                    }
+                    else {
+                        resolve();
+                    }
+                });
+            }
+            else {
+                resolve();
+            }
+        });
+    });
+}
+function renewSecret(secret) {
+    return ssocket_helpers.hkdf(secret, null, 'node-simple-socket/rekey', SESSION_SECRET_SIZE);
+}
+function requiresServerIdentity(trust) {
+    if (!trust) {
+        return false;
+    }
+    return (trust.fingerprints && trust.fingerprints.length > 0) ||
+        (trust.trustedKeys && trust.trustedKeys.length > 0) ||
+        !ssocket_helpers.isEmptyString(trust.knownHostsFile);
+}
+function runOperation(description, opts, defaultTimeout, action) {
+    if (!opts) {
+        opts = {};
+    }
+    return new Promise((resolve, reject) => {
+        let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+        let cancelListeners = [];
+        let isCompleted = false;
+        let onAbort;
+        let signal = opts.signal;
+        let timer;
+        let ctx = {
+            isCancelled: false,
+            onCancel: (listener) => {
+                cancelListeners.push(listener);
+            },
+        };
+        let operationCompleted = (err, result) => {
+            if (isCompleted) {
+                return;
+            }
+            isCompleted = true;
+            if (timer) {
+                clearTimeout(timer);
+            }
+            if (signal && onAbort) {
+                signal.removeEventListener('abort', onAbort);
+            }
+            completed(err, result);
+        };
+        let cancel = (err) => {
+            if (isCompleted) {
+                return;
+            }
+            ctx.isCancelled = true;
+            operationCompleted(err);
+            cancelListeners.forEach((l) => {
+                try {
+                    l(err);
+                }
+                catch (e) { }
+            });
+        };
+        try {
+            if (signal && signal.aborted) {
+                completed(new ssocket_errors.AbortError(`${description} has been aborted!`));
+                return;
+            }
+            let timeout = parseInt(ssocket_helpers.toStringSafe(opts.timeout).trim());
+            if (isNaN(timeout)) {
+                timeout = defaultTimeout;
+            }
+            if (timeout > 0) {
+                timer = setTimeout(() => {
+                    cancel(new ssocket_errors.TimeoutError(`${description} timed out after ${timeout} ms!`, timeout));
+                }, timeout);
+            }
+            if (signal) {
+                onAbort = () => {
+                    cancel(new ssocket_errors.AbortError(`${description} has been aborted!`));
+                };
+                signal.addEventListener('abort', onAbort);
+            }
+            action(ctx).then((result) => {
+                operationCompleted(null, result);
+            }, (err) => {
+                operationCompleted(err);
+            });
+        }
+        catch (e) {
+            operationCompleted(e);
+        }
+    });
+}
+function setFileAttributes(path, entry) {
+    return invokeFS(FS.lstat, path).then((stats) => {
+        if (stats.isSymbolicLink()) {
+            return; // chmod() and utimes() would change the target of the link
+        }
+        // no setuid, setgid and sticky bits of the remote
+        return invokeFS(FS.chmod, path, entry.mode & 0o777).then(() => {
+            let mtime = entry.mtime / 1000;
+            return invokeFS(FS.utimes, path, mtime, mtime);
+        });
+    });
+}
 function toDataTransformerSave(transformer) {
     if (!transformer) {
         transformer = (ctx) => {
@@ -1323,4 +5225,44 @@ function toDataTransformerSave(transformer) {
     }
     return transformer;
 }
+function toDictionaryHash(dictionary) {
+    if (!dictionary) {
+        return '';
+    }
+    return Crypto.createHash('sha256')
+        .update(dictionary).digest('hex');
+}
+function toFileMetadata(obj) {
+    if (!obj) {
+        throw new Error('Invalid file metadata!');
+    }
+    // use the name only, so the file cannot be written
+    // outside of the target directory
+    let name = ssocket_helpers.toStringSafe(obj.name).split(/[\\/]/).pop();
+    if ('' === name || '.' === name || '..' === name || name.indexOf('\0') > -1) {
+        throw new Error('Invalid file name: ' + obj.name);
+    }
+    let hash = ssocket_helpers.normalizeString(obj.hash);
+    if (!/^[0-9a-f]{64}$/.test(hash)) {
+        throw new Error('Invalid file hash: ' + obj.hash);
+    }
+    let toNumber = (val) => {
+        let n = parseInt(ssocket_helpers.toStringSafe(val).trim());
+        return (isNaN(n) || n < 0) ? 0 : n;
+    };
+    return {
+        hash: hash,
+        mode: toNumber(obj.mode),
+        mtime: toNumber(obj.mtime),
+        name: name,
+        size: toNumber(obj.size),
+    };
+}
+function writeHello(socket, hello, transcript) {
+    let json = new Buffer(JSON.stringify(hello), exports.DEFAULT_ENCODING);
+    transcript.push(json);
+    let helloLength = Buffer.alloc(4);
+    helloLength.writeUInt32LE(json.length, 0);
+    return ssocket_helpers.writeSocket(socket, Buffer.concat([HELLO_MAGIC, helloLength, json]));
+}
 //# sourceMappingURL=index.js.map
\ No newline at end of file
@@ -28,20 +28,117 @@ import * as Events from 'events';
 import * as FS from 'fs';
 import * as Net from 'net';
 import * as Path from 'path';
+import * as ssocket_channels from './channels';
+import * as ssocket_codecs from './codecs';
+import * as ssocket_compat from './compat';
+import * as ssocket_directories from './directories';
 const RSA = require('node-rsa');
+import * as ssocket_errors from './errors';
 import * as ssocket_helpers from './helpers';
-import * as ZLib from 'zlib';
-
-
+import * as ssocket_identity from './identity';
+import * as ssocket_progress from './progress';
+import * as ssocket_queue from './queue';
+import * as ssocket_ratelimit from './ratelimit';
+import * as ssocket_reconnect from './reconnect';
+import * as ssocket_rpc from './rpc';
+import * as ssocket_serializer from './serializer';
+import * as ssocket_streams from './streams';
+import * as Stream from 'stream';
+
+
+export { Codec, CompressionStats, getCodec, getCodecNames, registerCodec } from './codecs';
+export { DirectoryEntry, DirectoryEntryType, DirectoryFilter, SymlinkPolicy } from './directories';
+export * from './errors';
+export { AbortSignalLike } from './helpers';
+export { getFingerprint } from './identity';
+export { ProgressListener, TransferProgress } from './progress';
+export { RateLimiter } from './ratelimit';
+export { ReconnectingClient, ReconnectOptions, WritePolicy } from './reconnect';
+export { CallOptions, RPCContext, RPCHandler } from './rpc';
+export { Serializer, TypeCodec, deserialize, registerType, serialize } from './serializer';
+export { SocketReadStream, SocketWriteStream } from './streams';
+
+
+const AEAD_ALGORITHMS = [ 'aes-128-gcm', 'aes-192-gcm', 'aes-256-gcm', 'chacha20-poly1305' ];
+const AEAD_HEADER_SIZE = 9;
+const AEAD_IV_SIZE = 12;
+const AEAD_TAG_SIZE = 16;
+const DEFAULT_ALGORITHM = 'aes-256-gcm';
+const DEFAULT_KEY_EXCHANGE_ECDH = 'ecdh-p256';
+const DEFAULT_KEY_EXCHANGE_X25519 = 'x25519';
 const DEFAULT_MAX_PACKAGE_SIZE = 16777211;
 const DEFAULT_DEFAULT_READ_BUFFER_SIZE = 8192;
 const DEFAULT_RSA_KEY_SIZE = 512;
+const FEATURE_AUTH = 'auth';
+const FEATURE_CODECS = 'codecs';
+const FEATURE_CONTEXT = 'context';
+const FEATURE_HEARTBEAT = 'heartbeat';
+const FEATURE_IDENTITY = 'identity';
+const FEATURE_PSK = 'psk';
+const FEATURE_REKEY = 'rekey';
+const FEATURE_WINDOW = 'window';
+const KEY_EXCHANGE_RSA = 'rsa';
+const HELLO_MAGIC = Buffer.from([ 0x4E, 0x53, 0x53, 0xFF ]);
+const LEGACY_ALGORITHM = 'aes-256-ctr';
+const LEGACY_PROTOCOL_VERSION = 1;
+const MAX_HELLO_SIZE = 65535;
+const MAX_HANDSHAKE_MESSAGE_SIZE = 65535;
+const MAX_IDENTITY_SIZE = 65535;
+const MAX_KEY_AGREEMENT_PUBLIC_KEY_SIZE = 1024;
+const MAX_UNANSWERED_CHUNKS = 16;
+const PACKAGE_TYPE_DATA = 0;
+const PACKAGE_TYPE_REKEY = 1;
+const PACKAGE_TYPE_RPC = 2;
+const PACKAGE_TYPE_CHANNEL = 3;
+const PACKAGE_TYPE_PING = 4;
+const PACKAGE_TYPE_PONG = 5;
+const SESSION_SECRET_SIZE = 48;
 
 
 /**
  * The default (string) encoding.
  */
 export const DEFAULT_ENCODING = 'utf8';
+/**
+ * The version of the protocol, which is supported by that module.
+ */
+export const PROTOCOL_VERSION = 2;
+/**
+ * The default symetric encryption algorithm.
+ */
+export let DefaultAlgorithm = DEFAULT_ALGORITHM;
+/**
+ * The default number of bytes, the remote can send on a channel, before the data is read.
+ */
+export let DefaultChannelWindowSize = 262144;
+/**
+ * The default list of compression codecs, ordered by preference.
+ */
+export let DefaultCodecs: string[];
+/**
+ * The default value that indicates if a compression context should be kept between packages or not.
+ */
+export let DefaultCompressionContext: boolean;
+/**
+ * The default preset dictionary for compression.
+ */
+export let DefaultCompressionDictionary: Buffer | string;
+/**
+ * The default compression level.
+ */
+export let DefaultCompressionLevel: number;
+/**
+ * The default list of content types, which are not compressed.
+ */
+export let DefaultCompressionSkipTypes = [
+    'application/gzip', 'application/vnd.rar', 'application/x-7z-compressed', 'application/x-brotli',
+    'application/x-bzip2', 'application/x-xz', 'application/zip', 'application/zstd',
+    'audio/*', 'image/gif', 'image/jpeg', 'image/png', 'image/webp', 'video/*',
+];
+/**
+ * The default minimum size of data in bytes, which is compressed.
+ */
+export let DefaultCompressionThreshold = 256;
 /**
  * Default value that indicates if compression should be used or not.
  */
@@ -58,10 +155,27 @@ export let DefaultEncoding = 'utf8';
  * Default data transformer.
  */
 export let DefaultDataTransformer: DataTransformer;
+/**
+ * The default time in milliseconds, a handshake can take.
+ */
+export let DefaultHandshakeTimeout = 30000;
 /**
  * Default handshake transformer.
  */
 export let DefaultHandshakeTransformer: DataTransformer;
+/**
+ * The default time in milliseconds between two heartbeats.
+ */
+export let DefaultHeartbeatInterval: number;
+/**
+ * The default number of heartbeats, the remote can leave unanswered,
+ * before the connection is closed.
+ */
+export let DefaultHeartbeatMaxMisses = 3;
+/**
+ * The default key exchange method.
+ */
+export let DefaultKeyExchange: string;
 /**
  * The default size for a maximum data package.
  */
@@ -70,20 +184,78 @@ export let DefaultMaxPackageSize = 16777211;
  * The default password generator.
  */
 export let DefaultPasswordGenerator: PasswordGenerator;
+/**
+ * The default rate limit for sending data.
+ */
+export let DefaultRateLimit: RateLimit;
 /**
  * Default buffer size for reading streams.
  */
 export let DefaultReadBufferSize = 8192;
+/**
+ * The default time in milliseconds, an operation, which reads data, can take.
+ */
+export let DefaultReadTimeout: number;
+/**
+ * The default number of bytes, after that the key for sending data is renewed.
+ */
+export let DefaultRekeyAfterBytes: number;
+/**
+ * The default number of packages, after that the key for sending data is renewed.
+ */
+export let DefaultRekeyAfterMessages: number;
+/**
+ * The default time in milliseconds, after that the key for sending data is renewed.
+ */
+export let DefaultRekeyInterval: number;
+/**
+ * The default number of messages, which are buffered by the receive loop.
+ */
+export let DefaultReceiveHighWaterMark = 16;
 /**
  * The default RSA key size.
  */
 export let DefaultRSAKeySize = 512;
+/**
+ * The default serializer for 'writeValue()' and 'readValue()'.
+ */
+export let DefaultSerializer: ssocket_serializer.Serializer;
+/**
+ * The default number of chunks of a stream, which are sent before waiting for an answer.
+ */
+export let DefaultStreamWindowSize = 8;
+/**
+ * The default time in milliseconds, an operation, which writes data, can take.
+ */
+export let DefaultWriteTimeout: number;
+
+
+/**
+ * Checks the credentials of a client.
+ * 
+ * @param {Credentials} credentials The credentials, the client has sent (if available).
+ * @param {SimpleSocket} socket The socket of the client.
+ * 
+ * @return {AuthenticatorResult} The result.
+ */
+export type Authenticator = (credentials: Credentials, socket: SimpleSocket) => AuthenticatorResult;
 
+/**
+ * The result of an authenticator.
+ * 
+ * (false) or (null) rejects the client, (true) accepts it and an object
+ * accepts it with that object as identity.
+ */
+export type AuthenticatorResult = boolean | Object | PromiseLike<boolean | Object>;
 
 /**
  * A compression result.
  */
 export interface CompressionResult {
+    /**
+     * The codec (if compressed).
+     */
+    codec?: ssocket_codecs.Codec;
     /**
      * The compressed data (if available).
      */
@@ -100,12 +272,82 @@ export interface CompressionResult {
      * Data is compressed or not.
      */
     isCompressed: boolean;
+    /**
+     * Data has been compressed with a new compression context or not.
+     */
+    isContextReset?: boolean;
+    /**
+     * Data has been compressed with the compression context of the connection or not.
+     */
+    isContextUsed?: boolean;
     /**
      * The original (uncompressed) data.
      */
     uncompressed: Buffer;
 }
 
+/**
+ * Options for 'connect()' function.
+ */
+export interface ConnectOptions {
+    /**
+     * Keep a compression context between packages or not.
+     */
+    compressionContext?: boolean;
+    /**
+     * The preset dictionary for compression, which must be the same on the server.
+     */
+    compressionDictionary?: Buffer | string;
+    /**
+     * The credentials for the server.
+     */
+    credentials?: Credentials;
+    /**
+     * One or more trusted fingerprints of the server's identity key,
+     * as 'SHA256:<base64>' or hex string.
+     */
+    fingerprint?: string | string[];
+    /**
+     * The path to a 'known hosts' file, which stores the fingerprints of
+     * servers, the client connected to before (trust on first use).
+     */
+    knownHostsFile?: string;
+    /**
+     * A list of trusted (public) identity keys of servers.
+     */
+    trustedKeys?: any[];
+    /**
+     * The pre-shared key, the server also knows.
+     */
+    psk?: any;
+}
+
+/**
+ * Credentials of a client.
+ */
+export interface Credentials {
+    /**
+     * The password.
+     */
+    password?: string;
+    /**
+     * The token.
+     */
+    token?: string;
+    /**
+     * The type, like 'token' or 'password'.
+     */
+    type?: string;
+    /**
+     * The name of the user.
+     */
+    user?: string;
+    /**
+     * Additional data.
+     */
+    [key: string]: any;
+}
+
 /**
  * A data transformer.
  * 
@@ -148,6 +390,60 @@ export enum DataTransformerDirection {
  */
 export type DataTransformerResult = Buffer | PromiseLike<Buffer>;
 
+/**
+ * Options for a directory transfer.
+ */
+export interface DirectoryTransferOptions extends OperationOptions, ssocket_directories.ScanOptions {
+}
+
+/**
+ * The metadata of a file, which is sent before its content.
+ */
+export interface FileMetadata {
+    /**
+     * The SHA-256 hash of the content as hex string.
+     */
+    hash: string;
+    /**
+     * The mode (permissions).
+     */
+    mode: number;
+    /**
+     * The time of the last modification (UNIX timestamp in milliseconds).
+     */
+    mtime: number;
+    /**
+     * The name of the file.
+     */
+    name: string;
+    /**
+     * The size in bytes.
+     */
+    size: number;
+}
+
+/**
+ * List of handshake states.
+ */
+export enum HandshakeState {
+    /**
+     * No handshake has been made yet.
+     */
+    Idle = 0,
+    /**
+     * Handshake is running.
+     */
+    Handshaking = 1,
+    /**
+     * Handshake has been finished.
+     */
+    Ready = 2,
+    /**
+     * Handshake has failed.
+     */
+    Failed = 3,
+}
+
 /**
  * A listener callback.
  * 
@@ -156,6 +452,123 @@ export type DataTransformerResult = Buffer | PromiseLike<Buffer>;
  */
 export type ListenCallback = (err: any, socket?: SimpleSocket) => void;
 
+/**
+ * Options for 'listen()' function.
+ */
+export interface ListenOptions {
+    /**
+     * Checks the credentials of the clients.
+     */
+    authenticator?: Authenticator;
+    /**
+     * Keep a compression context between packages or not.
+     */
+    compressionContext?: boolean;
+    /**
+     * The preset dictionary for compression, which must be the same on the clients.
+     */
+    compressionDictionary?: Buffer | string;
+    /**
+     * The long-term (private) identity key of the server,
+     * which signs the handshakes, like a PEM string.
+     */
+    identityKey?: any;
+    /**
+     * The pre-shared key, each client must know.
+     */
+    psk?: any;
+    /**
+     * The rate limit for sending data, which is shared by all clients.
+     */
+    rateLimit?: RateLimit;
+}
+
+/**
+ * Iterates over the messages from the remote (s. 'SimpleSocket.messages()').
+ */
+export interface MessageIterator {
+    /**
+     * Returns the next message.
+     * 
+     * @return {Promise<IteratorResult<Buffer>>} The promise with the message.
+     */
+    next(): Promise<IteratorResult<Buffer>>;
+    /**
+     * Stops the iteration.
+     * 
+     * @return {Promise<IteratorResult<Buffer>>} The promise.
+     */
+    return(): Promise<IteratorResult<Buffer>>;
+}
+
+/**
+ * Options that have been negotiated with the remote while a handshake.
+ */
+export interface NegotiatedOptions {
+    /**
+     * The symetric encryption algorithm.
+     */
+    readonly cipher: string;
+    /**
+     * The compression codec.
+     */
+    readonly codec: string;
+    /**
+     * The list of features both sides support.
+     */
+    readonly features: string[];
+    /**
+     * The key exchange method.
+     */
+    readonly keyExchange: string;
+    /**
+     * The maximum size of a package.
+     */
+    readonly maxPackageSize: number;
+    /**
+     * The protocol version.
+     */
+    readonly version: number;
+}
+
+/**
+ * The context of an operation, like 'read()' or 'write()'.
+ */
+export interface OperationContext {
+    /**
+     * Gets if the operation has been cancelled or not.
+     */
+    isCancelled: boolean;
+    /**
+     * Registers a listener that is invoked if the operation is cancelled.
+     * 
+     * @param {Function} listener The listener.
+     */
+    onCancel: (listener: (err: any) => void) => void;
+}
+
+/**
+ * Options for an operation, like 'read()' or 'write()'.
+ */
+export interface OperationOptions {
+    /**
+     * The content type of the data, like 'image/png', which tells if it should be compressed or not.
+     */
+    contentType?: string;
+    /**
+     * The rate limit for sending data, like for 'write()' or 'writeFile()'.
+     */
+    rateLimit?: RateLimit;
+    /**
+     * A signal that cancels the operation.
+     */
+    signal?: ssocket_helpers.AbortSignalLike;
+    /**
+     * The maximum time in milliseconds, the operation can take.
+     */
+    timeout?: number;
+}
+
 /**
  * A password generator.
  * 
@@ -168,6 +581,48 @@ export type PasswordGenerator = () => PasswordGeneratorResult;
  */
 export type PasswordGeneratorResult = Buffer | PromiseLike<Buffer> | string | PromiseLike<string>;
 
+/**
+ * A rate limit, which can be a number of bytes per second
+ * or a limiter, which is shared with other sockets.
+ */
+export type RateLimit = number | ssocket_ratelimit.RateLimiter;
+
+/**
+ * A package that has been received from the remote.
+ */
+export interface ReceivedPackage {
+    /**
+     * The (uncrypted) data.
+     */
+    data: Buffer;
+    /**
+     * The type.
+     */
+    type: number;
+}
+
+/**
+ * Describes which identities of a server a client trusts.
+ */
+export interface ServerTrustOptions {
+    /**
+     * A list of trusted fingerprints.
+     */
+    fingerprints?: string[];
+    /**
+     * The path to a 'known hosts' file.
+     */
+    knownHostsFile?: string;
+    /**
+     * The name of the server inside the 'known hosts' file.
+     */
+    knownHostsName?: string;
+    /**
+     * A list of trusted (public) keys.
+     */
+    trustedKeys?: any[];
+}
+
 /**
  * List of socket types.
  */
@@ -183,126 +638,313 @@ export enum SocketType {
 }
 
 /**
- * A "simple" socket.
+ * Options for a file / stream transfer.
  */
-export class SimpleSocket extends Events.EventEmitter {
+export interface TransferOptions extends OperationOptions {
     /**
-     * Stores the wrapped socket.
+     * Send / receive the metadata of a file, like its name, size and
+     * modification time, before its content (file methods only).
+     * Both sides have to use that option.
      */
-    protected _socket: Net.Socket;
+    metadata?: boolean;
     /**
-     * Stores the type.
+     * A listener for the progress of the transfer.
      */
-    protected _type: SocketType;
-    
+    onProgress?: ssocket_progress.ProgressListener;
     /**
-     * Initializes a new instance of that class.
-     * 
-     * @param {Socket} type The type.
-     * @param {Net.Socket} [socket] The "real" socket.
+     * Continue a transfer, which has been broken before, or not.
+     * Both sides have to use that option.
      */
-    constructor(type: SocketType, socket?: Net.Socket) {
-        super();
-
-        this._type = type;
-        if (isNaN(this._type)) {
-            this._type = parseInt(ssocket_helpers.toStringSafe(type).trim());
-        }
-
-        this._socket = socket;
-        if (!this._socket) {
-            this._socket = new Net.Socket();
-        }
-
-        this.setupEvents();
-    }
-
+    resume?: boolean;
     /**
-     * Gets the symetric encryption algorithm.
+     * The number of chunks, which are sent before waiting for an answer (sender only).
      */
-    public get algorithm(): string {
-        return 'aes-256-ctr';
-    }
+    windowSize?: number;
+}
 
+/**
+ * A "simple" socket.
+ */
+export class SimpleSocket extends Events.EventEmitter {
     /**
-     * Try compress data or not.
+     * Stores the open channels.
      */
-    public compress = Compress;
-
+    protected _channels: { [name: string]: Channel } = {};
     /**
-     * The path of the working directory.
+     * Stores the error, why the connection has been closed by this side.
      */
-    public cwd = DefaultCWD;
-
+    protected _closeError: any;
     /**
-     * A custom function that transformes data
-     * before it is send or after it has been received.
+     * Stores the compression context for sending data.
      */
-    public dataTransformer = DefaultDataTransformer;
-
+    protected _compressContext: ssocket_codecs.CompressionContext;
     /**
-     * Disposes the socket.
+     * Stores the reason, why the connection has been closed by this side, like 'timeout'.
      */
-    public dispose() {
-        let me = this;
+    protected _closeReason: string;
+    /**
+     * Stores the compression context for received data.
+     */
+    protected _decompressContext: ssocket_codecs.CompressionContext;
+    /**
+     * Stores the running handshake.
+     */
+    protected _handshake: Promise<Buffer>;
+    /**
+     * Stores the error, why the handshake has failed.
+     */
+    protected _handshakeError: any;
+    /**
+     * Stores the state of the handshake.
+     */
+    protected _handshakeState = HandshakeState.Idle;
+    /**
+     * Stores the number of heartbeats, the remote has not answered.
+     */
+    protected _heartbeatMisses = 0;
+    /**
+     * Stores the timer, which sends the heartbeats.
+     */
+    protected _heartbeatTimer: NodeJS.Timer;
+    /**
+     * Stores the identity of the authenticated client.
+     */
+    protected _identity: Object;
+    /**
+     * Stores if the connection has been closed or not.
+     */
+    protected _isClosed = false;
+    /**
+     * Stores if a package is currently received or not.
+     */
+    protected _isReceivingPackage = false;
+    /**
+     * Stores the multiplexer for the channels.
+     */
+    protected _multiplexer: ssocket_channels.ChannelMultiplexer;
+    /**
+     * Stores the options that have been negotiated with the remote.
+     */
+    protected _negotiated: NegotiatedOptions;
+    /**
+     * Stores the ID of the last ping.
+     */
+    protected _pingId = 0;
+    /**
+     * Stores the time, the last ping has been sent, or (null) if it has been answered.
+     */
+    protected _pingTime: number;
+    /**
+     * Stores the limiter, which has been created from the 'rateLimit' property.
+     */
+    protected _rateLimiter: ssocket_ratelimit.RateLimiter;
+    /**
+     * Stores the callbacks of the 'read()' calls that wait for data.
+     */
+    protected _readers: ssocket_helpers.SimpleCompletedAction<Buffer>[] = [];
+    /**
+     * Stores the queue for the operations, which read data.
+     */
+    protected _readQueue = new ssocket_queue.OperationQueue();
+    /**
+     * Stores data that has been received, but not read yet.
+     */
+    protected _receivedData: Buffer[] = [];
+    /**
+     * Stores if the receive loop is running or not.
+     */
+    protected _receiveLoop = false;
+    /**
+     * Stores the sequence number of the next package that is expected from the remote.
+     */
+    protected _receiveSequence = 0;
+    /**
+     * Stores the fingerprint of the identity key of the remote.
+     */
+    protected _remoteFingerprint: string;
+    /**
+     * Stores the handler for remote calls.
+     */
+    protected _rpc: ssocket_rpc.RPCEndpoint;
+    /**
+     * Stores the sequence number of the next package that is sent to the remote.
+     */
+    protected _sendSequence = 0;
+    /**
+     * Stores the keys of the current session.
+     */
+    protected _sessionKeys: {
+        lastRekey: number;
+        password: Buffer;
+        receive: Buffer;
+        receiveGeneration: number;
+        send: Buffer;
+        sendGeneration: number;
+        sentBytes: number;
+        sentMessages: number;
+    };
+    /**
+     * Stores the wrapped socket.
+     */
+    protected _socket: Net.Socket;
+    /**
+     * Stores the data, which has been exchanged while the current handshake.
+     */
+    protected _transcript: Buffer[];
+    /**
+     * Stores the type.
+     */
+    protected _type: SocketType;
+    /**
+     * Stores the queue for the operations, which write data.
+     */
+    protected _writeQueue = new ssocket_queue.OperationQueue();
+    
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {Socket} type The type.
+     * @param {Net.Socket} [socket] The "real" socket.
+     */
+    constructor(type: SocketType, socket?: Net.Socket) {
+        super();
 
-        me.removeAllListeners();
-        
-        me.end().then(() => {
-            me.emit('disposed');
-        }, (err) => {
-            me.emit('error', err);
-        });
+        this._type = type;
+        if (isNaN(this._type)) {
+            this._type = parseInt(ssocket_helpers.toStringSafe(type).trim());
+        }
+
+        this._socket = socket;
+        if (!this._socket) {
+            this._socket = new Net.Socket();
+        }
+
+        this.setupEvents();
     }
 
     /**
-     * Gets or sets the (string) encoding to use.
+     * The symetric encryption algorithm.
      */
-    public encoding = DefaultEncoding;
+    public algorithm = DefaultAlgorithm;
 
     /**
-     * Sends the connection.
+     * Waits for the resume offer of the remote and answers it (SENDER side).
      * 
-     * @param {any} [data] The optional data to send.
-     * @param {string} [encoding] The encoding to use.
+     * The offer is only accepted if the first bytes of the source
+     * have the same hash as the data the remote already holds.
      * 
-     * @return {Promise<any>} The promise.
+     * @param {number} fdSrc The stream pointer of the source.
+     * @param {number} maxSize The maximum number of bytes to send.
+     * @param {number} bufferSize The buffer size for the read operation(s).
+     * 
+     * @return {Promise<number>} The promise with the offset to continue from.
      */
-    public end(data?: any, encoding?: string): Promise<any> {
+    protected answerResume(fdSrc: number, maxSize: number, bufferSize: number): Promise<number> {
         let me = this;
 
-        let buff: Buffer;
-        if (arguments.length > 0) {
-            buff = ssocket_helpers.asBuffer(data, me.getEncoding());
-        }
-        
-        return new Promise<any>((resolve, reject) => {
-            let completed = (err: any) => {
+        return new Promise<number>((resolve, reject) => {
+            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            let sendAnswer = (offset: number) => {
+                me.writePackage(PACKAGE_TYPE_DATA, JSON.stringify({
+                    offset: offset,
+                })).then(() => {
+                    completed(null, offset);
+                }, (err) => {
+                    completed(err);
+                });
+            };
+
+            try {
+                me.readData().then((data) => {
+                    try {
+                        let offer = JSON.parse(data.toString(DEFAULT_ENCODING));
+
+                        let offset = parseInt(ssocket_helpers.toStringSafe(offer.offset).trim());
+                        if (isNaN(offset) || offset < 1 || offset > maxSize) {
+                            sendAnswer(0);  // start from the beginning
+                            return;
+                        }
+
+                        hashFile(fdSrc, offset, bufferSize).then((hash) => {
+                            if (hash && hash.toString('hex') === ssocket_helpers.normalizeString(offer.hash)) {
+                                sendAnswer(offset);
+                            }
+                            else {
+                                sendAnswer(0);  // data of remote is different
+                            }
+                        }, (err) => {
+                            completed(err);
+                        });
+                    }
+                    catch (e) {
+                        completed(e);
+                    }
+                }, (err) => {
+                    completed(err);
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+
+    /**
+     * Sends the credentials to the server and waits for the result (CLIENT side).
+     * 
+     * @param {Buffer} pwd The current password.
+     * 
+     * @return {Promise<Buffer>} The promise with the final password.
+     */
+    protected authenticate(pwd: Buffer): Promise<Buffer> {
+        let me = this;
+
+        return new Promise<Buffer>((resolve, reject) => {
+            let completed = (err: any, finalPwd?: Buffer) => {
                 if (err) {
+                    me.socket.end();
+
                     reject(err);
                 }
                 else {
-                    me.emit('close');
-
-                    resolve();
+                    resolve(finalPwd);
                 }
             };
 
             try {
-                if (!buff || buff.length < 1) {
-                    me.socket.end();
-                    completed(null);
+                let features = me.negotiated.features;
 
+                let psk = ssocket_helpers.asBuffer(me.psk);
+                if (psk && features.indexOf(FEATURE_PSK) < 0) {
+                    completed(new ssocket_errors.AuthenticationError('Server does not know the pre-shared key!'));
                     return;
                 }
 
-                return this.socket.end(buff, (err) => {
-                    if (err) {
-                        completed(err);
-                    }
-                    else {
-                        completed(null);
+                if (features.indexOf(FEATURE_AUTH) < 0) {
+                    completed(null, pwd);  // no authentication required
+                    return;
+                }
+
+                let transcriptHash = getTranscriptHash(me._transcript);
+
+                let request: AuthenticationRequest = {
+                    credentials: me.credentials,
+                };
+                if (psk) {
+                    request.psk = createPSKProof(psk, transcriptHash).toString('base64');
+                }
+
+                me.writeHandshakeMessage(pwd, request).then(() => {
+                    return me.readHandshakeMessage(pwd);
+                }).then((response: AuthenticationResponse) => {
+                    if (!response || !response.ok) {
+                        throw new ssocket_errors.AuthenticationError('Server rejected authentication: ' + ssocket_helpers.toStringSafe(response ? response.error : null));
                     }
+
+                    completed(null, mixPSK(pwd, psk));
+                }).then(null, (err) => {
+                    completed(err);
                 });
             }
             catch (e) {
@@ -312,63 +954,103 @@ export class SimpleSocket extends Events.EventEmitter {
     }
 
     /**
-     * Generates a password based on the 'passwordGenerator' property.
+     * Receives the credentials of a client and checks them (SERVER side).
      * 
-     * @param {Promise<Buffer>} The promise.
+     * @param {Buffer} pwd The current password.
+     * 
+     * @return {Promise<Buffer>} The promise with the final password.
      */
-    protected generatePassword(): Promise<Buffer> {
+    protected authenticateClient(pwd: Buffer): Promise<Buffer> {
         let me = this;
-        
+
         return new Promise<Buffer>((resolve, reject) => {
             let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
 
+            let rejectClient = (reason: string) => {
+                me.writeHandshakeMessage(pwd, { error: reason }).then(() => {
+                    me.socket.end();
+
+                    completed(new ssocket_errors.AuthenticationError(reason));
+                }, (err) => {
+                    completed(err);
+                });
+            };
+
             try {
-                let pwdGen = me.passwordGenerator;
-                if (!pwdGen) {
-                    pwdGen = () => {
-                        return new Promise<Buffer>((resolve, reject) => {
-                            Crypto.randomBytes(48, (err, randBuff) => {
-                                if (err) {
-                                    reject(err);
-                                }
-                                else {
-                                    resolve(randBuff);
-                                }
-                            });
-                        });
-                    };
+                let psk = ssocket_helpers.asBuffer(me.psk);
+                if (!psk && !me.authenticator) {
+                    completed(null, pwd);  // no authentication required
+                    return;
                 }
 
-                let returnPassword = (pwd: Buffer) => {
-                    if (!pwd) {
-                        pwd = Buffer.alloc(0);
+                let transcriptHash = getTranscriptHash(me._transcript);
+
+                me.readHandshakeMessage(pwd).then((request: AuthenticationRequest) => {
+                    if (!request) {
+                        request = {};
                     }
 
-                    completed(null, pwd);
-                };
+                    if (psk) {
+                        let expectedProof = createPSKProof(psk, transcriptHash);
+                        let proof = new Buffer(ssocket_helpers.toStringSafe(request.psk), 'base64');
 
-                let pwdResult = pwdGen();
-                if ('object' === typeof pwdResult) {
-                    if ('function' === typeof pwdResult['then']) {
-                        // promise
+                        if (proof.length !== expectedProof.length || !Crypto.timingSafeEqual(proof, expectedProof)) {
+                            rejectClient('Invalid pre-shared key');
+                            return;
+                        }
+                    }
 
-                        let promise = <PromiseLike<any>>pwdResult;
+                    let credentials = request.credentials;
+                    if (!credentials || 'object' !== typeof credentials) {
+                        credentials = null;
+                    }
 
-                        promise.then((pwd) => {
-                            returnPassword(ssocket_helpers.asBuffer(pwd));
+                    let acceptClient = (identity: Object) => {
+                        me._identity = identity;
+
+                        me.writeHandshakeMessage(pwd, { ok: true }).then(() => {
+                            completed(null, mixPSK(pwd, psk));
+                        }, (err) => {
+                            completed(err);
+                        });
+                    };
+
+                    if (!me.authenticator) {
+                        acceptClient({
+                            type: FEATURE_PSK,
+                        });
+                        return;
+                    }
+
+                    let handleResult = (result: any) => {
+                        if (!result) {
+                            rejectClient('Invalid credentials');
+                        }
+                        else if (true === result) {
+                            acceptClient({
+                                type: credentials ? credentials.type : undefined,
+                                user: credentials ? credentials.user : undefined,
+                            });
+                        }
+                        else {
+                            acceptClient(result);
+                        }
+                    };
+
+                    let authResult = me.authenticator(credentials, me);
+                    if (authResult && 'function' === typeof authResult['then']) {
+                        (<PromiseLike<any>>authResult).then((result) => {
+                            handleResult(result);
                         }, (err) => {
                             completed(err);
                         });
                     }
                     else {
-                        // Buffer
-                        returnPassword(ssocket_helpers.asBuffer(pwdResult));
+                        handleResult(authResult);
                     }
-                }
-                else {
-                    // string
-                    returnPassword(ssocket_helpers.asBuffer(pwdResult));
-                }
+                }).then(null, (err) => {
+                    completed(err);
+                });
             }
             catch (e) {
                 completed(e);
@@ -377,170 +1059,4113 @@ export class SimpleSocket extends Events.EventEmitter {
     }
 
     /**
-     * Returns the working directory.
+     * Checks the credentials of clients (SERVER side).
+     */
+    public authenticator: Authenticator;
+
+    /**
+     * Calls a method of the remote, which has been registered there via 'registerMethod()'.
      * 
-     * @return {string} The working directory.
+     * @param {string} method The name of the method.
+     * @param {any} [params] The parameters for the method.
+     * @param {CallOptions} [opts] Additional options.
+     * 
+     * @return {Promise<TResult>} The promise with the result.
      */
-    protected getCwd(): string {
-        let result = ssocket_helpers.toStringSafe(this.cwd);
-        if (ssocket_helpers.isEmptyString(result)) {
-            result = process.cwd();
-        }
-        else if (!Path.isAbsolute(result)) {
-            result = Path.join(process.cwd(), result);
-        }
+    public call<TResult>(method: string, params?: any, opts?: ssocket_rpc.CallOptions): Promise<TResult> {
+        let result = this.getRPC().call(method, params, opts);
+
+        // wait for response
+        this.receive();
 
         return result;
     }
 
     /**
-     * Returns the (string) encoding that should be used by that socket.
+     * Is invoked if a running transfer of a file or stream has been cancelled.
      * 
-     * @return {string} The encoding.
+     * The remote still waits for answers, so the connection is closed.
      */
-    protected getEncoding(): string {
-        return ssocket_helpers.normalizeString(this.encoding) ||
-               ssocket_helpers.normalizeString(DefaultEncoding) ||
-               DEFAULT_ENCODING;
+    protected cancelTransfer() {
+        this.socket.destroy();
     }
 
     /**
-     * Gets the maximum size for a package.
+     * The number of bytes, the remote can send on a channel, before the data is read.
+     */
+    public channelWindowSize = DefaultChannelWindowSize;
+
+    /**
+     * Checks if the fingerprint of a server is trusted (CLIENT side).
      * 
-     * @return {number} The maximum package size.
+     * @param {string} fingerprint The fingerprint of the server.
+     * 
+     * @return {Promise<any>} The promise.
      */
-    public getMaxPackageSize(): number {
-        let result = parseInt(ssocket_helpers.toStringSafe(this.maxPackageSize).trim());
-        if (isNaN(result)) {
-            result = parseInt(ssocket_helpers.toStringSafe(DefaultMaxPackageSize).trim());
-        }
-        if (isNaN(result)) {
-            result = DEFAULT_MAX_PACKAGE_SIZE;
-        }
+    protected checkServerTrust(fingerprint: string): Promise<any> {
+        let me = this;
 
-        return result;
+        return new Promise<any>((resolve, reject) => {
+            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            try {
+                let trust = me.serverTrust;
+                if (!requiresServerIdentity(trust)) {
+                    completed(null);  // trust all
+                    return;
+                }
+
+                let trustedFingerprints = (trust.fingerprints || []).concat((trust.trustedKeys || []).map((k) => {
+                    return ssocket_identity.getFingerprint(k);
+                }));
+
+                if (trustedFingerprints.length > 0) {
+                    let isTrusted = trustedFingerprints.some((tf) => {
+                        return ssocket_identity.isSameFingerprint(tf, fingerprint);
+                    });
+
+                    if (!isTrusted) {
+                        completed(new ssocket_errors.IdentityError('Identity ' + fingerprint + ' of server is not trusted!',
+                                                                   fingerprint));
+                        return;
+                    }
+                }
+
+                if (ssocket_helpers.isEmptyString(trust.knownHostsFile)) {
+                    completed(null);
+                    return;
+                }
+
+                let knownHostsFile = trust.knownHostsFile;
+                if (!Path.isAbsolute(knownHostsFile)) {
+                    knownHostsFile = Path.join(me.getCwd(), knownHostsFile);
+                }
+
+                ssocket_identity.checkKnownHost(knownHostsFile, trust.knownHostsName, fingerprint).then((isKnown) => {
+                    if (isKnown) {
+                        completed(null);
+                    }
+                    else {
+                        completed(new ssocket_errors.IdentityError('Identity ' + fingerprint + ' of server ' + trust.knownHostsName + ' does not match the entry in ' + knownHostsFile + '!',
+                                                                   fingerprint));
+                    }
+                }, (err) => {
+                    completed(err);
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
     }
 
     /**
-     * Gets the size for a RSA key.
+     * The list of compression codecs, ordered by preference.
+     */
+    public codecs = DefaultCodecs;
+
+    /**
+     * Try compress data or not.
+     */
+    public compress = Compress;
+
+    /**
+     * Keep a compression context between packages or not, if the remote supports it.
+     */
+    public compressionContext = DefaultCompressionContext;
+
+    /**
+     * The preset dictionary for compression, if a compression context is used.
+     */
+    public compressionDictionary = DefaultCompressionDictionary;
+
+    /**
+     * The compression level, like '9' for 'gzip'.
+     */
+    public compressionLevel = DefaultCompressionLevel;
+
+    /**
+     * The list of content types, like 'image/png' or 'video/*', which are not compressed.
+     */
+    public compressionSkipTypes = DefaultCompressionSkipTypes;
+
+    /**
+     * The minimum size of data in bytes, which is compressed.
+     */
+    public compressionThreshold = DefaultCompressionThreshold;
+
+    /**
+     * Creates a tracker for the progress of a transfer, which
+     * emits 'progress' events and invokes the listener of the options.
      * 
-     * @return {number} The RSA key size.
+     * @param {string} direction The direction: 'read' or 'write'.
+     * @param {number} fd The stream pointer of the source / target.
+     * @param {TransferOptions} [opts] The options of the transfer.
+     * 
+     * @return {ssocket_progress.ProgressTracker} The new tracker.
      */
-    protected getRSAKeySize(): number {
-        let result = parseInt(ssocket_helpers.toStringSafe(this.rsaKeySize).trim());
-        if (isNaN(result)) {
-            result = parseInt(ssocket_helpers.toStringSafe(DefaultRSAKeySize).trim());
+    protected createProgressTracker(direction: string, fd: number, opts?: TransferOptions): ssocket_progress.ProgressTracker {
+        let me = this;
+
+        let onProgress = opts ? opts.onProgress : null;
+
+        return new ssocket_progress.ProgressTracker(direction, fd, (progress) => {
+            me.emit('progress', progress);
+
+            if (onProgress) {
+                onProgress(progress);
+            }
+        });
+    }
+
+    /**
+     * Creates a readable stream, which receives the data
+     * that is sent by the remote via 'writeStream()', 'writeFile()' or 'createWriteStream()'.
+     * 
+     * @param {Stream.ReadableOptions} [opts] Options for the stream, like 'highWaterMark'.
+     * 
+     * @return {ssocket_streams.SocketReadStream} The new stream.
+     */
+    public createReadStream(opts?: Stream.ReadableOptions): ssocket_streams.SocketReadStream {
+        let me = this;
+
+        // other operations must not read between the chunks
+        let lock = createStreamLock((action) => me.exclusive(action));
+
+        let stream = new ssocket_streams.SocketReadStream(() => {
+            return lock.run(() => me.readChunk()).then((chunk) => {
+                if (!chunk) {
+                    lock.release();  // no more data
+                }
+
+                return chunk;
+            }, (err) => {
+                lock.release();
+
+                throw err;
+            });
+        }, opts);
+        stream.once('close', () => {
+            lock.release();
+        });
+
+        return stream;
+    }
+
+    /**
+     * Creates a writable stream, which sends its data to the remote,
+     * that can receive it via 'readStream()', 'readFile()' or 'createReadStream()'.
+     * 
+     * @param {Stream.WritableOptions} [opts] Options for the stream, like 'highWaterMark'.
+     * 
+     * @return {ssocket_streams.SocketWriteStream} The new stream.
+     */
+    public createWriteStream(opts?: Stream.WritableOptions): ssocket_streams.SocketWriteStream {
+        let me = this;
+
+        // other operations must not write between the chunks
+        let lock = createStreamLock((action) => me.exclusive(action));
+
+        let stream = new ssocket_streams.SocketWriteStream((chunk) => {
+            return lock.run(() => me.writeChunk(chunk)).then((result) => {
+                if (chunk.length < 1) {
+                    lock.release();  // no more data
+                }
+
+                return result;
+            }, (err) => {
+                lock.release();
+
+                throw err;
+            });
+        }, me.getReadBufferSize(), opts);
+        stream.once('close', () => {
+            lock.release();
+        });
+
+        return stream;
+    }
+
+    /**
+     * The credentials, which are sent to the server (CLIENT side).
+     */
+    public credentials: Credentials;
+
+    /**
+     * The path of the working directory.
+     */
+    public cwd = DefaultCWD;
+
+    /**
+     * A custom function that transformes data
+     * before it is send or after it has been received.
+     */
+    public dataTransformer = DefaultDataTransformer;
+
+    /**
+     * Decrypts data that has been received from the remote.
+     * 
+     * @param {Buffer} cryptedData The crypted data.
+     * @param {Buffer} pwd The password.
+     * 
+     * @return {Buffer} The uncrypted data.
+     */
+    protected decryptData(cryptedData: Buffer, pwd: Buffer): Buffer {
+        let algorithm = this.getAlgorithm();
+
+        if (!isAEADAlgorithm(algorithm)) {
+            // legacy mode
+
+            let decipher = Crypto.createDecipher(algorithm, pwd);
+
+            let a = decipher.update(cryptedData);
+            let b = decipher.final();
+
+            return Buffer.concat([a, b]);
         }
-        if (isNaN(result)) {
-            result = DEFAULT_RSA_KEY_SIZE;
+
+        if (cryptedData.length < (AEAD_HEADER_SIZE + AEAD_TAG_SIZE)) {
+            throw new ssocket_errors.IntegrityError('Package is too small to be authenticated!');
         }
 
-        return result;
+        // direction + sequence number
+        let header = cryptedData.slice(0, AEAD_HEADER_SIZE);
+        let direction: SocketType = header.readUInt8(0);
+        let sequence = header.readUInt32BE(1) * 0x100000000 + header.readUInt32BE(5);
+
+        let authTag = cryptedData.slice(AEAD_HEADER_SIZE, AEAD_HEADER_SIZE + AEAD_TAG_SIZE);
+
+        let keys = this.getSessionKeys(pwd);
+
+        let decipher = createAEADCipher(algorithm,
+                                        direction == this.type ? keys.send : keys.receive,
+                                        header, true);
+        decipher.setAAD(header);
+        decipher.setAuthTag(authTag);
+
+        let a = decipher.update(cryptedData.slice(AEAD_HEADER_SIZE + AEAD_TAG_SIZE));
+
+        let b: Buffer;
+        try {
+            b = decipher.final();
+        }
+        catch (e) {
+            throw new ssocket_errors.IntegrityError('Package could not be authenticated! It has been modified or was crypted with another key.');
+        }
+
+        // package is authentic, now check
+        // if it is the one we expect
+        if (direction == this.type) {
+            throw new ssocket_errors.ReplayError('Package has been reflected!',
+                                                 sequence, this._receiveSequence);
+        }
+        if (sequence < this._receiveSequence) {
+            throw new ssocket_errors.ReplayError('Package has been replayed! Expected sequence number ' + this._receiveSequence + ' but got ' + sequence + '.',
+                                                 sequence, this._receiveSequence);
+        }
+        if (sequence > this._receiveSequence) {
+            throw new ssocket_errors.ReplayError('Package has been reordered or dropped! Expected sequence number ' + this._receiveSequence + ' but got ' + sequence + '.',
+                                                 sequence, this._receiveSequence);
+        }
+
+        ++this._receiveSequence;
+
+        return Buffer.concat([a, b]);
     }
 
     /**
-     * Returns the buffer size for reading streams.
+     * Reads and skips the chunks of a stream until its end.
      * 
-     * @return {number} The buffer size.
+     * @return {Promise<any>} The promise.
      */
-    protected getReadBufferSize(): number {
-        let result = parseInt(ssocket_helpers.toStringSafe(this.readBufferSize).trim());
-        if (isNaN(result)) {
-            result = parseInt(ssocket_helpers.toStringSafe(DefaultReadBufferSize).trim());
+    protected drainChunks(): Promise<any> {
+        let me = this;
+
+        return me.readData().then((chunkBlock) => {
+            if (chunkBlock && chunkBlock.length >= 4 && chunkBlock.readUInt32LE(0) < 1) {
+                return;  // end
+            }
+
+            return me.drainChunks();
+        });
+    }
+
+    /**
+     * Disposes the socket.
+     */
+    public dispose() {
+        let me = this;
+
+        me.removeAllListeners();
+        
+        me.end().then(() => {
+            me.emit('disposed');
+        }, (err) => {
+            me.emit('error', err);
+        });
+    }
+
+    /**
+     * Gets or sets the (string) encoding to use.
+     */
+    public encoding = DefaultEncoding;
+
+    /**
+     * Encrypts data that should be send to the remote.
+     * 
+     * @param {Buffer} uncryptedData The data to encrypt.
+     * @param {Buffer} pwd The password.
+     * 
+     * @return {Buffer} The crypted data.
+     */
+    protected encryptData(uncryptedData: Buffer, pwd: Buffer): Buffer {
+        let algorithm = this.getAlgorithm();
+
+        if (!isAEADAlgorithm(algorithm)) {
+            // legacy mode
+
+            let cipher = Crypto.createCipher(algorithm, pwd);
+
+            let a = cipher.update(uncryptedData);
+            let b = cipher.final();
+
+            return Buffer.concat([a, b]);
         }
-        if (isNaN(result)) {
-            result = DEFAULT_DEFAULT_READ_BUFFER_SIZE;
+
+        // direction + sequence number, which
+        // are used as nonce and are authenticated
+        let sequence = this._sendSequence++;
+
+        let header = Buffer.alloc(AEAD_HEADER_SIZE);
+        header.writeUInt8(this.type, 0);
+        header.writeUInt32BE(Math.floor(sequence / 0x100000000), 1);
+        header.writeUInt32BE(sequence % 0x100000000, 5);
+
+        let keys = this.getSessionKeys(pwd);
+        keys.sentBytes += uncryptedData.length;
+        ++keys.sentMessages;
+
+        let cipher = createAEADCipher(algorithm, keys.send, header, false);
+        cipher.setAAD(header);
+
+        let a = cipher.update(uncryptedData);
+        let b = cipher.final();
+
+        return Buffer.concat([ header, cipher.getAuthTag(), a, b ]);
+    }
+
+    /**
+     * Sends the connection.
+     * 
+     * @param {any} [data] The optional data to send.
+     * @param {string} [encoding] The encoding to use.
+     * 
+     * @return {Promise<any>} The promise.
+     */
+    public end(data?: any, encoding?: string): Promise<any> {
+        let me = this;
+
+        let buff: Buffer;
+        if (arguments.length > 0) {
+            buff = ssocket_helpers.asBuffer(data, me.getEncoding());
         }
+        
+        return new Promise<any>((resolve, reject) => {
+            let completed = (err: any) => {
+                if (err) {
+                    reject(err);
+                }
+                else {
+                    me.emit('close');
+
+                    resolve();
+                }
+            };
+
+            try {
+                if (!buff || buff.length < 1) {
+                    me.socket.end();
+                    completed(null);
+
+                    return;
+                }
+
+                return this.socket.end(buff, (err) => {
+                    if (err) {
+                        completed(err);
+                    }
+                    else {
+                        completed(null);
+                    }
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+
+    /**
+     * Invokes an action, which reads and writes data, so that no
+     * other 'read()' or 'write()' call can run at the same time.
+     * 
+     * @param {Function} action The action to invoke.
+     * 
+     * @return {Promise<TResult>} The promise.
+     */
+    protected exclusive<TResult>(action: () => PromiseLike<TResult>): Promise<TResult> {
+        let me = this;
+
+        // always lock in the same order
+        return me._writeQueue.enqueue(() => {
+            return me._readQueue.enqueue(action);
+        });
+    }
+
+    /**
+     * Generates a password based on the 'passwordGenerator' property.
+     * 
+     * @param {Promise<Buffer>} The promise.
+     */
+    protected generatePassword(): Promise<Buffer> {
+        let me = this;
+        
+        return new Promise<Buffer>((resolve, reject) => {
+            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            try {
+                let pwdGen = me.passwordGenerator;
+                if (!pwdGen) {
+                    pwdGen = () => {
+                        return new Promise<Buffer>((resolve, reject) => {
+                            Crypto.randomBytes(48, (err, randBuff) => {
+                                if (err) {
+                                    reject(err);
+                                }
+                                else {
+                                    resolve(randBuff);
+                                }
+                            });
+                        });
+                    };
+                }
+
+                let returnPassword = (pwd: Buffer) => {
+                    if (!pwd) {
+                        pwd = Buffer.alloc(0);
+                    }
+
+                    completed(null, pwd);
+                };
+
+                let pwdResult = pwdGen();
+                if ('object' === typeof pwdResult) {
+                    if ('function' === typeof pwdResult['then']) {
+                        // promise
+
+                        let promise = <PromiseLike<any>>pwdResult;
+
+                        promise.then((pwd) => {
+                            returnPassword(ssocket_helpers.asBuffer(pwd));
+                        }, (err) => {
+                            completed(err);
+                        });
+                    }
+                    else {
+                        // Buffer
+                        returnPassword(ssocket_helpers.asBuffer(pwdResult));
+                    }
+                }
+                else {
+                    // string
+                    returnPassword(ssocket_helpers.asBuffer(pwdResult));
+                }
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+
+    /**
+     * Returns the symetric encryption algorithm that should be used by that socket.
+     * 
+     * @return {string} The algorithm.
+     */
+    protected getAlgorithm(): string {
+        if (this._negotiated) {
+            return this._negotiated.cipher;
+        }
+
+        return ssocket_helpers.normalizeString(this.algorithm) ||
+               ssocket_helpers.normalizeString(DefaultAlgorithm) ||
+               DEFAULT_ALGORITHM;
+    }
+
+    /**
+     * Returns the compression codecs that are supported by that socket, ordered by preference.
+     * 
+     * @return {string[]} The list of codecs.
+     */
+    protected getCodecs(): string[] {
+        if (false === this.compress) {
+            return [ 'none' ];
+        }
+
+        let registeredCodecs = ssocket_codecs.getCodecNames();
+
+        let codecs = this.codecs || DefaultCodecs;
+        if (codecs) {
+            codecs = codecs.map((c) => ssocket_helpers.normalizeString(c)).filter((c) => {
+                return registeredCodecs.indexOf(c) > -1;
+            });
+        }
+        else {
+            // all registered codecs
+            codecs = registeredCodecs.filter((c) => 'none' !== c);
+            codecs.push('none');
+        }
+
+        return codecs;
+    }
+
+    /**
+     * Returns the compression context for sending data.
+     * 
+     * @param {ssocket_codecs.Codec} codec The codec.
+     * 
+     * @return {ssocket_codecs.CompressionContext} The context.
+     */
+    protected getCompressContext(codec: ssocket_codecs.Codec): ssocket_codecs.CompressionContext {
+        let me = this;
+
+        if (!me._compressContext) {
+            let dictionary = me.getCompressionDictionary();
+            let level = me.getCompressionLevel();
+
+            me._compressContext = new ssocket_codecs.CompressionContext(() => {
+                return codec.createCompressContext(level, dictionary);
+            });
+        }
+
+        return me._compressContext;
+    }
+
+    /**
+     * Returns the preset dictionary for compression.
+     * 
+     * @return {Buffer} The dictionary or (null) if not defined.
+     */
+    protected getCompressionDictionary(): Buffer {
+        let dictionary = this.compressionDictionary;
+        if (ssocket_helpers.isNullOrUndefined(dictionary)) {
+            dictionary = DefaultCompressionDictionary;
+        }
+
+        let result = ssocket_helpers.asBuffer(dictionary, this.getEncoding());
+        if (!result || result.length < 1) {
+            return null;
+        }
+
+        return result;
+    }
+
+    /**
+     * Returns the compression level.
+     * 
+     * @return {number} The level or (undefined) for the default of the codec.
+     */
+    protected getCompressionLevel(): number {
+        let level = parseInt(ssocket_helpers.toStringSafe(this.compressionLevel).trim());
+        if (isNaN(level)) {
+            return undefined;
+        }
+
+        return level;
+    }
+
+    /**
+     * Returns the symetric encryption algorithms that are supported by that socket, ordered by preference.
+     * 
+     * @return {string[]} The list of algorithms.
+     */
+    protected getCiphers(): string[] {
+        let ciphers = [ this.getAlgorithm() ];
+
+        let availableCiphers = Crypto.getCiphers();
+        AEAD_ALGORITHMS.forEach((c) => {
+            if (ciphers.indexOf(c) < 0 && availableCiphers.indexOf(c) > -1) {
+                ciphers.push(c);
+            }
+        });
+
+        return ciphers;
+    }
+
+    /**
+     * Returns the number of bytes, the encryption adds to a package.
+     * 
+     * @return {number} The number of bytes.
+     */
+    protected getCryptOverhead(): number {
+        if (isAEADAlgorithm(this.getAlgorithm())) {
+            return AEAD_HEADER_SIZE + AEAD_TAG_SIZE;
+        }
+
+        return 0;
+    }
+
+    /**
+     * Returns the number of bytes, the remote can send on a channel, before the data is read.
+     * 
+     * @return {number} The number of bytes.
+     */
+    protected getChannelWindowSize(): number {
+        let result = parseInt(ssocket_helpers.toStringSafe(this.channelWindowSize).trim());
+        if (isNaN(result)) {
+            result = DefaultChannelWindowSize;
+        }
+        if (isNaN(result) || result < 1) {
+            result = ssocket_channels.INITIAL_WINDOW_SIZE;
+        }
+
+        return result;
+    }
+
+    /**
+     * Returns the working directory.
+     * 
+     * @return {string} The working directory.
+     */
+    protected getCwd(): string {
+        let result = ssocket_helpers.toStringSafe(this.cwd);
+        if (ssocket_helpers.isEmptyString(result)) {
+            result = process.cwd();
+        }
+        else if (!Path.isAbsolute(result)) {
+            result = Path.join(process.cwd(), result);
+        }
+
+        return result;
+    }
+
+    /**
+     * Returns the compression context for received data.
+     * 
+     * @param {ssocket_codecs.Codec} codec The codec.
+     * 
+     * @return {ssocket_codecs.CompressionContext} The context.
+     */
+    protected getDecompressContext(codec: ssocket_codecs.Codec): ssocket_codecs.CompressionContext {
+        let me = this;
+
+        if (!me._decompressContext) {
+            let dictionary = me.getCompressionDictionary();
+
+            me._decompressContext = new ssocket_codecs.CompressionContext(() => {
+                return codec.createDecompressContext(dictionary);
+            });
+        }
+
+        return me._decompressContext;
+    }
+
+    /**
+     * Returns the (string) encoding that should be used by that socket.
+     * 
+     * @return {string} The encoding.
+     */
+    protected getEncoding(): string {
+        return ssocket_helpers.normalizeString(this.encoding) ||
+               ssocket_helpers.normalizeString(DefaultEncoding) ||
+               DEFAULT_ENCODING;
+    }
+
+    /**
+     * Returns the key exchange method that should be used by that socket.
+     * 
+     * @return {string} The method.
+     */
+    protected getKeyExchange(): string {
+        if (this._negotiated) {
+            return this._negotiated.keyExchange;
+        }
+
+        return ssocket_helpers.normalizeString(this.keyExchange) ||
+               ssocket_helpers.normalizeString(DefaultKeyExchange) ||
+               (isX25519Supported() ? DEFAULT_KEY_EXCHANGE_X25519 : DEFAULT_KEY_EXCHANGE_ECDH);
+    }
+
+    /**
+     * Returns the key exchange methods that are supported by that socket, ordered by preference.
+     * 
+     * @return {string[]} The list of methods.
+     */
+    protected getKeyExchanges(): string[] {
+        let keyExchanges = [ this.getKeyExchange() ];
+
+        let availableKeyExchanges = [ DEFAULT_KEY_EXCHANGE_ECDH, KEY_EXCHANGE_RSA ];
+        if (isX25519Supported()) {
+            availableKeyExchanges.unshift(DEFAULT_KEY_EXCHANGE_X25519);
+        }
+
+        availableKeyExchanges.forEach((kex) => {
+            if (keyExchanges.indexOf(kex) < 0) {
+                keyExchanges.push(kex);
+            }
+        });
+
+        return keyExchanges;
+    }
+
+    /**
+     * Gets the maximum size for a package.
+     * 
+     * @return {number} The maximum package size.
+     */
+    public getMaxPackageSize(): number {
+        let result = parseInt(ssocket_helpers.toStringSafe(this.maxPackageSize).trim());
+        if (isNaN(result)) {
+            result = parseInt(ssocket_helpers.toStringSafe(DefaultMaxPackageSize).trim());
+        }
+        if (isNaN(result)) {
+            result = DEFAULT_MAX_PACKAGE_SIZE;
+        }
+
+        if (this._negotiated) {
+            result = Math.min(result, this._negotiated.maxPackageSize);
+        }
+
+        return result;
+    }
+
+    /**
+     * Returns a limit for renewing the key for sending data.
+     * 
+     * @param {any} value The value of the socket.
+     * @param {any} defaultValue The default value.
+     * 
+     * @return {number} The limit or (0) if not defined.
+     */
+    protected getRekeyLimit(value: any, defaultValue: any): number {
+        let result = parseFloat(ssocket_helpers.toStringSafe(value).trim());
+        if (isNaN(result)) {
+            result = parseFloat(ssocket_helpers.toStringSafe(defaultValue).trim());
+        }
+        if (isNaN(result) || result < 0) {
+            result = 0;
+        }
+
+        return result;
+    }
+
+    /**
+     * Gets the size for a RSA key.
+     * 
+     * @return {number} The RSA key size.
+     */
+    protected getRSAKeySize(): number {
+        let result = parseInt(ssocket_helpers.toStringSafe(this.rsaKeySize).trim());
+        if (isNaN(result)) {
+            result = parseInt(ssocket_helpers.toStringSafe(DefaultRSAKeySize).trim());
+        }
+        if (isNaN(result)) {
+            result = DEFAULT_RSA_KEY_SIZE;
+        }
+
+        return result;
+    }
+
+    /**
+     * Returns the multiplexer for the channels.
+     * 
+     * @return {ssocket_channels.ChannelMultiplexer} The multiplexer.
+     */
+    protected getMultiplexer(): ssocket_channels.ChannelMultiplexer {
+        let me = this;
+
+        if (!me._multiplexer) {
+            me._multiplexer = new ssocket_channels.ChannelMultiplexer({
+                close: (name) => {
+                    let channel = me._channels[name];
+                    if (channel) {
+                        me.removeChannel(channel,
+                                         new Error(`Channel '${name}' has been closed by remote!`));
+                    }
+                },
+                data: (name, data) => {
+                    let isNew = !me._channels[name];
+
+                    let channel = me.openChannel(name);
+                    if (isNew) {
+                        me.emit('channel',
+                                channel);
+                    }
+
+                    channel.handlePackage({
+                        data: data,
+                        type: PACKAGE_TYPE_DATA,
+                    });
+                },
+                receive: () => {
+                    me.receive();
+                },
+                send: (frame) => {
+                    return me.writePackage(PACKAGE_TYPE_CHANNEL, frame);
+                },
+            });
+        }
+
+        return me._multiplexer;
+    }
+
+    /**
+     * Returns the handler for remote calls.
+     * 
+     * @return {ssocket_rpc.RPCEndpoint} The handler.
+     */
+    protected getRPC(): ssocket_rpc.RPCEndpoint {
+        let me = this;
+
+        if (!me._rpc) {
+            me._rpc = new ssocket_rpc.RPCEndpoint(me, (message) => {
+                return me.writePackage(PACKAGE_TYPE_RPC, JSON.stringify(message));
+            });
+        }
+
+        return me._rpc;
+    }
+
+    /**
+     * Returns the limiter for sending data.
+     * 
+     * @param {OperationOptions} [opts] The options of the operation, which can define an own limit.
+     * 
+     * @return {ssocket_ratelimit.RateLimiter} The limiter or (null) if there is no limit.
+     */
+    protected getRateLimiter(opts?: OperationOptions): ssocket_ratelimit.RateLimiter {
+        let me = this;
+
+        let isOwnLimit = opts && !ssocket_helpers.isNullOrUndefined(opts.rateLimit);
+
+        let limit = isOwnLimit ? opts.rateLimit : me.rateLimit;
+        if (ssocket_helpers.isNullOrUndefined(limit)) {
+            return null;
+        }
+
+        if ('object' === typeof limit) {
+            return <ssocket_ratelimit.RateLimiter>limit;  // shared limiter
+        }
+
+        let bytesPerSecond = parseFloat(ssocket_helpers.toStringSafe(limit).trim());
+        if (isNaN(bytesPerSecond) || bytesPerSecond <= 0) {
+            return null;
+        }
+
+        if (isOwnLimit) {
+            return new ssocket_ratelimit.RateLimiter(bytesPerSecond);  // for that operation only
+        }
+
+        // limiter of that socket
+        if (!me._rateLimiter || me._rateLimiter.bytesPerSecond !== bytesPerSecond) {
+            me._rateLimiter = new ssocket_ratelimit.RateLimiter(bytesPerSecond);
+        }
+
+        return me._rateLimiter;
+    }
+
+    /**
+     * Returns the serializer for 'writeValue()' and 'readValue()'.
+     * 
+     * @return {ssocket_serializer.Serializer} The serializer.
+     */
+    protected getSerializer(): ssocket_serializer.Serializer {
+        let serializer = this.serializer;
+        if (!serializer) {
+            serializer = DefaultSerializer;
+        }
+        if (!serializer) {
+            serializer = {
+                deserialize: ssocket_serializer.deserialize,
+                serialize: ssocket_serializer.serialize,
+            };
+        }
+
+        return serializer;
+    }
+
+    /**
+     * Returns the time in milliseconds, an operation, which reads data, can take.
+     * 
+     * @return {number} The timeout or 0 if there is no limit.
+     */
+    protected getReadTimeout(): number {
+        let result = parseInt(ssocket_helpers.toStringSafe(this.readTimeout).trim());
+        if (isNaN(result)) {
+            result = parseInt(ssocket_helpers.toStringSafe(DefaultReadTimeout).trim());
+        }
+        if (isNaN(result) || result < 1) {
+            result = 0;
+        }
+
+        return result;
+    }
+
+    /**
+     * Returns the number of messages, which are buffered by the receive loop.
+     * 
+     * @return {number} The number of messages.
+     */
+    protected getReceiveHighWaterMark(): number {
+        let result = parseInt(ssocket_helpers.toStringSafe(this.receiveHighWaterMark).trim());
+        if (isNaN(result)) {
+            result = DefaultReceiveHighWaterMark;
+        }
+        if (isNaN(result) || result < 1) {
+            result = 1;
+        }
+
+        return result;
+    }
+
+    /**
+     * Returns the time in milliseconds, a handshake can take.
+     * 
+     * @return {number} The timeout or 0 if there is no limit.
+     */
+    protected getHandshakeTimeout(): number {
+        let result = parseInt(ssocket_helpers.toStringSafe(this.handshakeTimeout).trim());
+        if (isNaN(result)) {
+            result = DefaultHandshakeTimeout;
+        }
+        if (isNaN(result) || result < 1) {
+            result = 0;
+        }
+
+        return result;
+    }
+
+    /**
+     * Returns the time in milliseconds between two heartbeats.
+     * 
+     * @return {number} The interval or 0 if heartbeats are disabled.
+     */
+    protected getHeartbeatInterval(): number {
+        let result = parseInt(ssocket_helpers.toStringSafe(this.heartbeatInterval).trim());
+        if (isNaN(result)) {
+            result = parseInt(ssocket_helpers.toStringSafe(DefaultHeartbeatInterval).trim());
+        }
+        if (isNaN(result) || result < 1) {
+            result = 0;
+        }
+
+        return result;
+    }
+
+    /**
+     * Returns the number of heartbeats, the remote can leave unanswered.
+     * 
+     * @return {number} The number of heartbeats.
+     */
+    protected getHeartbeatMaxMisses(): number {
+        let result = parseInt(ssocket_helpers.toStringSafe(this.heartbeatMaxMisses).trim());
+        if (isNaN(result)) {
+            result = DefaultHeartbeatMaxMisses;
+        }
+        if (isNaN(result) || result < 1) {
+            result = 1;
+        }
+
+        return result;
+    }
+
+    /**
+     * Returns the keys of the current session.
+     * 
+     * @param {Buffer} pwd The password of the session.
+     * 
+     * @return {Object} The keys.
+     */
+    protected getSessionKeys(pwd: Buffer) {
+        let keys = this._sessionKeys;
+        if (!keys || keys.password !== pwd) {
+            // new session
+            let remoteType = this.type == SocketType.Server ? SocketType.Client : SocketType.Server;
+
+            keys = this._sessionKeys = {
+                lastRekey: Date.now(),
+                password: pwd,
+                receive: deriveDirectionSecret(pwd, remoteType),
+                receiveGeneration: 0,
+                send: deriveDirectionSecret(pwd, this.type),
+                sendGeneration: 0,
+                sentBytes: 0,
+                sentMessages: 0,
+            };
+        }
+
+        return keys;
+    }
+
+    /**
+     * Returns the buffer size for reading streams.
+     * 
+     * @return {number} The buffer size.
+     */
+    protected getReadBufferSize(): number {
+        let result = parseInt(ssocket_helpers.toStringSafe(this.readBufferSize).trim());
+        if (isNaN(result)) {
+            result = parseInt(ssocket_helpers.toStringSafe(DefaultReadBufferSize).trim());
+        }
+        if (isNaN(result)) {
+            result = DEFAULT_DEFAULT_READ_BUFFER_SIZE;
+        }
+
+        return result;
+    }
+
+    /**
+     * Returns the number of chunks of a stream, which are sent before waiting for an answer.
+     * 
+     * @param {TransferOptions} [opts] The options of the transfer, which can define an own size.
+     * 
+     * @return {number} The window size.
+     */
+    protected getStreamWindowSize(opts?: TransferOptions): number {
+        let result = parseInt(ssocket_helpers.toStringSafe(opts ? opts.windowSize : null).trim());
+        if (isNaN(result)) {
+            result = parseInt(ssocket_helpers.toStringSafe(this.streamWindowSize).trim());
+        }
+        if (isNaN(result)) {
+            result = parseInt(ssocket_helpers.toStringSafe(DefaultStreamWindowSize).trim());
+        }
+        if (isNaN(result) || result < 1) {
+            result = 1;
+        }
+
+        return result;
+    }
+
+    /**
+     * Returns the time in milliseconds, an operation, which writes data, can take.
+     * 
+     * @return {number} The timeout or 0 if there is no limit.
+     */
+    protected getWriteTimeout(): number {
+        let result = parseInt(ssocket_helpers.toStringSafe(this.writeTimeout).trim());
+        if (isNaN(result)) {
+            result = parseInt(ssocket_helpers.toStringSafe(DefaultWriteTimeout).trim());
+        }
+        if (isNaN(result) || result < 1) {
+            result = 0;
+        }
+
+        return result;
+    }
+
+    /**
+     * Is invoked after the connection has been closed.
+     * 
+     * @param {any} err The error for the calls, which wait for data.
+     */
+    protected handleClose(err: any) {
+        let me = this;
+
+        me._isClosed = true;
+        me._receiveLoop = false;
+
+        me.stopHeartbeat();
+
+        if (me._compressContext) {
+            me._compressContext.dispose();
+        }
+        if (me._decompressContext) {
+            me._decompressContext.dispose();
+        }
+
+        let readers = me._readers;
+        me._readers = [];
+
+        readers.forEach((r) => {
+            r(err);
+        });
+    }
+
+    /**
+     * Is invoked after received data has been passed to a 'read()' call or a 'message' listener.
+     * 
+     * @param {Buffer} data The data.
+     */
+    protected handleDataRead(data: Buffer) {
+    }
+
+    /**
+     * Handles a package, which has been received from the remote.
+     * 
+     * @param {ReceivedPackage} pkg The package.
+     */
+    protected handlePackage(pkg: ReceivedPackage) {
+        let me = this;
+
+        me._heartbeatMisses = 0;  // remote is alive
+
+        switch (pkg.type) {
+            case PACKAGE_TYPE_DATA:
+                if (me._readers.length > 0) {
+                    me.handleDataRead(pkg.data);
+
+                    me._readers.shift()(null, pkg.data);
+                }
+                else if (me.listenerCount('message') > 0) {
+                    me.handleDataRead(pkg.data);
+
+                    me.emit('message',
+                            pkg.data);
+                }
+                else {
+                    me._receivedData.push(pkg.data);
+                }
+                break;
+
+            case PACKAGE_TYPE_CHANNEL:
+                me.getMultiplexer().handleFrame(pkg.data);
+                break;
+
+            case PACKAGE_TYPE_PING:
+                if (!isSocketWritable(me.socket)) {
+                    break;  // remote has gone
+                }
+
+                // send back the ID
+                me.writePackage(PACKAGE_TYPE_PONG, pkg.data).then(() => {
+                }, (err) => {
+                    // connection is closed
+                });
+                break;
+
+            case PACKAGE_TYPE_PONG:
+                if (me._pingTime && pkg.data.length >= 4 &&
+                    pkg.data.readUInt32LE(0) === me._pingId) {
+
+                    let roundTripTime = Date.now() - me._pingTime;
+                    me._pingTime = null;
+
+                    me.emit('heartbeat',
+                            roundTripTime);
+                }
+                break;
+
+            case PACKAGE_TYPE_RPC:
+                me.getRPC().handleMessage(JSON.parse(pkg.data.toString('utf8')));
+                break;
+        }
+    }
+
+    /**
+     * Checks if packages contain a type (and can be control packages) or not.
+     * 
+     * @return {boolean} Has types or not.
+     */
+    protected hasPackageTypes(): boolean {
+        return this._negotiated &&
+               this._negotiated.version > LEGACY_PROTOCOL_VERSION;
+    }
+
+    /**
+     * Makes the handshake with the remote, if it has not been made yet.
+     * 
+     * All calls share the same handshake, which is also made by the first
+     * 'read()' or 'write()' call.
+     * 
+     * @return {Promise<Buffer>} The promise with the password.
+     */
+    public handshake(): Promise<Buffer> {
+        return this.makeHandshakeIfNeeded();
+    }
+
+    /**
+     * Gets the state of the handshake.
+     */
+    public get handshakeState(): HandshakeState {
+        return this._handshakeState;
+    }
+
+    /**
+     * The time in milliseconds, a handshake can take before it fails.
+     * A value of 0 means that there is no limit.
+     */
+    public handshakeTimeout = DefaultHandshakeTimeout;
+
+    /**
+     * A custom function that transforms the handshake
+     * public key before it is send or after it has been received.
+     */
+    public handshakeTransformer = DefaultHandshakeTransformer;
+
+    /**
+     * The time in milliseconds between two heartbeats, which are sent
+     * to detect a dead remote. A value of 0 disables heartbeats.
+     */
+    public heartbeatInterval = DefaultHeartbeatInterval;
+
+    /**
+     * The number of heartbeats, the remote can leave unanswered,
+     * before the connection is closed.
+     */
+    public heartbeatMaxMisses = DefaultHeartbeatMaxMisses;
+
+    /**
+     * Gets the identity of the authenticated client (SERVER side).
+     */
+    public get identity(): Object {
+        return this._identity;
+    }
+
+    /**
+     * The long-term (private) identity key, which is used by a SERVER
+     * to sign its handshakes.
+     */
+    public identityKey: any;
+
+    /**
+     * Checks if anyone waits for packages from the remote.
+     * 
+     * @return {boolean} Packages are required or not.
+     */
+    protected isReceiveRequired(): boolean {
+        let me = this;
+
+        if (me._isClosed) {
+            return false;
+        }
+
+        if (me._readers.length > 0) {
+            return true;
+        }
+
+        if ((me._receiveLoop || me._heartbeatTimer) &&
+            me._receivedData.length < me.getReceiveHighWaterMark()) {
+            return true;
+        }
+
+        if (me._rpc && me._rpc.isActive) {
+            return true;
+        }
+
+        if (me._multiplexer && me._multiplexer.isWaiting) {
+            return true;  // waits for credit
+        }
+
+        return Object.keys(me._channels).some((name) => {
+            return me._channels[name].isReceiveRequired();
+        });
+    }
+
+    /**
+     * Gets if the receive loop is running or not.
+     */
+    public get isReceiving(): boolean {
+        return this._receiveLoop;
+    }
+
+    /**
+     * Makes a CLIENT handshake.
+     * 
+     * @param {Promise<Buffer>} The promise.
+     */
+    protected makeClientHandshake(): Promise<Buffer> {
+        let me = this;
+        
+        return new Promise<Buffer>((resolve, reject) => {
+            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            try {
+                me._transcript = [];
+
+                me.makeClientHello().then((negotiated) => {
+                    me._negotiated = negotiated;
+
+                    let exchangeKeys: Promise<Buffer>;
+                    if (KEY_EXCHANGE_RSA === negotiated.keyExchange) {
+                        exchangeKeys = me.makeClientKeyExchange();
+                    }
+                    else {
+                        exchangeKeys = me.makeKeyAgreement();
+                    }
+
+                    return exchangeKeys.then((pwd) => {
+                        return me.verifyIdentity().then(() => {
+                            return me.authenticate(pwd);
+                        });
+                    });
+                }).then((pwd) => {
+                    completed(null, pwd);
+                }, (err) => {
+                    completed(err);
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+
+    /**
+     * Sends the 'hello' of a CLIENT and receives the answer of the server.
+     * 
+     * @return {Promise<NegotiatedOptions>} The promise.
+     */
+    protected makeClientHello(): Promise<NegotiatedOptions> {
+        let me = this;
+
+        return new Promise<NegotiatedOptions>((resolve, reject) => {
+            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            try {
+                let features = [ FEATURE_AUTH, FEATURE_CODECS, FEATURE_HEARTBEAT, FEATURE_IDENTITY, FEATURE_REKEY, FEATURE_WINDOW ];
+                if (me.compressionContext) {
+                    features.push(FEATURE_CONTEXT);
+                }
+                if (!ssocket_helpers.isNullOrUndefined(me.psk)) {
+                    features.push(FEATURE_PSK);
+                }
+
+                let hello: HelloMessage = {
+                    ciphers: me.getCiphers(),
+                    codecs: me.getCodecs(),
+                    dictionary: toDictionaryHash(me.getCompressionDictionary()),
+                    features: features,
+                    keyExchanges: me.getKeyExchanges(),
+                    maxPackageSize: me.getMaxPackageSize(),
+                    version: PROTOCOL_VERSION,
+                };
+
+                writeHello(me.socket, hello, me._transcript).then(() => {
+                    return readHello(me.socket, me._transcript);
+                }).then((answer) => {
+                    if (!ssocket_helpers.isEmptyString(answer.error)) {
+                        if (FEATURE_AUTH === answer.errorCode) {
+                            throw new ssocket_errors.AuthenticationError('Server rejected authentication: ' + answer.error);
+                        }
+
+                        throw new Error('Server rejected handshake: ' + answer.error);
+                    }
+
+                    if (hello.ciphers.indexOf(answer.cipher) < 0) {
+                        throw new Error('Server selected an unsupported cipher: ' + answer.cipher);
+                    }
+                    if (hello.codecs.indexOf(answer.codec) < 0) {
+                        throw new Error('Server selected an unsupported codec: ' + answer.codec);
+                    }
+                    if (hello.keyExchanges.indexOf(answer.keyExchange) < 0) {
+                        throw new Error('Server selected an unsupported key exchange: ' + answer.keyExchange);
+                    }
+
+                    completed(null, {
+                        cipher: answer.cipher,
+                        codec: answer.codec,
+                        features: (answer.features || []).filter((f) => hello.features.indexOf(f) > -1),
+                        keyExchange: answer.keyExchange,
+                        maxPackageSize: Math.min(hello.maxPackageSize, answer.maxPackageSize),
+                        version: Math.min(hello.version, answer.version),
+                    });
+                }).then(null, (err) => {
+                    completed(err);
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+
+    /**
+     * Exchanges the password with the server (CLIENT side).
+     * 
+     * @param {Promise<Buffer>} The promise.
+     */
+    protected makeClientKeyExchange(): Promise<Buffer> {
+        let me = this;
+        
+        return new Promise<Buffer>((resolve, reject) => {
+            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            try {
+                let keySize = parseInt(ssocket_helpers.toStringSafe(me.rsaKeySize).trim());
+                if (isNaN(keySize)) {
+                    keySize = me.getRSAKeySize();
+                }
+
+                me.emit('rsakey.generating', keySize);
+
+                let keys = RSA({
+                    b: keySize,
+                });
+
+                me.emit('rsakey.generated', keys);
+
+                let untransformerPublicKey = new Buffer(ssocket_helpers.toStringSafe(keys.exportKey('public')),
+                                                        me.getEncoding());
+
+                let transformerPromise = asDataTransformerPromise(me.handshakeTransformer,
+                                                                  DataTransformerDirection.Transform,
+                                                                  untransformerPublicKey);
+
+                transformerPromise.then((publicKey) => {
+                    let publicKeyLength = Buffer.alloc(4);
+                    publicKeyLength.writeUInt32LE(publicKey.length, 0);
+
+                    me._transcript.push(publicKey);
+
+                    // first send length of public key data
+                    me.socket.write(publicKeyLength, (err) => {
+                        if (err) {
+                            completed(err);
+                            return;
+                        }
+
+                        // now send key
+                        me.socket.write(publicKey, (err) => {
+                            if (err) {
+                                completed(err);
+                                return;
+                            }
+
+                            // now lets wait for the password
+                            // first the length
+                            ssocket_helpers.readSocket(me.socket, 2).then((buff) => {
+                                try {
+                                    let pwdLength = buff.readUInt16LE(0);
+                                    if (pwdLength <= me.getMaxPackageSize()) {
+                                        // and now the (encrypted) password itself
+                                        ssocket_helpers.readSocket(me.socket, pwdLength).then((encryptedPwd) => {
+                                            try {
+                                                me._transcript.push(encryptedPwd);
+
+                                                completed(null, keys.decrypt(encryptedPwd));
+                                            }
+                                            catch (e) {
+                                                completed(e);
+                                            }
+                                        }, (err) => {
+                                            completed(err);
+                                        });
+                                    }
+                                    else {
+                                        // maximum package size reached
+
+                                        me.socket.end();
+                                        completed(new Error('Password is too big!'));
+                                    }
+                                }
+                                catch (e) {
+                                    completed(e);
+                                }
+                            }, (err) => {
+                                completed(err);
+                            });
+                        });
+                    });
+                }, (err) => {
+                    completed(err);
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+
+    /**
+     * Makes a handshake if needed.
+     * 
+     * @param {Promise<Buffer>} The promise.
+     */
+    public makeHandshakeIfNeeded(): Promise<Buffer> {
+        let me = this;
+
+        switch (me._handshakeState) {
+            case HandshakeState.Handshaking:
+                return me._handshake;  // already running
+
+            case HandshakeState.Failed:
+                return Promise.reject<Buffer>(me._handshakeError);
+        }
+
+        if (!ssocket_helpers.isNullOrUndefined(me.password)) {
+            // no handshake required
+            me._handshakeState = HandshakeState.Ready;
+
+            return Promise.resolve(me.password);
+        }
+
+        me._handshakeState = HandshakeState.Handshaking;
+
+        return me._handshake = new Promise<Buffer>((resolve, reject) => {
+            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            let isCompleted = false;
+            let timeout = me.getHandshakeTimeout();
+            let timer: any;
+
+            let handshakeCompleted = (err: any, pwd?: Buffer) => {
+                if (isCompleted) {
+                    return;
+                }
+                isCompleted = true;
+
+                if (timer) {
+                    clearTimeout(timer);
+                }
+
+                me._handshake = null;
+
+                if (err) {
+                    me._handshakeError = err;
+                    me._handshakeState = HandshakeState.Failed;
+
+                    // the connection is in an unknown state now
+                    if (err instanceof ssocket_errors.TimeoutError) {
+                        me.socket.destroy();
+                    }
+                    else {
+                        me.socket.end();
+                    }
+
+                    completed(err);
+                }
+                else {
+                    me.password = pwd;
+                    me._handshakeState = HandshakeState.Ready;
+
+                    me.emit('handshake', pwd, me.negotiated);
+
+                    me.startHeartbeat();
+
+                    completed(null, pwd);
+                }
+            };
+
+            try {
+                if (timeout > 0) {
+                    timer = setTimeout(() => {
+                        timer = null;
+
+                        handshakeCompleted(new ssocket_errors.TimeoutError(`Handshake has timed out after ${timeout} ms!`,
+                                                                           timeout));
+                    }, timeout);
+                }
+
+                let type = me.type;
+
+                let makeHandshake: Promise<Buffer>;
+                if (type == SocketType.Server) {
+                    // SERVER handshake
+                    makeHandshake = me.makeServerHandshake();
+                }
+                else if (type == SocketType.Client) {
+                    // CLIENT handshake
+                    makeHandshake = me.makeClientHandshake();
+                }
+                else {
+                    throw new Error(`Unknown socket type ${type}`);
+                }
+
+                makeHandshake.then((pwd) => {
+                    handshakeCompleted(null, pwd);
+                }, (err) => {
+                    handshakeCompleted(err);
+                });
+            }
+            catch (e) {
+                handshakeCompleted(e);
+            }
+        });
+    }
+
+    /**
+     * Makes a key agreement with ephemeral keys (ECDH), where
+     * both sides derive the password for the connection.
+     * 
+     * @param {Promise<Buffer>} The promise.
+     */
+    protected makeKeyAgreement(): Promise<Buffer> {
+        let me = this;
+
+        return new Promise<Buffer>((resolve, reject) => {
+            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            try {
+                let keyExchange = me.getKeyExchange();
+
+                me.emit('keyagreement.generating', keyExchange);
+
+                let agreement = createKeyAgreement(keyExchange);
+
+                me.emit('keyagreement.generated', keyExchange);
+
+                let sendPublicKey = () => {
+                    return asDataTransformerPromise(me.handshakeTransformer,
+                                                    DataTransformerDirection.Transform,
+                                                    agreement.publicKey).then((publicKey) => {
+                        let publicKeyLength = Buffer.alloc(2);
+                        publicKeyLength.writeUInt16LE(publicKey.length, 0);
+
+                        me._transcript.push(publicKey);
+
+                        return ssocket_helpers.writeSocket(me.socket,
+                                                           Buffer.concat([ publicKeyLength, publicKey ]));
+                    });
+                };
+
+                let receivePublicKey = () => {
+                    return ssocket_helpers.readSocket(me.socket, 2).then((buff) => {
+                        let publicKeyLength = buff.readUInt16LE(0);
+                        if (publicKeyLength < 1 || publicKeyLength > MAX_KEY_AGREEMENT_PUBLIC_KEY_SIZE) {
+                            throw new Error('Invalid public key size: ' + publicKeyLength);
+                        }
+
+                        return ssocket_helpers.readSocket(me.socket, publicKeyLength);
+                    }).then((publicKey) => {
+                        me._transcript.push(publicKey);
+
+                        return asDataTransformerPromise(me.handshakeTransformer,
+                                                        DataTransformerDirection.Restore,
+                                                        publicKey);
+                    });
+                };
+
+                let exchange: Promise<Buffer>;
+                if (me.type == SocketType.Server) {
+                    exchange = receivePublicKey().then((remotePublicKey) => {
+                        return sendPublicKey().then(() => remotePublicKey);
+                    });
+                }
+                else {
+                    exchange = sendPublicKey().then(() => {
+                        return receivePublicKey();
+                    });
+                }
+
+                exchange.then((remotePublicKey) => {
+                    let sharedSecret = agreement.computeSecret(remotePublicKey);
+
+                    // bind the password to everything
+                    // that has been exchanged so far
+                    let transcriptHash = getTranscriptHash(me._transcript);
+
+                    completed(null,
+                              ssocket_helpers.hkdf(sharedSecret, transcriptHash, 'node-simple-socket/session', SESSION_SECRET_SIZE));
+                }).then(null, (err) => {
+                    completed(err);
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+
+    /**
+     * Makes a SERVER handshake.
+     * 
+     * @param {Promise<Buffer>} The promise.
+     */
+    protected makeServerHandshake(): Promise<Buffer> {
+        let me = this;
+        
+        return new Promise<Buffer>((resolve, reject) => {
+            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            try {
+                me._transcript = [];
+
+                // first read the 'hello' or the size of public key
+                ssocket_helpers.readSocket(me.socket, 4).then((buff) => {
+                    try {
+                        if (buff.equals(HELLO_MAGIC)) {
+                            me.makeServerHello().then((negotiated) => {
+                                me._negotiated = negotiated;
+
+                                let exchangeKeys: Promise<Buffer>;
+                                if (KEY_EXCHANGE_RSA === negotiated.keyExchange) {
+                                    // now read size of public key
+                                    exchangeKeys = ssocket_helpers.readSocket(me.socket, 4).then((buff) => {
+                                        return me.makeServerKeyExchange(buff.readUInt32LE(0));
+                                    });
+                                }
+                                else {
+                                    exchangeKeys = me.makeKeyAgreement();
+                                }
+
+                                return exchangeKeys.then((pwd) => {
+                                    return me.sendIdentity().then(() => {
+                                        return me.authenticateClient(pwd);
+                                    });
+                                });
+                            }).then((pwd) => {
+                                completed(null, pwd);
+                            }, (err) => {
+                                completed(err);
+                            });
+                        }
+                        else {
+                            // client with an older version
+                            me._negotiated = {
+                                cipher: LEGACY_ALGORITHM,
+                                codec: 'gzip',
+                                features: [],
+                                keyExchange: KEY_EXCHANGE_RSA,
+                                maxPackageSize: me.getMaxPackageSize(),
+                                version: LEGACY_PROTOCOL_VERSION,
+                            };
+
+                            if (!ssocket_helpers.isNullOrUndefined(me.psk) || me.authenticator) {
+                                me.socket.end();
+
+                                completed(new ssocket_errors.AuthenticationError('Client does not support the required authentication!'));
+                                return;
+                            }
+
+                            me.makeServerKeyExchange(buff.readUInt32LE(0)).then((pwd) => {
+                                completed(null, pwd);
+                            }, (err) => {
+                                completed(err);
+                            });
+                        }
+                    }
+                    catch (e) {
+                        completed(e);
+                    }
+                }, (err) => {
+                    completed(err);
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+
+    /**
+     * Receives the 'hello' of a client and sends the answer (SERVER side).
+     * 
+     * @return {Promise<NegotiatedOptions>} The promise.
+     */
+    protected makeServerHello(): Promise<NegotiatedOptions> {
+        let me = this;
+
+        return new Promise<NegotiatedOptions>((resolve, reject) => {
+            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            try {
+                // magic has already been read by makeServerHandshake()
+                readHello(me.socket, me._transcript, false).then((hello) => {
+                    let ciphers = me.getCiphers();
+                    let codecs = me.getCodecs();
+                    let features: string[] = [ FEATURE_CODECS, FEATURE_HEARTBEAT, FEATURE_REKEY, FEATURE_WINDOW ];
+                    if (!ssocket_helpers.isNullOrUndefined(me.psk) || me.authenticator) {
+                        features.push(FEATURE_AUTH);
+                    }
+                    if (me.compressionContext) {
+                        features.push(FEATURE_CONTEXT);
+                    }
+                    if (!ssocket_helpers.isNullOrUndefined(me.identityKey)) {
+                        features.push(FEATURE_IDENTITY);
+                    }
+                    if (!ssocket_helpers.isNullOrUndefined(me.psk)) {
+                        features.push(FEATURE_PSK);
+                    }
+
+                    let keyExchanges = me.getKeyExchanges();
+
+                    let answer: HelloMessage = {
+                        cipher: chooseOption(ciphers, hello.ciphers),
+                        codec: chooseOption(codecs, hello.codecs),
+                        features: features.filter((f) => (hello.features || []).indexOf(f) > -1),
+                        keyExchange: chooseOption(keyExchanges, hello.keyExchanges),
+                        maxPackageSize: Math.min(me.getMaxPackageSize(),
+                                                 parseInt(ssocket_helpers.toStringSafe(hello.maxPackageSize).trim()) || 0),
+                        version: Math.min(PROTOCOL_VERSION,
+                                          parseInt(ssocket_helpers.toStringSafe(hello.version).trim()) || LEGACY_PROTOCOL_VERSION),
+                    };
+
+                    if (answer.features.indexOf(FEATURE_CONTEXT) > -1) {
+                        // a compression context requires the same dictionary
+                        // and a codec, which supports both
+                        let dictionary = me.getCompressionDictionary();
+
+                        let contextCodec = chooseOption(codecs.filter((c) => isCompressionContextSupported(c, dictionary)),
+                                                        hello.codecs);
+
+                        if (contextCodec &&
+                            ssocket_helpers.toStringSafe(hello.dictionary) === toDictionaryHash(dictionary)) {
+                            answer.codec = contextCodec;
+                        }
+                        else {
+                            answer.features = answer.features.filter((f) => FEATURE_CONTEXT !== f);
+                        }
+                    }
+
+                    let error: string;
+                    if (!answer.cipher) {
+                        error = 'No common cipher';
+                    }
+                    else if (!answer.codec) {
+                        error = 'No common compression codec';
+                    }
+                    else if (!answer.keyExchange) {
+                        error = 'No common key exchange';
+                    }
+                    else if (answer.maxPackageSize < 1) {
+                        error = 'Invalid maximum package size';
+                    }
+
+                    let authError: string;
+                    if (features.indexOf(FEATURE_AUTH) > -1 && answer.features.indexOf(FEATURE_AUTH) < 0) {
+                        authError = 'Client does not support the required authentication';
+                    }
+                    else if (features.indexOf(FEATURE_PSK) > -1 && answer.features.indexOf(FEATURE_PSK) < 0) {
+                        authError = 'Client does not know the pre-shared key';
+                    }
+
+                    if (error || authError) {
+                        let hello: HelloMessage = {
+                            error: error || authError,
+                        };
+                        if (!error) {
+                            hello.errorCode = FEATURE_AUTH;
+                        }
+
+                        writeHello(me.socket, hello, me._transcript).then(() => {
+                            me.socket.end();
+
+                            if (error) {
+                                completed(new Error('Handshake with client failed: ' + error));
+                            }
+                            else {
+                                completed(new ssocket_errors.AuthenticationError(authError));
+                            }
+                        }, (err) => {
+                            completed(err);
+                        });
+                    }
+                    else {
+                        writeHello(me.socket, answer, me._transcript).then(() => {
+                            completed(null, {
+                                cipher: answer.cipher,
+                                codec: answer.codec,
+                                features: answer.features,
+                                keyExchange: answer.keyExchange,
+                                maxPackageSize: answer.maxPackageSize,
+                                version: answer.version,
+                            });
+                        }, (err) => {
+                            completed(err);
+                        });
+                    }
+                }, (err) => {
+                    completed(err);
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+
+    /**
+     * Receives the public key of the client and sends the password (SERVER side).
+     * 
+     * @param {number} publicKeyLength The size of the public key.
+     * 
+     * @param {Promise<Buffer>} The promise.
+     */
+    protected makeServerKeyExchange(publicKeyLength: number): Promise<Buffer> {
+        let me = this;
+        
+        return new Promise<Buffer>((resolve, reject) => {
+            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            try {
+                if (publicKeyLength <= me.getMaxPackageSize()) {
+                    ssocket_helpers.readSocket(me.socket, publicKeyLength).then((buff) => {
+                        try {
+                            me._transcript.push(buff);
+
+                            let transformerPromise = asDataTransformerPromise(me.handshakeTransformer,
+                                                                              DataTransformerDirection.Restore,
+                                                                              buff);
+
+                            transformerPromise.then((untransformedBuffer) => {
+                                try {
+                                    let publicKey = untransformedBuffer.toString(me.getEncoding());
+                                    let key = RSA(publicKey);
+
+                                    me.emit('password.generating');
+
+                                    // generate and send password
+                                    me.generatePassword().then((pwd) => {
+                                        try {
+                                            me.emit('password.generated',
+                                                    pwd);
+
+                                            let pwdData = pwd;
+                                            if (me.hasPackageTypes()) {
+                                                // clients with an older version
+                                                // expect an unencrypted password
+                                                pwdData = key.encrypt(pwd);
+                                            }
+
+                                            let pwdLength = Buffer.alloc(2);
+                                            pwdLength.writeUInt16LE(pwdData.length, 0);
+
+                                            // first send size of password
+                                            me.socket.write(pwdLength, (err) => {
+                                                if (err) {
+                                                    completed(err);
+                                                    return;
+                                                }
+
+                                                // and now the password itself
+                                                me.socket.write(pwdData, (err) => {
+                                                    if (err) {
+                                                        completed(err);
+                                                    }
+                                                    else {
+                                                        me._transcript.push(pwdData);
+
+                                                        completed(null, pwd);
+                                                    }
+                                                });
+                                            });
+                                        }
+                                        catch (e) {
+                                            completed(e);
+                                        }
+                                    }, (err) => {
+                                        completed(err);
+                                    });
+                                }
+                                catch (e) {
+                                    completed(e);
+                                }
+                            }, (err) => {
+                                completed(err);
+                            });
+                        }
+                        catch (e) {
+                            completed(e);
+                        }
+                    }, (err) => {
+                        completed(err);
+                    });
+                }
+                else {
+                    // maximum package size reached
+
+                    me.socket.end();
+                    completed(new Error('Public key is too big!'));
+                }
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+
+    /**
+     * The key exchange method, like 'x25519', 'ecdh-p256' or 'rsa'.
+     */
+    public keyExchange = DefaultKeyExchange;
+
+    /**
+     * Defines the maximum size of a package.
+     */
+    public maxPackageSize = DefaultMaxPackageSize;
+
+    /**
+     * Starts the receive loop and returns an iterator for the received data,
+     * which ends, when the connection has been closed.
+     * 
+     * @return {MessageIterator} The iterator.
+     */
+    public messages(): MessageIterator {
+        let me = this;
+
+        let done = () => {
+            return {
+                done: true,
+                value: <Buffer>undefined,
+            };
+        };
+
+        let iterator: MessageIterator = {
+            next: () => {
+                return me.read().then((data) => {
+                    return {
+                        done: false,
+                        value: data,
+                    };
+                }, (err) => {
+                    if (me._isClosed) {
+                        return done();
+                    }
+
+                    throw err;
+                });
+            },
+            return: () => {
+                me.stopReceiving();
+
+                return Promise.resolve(done());
+            },
+        };
+        (<any>iterator)[ssocket_compat.asyncIterator] = () => iterator;
+
+        me.startReceiving();
+
+        return iterator;
+    }
+
+    /**
+     * Gets the options that have been negotiated with the remote while the handshake.
+     */
+    public get negotiated(): NegotiatedOptions {
+        return this._negotiated;
+    }
+
+    /**
+     * Stores the current password.
+     */
+    public password: Buffer;
+
+    /**
+     * Defines a custom logic to generate a password (for the connection).
+     */
+    public passwordGenerator = DefaultPasswordGenerator;
+
+    /**
+     * The pre-shared key, both sides must know.
+     */
+    public psk: any;
+
+    /**
+     * Tells the remote how many bytes the target already holds and
+     * waits for the offset to continue from (RECEIVER side).
+     * 
+     * @param {number} fdTarget The stream pointer of the target.
+     * 
+     * @return {Promise<number>} The promise with the offset to continue from.
+     */
+    protected offerResume(fdTarget: number): Promise<number> {
+        let me = this;
+
+        return new Promise<number>((resolve, reject) => {
+            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            try {
+                FS.fstat(fdTarget, (err, stats) => {
+                    if (err) {
+                        completed(err);
+                        return;
+                    }
+
+                    let size = stats.size;
+
+                    hashFile(fdTarget, size, me.getReadBufferSize()).then((hash) => {
+                        return me.writePackage(PACKAGE_TYPE_DATA, JSON.stringify({
+                            hash: hash.toString('hex'),
+                            offset: size,
+                        }));
+                    }).then(() => {
+                        return me.readData();
+                    }).then((data) => {
+                        let answer = JSON.parse(data.toString(DEFAULT_ENCODING));
+
+                        let offset = parseInt(ssocket_helpers.toStringSafe(answer.offset).trim());
+                        if (isNaN(offset) || offset < 0 || offset > size) {
+                            throw new Error('Invalid resume offset: ' + answer.offset);
+                        }
+
+                        if (offset < size) {
+                            // remove the data, which will be sent again
+                            FS.ftruncate(fdTarget, offset, (err) => {
+                                completed(err, offset);
+                            });
+                        }
+                        else {
+                            completed(null, offset);
+                        }
+                    }).then(null, (err) => {
+                        completed(err);
+                    });
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+
+    /**
+     * Opens a channel (or returns the one, which is already open).
+     * 
+     * @param {string} name The name of the channel, which must be the same on both sides.
+     * 
+     * @return {Channel} The channel.
+     */
+    public openChannel(name: string): Channel {
+        let me = this;
+
+        name = ssocket_helpers.toStringSafe(name);
+
+        let channel = me._channels[name];
+        if (!channel) {
+            let multiplexer = me.getMultiplexer();
+            multiplexer.open(name, me.getChannelWindowSize());
+
+            channel = me._channels[name] = new Channel(me, name, multiplexer);
+            channel.once('close', () => {
+                me.removeChannel(channel);
+            });
+        }
+
+        return channel;
+    }
+
+    /**
+     * The rate limit for sending data, like a number of bytes per second
+     * or a limiter, which is shared with other sockets.
+     */
+    public rateLimit = DefaultRateLimit;
+
+    /**
+     * Reads data from the remote.
+     * 
+     * @param {OperationOptions} [opts] Additional options, like a timeout.
+     * 
+     * @param {Promise<Buffer>} The promise.
+     */
+    public read(opts?: OperationOptions): Promise<Buffer> {
+        let me = this;
+
+        return runOperation('read()', opts, me.getReadTimeout(), (ctx) => {
+            return me._readQueue.enqueue(() => {
+                if (ctx.isCancelled) {
+                    return Promise.resolve<Buffer>(null);  // nobody waits anymore
+                }
+
+                return me.readData(ctx);
+            });
+        });
+    }
+
+    /**
+     * The default buffer size for reading a stream.
+     */
+    public readBufferSize = DefaultReadBufferSize;
+
+    /**
+     * Reads the answer of the remote, which is an empty string on success
+     * or an error message.
+     * 
+     * @return {Promise<any>} The promise.
+     */
+    protected readAnswer(): Promise<any> {
+        let me = this;
+
+        return me.readData().then((answer) => {
+            let errMsg = answer ? answer.toString(me.getEncoding()) : null;
+            if (!ssocket_helpers.isEmptyString(errMsg)) {
+                // error on remote side
+                throw new Error('Remote error: ' + errMsg);
+            }
+        });
+    }
+
+    /**
+     * Reads a chunk of a stream and answers the remote.
+     * 
+     * @param {Function} [handler] The optional function, which handles the chunk before the answer is sent.
+     *                             It also gets the window size of the remote, if sent, or NaN.
+     * @param {boolean} [answer] Send the answer or let the caller do this.
+     * 
+     * @return {Promise<Buffer>} The promise with the chunk or (null) if there is no more data.
+     */
+    protected readChunk(handler?: (chunk: Buffer, hash: Buffer, windowSize: number) => PromiseLike<any>, answer = true): Promise<Buffer> {
+        let me = this;
+
+        return new Promise<Buffer>((resolve, reject) => {
+            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            let sendAnswer = (err: any, chunk?: Buffer) => {
+                if (!answer) {
+                    completed(err, chunk);  // is done by caller
+                    return;
+                }
+
+                let errMsg = '';
+                if (err) {
+                    errMsg = ssocket_helpers.toStringSafe(err);
+                }
+
+                me.writePackage(PACKAGE_TYPE_DATA, errMsg).then(() => {
+                    if (err) {
+                        if (me.supportsFeature(FEATURE_WINDOW)) {
+                            // remote sends the end after an error
+                            me.drainChunks().then(() => {
+                                completed(err);
+                            }, () => {
+                                completed(err);
+                            });
+                        }
+                        else {
+                            completed(err);
+                        }
+                    }
+                    else {
+                        completed(null, chunk);
+                    }
+                }, (e) => {
+                    completed(err || e);
+                });
+            };
+
+            try {
+                me.readData().then((chunkBlock) => {
+                    try {
+                        if (!chunkBlock) {
+                            sendAnswer(new Error('Chunk is too big!'));
+                            return;
+                        }
+
+                        let chunkLength = chunkBlock.readUInt32LE(0);
+                        if (chunkLength < 1) {
+                            completed(null, null);  // no more data
+                            return;
+                        }
+
+                        if (chunkLength > me.getMaxPackageSize()) {
+                            sendAnswer(new Error('Chunk is too big!'));
+                            return;
+                        }
+
+                        let hash = chunkBlock.slice(4, 4 + 32);
+                        let chunk = chunkBlock.slice(4 + 32, 4 + 32 + chunkLength);
+
+                        let windowSize = NaN;
+                        if (chunkBlock.length >= 4 + 32 + chunkLength + 4) {
+                            windowSize = chunkBlock.readUInt32LE(4 + 32 + chunkLength);
+                        }
+
+                        let realHash = Crypto.createHash('sha256')
+                                             .update(chunk).digest();
+
+                        if (!hash.equals(realHash)) {
+                            // unique hashes
+                            sendAnswer(new Error('Invalid chunk hash: ' + realHash.toString('hex')));
+                            return;
+                        }
+
+                        if (handler) {
+                            handler(chunk, hash, windowSize).then(() => {
+                                sendAnswer(null, chunk);
+                            }, (err) => {
+                                sendAnswer(err);
+                            });
+                        }
+                        else {
+                            sendAnswer(null, chunk);
+                        }
+                    }
+                    catch (e) {
+                        sendAnswer(e);
+                    }
+                }, (err) => {
+                    completed(err);
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+
+    /**
+     * Reads the answer of the remote for one or more chunks of a stream.
+     * 
+     * @return {Promise<number>} The promise with the number of chunks, which have been answered.
+     */
+    protected readChunkAnswer(): Promise<number> {
+        let me = this;
+
+        return me.readData().then((answer) => {
+            let str = answer ? answer.toString(me.getEncoding()) : null;
+            if (ssocket_helpers.isEmptyString(str)) {
+                return 1;  // single chunk
+            }
+
+            let obj: any;
+            try {
+                if ('{' === str.trim()[0]) {
+                    obj = JSON.parse(str);
+                }
+            }
+            catch (e) {
+                obj = null;
+            }
+
+            if (!obj) {
+                // error on remote side
+                throw new Error('Remote error: ' + str);
+            }
+
+            if (!ssocket_helpers.isNullOrUndefined(obj.error)) {
+                // error on remote side
+                throw new Error('Remote error: ' + ssocket_helpers.toStringSafe(obj.error));
+            }
+
+            let count = parseInt(ssocket_helpers.toStringSafe(obj.acked).trim());
+
+            return (isNaN(count) || count < 0) ? 0 : count;
+        });
+    }
+
+    /**
+     * Reads the next data from the remote (without queue).
+     * 
+     * @param {OperationContext} [ctx] The context of the operation, which can be cancelled.
+     * 
+     * @param {Promise<Buffer>} The promise.
+     */
+    protected readData(ctx?: OperationContext): Promise<Buffer> {
+        let me = this;
+
+        return new Promise<Buffer>((resolve, reject) => {
+            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            try {
+                if (me._receivedData.length > 0) {
+                    // data has been received before
+                    let data = me._receivedData.shift();
+                    me.handleDataRead(data);
+
+                    completed(null, data);
+
+                    // continue receive loop
+                    me.receive();
+                }
+                else if (me._isClosed) {
+                    completed(new Error('Connection has been closed!'));
+                }
+                else {
+                    me._readers.push(completed);
+
+                    if (ctx) {
+                        ctx.onCancel((err) => {
+                            // received data will be buffered
+                            let index = me._readers.indexOf(completed);
+                            if (index > -1) {
+                                me._readers.splice(index, 1);
+
+                                completed(err);
+                            }
+                        });
+                    }
+
+                    me.receive();
+                }
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+
+    /**
+     * Reads a directory tree from remote and writes it to a directory on this machine.
+     * 
+     * @param {string} path The path to the target directory.
+     * @param {DirectoryTransferOptions} [opts] Additional options, like a timeout.
+     *                                          'symlinks' with 'skip' does not create symbolic links.
+     * 
+     * @return {Promise<ssocket_directories.DirectoryEntry[]>} The promise with the received entries.
+     */
+    public readDirectory(path: string, opts?: DirectoryTransferOptions): Promise<ssocket_directories.DirectoryEntry[]> {
+        let me = this;
+
+        if (!opts) {
+            opts = {};
+        }
+
+        if (!Path.isAbsolute(path)) {
+            path = Path.join(me.getCwd(), path);
+        }
+
+        let skipSymlinks = 'skip' === ssocket_helpers.normalizeString(opts.symlinks);
+
+        return runOperation('readDirectory()', opts, me.getReadTimeout(), (ctx) => {
+            return me.exclusive(() => {
+                if (ctx.isCancelled) {
+                    return Promise.resolve<ssocket_directories.DirectoryEntry[]>([]);  // nobody waits anymore
+                }
+
+                ctx.onCancel(() => {
+                    me.cancelTransfer();
+                });
+
+                let entries: ssocket_directories.DirectoryEntry[];
+
+                let receiveEntry = (entry: ssocket_directories.DirectoryEntry): Promise<any> => {
+                    let fullPath = ssocket_directories.toFullPath(path, entry);
+
+                    switch (entry.type) {
+                        case 'directory':
+                            // do not use a link of a previous transfer as directory
+                            return removeLink(fullPath, false).then(() => {
+                                return ssocket_directories.makeDirectory(fullPath);
+                            });
+
+                        case 'symlink':
+                            if (skipSymlinks) {
+                                return Promise.resolve();
+                            }
+
+                            return removeLink(fullPath, true).then(() => {
+                                return invokeFS<any>(FS.symlink, entry.target, fullPath);
+                            });
+                    }
+
+                    // file
+                    return removeLink(fullPath, false).then(() => {
+                        return invokeFS<number>(FS.open, fullPath, 'w');
+                    }).then((fdTarget) => {
+                        return me.receiveStream(fdTarget).then(() => {
+                            return invokeFS<any>(FS.close, fdTarget);
+                        }, (err) => {
+                            FS.close(fdTarget, () => {});
+
+                            throw err;
+                        });
+                    }).then(() => {
+                        return setFileAttributes(fullPath, entry);
+                    });
+                };
+
+                return me.readData().then((data) => {
+                    let errMsg = '';
+                    try {
+                        entries = ssocket_directories.checkEntries(JSON.parse(data.toString(DEFAULT_ENCODING)).entries);
+                    }
+                    catch (e) {
+                        errMsg = ssocket_helpers.toStringSafe(e ? (e.message || e) : 'Invalid directory tree!');
+                    }
+
+                    // tell the remote if we accept the tree
+                    return me.writePackage(PACKAGE_TYPE_DATA, errMsg).then(() => {
+                        if ('' !== errMsg) {
+                            throw new Error(errMsg);
+                        }
+                    });
+                }).then(() => {
+                    return ssocket_directories.makeDirectory(path).then(() => {
+                        let index = -1;
+
+                        let nextEntry = (): Promise<any> => {
+                            if (++index >= entries.length) {
+                                return Promise.resolve();
+                            }
+
+                            let entry = entries[index];
+
+                            // do not write through a link, which already exists
+                            return ssocket_directories.checkParents(path, entry).then(() => {
+                                return receiveEntry(entry);
+                            }).then(() => {
+                                me.emit('directory.read',
+                                        entry, index, entries.length);
+
+                                return nextEntry();
+                            });
+                        };
+
+                        return nextEntry();
+                    }).then(() => {
+                        // now, after the content has been written
+                        let directories = entries.filter((e) => 'directory' === e.type)
+                                                 .reverse();
+
+                        let nextDirectory = (): Promise<any> => {
+                            if (directories.length < 1) {
+                                return Promise.resolve();
+                            }
+
+                            let dir = directories.shift();
+
+                            return setFileAttributes(ssocket_directories.toFullPath(path, dir), dir).then(() => {
+                                return nextDirectory();
+                            });
+                        };
+
+                        return nextDirectory();
+                    }).then(() => {
+                        return entries;
+                    }, (err) => {
+                        // the remote still sends data
+                        me.cancelTransfer();
+
+                        throw err;
+                    });
+                });
+            });
+        });
+    }
+
+    /**
+     * Reads data from remote and writes it to a file on this machine.
+     * 
+     * If the path is an existing directory, the metadata of the file is received
+     * and the file is written to that directory with the name from the remote.
+     * 
+     * @param {string} path The path to the target file or directory.
+     * @param {string|number} [flags] The custom flags for opening the target file.
+     *                                Default: 'w' or 'a+' in resume mode, 'w+' if metadata is received
+     * @param {TransferOptions} [opts] Additional options, like a timeout.
+     * 
+     * @return {Promise<number>} The promise.
+     */
+    public readFile(path: string, flags?: string | number, opts?: TransferOptions): Promise<number> {
+        let me = this;
+
+        if (!opts) {
+            opts = {};
+        }
+
+        if (!Path.isAbsolute(path)) {
+            path = Path.join(me.getCwd(), path);
+        }
+
+        return new Promise<number>((resolve, reject) => {
+            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            let readStream = () => {
+                if (ssocket_helpers.isNullOrUndefined(flags)) {
+                    flags = opts.resume ? 'a+' : 'w';
+                }
+
+                FS.open(path, flags, (err, fdTarget) => {
+                    if (err) {
+                        completed(err);
+                    }
+                    else {
+                        let closeFile = (err: any, bytesWritten?: number) => {
+                            FS.close(fdTarget, (e) => {
+                                if (e) {
+                                    completed(e, bytesWritten);
+                                }
+                                else {
+                                    completed(err, bytesWritten);
+                                }
+                            });
+                        };
+
+                        me.readStream(fdTarget, opts).then((bytesWritten) => {
+                            closeFile(null, bytesWritten);
+                        }, (err) => {
+                            closeFile(err);
+                        });
+                    }
+                });
+            };
+
+            try {
+                FS.stat(path, (err, stats) => {
+                    try {
+                        let isDirectory = !err && stats.isDirectory();
+
+                        if (opts.metadata || isDirectory) {
+                            me.readFileWithMetadata(path, isDirectory, flags, opts).then((bytesWritten) => {
+                                completed(null, bytesWritten);
+                            }, (err) => {
+                                completed(err);
+                            });
+                        }
+                        else {
+                            readStream();
+                        }
+                    }
+                    catch (e) {
+                        completed(e);
+                    }
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+
+    /**
+     * Receives the metadata and the content of a file from the remote.
+     * 
+     * @param {string} path The path to the target file or directory.
+     * @param {boolean} isDirectory Is 'path' a directory or not.
+     * @param {string|number} flags The custom flags for opening the target file.
+     * @param {TransferOptions} opts Additional options, like a timeout.
+     * 
+     * @return {Promise<number>} The promise.
+     */
+    protected readFileWithMetadata(path: string, isDirectory: boolean, flags: string | number,
+                                   opts: TransferOptions): Promise<number> {
+        let me = this;
+
+        if (ssocket_helpers.isNullOrUndefined(flags)) {
+            flags = opts.resume ? 'a+' : 'w+';
+        }
+
+        return runOperation('readFile()', opts, me.getReadTimeout(), (ctx) => {
+            return me.exclusive(() => {
+                if (ctx.isCancelled) {
+                    return Promise.resolve(0);  // nobody waits anymore
+                }
+
+                ctx.onCancel(() => {
+                    me.cancelTransfer();
+                });
+
+                let metadata: FileMetadata;
+                let fdTarget: number;
+                let bytesWritten: number;
+
+                let sendAnswer = (err?: any): Promise<any> => {
+                    let errMsg = '';
+                    if (err) {
+                        errMsg = ssocket_helpers.toStringSafe(err.message || err);
+                    }
+
+                    return me.writePackage(PACKAGE_TYPE_DATA, errMsg).then(() => {
+                        if (err) {
+                            throw err;
+                        }
+                    });
+                };
+
+                return me.readData().then((data) => {
+                    return new Promise<any>((resolve, reject) => {
+                        try {
+                            metadata = toFileMetadata(JSON.parse(data.toString(DEFAULT_ENCODING)));
+
+                            let prepareTarget: Promise<any>;
+                            if (isDirectory) {
+                                // keep file inside the directory
+                                path = Path.join(path, metadata.name);
+
+                                // do not write through a link
+                                prepareTarget = removeLink(path, false);
+                            }
+                            else {
+                                prepareTarget = Promise.resolve();
+                            }
+
+                            prepareTarget.then(() => {
+                                FS.open(path, flags, (err, fd) => {
+                                    if (err) {
+                                        reject(err);
+                                    }
+                                    else {
+                                        fdTarget = fd;
+
+                                        resolve();
+                                    }
+                                });
+                            }, (err) => {
+                                reject(err);
+                            });
+                        }
+                        catch (e) {
+                            reject(e);
+                        }
+                    }).then(() => {
+                        return sendAnswer();
+                    }, (err) => {
+                        return sendAnswer(err);
+                    });
+                }).then(() => {
+                    let tracker = me.createProgressTracker('read', fdTarget, opts);
+                    tracker.total = metadata.size;
+
+                    return me.receiveStream(fdTarget, opts.resume, tracker).then((result) => {
+                        bytesWritten = result;
+
+                        return hashFile(fdTarget, metadata.size, me.getReadBufferSize()).then((hash) => {
+                            if (!hash || hash.toString('hex') !== metadata.hash) {
+                                throw new ssocket_errors.IntegrityError('Content of file does not match its hash!');
+                            }
+
+                            // no setuid, setgid and sticky bits of the remote
+                            return invokeFS<any>(FS.fchmod, fdTarget, metadata.mode & 0o777);
+                        }).then(() => {
+                            let mtime = metadata.mtime / 1000;
+
+                            return invokeFS<any>(FS.futimes, fdTarget, mtime, mtime);
+                        }).then(() => {
+                            return sendAnswer();
+                        }, (err) => {
+                            return sendAnswer(err);
+                        });
+                    }).then(() => {
+                        return invokeFS<any>(FS.close, fdTarget);
+                    }, (err) => {
+                        FS.close(fdTarget, () => {});
+
+                        throw err;
+                    });
+                }).then(() => {
+                    me.emit('file.metadata',
+                            metadata, path);
+
+                    return bytesWritten;
+                });
+            });
+        });
+    }
+
+    /**
+     * Reads a crypted message while a handshake.
+     * 
+     * @param {Buffer} pwd The password.
+     * 
+     * @return {Promise<any>} The promise.
+     */
+    protected readHandshakeMessage(pwd: Buffer): Promise<any> {
+        let me = this;
+
+        return ssocket_helpers.readSocket(me.socket, 4).then((buff) => {
+            let messageLength = buff.readUInt32LE(0);
+            if (messageLength < 1 || messageLength > MAX_HANDSHAKE_MESSAGE_SIZE) {
+                throw new Error('Invalid handshake message size: ' + messageLength);
+            }
+
+            return ssocket_helpers.readSocket(me.socket, messageLength);
+        }).then((cryptedMessage) => {
+            return JSON.parse(me.decryptData(cryptedMessage, pwd)
+                                .toString(DEFAULT_ENCODING));
+        });
+    }
+
+    /**
+     * Reads data as JSON object.
+     * 
+     * @param {OperationOptions} [opts] Additional options, like a timeout.
+     * 
+     * @return {Promise<T>} The promise.
+     */
+    public readJSON<T>(opts?: OperationOptions): Promise<T> {
+        let me = this;
+        
+        return new Promise<T>((resolve, reject) => {
+            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            try {
+                me.readString(opts).then((json) => {
+                    try {
+                        let obj: T;
+
+                        if (ssocket_helpers.isNullOrUndefined(json)) {
+                            obj = <any>json;
+                        }
+                        else {
+                            obj = JSON.parse(json);
+                        }
+
+                        completed(null, obj);
+                    }
+                    catch (e) {
+                        completed(e);
+                    }
+                }, (err) => {
+                    completed(err);
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+
+    /**
+     * Reads the next package from the remote.
+     * 
+     * @param {Buffer} pwd The password of the session.
+     * 
+     * @param {Promise<ReceivedPackage>} The promise.
+     */
+    protected readPackage(pwd: Buffer): Promise<ReceivedPackage> {
+        let me = this;
+
+        return new Promise<ReceivedPackage>((resolve, reject) => {
+            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            try {
+                ssocket_helpers.readSocket(me.socket, 4).then((buff) => {
+                    try {
+                        let dataLength = buff.readUInt32LE(0);
+                        if (dataLength <= me.getMaxPackageSize()) {
+                            if (dataLength < 1) {
+                                completed(null, {
+                                    data: Buffer.alloc(0),
+                                    type: PACKAGE_TYPE_DATA,
+                                });
+                            }
+                            else {
+                                ssocket_helpers.readSocket(me.socket, dataLength).then((cryptedData) => {
+                                    try {
+                                        let uncryptedData = me.decryptData(cryptedData, pwd);
+
+                                        let packageType = PACKAGE_TYPE_DATA;
+                                        if (me.hasPackageTypes()) {
+                                            packageType = uncryptedData.readUInt8(0) & 0x7F;
+
+                                            if (PACKAGE_TYPE_REKEY === packageType) {
+                                                // remote has renewed its key
+                                                me.renewReceiveKey(pwd);
+
+                                                // continue with next package
+                                                me.readPackage(pwd).then((pkg) => {
+                                                    completed(null, pkg);
+                                                }, (err) => {
+                                                    completed(err);
+                                                });
+                                                return;
+                                            }
+                                        }
+
+                                        let isCompressed = uncryptedData.readUInt8(0) > 127;
+
+                                        let codec = ssocket_codecs.getCodec('gzip');
+                                        let headerSize = 1;
+                                        let isContextReset = false;
+                                        let isContextUsed = false;
+                                        if (isCompressed && me.supportsFeature(FEATURE_CODECS)) {
+                                            // codec is sent after the type
+                                            let codecId = uncryptedData.readUInt8(1);
+
+                                            codec = ssocket_codecs.getCodec(codecId);
+                                            if (!codec) {
+                                                completed(new Error('Data has been compressed by an unknown codec: ' + codecId));
+                                                return;
+                                            }
+
+                                            headerSize = 2;
+
+                                            if (me.supportsFeature(FEATURE_CONTEXT)) {
+                                                if (codec.name !== me.negotiated.codec) {
+                                                    completed(new Error('Data has been compressed by an unexpected codec: ' + codec.name));
+                                                    return;
+                                                }
+
+                                                // followed by the flags of the compression context
+                                                isContextReset = 1 === (uncryptedData.readUInt8(2) & 1);
+                                                isContextUsed = true;
+
+                                                headerSize = 3;
+                                            }
+                                        }
+
+                                        let compressedData = Buffer.alloc(uncryptedData.length - headerSize);
+                                        uncryptedData.copy(compressedData, 0, headerSize);
+
+                                        let untransformData = (transformedData: Buffer) => {
+                                            let transformerPromise = asDataTransformerPromise(me.dataTransformer,
+                                                                                              DataTransformerDirection.Restore,
+                                                                                              transformedData);
+
+                                            transformerPromise.then((untransformedData) => {
+                                                completed(null, {
+                                                    data: untransformedData,
+                                                    type: packageType,
+                                                });
+                                            }, (err) => {
+                                                completed(err);
+                                            });
+                                        };
+
+                                        if (isContextUsed) {
+                                            me.getDecompressContext(codec).process(compressedData, isContextReset).then((output) => {
+                                                untransformData(output.data);
+                                            }, (err) => {
+                                                completed(err);
+                                            });
+                                        }
+                                        else if (isCompressed) {
+                                            codec.decompress(compressedData).then((uncompressedData) => {
+                                                untransformData(uncompressedData);
+                                            }, (err) => {
+                                                completed(err);
+                                            });
+                                        }
+                                        else {
+                                            // not compressed
+                                            untransformData(compressedData);
+                                        }
+                                    }
+                                    catch (e) {
+                                        completed(e);
+                                    }
+                                }, (err) => {
+                                    completed(err);
+                                });
+                            }
+                        }
+                        else {
+                            completed(null, {
+                                data: null,  // maximum reached
+                                type: PACKAGE_TYPE_DATA,
+                            });
+                        }
+                    }
+                    catch (e) {
+                        completed(e);
+                    }
+                }, (err) => {
+                    completed(err);
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+
+    /**
+     * Gets the number of 'read()' calls, which are running or waiting.
+     */
+    public get readQueueLength(): number {
+        return this._readQueue.length;
+    }
+
+    /**
+     * Reads data from remote and writes it to a stream on this machine.
+     * 
+     * @param {number} fdTarget The stream pointer of the target.
+     * @param {TransferOptions} [opts] Additional options, like a timeout.
+     * 
+     * @return {Promise<number>} The promise.
+     */
+    public readStream(fdTarget: number, opts?: TransferOptions): Promise<number> {
+        let me = this;
+
+        return runOperation('readStream()', opts, me.getReadTimeout(), (ctx) => {
+            return me.exclusive(() => {
+                if (ctx.isCancelled) {
+                    return Promise.resolve(0);  // nobody waits anymore
+                }
+
+                ctx.onCancel(() => {
+                    me.cancelTransfer();
+                });
+
+                return me.receiveStream(fdTarget, opts && opts.resume,
+                                        me.createProgressTracker('read', fdTarget, opts));
+            });
+        });
+    }
+
+    /**
+     * Reads data as string.
+     * 
+     * @param {OperationOptions} [opts] Additional options, like a timeout.
+     * 
+     * @return {Promise<string>} The promise.
+     */
+    public readString(opts?: OperationOptions): Promise<string> {
+        let me = this;
+        
+        return new Promise<string>((resolve, reject) => {
+            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            try {
+                me.read(opts).then((buff) => {
+                    try {
+                        if (buff) {
+                            completed(null, 
+                                      buff.toString(me.getEncoding()));
+                        }
+                        else {
+                            completed(null, null);
+                        }
+                    }
+                    catch (e) {
+                        completed(e);
+                    }
+                }, (err) => {
+                    completed(err);
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+
+    /**
+     * The default time in milliseconds, an operation, which reads data,
+     * like 'read()' or 'readFile()', can take. A value of 0 means that there is no limit.
+     */
+    public readTimeout = DefaultReadTimeout;
+
+    /**
+     * Reads a value, which has been sent by 'writeValue()'.
+     * 
+     * @param {OperationOptions} [opts] Additional options, like a timeout.
+     * 
+     * @return {Promise<T>} The promise.
+     */
+    public readValue<T>(opts?: OperationOptions): Promise<T> {
+        let me = this;
+
+        return new Promise<T>((resolve, reject) => {
+            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            try {
+                me.read(opts).then((data) => {
+                    try {
+                        let value: T;
+
+                        if (ssocket_helpers.isNullOrUndefined(data)) {
+                            value = <any>data;
+                        }
+                        else {
+                            value = me.getSerializer().deserialize(data);
+                        }
+
+                        completed(null, value);
+                    }
+                    catch (e) {
+                        completed(e);
+                    }
+                }, (err) => {
+                    completed(err);
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+
+    /**
+     * Receives the next package from the remote, if there is someone
+     * who waits for it, and handles it.
+     */
+    protected receive() {
+        let me = this;
+
+        if (me._isReceivingPackage) {
+            return;  // already running
+        }
+
+        if (!me.isReceiveRequired()) {
+            return;  // nobody waits for data
+        }
+
+        let rpc = me._rpc;
+
+        me._isReceivingPackage = true;
+
+        let receiveCompleted = (err: any, pkg?: ReceivedPackage) => {
+            me._isReceivingPackage = false;
+
+            if (!err) {
+                try {
+                    me.handlePackage(pkg);
+                }
+                catch (e) {
+                    err = e;
+                }
+            }
+
+            if (err) {
+                let readers = me._readers;
+                me._readers = [];
+
+                let hasRunningCalls = rpc && rpc.isActive;
+
+                readers.forEach((r) => {
+                    r(err);
+                });
+                if (rpc) {
+                    rpc.rejectAll(err);
+                }
+
+                if (readers.length < 1 && !hasRunningCalls && !me._isClosed) {
+                    me.emit('error', err);
+                }
+            }
+            else {
+                // continue with next package
+                me.receive();
+            }
+        };
+
+        me.makeHandshakeIfNeeded().then((pwd) => {
+            return me.readPackage(pwd);
+        }).then((pkg) => {
+            receiveCompleted(null, pkg);
+        }, (err) => {
+            receiveCompleted(err);
+        });
+    }
+
+    /**
+     * Receives the chunks of a stream from the remote (without queue)
+     * and writes them to a stream on this machine.
+     * 
+     * If the remote supports it, one answer is sent for several chunks:
+     * each time a quarter of the window of the remote is used, and at the end of the stream.
+     * 
+     * @param {number} fdTarget The stream pointer of the target.
+     * @param {boolean} [resume] Continue a transfer, which has been broken before, or not.
+     * @param {ssocket_progress.ProgressTracker} [tracker] The tracker for the progress.
+     * 
+     * @return {Promise<number>} The promise.
+     */
+    protected receiveStream(fdTarget: number, resume?: boolean,
+                            tracker?: ssocket_progress.ProgressTracker): Promise<number> {
+        let me = this;
+
+        return new Promise<number>((resolve, reject) => {
+            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            try {
+                let bytesWritten = 0;
+                let position: number = null;
+
+                let failure: any;
+                let chunksToAnswer = 0;
+                let answerAfter = 1;
+
+                let writeChunk = (chunk: Buffer, hash: Buffer, windowSize: number): Promise<any> => {
+                    if (failure) {
+                        return Promise.resolve();  // skip
+                    }
+
+                    if (!isNaN(windowSize)) {
+                        answerAfter = Math.max(1,
+                                               Math.min(MAX_UNANSWERED_CHUNKS, Math.ceil(windowSize / 4)));
+                    }
+
+                    // write to stream
+                    return new Promise<any>((res, rej) => {
+                        FS.write(fdTarget, chunk, 0, chunk.length, position, (err, written) => {
+                            if (err) {
+                                rej(err);
+                            }
+                            else {
+                                if (written > 0) {
+                                    bytesWritten += written;
+
+                                    if (null !== position) {
+                                        position += written;
+                                    }
+                                }
+
+                                me.emit('stream.read',
+                                        fdTarget, chunk, written, hash);
+
+                                if (tracker) {
+                                    tracker.update(written);
+                                }
+
+                                res();
+                            }
+                        });
+                    });
+                };
+
+                // one answer for each chunk
+                let nextChunk = () => {
+                    me.readChunk(writeChunk).then((chunk) => {
+                        if (chunk) {
+                            nextChunk();
+                        }
+                        else {
+                            // no more data
+                            completed(null, bytesWritten);
+                        }
+                    }, (err) => {
+                        completed(err);
+                    });
+                };
+
+                let sendWindowAnswer = (err?: any): Promise<any> => {
+                    let answer: any = {
+                        acked: chunksToAnswer,
+                    };
+                    if (err) {
+                        answer.error = ssocket_helpers.toStringSafe(err);
+                    }
+
+                    chunksToAnswer = 0;
+
+                    return me.writePackage(PACKAGE_TYPE_DATA, JSON.stringify(answer));
+                };
+
+                // one answer for several chunks
+                let nextWindowChunk = () => {
+                    me.readChunk(writeChunk, false).then((chunk) => {
+                        if (!chunk) {
+                            // no more data
+                            if (failure) {
+                                completed(failure);  // has already been answered
+                            }
+                            else if (chunksToAnswer > 0) {
+                                // answer the rest
+                                sendWindowAnswer().then(() => {
+                                    completed(null, bytesWritten);
+                                }, (err) => {
+                                    completed(err);
+                                });
+                            }
+                            else {
+                                completed(null, bytesWritten);
+                            }
+
+                            return;
+                        }
+
+                        if (failure) {
+                            nextWindowChunk();  // skip until the end
+                            return;
+                        }
+
+                        ++chunksToAnswer;
+
+                        if (chunksToAnswer >= answerAfter) {
+                            sendWindowAnswer().then(() => {
+                                nextWindowChunk();
+                            }, (err) => {
+                                completed(err);
+                            });
+                        }
+                        else {
+                            nextWindowChunk();
+                        }
+                    }, (err) => {
+                        if (me._isClosed) {
+                            completed(err);
+                            return;
+                        }
+
+                        if (failure) {
+                            nextWindowChunk();  // skip until the end
+                            return;
+                        }
+
+                        failure = err;
+
+                        sendWindowAnswer(err).then(() => {
+                            nextWindowChunk();
+                        }, () => {
+                            completed(err);
+                        });
+                    });
+                };
+
+                let startReceiving = () => {
+                    if (me.supportsFeature(FEATURE_WINDOW)) {
+                        nextWindowChunk();
+                    }
+                    else {
+                        nextChunk();
+                    }
+                };
+
+                me.makeHandshakeIfNeeded().then(() => {
+                    if (resume) {
+                        return me.offerResume(fdTarget).then((offset) => {
+                            position = offset;
+
+                            me.emit('stream.resume',
+                                    fdTarget, offset);
+
+                            if (tracker) {
+                                tracker.start(offset);
+                            }
+                        });
+                    }
+                }).then(() => {
+                    startReceiving();
+                }, (err) => {
+                    completed(err);
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+
+    /**
+     * The number of messages, which are buffered by the receive loop,
+     * before it stops receiving data from the remote.
+     */
+    public receiveHighWaterMark = DefaultReceiveHighWaterMark;
+
+    /**
+     * Registers a method, which can be called by the remote via 'call()'.
+     * 
+     * @param {string} name The name of the method.
+     * @param {RPCHandler} handler The method.
+     */
+    public registerMethod(name: string, handler: ssocket_rpc.RPCHandler) {
+        this.getRPC().registerMethod(name, handler);
+
+        // wait for requests
+        this.receive();
+    }
+
+    /**
+     * The number of bytes, after that the key for sending data is renewed.
+     */
+    public rekeyAfterBytes = DefaultRekeyAfterBytes;
+
+    /**
+     * The number of packages, after that the key for sending data is renewed.
+     */
+    public rekeyAfterMessages = DefaultRekeyAfterMessages;
+
+    /**
+     * Creates a package, which tells the remote that the key for sending data
+     * is renewed, if one of the limits has been reached.
+     * 
+     * @param {Buffer} pwd The password of the session.
+     * 
+     * @return {Buffer} The package (with its length) or (null) if no new key is required.
+     */
+    protected rekeyIfNeeded(pwd: Buffer): Buffer {
+        let me = this;
+
+        if (!isAEADAlgorithm(me.getAlgorithm()) ||
+            me.negotiated.features.indexOf(FEATURE_REKEY) < 0) {
+            return null;
+        }
+
+        let keys = me.getSessionKeys(pwd);
+
+        let afterBytes = me.getRekeyLimit(me.rekeyAfterBytes, DefaultRekeyAfterBytes);
+        let afterMessages = me.getRekeyLimit(me.rekeyAfterMessages, DefaultRekeyAfterMessages);
+        let interval = me.getRekeyLimit(me.rekeyInterval, DefaultRekeyInterval);
+
+        let reason: string;
+        if (afterBytes > 0 && keys.sentBytes >= afterBytes) {
+            reason = 'bytes';
+        }
+        else if (afterMessages > 0 && keys.sentMessages >= afterMessages) {
+            reason = 'messages';
+        }
+        else if (interval > 0 && (Date.now() - keys.lastRekey) >= interval) {
+            reason = 'time';
+        }
+
+        if (!reason) {
+            return null;
+        }
+
+        let packageType = Buffer.alloc(1);
+        packageType.writeUInt8(PACKAGE_TYPE_REKEY, 0);
+
+        // the last package with the old key
+        let rekeyPackage = me.encryptData(packageType, pwd);
+
+        let packageLength = Buffer.alloc(4);
+        packageLength.writeUInt32LE(rekeyPackage.length, 0);
+
+        keys.lastRekey = Date.now();
+        keys.send = renewSecret(keys.send);
+        keys.sentBytes = 0;
+        keys.sentMessages = 0;
+        ++keys.sendGeneration;
+
+        if (me._compressContext) {
+            // the next compressed package starts a new context
+            me._compressContext.reset();
+        }
+
+        me.emit('rekey',
+                'send', keys.sendGeneration, reason);
+
+        return Buffer.concat([ packageLength, rekeyPackage ]);
+    }
+
+    /**
+     * The time in milliseconds, after that the key for sending data is renewed.
+     */
+    public rekeyInterval = DefaultRekeyInterval;
+
+    /**
+     * Removes a channel, after it has been closed.
+     * 
+     * @param {Channel} channel The channel.
+     * @param {any} [err] The error for the calls, which wait for data of the channel.
+     */
+    protected removeChannel(channel: Channel, err?: any) {
+        let me = this;
+
+        if (me._channels[channel.name] !== channel) {
+            return;  // already removed
+        }
+
+        delete me._channels[channel.name];
+
+        channel.handleClose(err || new Error(`Channel '${channel.name}' has been closed!`));
+
+        if (err) {
+            channel.emit('close');
+        }
+    }
+
+    /**
+     * Renews the key for receiving data, after the remote has renewed its key.
+     * 
+     * @param {Buffer} pwd The password of the session.
+     */
+    protected renewReceiveKey(pwd: Buffer) {
+        let keys = this.getSessionKeys(pwd);
+
+        keys.receive = renewSecret(keys.receive);
+        ++keys.receiveGeneration;
+
+        this.emit('rekey',
+                  'receive', keys.receiveGeneration);
+    }
+
+    /**
+     * The RSA key size.
+     */
+    public rsaKeySize = DefaultRSAKeySize;
+
+    /**
+     * Gets the fingerprint of the identity key, the remote has presented while the handshake.
+     */
+    public get remoteFingerprint(): string {
+        return this._remoteFingerprint;
+    }
+
+    /**
+     * Sends the next heartbeat to the remote
+     * or closes the connection, if the remote has not answered the last ones.
+     */
+    protected sendHeartbeat() {
+        let me = this;
+
+        if (me._isClosed || !isSocketWritable(me.socket)) {
+            // no heartbeats, which are not requested by
+            // the application, to a closed connection
+            me.stopHeartbeat();
+            return;
+        }
+
+        if (me._pingTime && me.isReceiveRequired()) {
+            // no answer since last ping
+            // and we were able to receive it
+            ++me._heartbeatMisses;
+        }
+
+        let maxMisses = me.getHeartbeatMaxMisses();
+        if (me._heartbeatMisses >= maxMisses) {
+            let timeout = me.getHeartbeatInterval() * maxMisses;
+
+            me.stopHeartbeat();
+
+            me._closeError = new ssocket_errors.TimeoutError(`Remote has not answered ${maxMisses} heartbeat(s)!`,
+                                                             timeout);
+            me._closeReason = 'timeout';
+
+            me.socket.destroy();
+            return;
+        }
+
+        me._pingId = (me._pingId + 1) % 0x100000000;
+        me._pingTime = Date.now();
+
+        let ping = Buffer.alloc(4);
+        ping.writeUInt32LE(me._pingId, 0);
+
+        me.writePackage(PACKAGE_TYPE_PING, ping).then(() => {
+        }, (err) => {
+            // connection is closed
+        });
+
+        me.receive();  // wait for answer
+    }
+
+    /**
+     * Signs the handshake with the identity key and sends it to the client (SERVER side).
+     * 
+     * @return {Promise<any>} The promise.
+     */
+    protected sendIdentity(): Promise<any> {
+        let me = this;
+
+        return new Promise<any>((resolve, reject) => {
+            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            try {
+                if (me.negotiated.features.indexOf(FEATURE_IDENTITY) < 0) {
+                    completed(null);  // no identity
+                    return;
+                }
+
+                let signed = ssocket_identity.signTranscript(me.identityKey,
+                                                             getTranscriptHash(me._transcript));
+
+                let publicKeyLength = Buffer.alloc(2);
+                publicKeyLength.writeUInt16LE(signed.publicKey.length, 0);
+
+                let signatureLength = Buffer.alloc(2);
+                signatureLength.writeUInt16LE(signed.signature.length, 0);
+
+                ssocket_helpers.writeSocket(me.socket,
+                                            Buffer.concat([ publicKeyLength, signed.publicKey,
+                                                            signatureLength, signed.signature ])).then(() => {
+                    completed(null);
+                }, (err) => {
+                    completed(err);
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+
+    /**
+     * Sends the data of a stream to the remote as chunks (without queue).
+     * 
+     * If the remote supports it, several chunks are sent before their answers are received.
+     * 
+     * @param {number} fdSrc The stream pointer from where to read.
+     * @param {number} maxSize The maximum number of bytes to send.
+     * @param {number} bufferSize The buffer size for the read operation(s).
+     * @param {TransferOptions} [opts] The options of the transfer.
+     * @param {ssocket_progress.ProgressTracker} [tracker] The tracker for the progress.
+     * 
+     * @return {Promise<number>} The promise.
+     */
+    protected sendStream(fdSrc: number, maxSize: number, bufferSize: number, opts?: TransferOptions,
+                         tracker?: ssocket_progress.ProgressTracker): Promise<number> {
+        let me = this;
+
+        if (!opts) {
+            opts = {};
+        }
+
+        let contentType = opts.contentType;
+        let limiter = me.getRateLimiter(opts);
+        let windowSize = me.getStreamWindowSize(opts);
+
+        return new Promise<number>((resolve, reject) => {
+            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            try {
+                let remainingBytes = maxSize;
+                let bytesCount = 0;
+                let position: number = null;
+
+                // sizes of the chunks, which wait for an answer
+                let chunksInFlight: number[] = [];
+
+                let readNextChunk = (): Promise<Buffer> => {
+                    return new Promise<Buffer>((res, rej) => {
+                        let buffer = Buffer.alloc(bufferSize);
+
+                        let bytesToRead: number;
+                        if (isNaN(remainingBytes)) {
+                            bytesToRead = buffer.length;
+                        }
+                        else {
+                            if (remainingBytes < 1) {
+                                remainingBytes = 0;
+                            }
+
+                            bytesToRead = remainingBytes;
+                            bytesToRead = Math.min(bytesToRead, buffer.length);
+                        }
+
+                        if (bytesToRead < 1) {
+                            res(Buffer.alloc(0));  // nothing more to send
+                            return;
+                        }
+
+                        FS.read(fdSrc, buffer, 0, bytesToRead, position, (err, bytesRead) => {
+                            if (err) {
+                                rej(err);
+                                return;
+                            }
+
+                            let chunk: Buffer;
+                            if (bytesRead > 0) {
+                                chunk = Buffer.alloc(bytesRead);
+                                buffer.copy(chunk, 0, 0, bytesRead);
+                            }
+                            else {
+                                chunk = Buffer.alloc(0);
+                            }
+
+                            if (ssocket_helpers.isNullOrUndefined(contentType) && chunk.length > 0) {
+                                contentType = ssocket_codecs.detectContentType(chunk) || '';
+                            }
+
+                            bytesCount += chunk.length;
+                            remainingBytes -= chunk.length;
+
+                            if (null !== position) {
+                                position += chunk.length;
+                            }
+
+                            res(chunk);
+                        });
+                    });
+                };
+
+                let waitForLimiter = (chunk: Buffer): Promise<any> => {
+                    if (limiter) {
+                        return limiter.acquire(chunk.length);
+                    }
+
+                    return Promise.resolve();
+                };
+
+                let chunksAnswered = (count: number) => {
+                    while (count-- > 0 && chunksInFlight.length > 0) {
+                        let chunkSize = chunksInFlight.shift();
+
+                        if (tracker) {
+                            tracker.update(chunkSize);
+                        }
+                    }
+                };
+
+                // one chunk after another
+                let nextChunk = () => {
+                    readNextChunk().then((chunk) => {
+                        return waitForLimiter(chunk).then(() => {
+                            return me.writeChunk(chunk, contentType);
+                        }).then((hash) => {
+                            me.emit('stream.write',
+                                    fdSrc, remainingBytes, chunk, hash);
+
+                            if (chunk.length > 0) {
+                                chunksInFlight.push(chunk.length);
+                                chunksAnswered(1);
+
+                                nextChunk();
+                            }
+                            else {
+                                completed(null, bytesCount);  // we have finished
+                            }
+                        });
+                    }).then(null, (err) => {
+                        completed(err);
+                    });
+                };
+
+                // tell the remote that there is no more data, after an error
+                let abortWindow = (err: any) => {
+                    me.writeChunkBlock(Buffer.alloc(0)).then(() => {
+                        completed(err);
+                    }, () => {
+                        completed(err);
+                    });
+                };
+
+                // wait for the answers of the rest, after the end has been sent
+                let waitForRest = () => {
+                    if (chunksInFlight.length < 1) {
+                        completed(null, bytesCount);  // we have finished
+                        return;
+                    }
+
+                    me.readChunkAnswer().then((count) => {
+                        chunksAnswered(count);
+
+                        waitForRest();
+                    }, (err) => {
+                        completed(err);  // the remote has the end already
+                    });
+                };
+
+                let finishWindow = () => {
+                    let lastChunk = Buffer.alloc(0);
+
+                    me.writeChunkBlock(lastChunk).then((hash) => {
+                        me.emit('stream.write',
+                                fdSrc, remainingBytes, lastChunk, hash);
+
+                        waitForRest();
+                    }, (err) => {
+                        completed(err);
+                    });
+                };
+
+                // several chunks, which wait for their answers
+                let nextWindowChunk = () => {
+                    if (chunksInFlight.length >= windowSize ||
+                        (chunksInFlight.length > 0 && me._receivedData.length > 0)) {
+                        // window is full or answers are available
+                        me.readChunkAnswer().then((count) => {
+                            chunksAnswered(count);
+
+                            nextWindowChunk();
+                        }, abortWindow);
+
+                        return;
+                    }
+
+                    readNextChunk().then((chunk) => {
+                        if (chunk.length < 1) {
+                            finishWindow();
+                            return;
+                        }
+
+                        waitForLimiter(chunk).then(() => {
+                            // the remote answers, each time a quarter of the window is used
+                            return me.writeChunkBlock(chunk, contentType, windowSize);
+                        }).then((hash) => {
+                            chunksInFlight.push(chunk.length);
+
+                            me.emit('stream.write',
+                                    fdSrc, remainingBytes, chunk, hash);
+
+                            nextWindowChunk();
+                        }, (err) => {
+                            completed(err);
+                        });
+                    }, (err) => {
+                        completed(err);
+                    });
+                };
+
+                let startSending = () => {
+                    if (me.supportsFeature(FEATURE_WINDOW)) {
+                        nextWindowChunk();
+                    }
+                    else {
+                        nextChunk();
+                    }
+                };
+
+                me.makeHandshakeIfNeeded().then(() => {
+                    if (opts.resume) {
+                        return me.answerResume(fdSrc, maxSize, bufferSize).then((offset) => {
+                            position = offset;
+                            remainingBytes -= offset;
+
+                            me.emit('stream.resume',
+                                    fdSrc, offset);
+
+                            if (tracker) {
+                                tracker.start(offset);
+                            }
+                        });
+                    }
+                }).then(() => {
+                    startSending();
+                }, (err) => {
+                    completed(err);
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+
+    /**
+     * The serializer for 'writeValue()' and 'readValue()'.
+     */
+    public serializer = DefaultSerializer;
+
+    /**
+     * Describes which identities of a server are trusted (CLIENT side).
+     */
+    public serverTrust: ServerTrustOptions;
+
+    /**
+     * Sets up the events.
+     */
+    protected setupEvents() {
+        let me = this;
+
+        // the answers of the chunks of a stream are small packages,
+        // which must not wait until the ones before have been acknowledged
+        me.socket.setNoDelay(true);
+        
+        me.socket.on('error', (err) => {
+            me.stopHeartbeat();
+
+            if (err) {
+                me.emit('error',
+                        err);
+            }
+        });
+
+        me.socket.on('end', () => {
+            // remote will not answer anymore
+            me.stopHeartbeat();
+        });
+
+        me.socket.on('close', () => {
+            let err = me._closeError || new Error('Connection has been closed!');
+
+            me.handleClose(err);
+
+            if (me._rpc) {
+                me._rpc.rejectAll(err);
+            }
+
+            Object.keys(me._channels).forEach((name) => {
+                me.removeChannel(me._channels[name], err);
+            });
+
+            me.emit('close',
+                    me._closeReason);
+        });
+    }
+
+    /**
+     * Gets the wrapped socket.
+     * 
+     * @return {Net.Socket} The wrapped socket.
+     */
+    public get socket(): Net.Socket {
+        return this._socket;
+    }
+
+    /**
+     * Starts sending heartbeats to the remote, if 'heartbeatInterval' is set
+     * and the remote supports them.
+     * 
+     * This is done automatically after the handshake.
+     * 
+     * @return {boolean} Heartbeats are sent or not.
+     */
+    public startHeartbeat(): boolean {
+        let me = this;
+
+        if (me._heartbeatTimer) {
+            return true;  // already running
+        }
+
+        let interval = me.getHeartbeatInterval();
+        if (interval < 1 || me._isClosed || !me._negotiated ||
+            me._negotiated.features.indexOf(FEATURE_HEARTBEAT) < 0) {
+            return false;
+        }
+
+        me._heartbeatMisses = 0;
+        me._pingTime = null;
+
+        me._heartbeatTimer = setInterval(() => {
+            me.sendHeartbeat();
+        }, interval);
+
+        me.receive();  // answer the pings of the remote
+        return true;
+    }
+
+    /**
+     * Starts the receive loop, which receives data from the remote, even if nobody
+     * calls 'read()', and emits a 'message' event for each package, if there are listeners.
+     * 
+     * Without listeners, received data is buffered, until it is read
+     * (s. 'receiveHighWaterMark').
+     */
+    public startReceiving() {
+        this._receiveLoop = true;
+
+        this.receive();
+    }
+
+    /**
+     * Stops sending heartbeats to the remote.
+     */
+    public stopHeartbeat() {
+        let timer = this._heartbeatTimer;
+        if (timer) {
+            this._heartbeatTimer = null;
+
+            clearInterval(timer);
+        }
+    }
+
+    /**
+     * Stops the receive loop after the current package.
+     */
+    public stopReceiving() {
+        this._receiveLoop = false;
+    }
+
+    /**
+     * The number of chunks of a stream, which are sent before waiting for an answer.
+     */
+    public streamWindowSize = DefaultStreamWindowSize;
+
+    /**
+     * Checks if a feature is supported by both sides.
+     * 
+     * @param {string} feature The feature.
+     * 
+     * @return {boolean} Is supported or not.
+     */
+    protected supportsFeature(feature: string): boolean {
+        let negotiated = this.negotiated;
+
+        return negotiated && negotiated.features &&
+               negotiated.features.indexOf(feature) > -1;
+    }
+
+    /**
+     * Gets the socket type.
+     */
+    public get type(): SocketType {
+        return this._type;
+    }
+
+    /**
+     * Tries to compress data.
+     * 
+     * @param {any} data The data to compress.
+     * @param {string} [contentType] The content type of the data. If not defined, it is detected from the data.
+     * 
+     * @return {Promise<CompressionResult>} The promise.
+     */
+    protected tryCompress(data: any, contentType?: string): Promise<CompressionResult> {
+        let me = this;
+        
+        return new Promise<CompressionResult>((resolve, reject) => {
+            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            try {
+                let uncompressedData = ssocket_helpers.asBuffer(data);
+
+                let result: CompressionResult = {
+                    data: uncompressedData,
+                    isCompressed: false,
+                    uncompressed: uncompressedData,
+                };
+
+                let returnResult = () => {
+                    completed(null, result);
+                };
+                
+                if (ssocket_helpers.isNullOrUndefined(uncompressedData)) {
+                    returnResult();
+                    return;
+                }
+
+                if (!ssocket_helpers.toBooleanSafe(me.compress, true)) {
+                    returnResult();  // do not compress
+                    return;
+                }
 
-        return result;
-    }
+                let codec = ssocket_codecs.getCodec(me.negotiated ? me.negotiated.codec : 'gzip');
+                if (!codec || 'none' === codec.name) {
+                    returnResult();  // remote does not want compressed data
+                    return;
+                }
 
-    /**
-     * A custom function that transforms the handshake
-     * public key before it is send or after it has been received.
-     */
-    public handshakeTransformer = DefaultHandshakeTransformer;
+                if ('gzip' !== codec.name && !me.supportsFeature(FEATURE_CODECS)) {
+                    returnResult();  // remote knows 'gzip' only
+                    return;
+                }
 
-    /**
-     * Makes a CLIENT handshake.
-     * 
-     * @param {Promise<Buffer>} The promise.
-     */
-    protected makeClientHandshake(): Promise<Buffer> {
-        let me = this;
-        
-        return new Promise<Buffer>((resolve, reject) => {
-            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+                let isForced = ssocket_helpers.toBooleanSafe(me.compress);
+                let useContext = me.supportsFeature(FEATURE_CONTEXT);
 
-            try {
-                let keySize = parseInt(ssocket_helpers.toStringSafe(me.rsaKeySize).trim());
-                if (isNaN(keySize)) {
-                    keySize = me.getRSAKeySize();
+                if (!isForced) {
+                    // with a context, small data is compressed
+                    // by the data, which has been sent before
+                    let threshold = parseInt(ssocket_helpers.toStringSafe(me.compressionThreshold).trim());
+                    if (!useContext && uncompressedData.length < threshold) {
+                        returnResult();  // too small
+                        return;
+                    }
+
+                    if (ssocket_helpers.isNullOrUndefined(contentType)) {
+                        contentType = ssocket_codecs.detectContentType(uncompressedData);
+                    }
+
+                    if (ssocket_codecs.isContentTypeMatching(contentType, me.compressionSkipTypes)) {
+                        returnResult();  // already compressed, like an image
+                        return;
+                    }
                 }
 
-                me.emit('rsakey.generating', keySize);
+                if (useContext &&
+                    (uncompressedData.length + (uncompressedData.length >> 3) + 1024) > me.getMaxPackageSize()) {
+                    returnResult();  // compressed data might be too big
+                    return;
+                }
 
-                let keys = RSA({
-                    b: keySize,
-                });
+                let startTime = Date.now();
 
-                me.emit('rsakey.generated', keys);
+                let compress: Promise<ssocket_codecs.CompressionContextOutput>;
+                if (useContext) {
+                    compress = me.getCompressContext(codec).process(uncompressedData);
+                }
+                else {
+                    compress = codec.compress(uncompressedData, me.getCompressionLevel()).then((compressedData) => {
+                        return {
+                            data: compressedData,
+                            isReset: false,
+                        };
+                    });
+                }
 
-                let untransformerPublicKey = new Buffer(ssocket_helpers.toStringSafe(keys.exportKey('public')),
-                                                        me.getEncoding());
+                compress.then((output) => {
+                    let compressedData = output.data;
 
-                let transformerPromise = asDataTransformerPromise(me.handshakeTransformer,
-                                                                  DataTransformerDirection.Transform,
-                                                                  untransformerPublicKey);
+                    result.compressed = compressedData;
 
-                transformerPromise.then((publicKey) => {
-                    let publicKeyLength = Buffer.alloc(4);
-                    publicKeyLength.writeUInt32LE(publicKey.length, 0);
+                    if (compressedData.length < uncompressedData.length || isForced || useContext) {
+                        // compressed data is smaller,
+                        // compression is forced or
+                        // the remote expects the data to update its context
 
-                    // first send length of public key data
-                    me.socket.write(publicKeyLength, (err) => {
-                        if (err) {
-                            completed(err);
-                            return;
-                        }
+                        result.codec = codec;
+                        result.data = result.compressed;
+                        result.isCompressed = true;
+                        result.isContextReset = output.isReset;
+                        result.isContextUsed = useContext;
+                    }
 
-                        // now send key
-                        me.socket.write(publicKey, (err) => {
-                            if (err) {
-                                completed(err);
-                                return;
-                            }
+                    let stats: ssocket_codecs.CompressionStats = {
+                        codec: codec.name,
+                        compressedSize: compressedData.length,
+                        contentType: contentType || undefined,
+                        duration: Date.now() - startTime,
+                        isCompressed: result.isCompressed,
+                        ratio: uncompressedData.length > 0 ? compressedData.length / uncompressedData.length
+                                                           : 1,
+                        uncompressedSize: uncompressedData.length,
+                    };
 
-                            // now lets wait for the password
-                            // first the length
-                            ssocket_helpers.readSocket(me.socket, 2).then((buff) => {
-                                try {
-                                    let pwdLength = buff.readUInt16LE(0);
-                                    if (pwdLength <= me.getMaxPackageSize()) {
-                                        // and now the password itself
-                                        ssocket_helpers.readSocket(me.socket, pwdLength).then((pwd) => {
-                                            completed(null, pwd);
-                                        }, (err) => {
-                                            completed(err);
-                                        });
-                                    }
-                                    else {
-                                        // maximum package size reached
+                    me.emit('compression',
+                            stats);
 
-                                        me.socket.end();
-                                        completed(null, null);
-                                    }
-                                }
-                                catch (e) {
-                                    completed(e);
-                                }
-                            }, (err) => {
-                                completed(err);
-                            });
-                        });
-                    });
+                    returnResult();
                 }, (err) => {
-                    completed(err);
+                    result.error = err;
+
+                    if (useContext) {
+                        // state of the context is unknown
+                        me.getCompressContext(codec).reset();
+                    }
+
+                    returnResult();
                 });
             }
             catch (e) {
@@ -550,143 +5175,82 @@ export class SimpleSocket extends Events.EventEmitter {
     }
 
     /**
-     * Makes a handshake if needed.
+     * Receives the signed handshake of the server and checks if its identity is trusted (CLIENT side).
      * 
-     * @param {Promise<Buffer>} The promise.
+     * @return {Promise<any>} The promise.
      */
-    public makeHandshakeIfNeeded(): Promise<Buffer> {
+    protected verifyIdentity(): Promise<any> {
         let me = this;
 
-        return new Promise<Buffer>((resolve, reject) => {
-            let type = me.type;
-            
-            if (ssocket_helpers.isNullOrUndefined(me.password)) {
-                if (type == SocketType.Server) {
-                    // SERVER handshake
+        return new Promise<any>((resolve, reject) => {
+            let completed = (err: any) => {
+                if (err) {
+                    me.socket.end();
 
-                    me.makeServerHandshake().then((pwd) => {
-                        me.password = pwd;
+                    reject(err);
+                }
+                else {
+                    resolve();
+                }
+            };
 
-                        me.emit('handshake', pwd);
+            try {
+                if (me.negotiated.features.indexOf(FEATURE_IDENTITY) < 0) {
+                    if (requiresServerIdentity(me.serverTrust)) {
+                        completed(new ssocket_errors.IdentityError('Server has no identity!'));
+                    }
+                    else {
+                        completed(null);
+                    }
 
-                        resolve(pwd);
-                    }, (err) => {
-                        reject(err);
-                    });
+                    return;
                 }
-                else if (type == SocketType.Client) {
-                    // CLIENT handshake
-                    
-                    me.makeClientHandshake().then((pwd) => {
-                        me.password = pwd;
 
-                        me.emit('handshake', pwd);
-                        
-                        resolve(pwd);
-                    }, (err) => {
-                        reject(err);
+                // hash of the data, the server has signed
+                let transcriptHash = getTranscriptHash(me._transcript);
+
+                let readBlock = () => {
+                    return ssocket_helpers.readSocket(me.socket, 2).then((buff) => {
+                        let blockLength = buff.readUInt16LE(0);
+                        if (blockLength < 1 || blockLength > MAX_IDENTITY_SIZE) {
+                            throw new ssocket_errors.IdentityError('Invalid identity of server!');
+                        }
+
+                        return ssocket_helpers.readSocket(me.socket, blockLength);
                     });
-                }
-                else {
-                    reject(new Error(`Unknown socket type ${type}`));
-                }
-            }
-            else {
-                // no handshake required
-                resolve(me.password);
-            }
-        });
-    }
+                };
 
-    /**
-     * Makes a SERVER handshake.
-     * 
-     * @param {Promise<Buffer>} The promise.
-     */
-    protected makeServerHandshake(): Promise<Buffer> {
-        let me = this;
-        
-        return new Promise<Buffer>((resolve, reject) => {
-            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+                let signed: ssocket_identity.SignedTranscript = {
+                    publicKey: undefined,
+                    signature: undefined,
+                };
 
-            try {
-                // first read size of public key
-                ssocket_helpers.readSocket(me.socket, 4).then((buff) => {
-                    try {
-                        let publicKeyLength = buff.readUInt32LE(0);
+                readBlock().then((publicKey) => {
+                    signed.publicKey = publicKey;
 
-                        if (publicKeyLength <= me.getMaxPackageSize()) {
-                            ssocket_helpers.readSocket(me.socket, publicKeyLength).then((buff) => {
-                                try {
-                                    let transformerPromise = asDataTransformerPromise(me.handshakeTransformer,
-                                                                                      DataTransformerDirection.Restore,
-                                                                                      buff);
+                    return readBlock();
+                }).then((signature) => {
+                    signed.signature = signature;
 
-                                    transformerPromise.then((untransformedBuffer) => {
-                                        try {
-                                            let publicKey = untransformedBuffer.toString(me.getEncoding());
-                                            let key = RSA(publicKey);
-
-                                            me.emit('password.generating');
-
-                                            // generate and send password
-                                            me.generatePassword().then((pwd) => {
-                                                try {
-                                                    me.emit('password.generated',
-                                                            pwd);
-
-                                                    let pwdLength = Buffer.alloc(2);
-                                                    pwdLength.writeUInt16LE(pwd.length, 0);
-
-                                                    // first send size of password
-                                                    me.socket.write(pwdLength, (err) => {
-                                                        if (err) {
-                                                            completed(err);
-                                                            return;
-                                                        }
-
-                                                        // and now the password itself
-                                                        me.socket.write(pwd, (err) => {
-                                                            if (err) {
-                                                                completed(err);
-                                                            }
-                                                            else {
-                                                                completed(null, pwd);
-                                                            }
-                                                        });
-                                                    });
-                                                }
-                                                catch (e) {
-                                                    completed(e);
-                                                }
-                                            }, (err) => {
-                                                completed(err);
-                                            });
-                                        }
-                                        catch (e) {
-                                            completed(e);
-                                        }
-                                    }, (err) => {
-                                        completed(err);
-                                    });
-                                }
-                                catch (e) {
-                                    completed(e);
-                                }
-                            }, (err) => {
-                                completed(err);
-                            });
-                        }
-                        else {
-                            // maximum package size reached
+                    let fingerprint = ssocket_identity.toFingerprint(signed.publicKey);
 
-                            me.socket.end();
-                            completed(null, null);
-                        }
+                    let isValid = false;
+                    try {
+                        isValid = ssocket_identity.verifyTranscript(signed, transcriptHash);
                     }
                     catch (e) {
-                        completed(e);
+                        isValid = false;
+                    }
+
+                    if (!isValid) {
+                        throw new ssocket_errors.IdentityError('Invalid signature of server!', fingerprint);
                     }
+
+                    me._remoteFingerprint = fingerprint;
+
+                    return me.checkServerTrust(fingerprint);
+                }).then(() => {
+                    completed(null);
                 }, (err) => {
                     completed(err);
                 });
@@ -698,197 +5262,137 @@ export class SimpleSocket extends Events.EventEmitter {
     }
 
     /**
-     * Defines the maximum size of a package.
-     */
-    public maxPackageSize = DefaultMaxPackageSize;
-
-    /**
-     * Stores the current password.
-     */
-    public password: Buffer;
-
-    /**
-     * Defines a custom logic to generate a password (for the connection).
+     * Removes a method, which has been registered via 'registerMethod()'.
+     * 
+     * @param {string} name The name of the method.
+     * 
+     * @return {boolean} Method has been removed or not.
      */
-    public passwordGenerator = DefaultPasswordGenerator;
+    public unregisterMethod(name: string): boolean {
+        return this.getRPC().unregisterMethod(name);
+    }
 
     /**
-     * Reads data from the remote.
+     * Sends data to the remote.
+     * 
+     * @param {any} data The data to send.
+     * @param {OperationOptions} [opts] Additional options, like a timeout.
      * 
      * @param {Promise<Buffer>} The promise.
      */
-    public read(): Promise<Buffer> {
+    public write(data: any, opts?: OperationOptions): Promise<Buffer> {
         let me = this;
 
-        return new Promise<Buffer>((resolve, reject) => {
-            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
-
-            try {
-                me.makeHandshakeIfNeeded().then((pwd) => {
-                    try {
-                        ssocket_helpers.readSocket(me.socket, 4).then((buff) => {
-                            try {
-                                let dataLength = buff.readUInt32LE(0);
-                                if (dataLength <= me.getMaxPackageSize()) {
-                                    if (dataLength < 1) {
-                                        completed(null, Buffer.alloc(0));
-                                    }
-                                    else {
-                                        ssocket_helpers.readSocket(me.socket, dataLength).then((cryptedData) => {
-                                            try {
-                                                let decipher = Crypto.createDecipher(me.algorithm, pwd);
-
-                                                let a = decipher.update(cryptedData);
-                                                let b = decipher.final();
-
-                                                let uncryptedData = Buffer.concat([a, b]);
-
-                                                let isCompressed = uncryptedData.readUInt8(0) > 127;
-
-                                                let compressedData = Buffer.alloc(uncryptedData.length - 1);
-                                                uncryptedData.copy(compressedData, 0, 1);
+        let limiter = me.getRateLimiter(opts);
 
-                                                let untransformData = (transformedData: Buffer) => {
-                                                    let transformerPromise = asDataTransformerPromise(me.dataTransformer,
-                                                                                                      DataTransformerDirection.Restore,
-                                                                                                      transformedData);
+        return runOperation('write()', opts, me.getWriteTimeout(), (ctx) => {
+            return me._writeQueue.enqueue(() => {
+                if (ctx.isCancelled) {
+                    return Promise.resolve<Buffer>(null);  // do not send anymore
+                }
 
-                                                    transformerPromise.then((untransformedData) => {
-                                                        completed(null, untransformedData);
-                                                    }, (err) => {
-                                                        completed(err);
-                                                    });
-                                                };
-
-                                                if (isCompressed) {
-                                                    ZLib.gunzip(compressedData, (err, uncompressedData) => {
-                                                        if (err) {
-                                                            completed(err);
-                                                        }
-                                                        else {
-                                                            untransformData(uncompressedData);
-                                                        }
-                                                    });
-                                                }
-                                                else {
-                                                    // not compressed
-                                                    untransformData(compressedData);
-                                                }
-                                            }
-                                            catch (e) {
-                                                completed(e);
-                                            }
-                                        }, (err) => {
-                                            completed(err);
-                                        });
-                                    }
-                                }
-                                else {
-                                    completed(null, null);  // maximum reached
-                                }
-                            }
-                            catch (e) {
-                                completed(e);
-                            }
-                        }, (err) => {
-                            completed(err);
-                        });
+                let waitForLimiter = Promise.resolve();
+                if (limiter) {
+                    let buff = ssocket_helpers.asBuffer(data);
+                    if (Buffer.isBuffer(buff)) {
+                        waitForLimiter = limiter.acquire(buff.length);
                     }
-                    catch (e) {
-                        completed(e);
+                }
+
+                return waitForLimiter.then(() => {
+                    if (ctx.isCancelled) {
+                        return null;  // do not send anymore
                     }
-                }, (err) => {
-                    completed(err);
+
+                    // a package, which has been started to be sent,
+                    // is always sent completely
+                    return me.writePackage(PACKAGE_TYPE_DATA, data, opts ? opts.contentType : undefined);
                 });
-            }
-            catch (e) {
-                completed(e);
-            }
+            });
         });
-    }
-
-    /**
-     * The default buffer size for reading a stream.
-     */
-    public readBufferSize = DefaultReadBufferSize;
+    }
 
     /**
-     * Reads data from remote and writes it to a file on this machine.
+     * Sends a chunk of a stream and waits for the answer of the remote.
      * 
-     * @param {string} path The path to the target file.
-     * @param {string|number} [flags] The custom flags for opening the target file.
+     * An empty chunk tells the remote that there is no more data.
      * 
-     * @return {Promise<number>} The promise.
+     * @param {Buffer} chunk The chunk to send.
+     * @param {string} [contentType] The content type of the stream.
+     * 
+     * @return {Promise<Buffer>} The promise with the hash of the chunk.
      */
-    public readFile(path: string, flags: string | number = 'w'): Promise<number> {
+    protected writeChunk(chunk: Buffer, contentType?: string): Promise<Buffer> {
         let me = this;
 
-        if (!Path.isAbsolute(path)) {
-            path = Path.join(me.getCwd(), path);
-        }
+        let hash: Buffer;
 
-        return new Promise<number>((resolve, reject) => {
-            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+        return me.writeChunkBlock(chunk, contentType).then((h) => {
+            hash = h;
 
-            try {
-                FS.open(path, flags, (err, fdTarget) => {
-                    if (err) {
-                        completed(err);
-                    }
-                    else {
-                        let closeFile = (err: any, bytesWritten?: number) => {
-                            FS.close(fdTarget, (e) => {
-                                if (e) {
-                                    completed(e, bytesWritten);
-                                }
-                                else {
-                                    completed(err, bytesWritten);
-                                }
-                            });
-                        };
+            if (chunk.length < 1) {
+                return;  // no answer for the end
+            }
 
-                        me.readStream(fdTarget).then((bytesWritten) => {
-                            closeFile(null, bytesWritten);
-                        }, (err) => {
-                            closeFile(err);
-                        });
-                    }
+            // wait for answer
+            return me.readChunkAnswer().then(null, (err) => {
+                if (!me.supportsFeature(FEATURE_WINDOW)) {
+                    throw err;
+                }
+
+                // remote waits for the end after an error
+                return me.writeChunkBlock(Buffer.alloc(0)).then(() => {
+                    throw err;
+                }, () => {
+                    throw err;
                 });
-            }
-            catch (e) {
-                completed(e);
-            }
+            });
+        }).then(() => {
+            return hash;
         });
     }
 
     /**
-     * Reads data as JSON object.
+     * Sends a chunk of a stream without waiting for an answer.
      * 
-     * @return {Promise<T>} The promise.
+     * @param {Buffer} chunk The chunk to send.
+     * @param {string} [contentType] The content type of the stream.
+     * @param {number} [windowSize] The window size to send after the chunk.
+     * 
+     * @return {Promise<Buffer>} The promise with the hash of the chunk.
      */
-    public readJSON<T>(): Promise<T> {
+    protected writeChunkBlock(chunk: Buffer, contentType?: string, windowSize?: number): Promise<Buffer> {
         let me = this;
-        
-        return new Promise<T>((resolve, reject) => {
+
+        return new Promise<Buffer>((resolve, reject) => {
             let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
 
             try {
-                me.readString().then((json) => {
-                    try {
-                        let obj: T;
+                let chunkLength = Buffer.alloc(4);
+                chunkLength.writeUInt32LE(chunk.length, 0);
 
-                        if (ssocket_helpers.isNullOrUndefined(json)) {
-                            obj = <any>json;
-                        }
-                        else {
-                            obj = JSON.parse(json);
-                        }
+                let hash: Buffer;
+                if (chunk.length > 0) {
+                    hash = Crypto.createHash('sha256')
+                                 .update(chunk).digest();
+                }
+                else {
+                    hash = Buffer.alloc(0);  // we have no data to hash
+                }
 
-                        completed(null, obj);
-                    }
-                    catch (e) {
-                        completed(e);
-                    }
+                let blockParts = [ chunkLength, hash, chunk ];
+                if (!ssocket_helpers.isNullOrUndefined(windowSize)) {
+                    // is ignored by remotes, which do not need it
+                    let windowSizeBuffer = Buffer.alloc(4);
+                    windowSizeBuffer.writeUInt32LE(windowSize, 0);
+
+                    blockParts.push(windowSizeBuffer);
+                }
+
+                // the header of the chunk is no content
+                me.writePackage(PACKAGE_TYPE_DATA, Buffer.concat(blockParts),
+                                contentType || '').then(() => {
+                    completed(null, hash);
                 }, (err) => {
                     completed(err);
                 });
@@ -900,131 +5404,147 @@ export class SimpleSocket extends Events.EventEmitter {
     }
 
     /**
-     * Reads data from remote and writes it to a stream on this machine.
+     * Sends a directory tree to the remote.
      * 
-     * @param {number} fdTarget The stream pointer of the target.
+     * @param {string} path The path of the directory to send.
+     * @param {DirectoryTransferOptions} [opts] Additional options, like filters or a timeout.
      * 
-     * @return {Promise<number>} The promise.
+     * @return {Promise<ssocket_directories.DirectoryEntry[]>} The promise with the sent entries.
      */
-    public readStream(fdTarget: number): Promise<number> {
+    public writeDirectory(path: string, opts?: DirectoryTransferOptions): Promise<ssocket_directories.DirectoryEntry[]> {
         let me = this;
 
-        return new Promise<number>((resolve, reject) => {
-            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+        if (!Path.isAbsolute(path)) {
+            path = Path.join(me.getCwd(), path);
+        }
 
-            try {
-                let bytesWritten = 0;
+        return runOperation('writeDirectory()', opts, me.getWriteTimeout(), (ctx) => {
+            return ssocket_directories.scanDirectory(path, opts).then((entries) => {
+                return me.exclusive(() => {
+                    if (ctx.isCancelled) {
+                        return Promise.resolve<ssocket_directories.DirectoryEntry[]>([]);  // nobody waits anymore
+                    }
 
-                let nextChunk: () => void;
+                    ctx.onCancel(() => {
+                        me.cancelTransfer();
+                    });
 
-                let sendAnswer = (err?: any) => {
-                    let errMsg = ssocket_helpers.toStringSafe(err);
-                    if (ssocket_helpers.isEmptyString(errMsg)) {
-                        errMsg = '';
-                    }
+                    let limiter = me.getRateLimiter(opts);
 
-                    me.write(errMsg).then(() => {
-                        if (errMsg) {
-                            completed(err);
-                        }
-                        else {
-                            nextChunk();
+                    let sendEntry = (entry: ssocket_directories.DirectoryEntry): Promise<any> => {
+                        if ('file' !== entry.type) {
+                            return Promise.resolve();  // is part of the tree
                         }
-                    }, (err) => {
-                        completed(err);
-                    });
-                };
 
-                nextChunk = () => {
-                    // check chunk block
-                    me.read().then((chunkBlock) => {
-                        try {
-                            let chunkLength = chunkBlock.readUInt32LE(0);
-                            if (chunkLength < 1) {
-                                // no more data
-                                completed(null, bytesWritten);
-                            }
-                            else {
-                                if (chunkLength > me.getMaxPackageSize()) {
-                                    // chunk is too big
-                                    sendAnswer(new Error('Chunk is too big!'));
-                                }
-                                else {
-                                    // write to stream
+                        return invokeFS<number>(FS.open, ssocket_directories.toFullPath(path, entry), 'r').then((fdSrc) => {
+                            return me.sendStream(fdSrc, entry.size, me.getReadBufferSize(), {
+                                contentType: ssocket_codecs.getContentTypeByExtension(entry.path),
+                                rateLimit: limiter,
+                            }).then(() => {
+                                return invokeFS<any>(FS.close, fdSrc);
+                            }, (err) => {
+                                FS.close(fdSrc, () => {});
+
+                                throw err;
+                            });
+                        });
+                    };
 
-                                    let hash = Buffer.alloc(32);
-                                    chunkBlock.copy(hash, 0, 4, 4 + hash.length);
+                    return me.writePackage(PACKAGE_TYPE_DATA, JSON.stringify({
+                        entries: entries,
+                    })).then(() => {
+                        return me.readAnswer();  // tree can be rejected
+                    }).then(() => {
+                        let index = -1;
 
-                                    let chunk = Buffer.alloc(chunkLength);
-                                    chunkBlock.copy(chunk, 0, 4 + hash.length);
+                        let nextEntry = (): Promise<any> => {
+                            if (++index >= entries.length) {
+                                return Promise.resolve();
+                            }
 
-                                    let realHash = Crypto.createHash('sha256')
-                                                         .update(chunk).digest();
+                            let entry = entries[index];
 
-                                    if (hash.equals(realHash)) {
-                                        FS.write(fdTarget, chunk, (err, written) => {
-                                            if (!err) {
-                                                if (written > 0) {
-                                                    bytesWritten += written;
-                                                }
+                            return sendEntry(entry).then(() => {
+                                me.emit('directory.write',
+                                        entry, index, entries.length);
 
-                                                me.emit('stream.read',
-                                                        fdTarget, chunk, written, hash);
-                                            }
+                                return nextEntry();
+                            });
+                        };
 
-                                            sendAnswer(err);
-                                        });
-                                    }
-                                    else {
-                                        // unique hashes
-                                        sendAnswer(new Error('Invalid chunk hash: ' + realHash.toString('hex')));
-                                    }
-                                }
-                            }
-                        }
-                        catch (e) {
-                            sendAnswer(e);
-                        }
-                    }, (err) => {
-                        sendAnswer(err);
-                    });
-                };
+                        return nextEntry().then(() => {
+                            return entries;
+                        }, (err) => {
+                            // the remote still waits for data
+                            me.cancelTransfer();
 
-                nextChunk();  // start reading chunks
-            }
-            catch (e) {
-                completed(e);
-            }
+                            throw err;
+                        });
+                    });
+                });
+            });
         });
     }
 
     /**
-     * Reads data as string.
+     * Sends the data of a file to the remote.
      * 
-     * @return {Promise<string>} The promise.
+     * @param {string} path The path of the file to send.
+     * @param {number} [maxSize] The maximum number of bytes to send.
+     * @param {number} [bufferSize] The custom buffer size for the read operation(s).
+     * @param {string|number} [flags] The custom flags for opening the file.
+     * @param {TransferOptions} [opts] Additional options, like a timeout.
+     * 
+     * @return {Promise<number>} The promise.
      */
-    public readString(): Promise<string> {
+    public writeFile(path: string, maxSize?: number, bufferSize?: number, flags: string | number = 'r',
+                     opts?: TransferOptions): Promise<number> {
         let me = this;
-        
-        return new Promise<string>((resolve, reject) => {
+
+        if (!Path.isAbsolute(path)) {
+            path = Path.join(me.getCwd(), path);
+        }
+
+        if (!opts || ssocket_helpers.isNullOrUndefined(opts.contentType)) {
+            opts = Object.assign({}, opts, {
+                contentType: ssocket_codecs.getContentTypeByExtension(path),
+            });
+        }
+
+        return new Promise<number>((resolve, reject) => {
             let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
 
             try {
-                me.read().then((buff) => {
-                    try {
-                        if (buff) {
-                            completed(null, 
-                                      buff.toString(me.getEncoding()));
+                FS.open(path, flags, (err, fdSrc) => {
+                    if (err) {
+                        completed(err);
+                    }
+                    else {
+                        let closeFile = (err: any, bytesSend?: number) => {
+                            FS.close(fdSrc, (e) => {
+                                if (e) {
+                                    completed(e, bytesSend);
+                                }
+                                else {
+                                    completed(err, bytesSend);
+                                }
+                            });
+                        };
+
+                        let sendData: Promise<number>;
+                        if (opts && opts.metadata) {
+                            sendData = me.writeFileWithMetadata(path, fdSrc, maxSize, bufferSize, opts);
                         }
                         else {
-                            completed(null, null);
+                            sendData = me.writeStream(fdSrc, maxSize, bufferSize, opts);
                         }
+
+                        sendData.then((bytesSend) => {
+                            closeFile(null, bytesSend);
+                        }, (err) => {
+                            closeFile(err);
+                        });
                     }
-                    catch (e) {
-                        completed(e);
-                    }
-                }, (err) => {
-                    completed(err);
                 });
             }
             catch (e) {
@@ -1034,98 +5554,120 @@ export class SimpleSocket extends Events.EventEmitter {
     }
 
     /**
-     * The RSA key size.
-     */
-    public rsaKeySize = DefaultRSAKeySize;
-
-    /**
-     * Sets up the events.
+     * Sends the metadata and the content of a file to the remote.
+     * 
+     * @param {string} path The path of the file.
+     * @param {number} fdSrc The stream pointer of the file.
+     * @param {number} [maxSize] The maximum number of bytes to send.
+     * @param {number} [bufferSize] The custom buffer size for the read operation(s).
+     * @param {TransferOptions} opts Additional options, like a timeout.
+     * 
+     * @return {Promise<number>} The promise.
      */
-    protected setupEvents() {
+    protected writeFileWithMetadata(path: string, fdSrc: number, maxSize: number, bufferSize: number,
+                                    opts: TransferOptions): Promise<number> {
         let me = this;
-        
-        me.socket.on('error', (err) => {
-            if (err) {
-                me.emit('error',
-                        err);
-            }
-        });
 
-        me.socket.on('close', () => {
-            me.emit('close');
+        bufferSize = parseInt(ssocket_helpers.toStringSafe(bufferSize).trim());
+        if (isNaN(bufferSize)) {
+            bufferSize = me.getReadBufferSize();
+        }
+
+        maxSize = parseInt(ssocket_helpers.toStringSafe(maxSize).trim());
+
+        return runOperation('writeFile()', opts, me.getWriteTimeout(), (ctx) => {
+            let metadata: FileMetadata;
+
+            return invokeFS<FS.Stats>(FS.fstat, fdSrc).then((stats) => {
+                metadata = {
+                    hash: null,
+                    mode: stats.mode,
+                    mtime: stats.mtime.getTime(),
+                    name: Path.basename(path),
+                    size: isNaN(maxSize) ? stats.size : Math.min(stats.size, Math.max(0, maxSize)),
+                };
+
+                return hashFile(fdSrc, metadata.size, bufferSize);
+            }).then((hash) => {
+                metadata.hash = hash.toString('hex');
+
+                return me.exclusive(() => {
+                    if (ctx.isCancelled) {
+                        return Promise.resolve(0);  // nobody waits anymore
+                    }
+
+                    ctx.onCancel(() => {
+                        me.cancelTransfer();
+                    });
+
+                    let bytesSend: number;
+
+                    return me.writePackage(PACKAGE_TYPE_DATA, JSON.stringify(metadata)).then(() => {
+                        return me.readAnswer();
+                    }).then(() => {
+                        let tracker = me.createProgressTracker('write', fdSrc, opts);
+                        tracker.total = metadata.size;
+
+                        return me.sendStream(fdSrc, metadata.size, bufferSize, opts, tracker);
+                    }).then((result) => {
+                        bytesSend = result;
+
+                        // wait until the remote has checked the file
+                        return me.readAnswer();
+                    }).then(() => {
+                        return bytesSend;
+                    });
+                });
+            });
         });
     }
 
     /**
-     * Gets the wrapped socket.
+     * Sends a crypted message while a handshake.
      * 
-     * @return {Net.Socket} The wrapped socket.
+     * @param {Buffer} pwd The password.
+     * @param {any} message The message.
+     * 
+     * @return {Promise<any>} The promise.
      */
-    public get socket(): Net.Socket {
-        return this._socket;
-    }
+    protected writeHandshakeMessage(pwd: Buffer, message: any): Promise<any> {
+        let cryptedMessage = this.encryptData(new Buffer(JSON.stringify(message), DEFAULT_ENCODING),
+                                              pwd);
 
-    /**
-     * Gets the socket type.
-     */
-    public get type(): SocketType {
-        return this._type;
+        let messageLength = Buffer.alloc(4);
+        messageLength.writeUInt32LE(cryptedMessage.length, 0);
+
+        return ssocket_helpers.writeSocket(this.socket,
+                                           Buffer.concat([ messageLength, cryptedMessage ]));
     }
 
     /**
-     * Tries to compress data.
+     * Sends an object / value as JSON string.
      * 
-     * @param {any} data The data to compress.
+     * @param {T} obj The object to send.
+     * @param {OperationOptions} [opts] Additional options, like a timeout.
      * 
-     * @return {Promise<CompressionResult>} The promise.
+     * @returns {Promise<Buffer>} The promise.
      */
-    protected tryCompress(data: any): Promise<CompressionResult> {
+    public writeJSON<T>(obj: T, opts?: OperationOptions): Promise<Buffer> {
         let me = this;
         
-        return new Promise<CompressionResult>((resolve, reject) => {
-            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
-
-            try {
-                let uncompressedData = ssocket_helpers.asBuffer(data);
-
-                let result: CompressionResult = {
-                    data: uncompressedData,
-                    isCompressed: false,
-                    uncompressed: uncompressedData,
-                };
-
-                let returnResult = () => {
-                    completed(null, result);
-                };
-                
-                if (ssocket_helpers.isNullOrUndefined(uncompressedData)) {
-                    returnResult();
-                    return;
-                }
+        return new Promise<Buffer>((resolve, reject) => {
+            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
 
-                if (!ssocket_helpers.toBooleanSafe(me.compress, true)) {
-                    returnResult();  // do not compress
-                    return;
+            try {
+                let json: string;
+                if (ssocket_helpers.isNullOrUndefined(obj)) {
+                    json = <any>obj;
+                }
+                else {
+                    json = JSON.stringify(obj);
                 }
 
-                ZLib.gzip(uncompressedData, (err, compressedData) => {
-                    if (err) {
-                        result.error = err;
-                    }
-                    else {
-                        result.compressed = compressedData;
-
-                        if (compressedData.length < uncompressedData.length ||
-                            ssocket_helpers.toBooleanSafe(me.compress)) {
-                            // compressed data is smaller or
-                            // compression is forced
-
-                            result.data = result.compressed;
-                            result.isCompressed = true;
-                        }
-                    }
-
-                    returnResult();
+                me.write(json, opts).then((buff) => {
+                    completed(null, buff);
+                }, (err) => {
+                    completed(err);
                 });
             }
             catch (e) {
@@ -1135,11 +5677,15 @@ export class SimpleSocket extends Events.EventEmitter {
     }
 
     /**
-     * Reads data from the remote.
+     * Sends a package to the remote.
+     * 
+     * @param {number} type The type of the package.
+     * @param {any} data The data to send.
+     * @param {string} [contentType] The content type of the data.
      * 
      * @param {Promise<Buffer>} The promise.
      */
-    public write(data: any): Promise<Buffer> {
+    protected writePackage(type: number, data: any, contentType?: string): Promise<Buffer> {
         let me = this;
 
         return new Promise<Buffer>((resolve, reject) => {
@@ -1156,33 +5702,55 @@ export class SimpleSocket extends Events.EventEmitter {
                         return;
                     }
 
-                    me.tryCompress(uncryptedData).then((result) => {
-                        me.makeHandshakeIfNeeded().then((pwd) => {
+                    me.makeHandshakeIfNeeded().then((pwd) => {
+                        me.tryCompress(uncryptedData, contentType).then((result) => {
                             try {
-                                let cipher = Crypto.createCipher(me.algorithm, pwd);
-
-                                let n = Math.floor(Math.random() * 128);
-                                if (n > 127) {
-                                    n = 127;
+                                let n: number;
+                                if (me.hasPackageTypes()) {
+                                    n = type;
+                                }
+                                else if (PACKAGE_TYPE_DATA !== type) {
+                                    completed(new Error('Remote does not support packages of that type!'));
+                                    return;
                                 }
-                                else if (n < 0) {
-                                    n = 0;
+                                else {
+                                    n = Math.floor(Math.random() * 128);
+                                    if (n > 127) {
+                                        n = 127;
+                                    }
+                                    else if (n < 0) {
+                                        n = 0;
+                                    }
                                 }
 
                                 let isCompressed = Buffer.alloc(1);
                                 isCompressed.writeUInt8(n + (result.isCompressed ? 128 : 0), 0);
 
-                                let a = cipher.update(Buffer.concat([ isCompressed,
-                                                                      result.data ]));
-                                let b = cipher.final();
+                                let header = [ isCompressed ];
+                                if (result.isCompressed && me.supportsFeature(FEATURE_CODECS)) {
+                                    header.push(Buffer.from([ result.codec.id ]));
+                                }
+                                if (result.isContextUsed) {
+                                    header.push(Buffer.from([ result.isContextReset ? 1 : 0 ]));
+                                }
+
+                                let uncryptedPackage = Buffer.concat(header.concat([ result.data ]));
 
-                                let cryptedData = Buffer.concat([ a, b ]);
+                                if ((uncryptedPackage.length + me.getCryptOverhead()) > me.getMaxPackageSize()) {
+                                    if (result.isContextUsed) {
+                                        // remote will not receive the data
+                                        // of the compression context
+                                        me._compressContext.reset();
+                                    }
 
-                                if (cryptedData.length > me.getMaxPackageSize()) {
                                     completed(null, null);  // maximum package size reached
                                     return;
                                 }
 
+                                let rekeyPackage = me.rekeyIfNeeded(pwd);
+
+                                let cryptedData = me.encryptData(uncryptedPackage, pwd);
+
                                 let dataLength = Buffer.alloc(4);
                                 dataLength.writeUInt32LE(cryptedData.length, 0);
 
@@ -1205,23 +5773,20 @@ export class SimpleSocket extends Events.EventEmitter {
                                     }
                                 };
 
-                                // first send data length
-                                me.socket.write(dataLength, (err) => {
+                                let packages = [ dataLength, cryptedData ];
+                                if (rekeyPackage) {
+                                    packages.unshift(rekeyPackage);
+                                }
+
+                                // send data length and crypted data at once,
+                                // so the order of the sequence numbers is kept
+                                me.socket.write(Buffer.concat(packages), (err) => {
                                     if (err) {
-                                        writeCompleted(err);
+                                        writeCompleted(err, [ dataLength ]);
                                     }
                                     else {
-                                        // now the crypted data
-
-                                        me.socket.write(cryptedData, (err) => {
-                                            if (err) {
-                                                writeCompleted(err, [ dataLength ]);
-                                            }
-                                            else {
-                                                // all send
-                                                writeCompleted(err, [ dataLength, cryptedData ]);
-                                            }
-                                        });
+                                        // all send
+                                        writeCompleted(err, [ dataLength, cryptedData ]);
                                     }
                                 });
                             }
@@ -1252,79 +5817,80 @@ export class SimpleSocket extends Events.EventEmitter {
     }
 
     /**
-     * Sends the data of a file to the remote.
+     * Gets the number of 'write()' calls, which are running or waiting.
+     */
+    public get writeQueueLength(): number {
+        return this._writeQueue.length;
+    }
+
+    /**
+     * Sends the data of a stream to the remote.
      * 
-     * @param {string} path The path of the file to send.
+     * @param {number} fdSrc The stream pointer from where to read.
      * @param {number} [maxSize] The maximum number of bytes to send.
      * @param {number} [bufferSize] The custom buffer size for the read operation(s).
-     * @param {string|number} [flags] The custom flags for opening the file.
+     * @param {TransferOptions} [opts] Additional options, like a timeout.
      * 
      * @return {Promise<number>} The promise.
      */
-    public writeFile(path: string, maxSize?: number, bufferSize?: number, flags: string | number = 'r'): Promise<number> {
+    public writeStream(fdSrc: number, maxSize?: number, bufferSize?: number, opts?: TransferOptions): Promise<number> {
         let me = this;
-
-        if (!Path.isAbsolute(path)) {
-            path = Path.join(me.getCwd(), path);
+        
+        bufferSize = parseInt(ssocket_helpers.toStringSafe(bufferSize).trim());
+        if (isNaN(bufferSize)) {
+            bufferSize = me.getReadBufferSize();
         }
 
-        return new Promise<number>((resolve, reject) => {
-            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+        maxSize = parseInt(ssocket_helpers.toStringSafe(maxSize).trim());
 
-            try {
-                FS.open(path, flags, (err, fdSrc) => {
-                    if (err) {
-                        completed(err);
-                    }
-                    else {
-                        let closeFile = (err: any, bytesSend?: number) => {
-                            FS.close(fdSrc, (e) => {
-                                if (e) {
-                                    completed(e, bytesSend);
-                                }
-                                else {
-                                    completed(err, bytesSend);
-                                }
-                            });
-                        };
+        return runOperation('writeStream()', opts, me.getWriteTimeout(), (ctx) => {
+            return me.exclusive(() => {
+                if (ctx.isCancelled) {
+                    return Promise.resolve(0);  // nobody waits anymore
+                }
 
-                        me.writeStream(fdSrc, maxSize, bufferSize).then((bytesSend) => {
-                            closeFile(null, bytesSend);
-                        }, (err) => {
-                            closeFile(err);
-                        });
-                    }
+                ctx.onCancel(() => {
+                    me.cancelTransfer();
                 });
-            }
-            catch (e) {
-                completed(e);
-            }
+
+                let tracker = me.createProgressTracker('write', fdSrc, opts);
+
+                return getTransferSize(fdSrc, maxSize).then((total) => {
+                    tracker.total = total;
+
+                    return me.sendStream(fdSrc, maxSize, bufferSize, opts, tracker);
+                });
+            });
         });
     }
 
     /**
-     * Sends an object / value as JSON string.
+     * The default time in milliseconds, an operation, which writes data,
+     * like 'write()' or 'writeFile()', can take. A value of 0 means that there is no limit.
+     */
+    public writeTimeout = DefaultWriteTimeout;
+
+    /**
+     * Sends a value, like an object with buffers, dates or maps, which
+     * can be read by 'readValue()'.
      * 
-     * @param {T} obj The object to send.
+     * Other than 'writeJSON()', the value is serialized to a binary format, which keeps the types of the value.
+     * 
+     * @param {T} value The value to send.
+     * @param {OperationOptions} [opts] Additional options, like a timeout.
      * 
      * @returns {Promise<Buffer>} The promise.
      */
-    public writeJSON<T>(obj: T): Promise<Buffer> {
+    public writeValue<T>(value: T, opts?: OperationOptions): Promise<Buffer> {
         let me = this;
-        
+
         return new Promise<Buffer>((resolve, reject) => {
             let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
 
             try {
-                let json: string;
-                if (ssocket_helpers.isNullOrUndefined(obj)) {
-                    json = <any>obj;
-                }
-                else {
-                    json = JSON.stringify(obj);
-                }
+                let data = me.getSerializer().serialize(value);
 
-                me.write(json).then((buff) => {
+                me.write(data, opts).then((buff) => {
                     completed(null, buff);
                 }, (err) => {
                     completed(err);
@@ -1335,135 +5901,166 @@ export class SimpleSocket extends Events.EventEmitter {
             }
         });
     }
+}
+
+// make 'for await (const data of socket)' possible
+(<any>SimpleSocket.prototype)[ssocket_compat.asyncIterator] = function() {
+    return this.messages();
+};
+
+/**
+ * A logical channel, which is multiplexed with other channels
+ * over the connection of a SimpleSocket.
+ */
+export class Channel extends SimpleSocket {
+    /**
+     * Stores the underlying multiplexer.
+     */
+    protected _multiplexer: ssocket_channels.ChannelMultiplexer;
+    /**
+     * Stores the name.
+     */
+    protected _name: string;
+    /**
+     * Stores the socket, the channel belongs to.
+     */
+    protected _parent: SimpleSocket;
 
     /**
-     * Sends the data of a stream to the remote.
-     * 
-     * @param {number} fdSrc The stream pointer from where to read.
-     * @param {number} [maxSize] The maximum number of bytes to send.
-     * @param {number} [bufferSize] The custom buffer size for the read operation(s).
+     * Initializes a new instance of that class.
      * 
-     * @return {Promise<number>} The promise.
+     * @param {SimpleSocket} parent The socket, the channel belongs to.
+     * @param {string} name The name.
+     * @param {ssocket_channels.ChannelMultiplexer} multiplexer The underlying multiplexer.
      */
-    public writeStream(fdSrc: number, maxSize?: number, bufferSize?: number): Promise<number> {
-        let me = this;
-        
-        bufferSize = parseInt(ssocket_helpers.toStringSafe(bufferSize).trim());
-        if (isNaN(bufferSize)) {
-            bufferSize = me.getReadBufferSize();
-        }
+    constructor(parent: SimpleSocket, name: string, multiplexer: ssocket_channels.ChannelMultiplexer) {
+        super(parent.type, parent.socket);
+
+        this._multiplexer = multiplexer;
+        this._name = name;
+        this._parent = parent;
+
+        this.cwd = parent.cwd;
+        this.encoding = parent.encoding;
+        this.maxPackageSize = parent.maxPackageSize;
+        this.rateLimit = parent.rateLimit;
+        this.readBufferSize = parent.readBufferSize;
+        this.serializer = parent.serializer;
+    }
 
-        maxSize = parseInt(ssocket_helpers.toStringSafe(maxSize).trim());
+    /**
+     * Closes the channel (and not the underlying connection),
+     * if a running transfer has been cancelled.
+     */
+    protected cancelTransfer() {
+        this.handleClose(new Error(`Channel '${this.name}' has been closed!`));
 
-        return new Promise<number>((resolve, reject) => {
-            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+        this.end().then(() => { }, () => { });
+    }
 
-            try {
-                let remainingBytes = maxSize;
-                let bytesCount = 0;
+    /**
+     * Closes the channel.
+     * 
+     * @return {Promise<any>} The promise.
+     */
+    public end(): Promise<any> {
+        let me = this;
 
-                let nextChunk: () => void;
+        return me._multiplexer.close(me.name).then(() => {
+            me.emit('close');
+        });
+    }
 
-                let sendChunk = (chunk?: Buffer) => {
-                    try {
-                        if (!chunk) {
-                            chunk = Buffer.alloc(0);
-                        }
+    /**
+     * Is invoked after received data has been passed to a 'read()' call or a 'message' listener.
+     * 
+     * @param {Buffer} data The data.
+     */
+    protected handleDataRead(data: Buffer) {
+        if (data) {
+            // remote can send more
+            this._multiplexer.consume(this.name, data.length);
+        }
+    }
 
-                        // chunk size
-                        let chunkLength = Buffer.alloc(4);
-                        chunkLength.writeUInt32LE(chunk.length, 0);
+    /**
+     * Gets the state of the handshake of the underlying connection.
+     */
+    public get handshakeState(): HandshakeState {
+        return this.parent.handshakeState;
+    }
 
-                        let hash: Buffer;
-                        if (chunk.length > 0) {
-                            hash = Crypto.createHash('sha256')
-                                         .update(chunk).digest();
-                        }
-                        else {
-                            hash = Buffer.alloc(0);  // we have no data to hash
-                        }
+    /**
+     * Makes a handshake of the underlying connection if needed.
+     * 
+     * @param {Promise<Buffer>} The promise.
+     */
+    public makeHandshakeIfNeeded(): Promise<Buffer> {
+        return this.parent.makeHandshakeIfNeeded();
+    }
 
-                        // send to remote
-                        me.write(Buffer.concat([ chunkLength, hash, chunk ])).then(() => {
-                            me.emit('stream.write',
-                                    fdSrc, remainingBytes, chunk, hash);
+    /**
+     * Gets the name of the channel.
+     */
+    public get name(): string {
+        return this._name;
+    }
 
-                            if (chunk.length > 0) {
-                                // wait for answer
-                                me.readString().then((errMsg) => {
-                                    if (ssocket_helpers.isEmptyString(errMsg)) {
-                                        nextChunk();
-                                    }
-                                    else {
-                                        // error on remote side => abort
-                                        completed(new Error('Remote error: ' + ssocket_helpers.toStringSafe(errMsg)));
-                                    }
-                                }, (err) => {
-                                    completed(err);
-                                });
-                            }
-                            else {
-                                completed(null, bytesCount);  // we have finished
-                            }
-                        }, (err) => {
-                            completed(err);
-                        });
-                    }
-                    catch (e) {
-                        completed(e);
-                    }
-                };
+    /**
+     * Gets the options, which have been negotiated for the underlying connection.
+     */
+    public get negotiated(): NegotiatedOptions {
+        return this.parent.negotiated;
+    }
 
-                nextChunk = () => {
-                    try {
-                        let buffer = Buffer.alloc(bufferSize);
+    /**
+     * Gets the socket, the channel belongs to.
+     */
+    public get parent(): SimpleSocket {
+        return this._parent;
+    }
 
-                        let bytesToRead: number;
-                        if (isNaN(remainingBytes)) {
-                            bytesToRead = buffer.length;
-                        }
-                        else {
-                            if (remainingBytes < 1) {
-                                remainingBytes = 0;
-                            }
+    /**
+     * Receives packages of the underlying connection.
+     */
+    protected receive() {
+        this._multiplexer.receive();
+    }
 
-                            bytesToRead = remainingBytes;
-                            bytesToRead = Math.min(bytesToRead, buffer.length);
-                        }
+    /**
+     * Sets up the events.
+     */
+    protected setupEvents() {
+        // events of the connection are emitted by the parent
+    }
 
-                        if (bytesToRead > 0) {
-                            // read chunk
-                            FS.read(fdSrc, buffer, 0, bytesToRead, null, (err, bytesRead) => {
-                                try {
-                                    let chunkToSend: Buffer;
-                                    if (bytesRead > 0) {
-                                        chunkToSend = Buffer.alloc(bytesRead);
-                                        buffer.copy(chunkToSend, 0, 0, bytesRead);
-                                    }
-                                    else {
-                                        chunkToSend = Buffer.alloc(0);
-                                    }
+    /**
+     * Sends data on the channel.
+     * 
+     * @param {number} type The type of the package.
+     * @param {any} data The data to send.
+     * 
+     * @param {Promise<Buffer>} The promise.
+     */
+    protected writePackage(type: number, data: any): Promise<Buffer> {
+        let me = this;
 
-                                    bytesCount += chunkToSend.length;
-                                    remainingBytes -= chunkToSend.length;
+        return new Promise<Buffer>((resolve, reject) => {
+            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
 
-                                    sendChunk(chunkToSend);
-                                }
-                                catch (e) {
-                                    completed(e);
-                                }
-                            });
-                        }
-                        else {
-                            sendChunk();  // nothing more to send
-                        }
-                    }
-                    catch (e) {
-                        completed(e);
-                    }
-                };
+            try {
+                if (PACKAGE_TYPE_DATA !== type) {
+                    completed(new Error('Channels only support data!'));
+                    return;
+                }
+
+                let uncryptedData = ssocket_helpers.asBuffer(data) || Buffer.alloc(0);
 
-                nextChunk();  // start sending chunks
+                me._multiplexer.send(me.name, uncryptedData).then((result) => {
+                    completed(null, result ? uncryptedData : null);
+                }, (err) => {
+                    completed(err);
+                });
             }
             catch (e) {
                 completed(e);
@@ -1477,23 +6074,68 @@ export class SimpleSocket extends Events.EventEmitter {
  * 
  * @param {number} port The TCP port of the remote machine.
  * @param {string} host The host (address).
+ * @param {ConnectOptions} [opts] Additional options.
  * 
  * @return {Promise<SimpleSocket>} The promise.
  */
-export function connect(port: number, host?: string): Promise<SimpleSocket> {
+export function connect(port: number, host?: string, opts?: ConnectOptions): Promise<SimpleSocket> {
+    if (!opts) {
+        opts = {};
+    }
+
     return new Promise<SimpleSocket>((resolve, reject) => {
         let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
 
         try {
             let client = new Net.Socket();
 
+            let onError = (err: any) => {
+                completed(err);  // could not connect
+            };
+            client.once('error', onError);
+
             client.connect(port, host, (err) => {
                 try {
+                    client.removeListener('error', onError);
+
                     if (err) {
                         completed(err);
+                        return;
+                    }
+
+                    let socket = createClient(client);
+
+                    let fingerprints: string[] = [];
+                    if (!ssocket_helpers.isNullOrUndefined(opts.fingerprint)) {
+                        fingerprints = fingerprints.concat(opts.fingerprint);
+                    }
+
+                    socket.credentials = opts.credentials;
+                    socket.psk = opts.psk;
+                    if (!ssocket_helpers.isNullOrUndefined(opts.compressionContext)) {
+                        socket.compressionContext = opts.compressionContext;
+                    }
+                    if (!ssocket_helpers.isNullOrUndefined(opts.compressionDictionary)) {
+                        socket.compressionDictionary = opts.compressionDictionary;
+                    }
+                    socket.serverTrust = {
+                        fingerprints: fingerprints,
+                        knownHostsFile: opts.knownHostsFile,
+                        knownHostsName: (ssocket_helpers.toStringSafe(host).trim() || 'localhost') + ':' + port,
+                        trustedKeys: opts.trustedKeys,
+                    };
+
+                    if (requiresServerIdentity(socket.serverTrust) ||
+                        !ssocket_helpers.isNullOrUndefined(socket.psk) || socket.credentials) {
+                        // verify server and authenticate now
+                        socket.makeHandshakeIfNeeded().then(() => {
+                            completed(null, socket);
+                        }, (err) => {
+                            completed(err);
+                        });
                     }
                     else {
-                        completed(null, createClient(client));    
+                        completed(null, socket);
                     }
                 }
                 catch (e) {
@@ -1530,6 +6172,23 @@ export function createClient(socket?: Net.Socket): SimpleSocket {
     return new SimpleSocket(SocketType.Client, socket);
 }
 
+/**
+ * Creates a new client, which connects to a server again,
+ * if the connection has been lost.
+ * 
+ * @param {number} port The TCP port of the remote machine.
+ * @param {string} [host] The host (address).
+ * @param {ssocket_reconnect.ReconnectOptions} [opts] Additional options.
+ * 
+ * @return {ssocket_reconnect.ReconnectingClient} The new client.
+ */
+export function createReconnectingClient(port: number, host?: string,
+                                         opts?: ssocket_reconnect.ReconnectOptions): ssocket_reconnect.ReconnectingClient {
+    return new ssocket_reconnect.ReconnectingClient(() => {
+        return connect(port, host, opts);
+    }, opts);
+}
+
 /**
  * Creates a new SERVER instance.
  * 
@@ -1546,23 +6205,65 @@ export function createServer(socket?: Net.Socket): SimpleSocket {
  * 
  * @param {number} port The TCP port to listen on.
  * @param {ListenCallback} cb The listener callback.
+ * @param {ListenOptions} [opts] Additional options.
  * 
  * @return {Promise<Net.Server>} The promise.
  */
 export function listen(port: number,
-                       cb: ListenCallback): Promise<Net.Server> {
+                       cb: ListenCallback,
+                       opts?: ListenOptions): Promise<Net.Server> {
+    if (!opts) {
+        opts = {};
+    }
+
+    // all clients share the same budget
+    let rateLimit = opts.rateLimit;
+    if (!ssocket_helpers.isNullOrUndefined(rateLimit) && 'object' !== typeof rateLimit) {
+        rateLimit = new ssocket_ratelimit.RateLimiter(<number>rateLimit);
+    }
+
     return new Promise<Net.Server>((resolve, reject) => {
         let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
 
         try {
-            let serverToClient: SimpleSocket;
-
             let server = Net.createServer((connectionWithClient) => {
                 try {
-                    if (cb) {
-                        cb(null,
-                           createServer(connectionWithClient));
+                    let serverToClient = createServer(connectionWithClient);
+                    serverToClient.authenticator = opts.authenticator;
+                    serverToClient.identityKey = opts.identityKey;
+                    serverToClient.psk = opts.psk;
+                    if (!ssocket_helpers.isNullOrUndefined(opts.compressionContext)) {
+                        serverToClient.compressionContext = opts.compressionContext;
+                    }
+                    if (!ssocket_helpers.isNullOrUndefined(opts.compressionDictionary)) {
+                        serverToClient.compressionDictionary = opts.compressionDictionary;
+                    }
+                    if (!ssocket_helpers.isNullOrUndefined(rateLimit)) {
+                        serverToClient.rateLimit = rateLimit;
+                    }
+
+                    if (ssocket_helpers.isNullOrUndefined(serverToClient.psk) && !serverToClient.authenticator) {
+                        if (cb) {
+                            cb(null, serverToClient);
+                        }
+
+                        return;
                     }
+
+                    // authenticate client first
+                    serverToClient.makeHandshakeIfNeeded().then(() => {
+                        if (cb) {
+                            cb(null, serverToClient);
+                        }
+                    }, (err) => {
+                        if (err instanceof ssocket_errors.AuthenticationError) {
+                            server.emit('auth.error',
+                                        err, serverToClient);
+                        }
+                        else if (cb) {
+                            cb(err);
+                        }
+                    });
                 }
                 catch (e) {
                     if (cb) {
@@ -1594,6 +6295,41 @@ export function listen(port: number,
 }
 
 
+interface AuthenticationRequest {
+    credentials?: Credentials;
+    psk?: string;
+}
+
+interface AuthenticationResponse {
+    error?: string;
+    ok?: boolean;
+}
+
+interface HelloMessage {
+    cipher?: string;
+    ciphers?: string[];
+    codec?: string;
+    codecs?: string[];
+    dictionary?: string;
+    error?: string;
+    errorCode?: string;
+    features?: string[];
+    keyExchange?: string;
+    keyExchanges?: string[];
+    maxPackageSize?: number;
+    version?: number;
+}
+
+interface KeyAgreement {
+    computeSecret: (remotePublicKey: Buffer) => Buffer;
+    publicKey: Buffer;
+}
+
+interface StreamLock {
+    release: () => void;
+    run: <TResult>(action: () => PromiseLike<TResult>) => Promise<TResult>;
+}
+
 function asDataTransformerPromise(transformer: DataTransformer, direction: DataTransformerDirection, data: Buffer): Promise<Buffer> {
     return new Promise<Buffer>((resolve, reject) => {
         let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
@@ -1629,6 +6365,431 @@ function asDataTransformerPromise(transformer: DataTransformer, direction: DataT
     });
 }
 
+function chooseOption(preferredOptions: string[], remoteOptions: string[]): string {
+    if (!remoteOptions) {
+        remoteOptions = [];
+    }
+
+    for (let i = 0; i < preferredOptions.length; i++) {
+        if (remoteOptions.indexOf(preferredOptions[i]) > -1) {
+            return preferredOptions[i];
+        }
+    }
+}
+
+function createAEADCipher(algorithm: string, secret: Buffer, header: Buffer, decipher: boolean): any {
+    let keySize = 32;
+    let match = /^aes-(128|192|256)-/.exec(algorithm);
+    if (match) {
+        keySize = parseInt(match[1]) / 8;
+    }
+
+    // derive a key with the required size
+    let key = ssocket_helpers.hkdf(secret, null, 'node-simple-socket/' + algorithm, keySize);
+
+    // header is unique for each package of a direction
+    let iv = Buffer.alloc(AEAD_IV_SIZE);
+    header.copy(iv, AEAD_IV_SIZE - header.length);
+
+    let options: ssocket_compat.AEADCipherOptions = {
+        authTagLength: AEAD_TAG_SIZE,
+    };
+
+    if (decipher) {
+        return ssocket_compat.crypto.createDecipheriv(algorithm, key, iv, options);
+    }
+
+    return ssocket_compat.crypto.createCipheriv(algorithm, key, iv, options);
+}
+
+function createKeyAgreement(keyExchange: string): KeyAgreement {
+    if (DEFAULT_KEY_EXCHANGE_X25519 === keyExchange) {
+        let crypto = ssocket_compat.crypto;
+
+        let keyPair = crypto.generateKeyPairSync('x25519');
+
+        return {
+            computeSecret: (remotePublicKey) => {
+                let publicKey = crypto.createPublicKey({
+                    key: remotePublicKey,
+                    format: 'der',
+                    type: 'spki',
+                });
+                if ('x25519' !== publicKey.asymmetricKeyType) {
+                    throw new Error('Remote public key is no X25519 key!');
+                }
+
+                return crypto.diffieHellman({
+                    privateKey: keyPair.privateKey,
+                    publicKey: publicKey,
+                });
+            },
+            publicKey: keyPair.publicKey.export({
+                format: 'der',
+                type: 'spki',
+            }),
+        };
+    }
+
+    if (DEFAULT_KEY_EXCHANGE_ECDH === keyExchange) {
+        let ecdh = Crypto.createECDH('prime256v1');
+
+        return {
+            computeSecret: (remotePublicKey) => {
+                return ecdh.computeSecret(remotePublicKey);
+            },
+            publicKey: ecdh.generateKeys(),
+        };
+    }
+
+    throw new Error('Key exchange ' + keyExchange + ' is not supported!');
+}
+
+function createPSKProof(psk: Buffer, transcriptHash: Buffer): Buffer {
+    return Crypto.createHmac('sha256', psk)
+                 .update('node-simple-socket/psk')
+                 .update(transcriptHash)
+                 .digest();
+}
+
+function createStreamLock(exclusive: (action: () => PromiseLike<any>) => Promise<any>): StreamLock {
+    let lock: Promise<() => void>;
+
+    return {
+        release: () => {
+            if (lock) {
+                let heldLock = lock;
+                lock = null;
+
+                heldLock.then((unlock) => {
+                    unlock();
+                });
+            }
+        },
+        run: (action) => {
+            if (!lock) {
+                // hold the queues from the first chunk
+                // until 'release()' is called
+                lock = new Promise<() => void>((resolve) => {
+                    exclusive(() => {
+                        return new Promise<any>((unlock) => {
+                            resolve(() => unlock(null));
+                        });
+                    });
+                });
+            }
+
+            return lock.then(() => action());
+        },
+    };
+}
+
+function deriveDirectionSecret(pwd: Buffer, direction: SocketType): Buffer {
+    return ssocket_helpers.hkdf(pwd, null,
+                                'node-simple-socket/' + (direction == SocketType.Server ? 'server' : 'client'),
+                                SESSION_SECRET_SIZE);
+}
+
+function getTransferSize(fd: number, maxSize: number): Promise<number> {
+    return new Promise<number>((resolve) => {
+        FS.fstat(fd, (err, stats) => {
+            let size: number = null;
+            if (!err && stats.isFile()) {
+                size = stats.size;
+            }
+
+            if (!isNaN(maxSize)) {
+                size = null === size ? maxSize : Math.min(size, maxSize);
+            }
+
+            resolve(size);
+        });
+    });
+}
+
+function getTranscriptHash(transcript: Buffer[]): Buffer {
+    return Crypto.createHash('sha256')
+                 .update(Buffer.concat(transcript))
+                 .digest();
+}
+
+function hashFile(fd: number, length: number, bufferSize: number): Promise<Buffer> {
+    return new Promise<Buffer>((resolve, reject) => {
+        let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+
+        try {
+            let hasher = Crypto.createHash('sha256');
+            let buffer = Buffer.alloc(bufferSize);
+            let position = 0;
+
+            let nextBlock = () => {
+                let bytesToRead = Math.min(length - position, buffer.length);
+                if (bytesToRead < 1) {
+                    completed(null, hasher.digest());
+                    return;
+                }
+
+                FS.read(fd, buffer, 0, bytesToRead, position, (err, bytesRead) => {
+                    if (err) {
+                        completed(err);
+                    }
+                    else if (bytesRead < 1) {
+                        completed(null, null);  // file is smaller
+                    }
+                    else {
+                        hasher.update(buffer.slice(0, bytesRead));
+                        position += bytesRead;
+
+                        nextBlock();
+                    }
+                });
+            };
+
+            nextBlock();
+        }
+        catch (e) {
+            completed(e);
+        }
+    });
+}
+
+function invokeFS<TResult>(func: Function, ...args: any[]): Promise<TResult> {
+    return new Promise<TResult>((resolve, reject) => {
+        func.apply(FS, args.concat([ (err: any, result?: TResult) => {
+            if (err) {
+                reject(err);
+            }
+            else {
+                resolve(result);
+            }
+        } ]));
+    });
+}
+
+function isAEADAlgorithm(algorithm: string): boolean {
+    return AEAD_ALGORITHMS.indexOf(algorithm) > -1;
+}
+
+function isCompressionContextSupported(codecName: string, dictionary?: Buffer): boolean {
+    let codec = ssocket_codecs.getCodec(codecName);
+
+    return codec &&
+           'function' === typeof codec.createCompressContext &&
+           'function' === typeof codec.createDecompressContext &&
+           (!dictionary || true === codec.supportsDictionary);  // a codec would ignore it
+}
+
+function isSocketWritable(socket: Net.Socket): boolean {
+    return !socket.destroyed &&
+           false !== socket.writable;
+}
+
+function isX25519Supported(): boolean {
+    let crypto = ssocket_compat.crypto;
+
+    return 'function' === typeof crypto.generateKeyPairSync &&
+           'function' === typeof crypto.diffieHellman;
+}
+
+function mixPSK(pwd: Buffer, psk: Buffer): Buffer {
+    if (!psk) {
+        return pwd;
+    }
+
+    return ssocket_helpers.hkdf(pwd, psk, 'node-simple-socket/psk', SESSION_SECRET_SIZE);
+}
+
+function readHello(socket: Net.Socket, transcript: Buffer[], withMagic = true): Promise<HelloMessage> {
+    let readMagic: Promise<any>;
+    if (withMagic) {
+        readMagic = ssocket_helpers.readSocket(socket, HELLO_MAGIC.length).then((magic) => {
+            if (!magic.equals(HELLO_MAGIC)) {
+                throw new Error('Remote does not support protocol version ' + PROTOCOL_VERSION);
+            }
+        }, (err) => {
+            // older versions close the connection,
+            // because they read the 'hello' as the size of a RSA key
+            throw new Error('Remote has closed the connection without answering the hello! ' +
+                            'It may use an older version, which does not support protocol version ' + PROTOCOL_VERSION + '.');
+        });
+    }
+    else {
+        readMagic = Promise.resolve();
+    }
+
+    return readMagic.then(() => {
+        return ssocket_helpers.readSocket(socket, 4);
+    }).then((buff) => {
+        let helloLength = buff.readUInt32LE(0);
+        if (helloLength < 1 || helloLength > MAX_HELLO_SIZE) {
+            throw new Error('Invalid hello size: ' + helloLength);
+        }
+
+        return ssocket_helpers.readSocket(socket, helloLength);
+    }).then((buff) => {
+        transcript.push(buff);
+
+        let hello: HelloMessage = JSON.parse(buff.toString(DEFAULT_ENCODING));
+        if (!hello || 'object' !== typeof hello) {
+            throw new Error('Invalid hello!');
+        }
+
+        return hello;
+    });
+}
+
+function removeLink(path: string, removeFile: boolean): Promise<any> {
+    return new Promise<any>((resolve, reject) => {
+        FS.lstat(path, (err, stats) => {
+            if (err) {
+                if ('ENOENT' === err.code) {
+                    resolve();  // does not exist
+                }
+                else {
+                    reject(err);
+                }
+
+                return;
+            }
+
+            if (stats.isSymbolicLink() || (removeFile && !stats.isDirectory())) {
+                // do not write through a link
+                FS.unlink(path, (err) => {
+                    if (err) {
+                        reject(err);
+                    }
+                    else {
+                        resolve();
+                    }
+                });
+            }
+            else {
+                resolve();
+            }
+        });
+    });
+}
+
+function renewSecret(secret: Buffer): Buffer {
+    return ssocket_helpers.hkdf(secret, null, 'node-simple-socket/rekey', SESSION_SECRET_SIZE);
+}
+
+function requiresServerIdentity(trust: ServerTrustOptions): boolean {
+    if (!trust) {
+        return false;
+    }
+
+    return (trust.fingerprints && trust.fingerprints.length > 0) ||
+           (trust.trustedKeys && trust.trustedKeys.length > 0) ||
+           !ssocket_helpers.isEmptyString(trust.knownHostsFile);
+}
+
+function runOperation<TResult>(description: string, opts: OperationOptions, defaultTimeout: number,
+                               action: (ctx: OperationContext) => PromiseLike<TResult>): Promise<TResult> {
+    if (!opts) {
+        opts = {};
+    }
+
+    return new Promise<TResult>((resolve, reject) => {
+        let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+
+        let cancelListeners: ((err: any) => void)[] = [];
+        let isCompleted = false;
+        let onAbort: () => void;
+        let signal = opts.signal;
+        let timer: NodeJS.Timer;
+
+        let ctx: OperationContext = {
+            isCancelled: false,
+            onCancel: (listener) => {
+                cancelListeners.push(listener);
+            },
+        };
+
+        let operationCompleted = (err: any, result?: TResult) => {
+            if (isCompleted) {
+                return;
+            }
+            isCompleted = true;
+
+            if (timer) {
+                clearTimeout(timer);
+            }
+            if (signal && onAbort) {
+                signal.removeEventListener('abort', onAbort);
+            }
+
+            completed(err, result);
+        };
+
+        let cancel = (err: any) => {
+            if (isCompleted) {
+                return;
+            }
+
+            ctx.isCancelled = true;
+            operationCompleted(err);
+
+            cancelListeners.forEach((l) => {
+                try {
+                    l(err);
+                }
+                catch (e) { /* ignore */ }
+            });
+        };
+
+        try {
+            if (signal && signal.aborted) {
+                completed(new ssocket_errors.AbortError(`${description} has been aborted!`));
+                return;
+            }
+
+            let timeout = parseInt(ssocket_helpers.toStringSafe(opts.timeout).trim());
+            if (isNaN(timeout)) {
+                timeout = defaultTimeout;
+            }
+
+            if (timeout > 0) {
+                timer = setTimeout(() => {
+                    cancel(new ssocket_errors.TimeoutError(`${description} timed out after ${timeout} ms!`, timeout));
+                }, timeout);
+            }
+
+            if (signal) {
+                onAbort = () => {
+                    cancel(new ssocket_errors.AbortError(`${description} has been aborted!`));
+                };
+
+                signal.addEventListener('abort', onAbort);
+            }
+
+            action(ctx).then((result) => {
+                operationCompleted(null, result);
+            }, (err) => {
+                operationCompleted(err);
+            });
+        }
+        catch (e) {
+            operationCompleted(e);
+        }
+    });
+}
+
+function setFileAttributes(path: string, entry: ssocket_directories.DirectoryEntry): Promise<any> {
+    return invokeFS<FS.Stats>(FS.lstat, path).then((stats) => {
+        if (stats.isSymbolicLink()) {
+            return;  // chmod() and utimes() would change the target of the link
+        }
+
+        // no setuid, setgid and sticky bits of the remote
+        return invokeFS<any>(FS.chmod, path, entry.mode & 0o777).then(() => {
+            let mtime = entry.mtime / 1000;
+
+            return invokeFS<any>(FS.utimes, path, mtime, mtime);
+        });
+    });
+}
+
 function toDataTransformerSave(transformer: DataTransformer): DataTransformer {
     if (!transformer) {
         transformer = (ctx) => {
@@ -1638,3 +6799,55 @@ function toDataTransformerSave(transformer: DataTransformer): DataTransformer {
     
     return transformer;
 }
+
+function toDictionaryHash(dictionary: Buffer): string {
+    if (!dictionary) {
+        return '';
+    }
+
+    return Crypto.createHash('sha256')
+                 .update(dictionary).digest('hex');
+}
+
+function toFileMetadata(obj: any): FileMetadata {
+    if (!obj) {
+        throw new Error('Invalid file metadata!');
+    }
+
+    // use the name only, so the file cannot be written
+    // outside of the target directory
+    let name = ssocket_helpers.toStringSafe(obj.name).split(/[\\/]/).pop();
+    if ('' === name || '.' === name || '..' === name || name.indexOf('\0') > -1) {
+        throw new Error('Invalid file name: ' + obj.name);
+    }
+
+    let hash = ssocket_helpers.normalizeString(obj.hash);
+    if (!/^[0-9a-f]{64}$/.test(hash)) {
+        throw new Error('Invalid file hash: ' + obj.hash);
+    }
+
+    let toNumber = (val: any) => {
+        let n = parseInt(ssocket_helpers.toStringSafe(val).trim());
+
+        return (isNaN(n) || n < 0) ? 0 : n;
+    };
+
+    return {
+        hash: hash,
+        mode: toNumber(obj.mode),
+        mtime: toNumber(obj.mtime),
+        name: name,
+        size: toNumber(obj.size),
+    };
+}
+
+function writeHello(socket: Net.Socket, hello: HelloMessage, transcript: Buffer[]): Promise<any> {
+    let json = new Buffer(JSON.stringify(hello), DEFAULT_ENCODING);
+    transcript.push(json);
+
+    let helloLength = Buffer.alloc(4);
+    helloLength.writeUInt32LE(json.length, 0);
+
+    return ssocket_helpers.writeSocket(socket,
+                                       Buffer.concat([ HELLO_MAGIC, helloLength, json ]));
+}
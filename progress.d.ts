@@ -0,0 +1,122 @@
+/// <reference types="node" />
+/**
+ * A listener for the progress of a transfer.
+ *
+ * @param {TransferProgress} progress The progress.
+ */
+export declare type ProgressListener = (progress: TransferProgress) => void;
+/**
+ * A sample for calculating the transfer rate.
+ */
+export interface ProgressSample {
+    /**
+     * The number of bytes, which have been transferred until then.
+     */
+    bytes: number;
+    /**
+     * The timestamp in milliseconds.
+     */
+    time: number;
+}
+/**
+ * The progress of a file / stream transfer.
+ */
+export interface TransferProgress {
+    /**
+     * The transfer rate in bytes per second (over the last seconds).
+     */
+    bytesPerSecond: number;
+    /**
+     * The number of bytes, which have been transferred,
+     * including the ones of a resumed transfer.
+     */
+    bytesTransferred: number;
+    /**
+     * The direction: 'read' or 'write'.
+     */
+    direction: string;
+    /**
+     * The estimated time left in seconds or (null) if unknown.
+     */
+    eta: number;
+    /**
+     * The stream pointer of the source / target.
+     */
+    fd: number;
+    /**
+     * The percentage (0 - 100) or (null) if unknown.
+     */
+    percentage: number;
+    /**
+     * The total number of bytes or (null) if unknown.
+     */
+    total: number;
+}
+/**
+ * Tracks the progress of a file / stream transfer.
+ */
+export declare class ProgressTracker {
+    /**
+     * Stores the number of bytes, which have been transferred.
+     */
+    protected _bytesTransferred: number;
+    /**
+     * Stores the direction.
+     */
+    protected _direction: string;
+    /**
+     * Stores the stream pointer.
+     */
+    protected _fd: number;
+    /**
+     * Stores the listener for the progress.
+     */
+    protected _listener: ProgressListener;
+    /**
+     * Stores the samples for the transfer rate.
+     */
+    protected _samples: ProgressSample[];
+    /**
+     * Stores the time in milliseconds, the transfer rate is calculated over.
+     */
+    protected _window: number;
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {string} direction The direction: 'read' or 'write'.
+     * @param {number} fd The stream pointer of the source / target.
+     * @param {ProgressListener} listener The listener for the progress.
+     * @param {number} [window] The time in milliseconds, the transfer rate is calculated over.
+     */
+    constructor(direction: string, fd: number, listener: ProgressListener, window?: number);
+    /**
+     * Gets the current transfer rate in bytes per second.
+     */
+    readonly bytesPerSecond: number;
+    /**
+     * Gets the number of bytes, which have been transferred.
+     */
+    readonly bytesTransferred: number;
+    /**
+     * Returns the current progress.
+     *
+     * @return {TransferProgress} The progress.
+     */
+    getProgress(): TransferProgress;
+    /**
+     * (Re)starts tracking at a position, like the offset of a resumed transfer.
+     *
+     * @param {number} position The number of bytes, which have already been transferred.
+     */
+    start(position: number): void;
+    /**
+     * The total number of bytes, if known.
+     */
+    total: number;
+    /**
+     * Adds transferred bytes and notifies the listener.
+     *
+     * @param {number} bytes The number of bytes.
+     */
+    update(bytes: number): void;
+}
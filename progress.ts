@@ -0,0 +1,238 @@
+/// <reference types="node" />
+
+// The MIT License (MIT)
+// 
+// node-simple-socket (https://github.com/mkloubert/node-simple-socket)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+import * as ssocket_helpers from './helpers';
+
+
+const DEFAULT_WINDOW = 5000;
+
+
+/**
+ * A listener for the progress of a transfer.
+ * 
+ * @param {TransferProgress} progress The progress.
+ */
+export type ProgressListener = (progress: TransferProgress) => void;
+
+/**
+ * A sample for calculating the transfer rate.
+ */
+export interface ProgressSample {
+    /**
+     * The number of bytes, which have been transferred until then.
+     */
+    bytes: number;
+    /**
+     * The timestamp in milliseconds.
+     */
+    time: number;
+}
+
+/**
+ * The progress of a file / stream transfer.
+ */
+export interface TransferProgress {
+    /**
+     * The transfer rate in bytes per second (over the last seconds).
+     */
+    bytesPerSecond: number;
+    /**
+     * The number of bytes, which have been transferred,
+     * including the ones of a resumed transfer.
+     */
+    bytesTransferred: number;
+    /**
+     * The direction: 'read' or 'write'.
+     */
+    direction: string;
+    /**
+     * The estimated time left in seconds or (null) if unknown.
+     */
+    eta: number;
+    /**
+     * The stream pointer of the source / target.
+     */
+    fd: number;
+    /**
+     * The percentage (0 - 100) or (null) if unknown.
+     */
+    percentage: number;
+    /**
+     * The total number of bytes or (null) if unknown.
+     */
+    total: number;
+}
+
+
+/**
+ * Tracks the progress of a file / stream transfer.
+ */
+export class ProgressTracker {
+    /**
+     * Stores the number of bytes, which have been transferred.
+     */
+    protected _bytesTransferred = 0;
+    /**
+     * Stores the direction.
+     */
+    protected _direction: string;
+    /**
+     * Stores the stream pointer.
+     */
+    protected _fd: number;
+    /**
+     * Stores the listener for the progress.
+     */
+    protected _listener: ProgressListener;
+    /**
+     * Stores the samples for the transfer rate.
+     */
+    protected _samples: ProgressSample[] = [];
+    /**
+     * Stores the time in milliseconds, the transfer rate is calculated over.
+     */
+    protected _window: number;
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {string} direction The direction: 'read' or 'write'.
+     * @param {number} fd The stream pointer of the source / target.
+     * @param {ProgressListener} listener The listener for the progress.
+     * @param {number} [window] The time in milliseconds, the transfer rate is calculated over.
+     */
+    constructor(direction: string, fd: number, listener: ProgressListener, window = DEFAULT_WINDOW) {
+        this._direction = direction;
+        this._fd = fd;
+        this._listener = listener;
+        this._window = window;
+
+        this.start(0);
+    }
+
+    /**
+     * Gets the current transfer rate in bytes per second.
+     */
+    public get bytesPerSecond(): number {
+        let first = this._samples[0];
+        let last = this._samples[this._samples.length - 1];
+
+        let seconds = (last.time - first.time) / 1000;
+        if (seconds <= 0) {
+            return 0;
+        }
+
+        return (last.bytes - first.bytes) / seconds;
+    }
+
+    /**
+     * Gets the number of bytes, which have been transferred.
+     */
+    public get bytesTransferred(): number {
+        return this._bytesTransferred;
+    }
+
+    /**
+     * Returns the current progress.
+     * 
+     * @return {TransferProgress} The progress.
+     */
+    public getProgress(): TransferProgress {
+        let total = this.total;
+        if (ssocket_helpers.isNullOrUndefined(total) || isNaN(total) || total < 0) {
+            total = null;
+        }
+
+        let bytesPerSecond = this.bytesPerSecond;
+
+        let eta: number = null;
+        let percentage: number = null;
+        if (null !== total) {
+            let remainingBytes = Math.max(0, total - this._bytesTransferred);
+
+            if (remainingBytes < 1) {
+                eta = 0;
+            }
+            else if (bytesPerSecond > 0) {
+                eta = remainingBytes / bytesPerSecond;
+            }
+
+            percentage = total > 0 ? Math.min(100, this._bytesTransferred / total * 100) : 100;
+        }
+
+        return {
+            bytesPerSecond: bytesPerSecond,
+            bytesTransferred: this._bytesTransferred,
+            direction: this._direction,
+            eta: eta,
+            fd: this._fd,
+            percentage: percentage,
+            total: total,
+        };
+    }
+
+    /**
+     * (Re)starts tracking at a position, like the offset of a resumed transfer.
+     * 
+     * @param {number} position The number of bytes, which have already been transferred.
+     */
+    public start(position: number) {
+        this._bytesTransferred = position;
+        this._samples = [{
+            bytes: position,
+            time: Date.now(),
+        }];
+    }
+
+    /**
+     * The total number of bytes, if known.
+     */
+    public total: number;
+
+    /**
+     * Adds transferred bytes and notifies the listener.
+     * 
+     * @param {number} bytes The number of bytes.
+     */
+    public update(bytes: number) {
+        let now = Date.now();
+
+        this._bytesTransferred += bytes;
+        this._samples.push({
+            bytes: this._bytesTransferred,
+            time: now,
+        });
+
+        // keep one sample, which is older than the window,
+        // as starting point
+        while (this._samples.length > 2 && (now - this._samples[1].time) >= this._window) {
+            this._samples.shift();
+        }
+
+        if (this._listener) {
+            this._listener(this.getProgress());
+        }
+    }
+}
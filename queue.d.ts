@@ -0,0 +1,31 @@
+/// <reference types="node" />
+/**
+ * A queue, which runs asynchronous operations one after another,
+ * in the order they have been added.
+ */
+export declare class OperationQueue {
+    /**
+     * Stores if an operation is currently running or not.
+     */
+    protected _isRunning: boolean;
+    /**
+     * Stores the operations, which wait to be run.
+     */
+    protected _operations: (() => void)[];
+    /**
+     * Adds an operation.
+     *
+     * @param {Function} action The operation.
+     *
+     * @return {Promise<TResult>} The promise with the result of the operation.
+     */
+    enqueue<TResult>(action: () => PromiseLike<TResult>): Promise<TResult>;
+    /**
+     * Gets the number of operations, which are running or wait to be run.
+     */
+    readonly length: number;
+    /**
+     * Runs the next operation, if possible.
+     */
+    protected next(): void;
+}
@@ -0,0 +1,104 @@
+/// <reference types="node" />
+
+// The MIT License (MIT)
+// 
+// node-simple-socket (https://github.com/mkloubert/node-simple-socket)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+import * as ssocket_helpers from './helpers';
+
+
+/**
+ * A queue, which runs asynchronous operations one after another,
+ * in the order they have been added.
+ */
+export class OperationQueue {
+    /**
+     * Stores if an operation is currently running or not.
+     */
+    protected _isRunning = false;
+    /**
+     * Stores the operations, which wait to be run.
+     */
+    protected _operations: (() => void)[] = [];
+
+    /**
+     * Adds an operation.
+     * 
+     * @param {Function} action The operation.
+     * 
+     * @return {Promise<TResult>} The promise with the result of the operation.
+     */
+    public enqueue<TResult>(action: () => PromiseLike<TResult>): Promise<TResult> {
+        let me = this;
+
+        return new Promise<TResult>((resolve, reject) => {
+            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            me._operations.push(() => {
+                let operationCompleted = (err: any, result?: TResult) => {
+                    me._isRunning = false;
+
+                    completed(err, result);
+
+                    me.next();
+                };
+
+                try {
+                    action().then((result) => {
+                        operationCompleted(null, result);
+                    }, (err) => {
+                        operationCompleted(err);
+                    });
+                }
+                catch (e) {
+                    operationCompleted(e);
+                }
+            });
+
+            me.next();
+        });
+    }
+
+    /**
+     * Gets the number of operations, which are running or wait to be run.
+     */
+    public get length(): number {
+        return this._operations.length +
+               (this._isRunning ? 1 : 0);
+    }
+
+    /**
+     * Runs the next operation, if possible.
+     */
+    protected next() {
+        if (this._isRunning) {
+            return;
+        }
+
+        let operation = this._operations.shift();
+        if (operation) {
+            this._isRunning = true;
+
+            operation();
+        }
+    }
+}
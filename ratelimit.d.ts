@@ -0,0 +1,83 @@
+/// <reference types="node" />
+import * as ssocket_helpers from './helpers';
+/**
+ * An operation, which waits for tokens.
+ */
+export interface PendingAcquire {
+    /**
+     * The number of bytes.
+     */
+    bytes: number;
+    /**
+     * Completes the operation.
+     */
+    completed: ssocket_helpers.SimpleCompletedAction<any>;
+}
+/**
+ * A rate limiter (token bucket), which can be shared by several sockets.
+ */
+export declare class RateLimiter {
+    /**
+     * Stores the maximum number of tokens (bytes).
+     */
+    protected _burst: number;
+    /**
+     * Stores the number of bytes per second.
+     */
+    protected _bytesPerSecond: number;
+    /**
+     * Stores the time of the last refill.
+     */
+    protected _lastRefill: number;
+    /**
+     * Stores the timer, which waits for new tokens.
+     */
+    protected _timer: NodeJS.Timer;
+    /**
+     * Stores the current number of tokens (bytes).
+     */
+    protected _tokens: number;
+    /**
+     * Stores the operations, which wait for tokens.
+     */
+    protected _waiting: PendingAcquire[];
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {number} bytesPerSecond The number of bytes per second. A value of 0 means that there is no limit.
+     * @param {number} [burst] The maximum number of bytes, which can be sent at once. Default: 'bytesPerSecond'
+     */
+    constructor(bytesPerSecond: number, burst?: number);
+    /**
+     * Waits until a number of bytes can be sent.
+     *
+     * A request, which is bigger than the bucket, waits until the bucket is full
+     * and is allowed to borrow the rest from the future.
+     *
+     * @param {number} bytes The number of bytes.
+     *
+     * @return {Promise<any>} The promise.
+     */
+    acquire(bytes: number): Promise<any>;
+    /**
+     * Gets the maximum number of bytes, which can be sent at once.
+     */
+    readonly burst: number;
+    /**
+     * Gets or sets the number of bytes per second.
+     */
+    bytesPerSecond: number;
+    /**
+     * Completes the waiting operations, for which there are enough tokens,
+     * in the order they have been added.
+     */
+    protected next(): void;
+    /**
+     * Adds the tokens for the time since the last refill.
+     */
+    protected refill(): void;
+    /**
+     * Gets the number of operations, which wait for tokens.
+     */
+    readonly waiting: number;
+}
@@ -0,0 +1,220 @@
+/// <reference types="node" />
+
+// The MIT License (MIT)
+// 
+// node-simple-socket (https://github.com/mkloubert/node-simple-socket)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+import * as ssocket_helpers from './helpers';
+
+
+/**
+ * An operation, which waits for tokens.
+ */
+export interface PendingAcquire {
+    /**
+     * The number of bytes.
+     */
+    bytes: number;
+    /**
+     * Completes the operation.
+     */
+    completed: ssocket_helpers.SimpleCompletedAction<any>;
+}
+
+
+/**
+ * A rate limiter (token bucket), which can be shared by several sockets.
+ */
+export class RateLimiter {
+    /**
+     * Stores the maximum number of tokens (bytes).
+     */
+    protected _burst: number;
+    /**
+     * Stores the number of bytes per second.
+     */
+    protected _bytesPerSecond: number;
+    /**
+     * Stores the time of the last refill.
+     */
+    protected _lastRefill: number;
+    /**
+     * Stores the timer, which waits for new tokens.
+     */
+    protected _timer: NodeJS.Timer;
+    /**
+     * Stores the current number of tokens (bytes).
+     */
+    protected _tokens: number;
+    /**
+     * Stores the operations, which wait for tokens.
+     */
+    protected _waiting: PendingAcquire[] = [];
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {number} bytesPerSecond The number of bytes per second. A value of 0 means that there is no limit.
+     * @param {number} [burst] The maximum number of bytes, which can be sent at once. Default: 'bytesPerSecond'
+     */
+    constructor(bytesPerSecond: number, burst?: number) {
+        this._bytesPerSecond = toNumber(bytesPerSecond);
+
+        this._burst = toNumber(burst);
+        if (this._burst <= 0) {
+            this._burst = this._bytesPerSecond;
+        }
+
+        this._lastRefill = Date.now();
+        this._tokens = this._burst;
+    }
+
+    /**
+     * Waits until a number of bytes can be sent.
+     * 
+     * A request, which is bigger than the bucket, waits until the bucket is full
+     * and is allowed to borrow the rest from the future.
+     * 
+     * @param {number} bytes The number of bytes.
+     * 
+     * @return {Promise<any>} The promise.
+     */
+    public acquire(bytes: number): Promise<any> {
+        let me = this;
+
+        return new Promise<any>((resolve, reject) => {
+            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            bytes = toNumber(bytes);
+            if (bytes <= 0 || me._bytesPerSecond <= 0) {
+                completed();  // nothing to limit
+                return;
+            }
+
+            me._waiting.push({
+                bytes: bytes,
+                completed: completed,
+            });
+
+            me.next();
+        });
+    }
+
+    /**
+     * Gets the maximum number of bytes, which can be sent at once.
+     */
+    public get burst(): number {
+        return this._burst;
+    }
+
+    /**
+     * Gets or sets the number of bytes per second.
+     */
+    public get bytesPerSecond(): number {
+        return this._bytesPerSecond;
+    }
+    public set bytesPerSecond(value: number) {
+        this.refill();
+
+        let burstFollows = this._burst === this._bytesPerSecond;
+
+        this._bytesPerSecond = toNumber(value);
+        if (burstFollows) {
+            this._burst = this._bytesPerSecond;
+            this._tokens = Math.min(this._tokens, this._burst);
+        }
+
+        // check with new rate
+        if (this._timer) {
+            clearTimeout(this._timer);
+            this._timer = null;
+        }
+
+        this.next();
+    }
+
+    /**
+     * Completes the waiting operations, for which there are enough tokens,
+     * in the order they have been added.
+     */
+    protected next() {
+        let me = this;
+
+        if (me._timer) {
+            return;  // waiting for tokens
+        }
+
+        me.refill();
+
+        while (me._waiting.length > 0) {
+            let op = me._waiting[0];
+
+            if (me._bytesPerSecond > 0) {
+                let required = Math.min(op.bytes, me._burst);
+                if (me._tokens < required) {
+                    let delay = Math.ceil((required - me._tokens) / me._bytesPerSecond * 1000);
+
+                    me._timer = setTimeout(() => {
+                        me._timer = null;
+
+                        me.next();
+                    }, Math.max(1, delay));
+
+                    return;
+                }
+
+                me._tokens -= op.bytes;  // can become negative
+            }
+
+            me._waiting.shift();
+            op.completed();
+        }
+    }
+
+    /**
+     * Adds the tokens for the time since the last refill.
+     */
+    protected refill() {
+        let now = Date.now();
+
+        this._tokens = Math.min(this._burst,
+                                this._tokens + (now - this._lastRefill) / 1000 * this._bytesPerSecond);
+        this._lastRefill = now;
+    }
+
+    /**
+     * Gets the number of operations, which wait for tokens.
+     */
+    public get waiting(): number {
+        return this._waiting.length;
+    }
+}
+
+
+function toNumber(val: any): number {
+    let result = parseFloat(ssocket_helpers.toStringSafe(val).trim());
+    if (isNaN(result) || result < 0) {
+        result = 0;
+    }
+
+    return result;
+}
@@ -0,0 +1,279 @@
+/// <reference types="node" />
+import * as Events from 'events';
+import * as ssocket_helpers from './helpers';
+import { ConnectOptions, OperationOptions, SimpleSocket } from './index';
+import { CallOptions, RPCHandler } from './rpc';
+/**
+ * A function, which connects to the server.
+ *
+ * @return {PromiseLike<SimpleSocket>} The promise with the new socket.
+ */
+export declare type Connector = () => PromiseLike<SimpleSocket>;
+/**
+ * A write operation, which waits for a connection.
+ */
+export interface BufferedWrite {
+    /**
+     * Sends the data with the new socket.
+     *
+     * @param {SimpleSocket} socket The socket.
+     *
+     * @return {PromiseLike<any>} The promise.
+     */
+    action: (socket: SimpleSocket) => PromiseLike<any>;
+    /**
+     * Completes the write operation.
+     */
+    completed: ssocket_helpers.SimpleCompletedAction<any>;
+}
+/**
+ * Options for a ReconnectingClient.
+ */
+export interface ReconnectOptions extends ConnectOptions {
+    /**
+     * The factor, the delay is multiplied with after each failed attempt. Default: 2
+     */
+    backoffFactor?: number;
+    /**
+     * The delay in milliseconds before the first attempt. Default: 500
+     */
+    initialDelay?: number;
+    /**
+     * The random part of a delay, between 0 and 1. Default: 0.5
+     */
+    jitter?: number;
+    /**
+     * The maximum number of writes, which wait for a connection. Default: 1000
+     */
+    maxBufferSize?: number;
+    /**
+     * The maximum delay in milliseconds. Default: 30000
+     */
+    maxDelay?: number;
+    /**
+     * The maximum number of failed attempts in a row, before giving up. Default: unlimited
+     */
+    maxRetries?: number;
+    /**
+     * A function, which prepares each new socket, before the handshake is made.
+     *
+     * @param {SimpleSocket} socket The new socket.
+     *
+     * @return {any} The result (can be a promise).
+     */
+    setup?: (socket: SimpleSocket) => any;
+    /**
+     * What to do with writes, while there is no connection:
+     * 'buffer' (default) sends them after the next reconnect, 'reject' rejects them.
+     *
+     * With 'buffer', a write, which fails because the connection is lost while sending,
+     * is also sent again, so it is delivered at least once: the server may already
+     * have received it and can receive it twice.
+     */
+    writePolicy?: WritePolicy;
+}
+/**
+ * What to do with writes, while there is no connection.
+ */
+export declare type WritePolicy = 'buffer' | 'reject';
+/**
+ * A client, which connects to a server again, if the connection has been lost.
+ */
+export declare class ReconnectingClient extends Events.EventEmitter {
+    /**
+     * Stores the writes, which wait for a connection.
+     */
+    protected _buffer: BufferedWrite[];
+    /**
+     * Stores the running connection attempts.
+     */
+    protected _connecting: Promise<SimpleSocket>;
+    /**
+     * Stores the function, which connects to the server.
+     */
+    protected _connector: Connector;
+    /**
+     * Stores if the client has been closed or not.
+     */
+    protected _isEnded: boolean;
+    /**
+     * Stores the methods, which can be called by the server.
+     */
+    protected _methods: {
+        [name: string]: RPCHandler;
+    };
+    /**
+     * Stores the options.
+     */
+    protected _opts: ReconnectOptions;
+    /**
+     * Stores the current socket.
+     */
+    protected _socket: SimpleSocket;
+    /**
+     * Stores the timer for the next attempt.
+     */
+    protected _timer: NodeJS.Timer;
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {Connector} connector The function, which connects to the server.
+     * @param {ReconnectOptions} [opts] Additional options.
+     */
+    constructor(connector: Connector, opts?: ReconnectOptions);
+    /**
+     * Buffers a write until the next connection (s. 'writePolicy').
+     *
+     * @param {Function} action The action, that sends the data.
+     * @param {any} [err] The error of a failed attempt with a lost connection.
+     *
+     * @return {Promise<TResult>} The promise.
+     */
+    protected bufferWrite<TResult>(action: (socket: SimpleSocket) => PromiseLike<TResult>, err?: any): Promise<TResult>;
+    /**
+     * Calls a method of the server.
+     *
+     * @param {string} method The name of the method.
+     * @param {any} [params] The parameters.
+     * @param {CallOptions} [opts] Additional options.
+     *
+     * @return {Promise<TResult>} The promise with the result.
+     */
+    call<TResult>(method: string, params?: any, opts?: CallOptions): Promise<TResult>;
+    /**
+     * Connects to the server, if there is no connection.
+     *
+     * @return {Promise<SimpleSocket>} The promise with the socket.
+     */
+    connect(): Promise<SimpleSocket>;
+    /**
+     * Closes the connection and stops reconnecting.
+     *
+     * @return {Promise<any>} The promise.
+     */
+    end(): Promise<any>;
+    /**
+     * Sends the writes, which have waited for a connection.
+     *
+     * @param {SimpleSocket} socket The new socket.
+     */
+    protected flush(socket: SimpleSocket): void;
+    /**
+     * Returns the delay before the next attempt.
+     *
+     * @param {number} retry The number of the attempt, beginning at 1.
+     *
+     * @return {number} The delay in milliseconds.
+     */
+    protected getDelay(retry: number): number;
+    /**
+     * Is invoked after the connection of a socket has been closed.
+     *
+     * @param {SimpleSocket} socket The socket.
+     */
+    protected handleClose(socket: SimpleSocket): void;
+    /**
+     * Gets if there is a connection or not.
+     */
+    readonly isConnected: boolean;
+    /**
+     * Prepares a new socket and makes the handshake.
+     *
+     * @param {SimpleSocket} socket The new socket.
+     *
+     * @return {Promise<any>} The promise.
+     */
+    protected prepareSocket(socket: SimpleSocket): Promise<any>;
+    /**
+     * Reads data from the server.
+     *
+     * @param {OperationOptions} [opts] Additional options, like a timeout.
+     *
+     * @return {Promise<Buffer>} The promise.
+     */
+    read(opts?: OperationOptions): Promise<Buffer>;
+    /**
+     * Reads data as JSON object.
+     *
+     * @param {OperationOptions} [opts] Additional options, like a timeout.
+     *
+     * @return {Promise<T>} The promise.
+     */
+    readJSON<T>(opts?: OperationOptions): Promise<T>;
+    /**
+     * Reads data as string.
+     *
+     * @param {OperationOptions} [opts] Additional options, like a timeout.
+     *
+     * @return {Promise<string>} The promise.
+     */
+    readString(opts?: OperationOptions): Promise<string>;
+    /**
+     * Connects to the server, until it works or the client gives up.
+     *
+     * @param {boolean} isFirst Is first connection or not.
+     *
+     * @return {Promise<SimpleSocket>} The promise with the new socket.
+     */
+    protected reconnect(isFirst: boolean): Promise<SimpleSocket>;
+    /**
+     * Registers a method, which can be called by the server, on each connection.
+     *
+     * @param {string} name The name of the method.
+     * @param {RPCHandler} handler The handler.
+     */
+    registerMethod(name: string, handler: RPCHandler): void;
+    /**
+     * Rejects all writes, which wait for a connection.
+     *
+     * @param {any} err The error.
+     */
+    protected rejectBuffer(err: any): void;
+    /**
+     * Gets the current socket or (null) if there is no connection.
+     */
+    readonly socket: SimpleSocket;
+    /**
+     * Unregisters a method.
+     *
+     * @param {string} name The name of the method.
+     *
+     * @return {boolean} Method was registered or not.
+     */
+    unregisterMethod(name: string): boolean;
+    /**
+     * Invokes an action with the current socket.
+     *
+     * @param {Function} action The action.
+     *
+     * @return {Promise<TResult>} The promise.
+     */
+    protected withSocket<TResult>(action: (socket: SimpleSocket) => PromiseLike<TResult>): Promise<TResult>;
+    /**
+     * Sends data to the server.
+     *
+     * @param {any} data The data to send.
+     * @param {OperationOptions} [opts] Additional options, like a timeout.
+     *
+     * @return {Promise<Buffer>} The promise.
+     */
+    write(data: any, opts?: OperationOptions): Promise<Buffer>;
+    /**
+     * Sends an object / value as JSON string.
+     *
+     * @param {T} obj The object to send.
+     * @param {OperationOptions} [opts] Additional options, like a timeout.
+     *
+     * @return {Promise<Buffer>} The promise.
+     */
+    writeJSON<T>(obj: T, opts?: OperationOptions): Promise<Buffer>;
+    /**
+     * Sends data with the current socket or buffers it until
+     * the next connection (s. 'writePolicy').
+     *
+     * @param {Function} action The action, that sends the data.
+     *
+     * @return {Promise<TResult>} The promise.
+     */
+    protected writeOrBuffer<TResult>(action: (socket: SimpleSocket) => PromiseLike<TResult>): Promise<TResult>;
+}
@@ -0,0 +1,467 @@
+/// <reference types="node" />
+"use strict";
+// The MIT License (MIT)
+// 
+// node-simple-socket (https://github.com/mkloubert/node-simple-socket)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+const Events = require('events');
+const ssocket_helpers = require('./helpers');
+const DEFAULT_BACKOFF_FACTOR = 2;
+const DEFAULT_INITIAL_DELAY = 500;
+const DEFAULT_JITTER = 0.5;
+const DEFAULT_MAX_BUFFER_SIZE = 1000;
+const DEFAULT_MAX_DELAY = 30000;
+/**
+ * A client, which connects to a server again, if the connection has been lost.
+ */
+class ReconnectingClient extends Events.EventEmitter {
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {Connector} connector The function, which connects to the server.
+     * @param {ReconnectOptions} [opts] Additional options.
+     */
+    constructor(connector, opts) {
+        super();
+        /**
+         * Stores the writes, which wait for a connection.
+         */
+        this._buffer = [];
+        /**
+         * Stores if the client has been closed or not.
+         */
+        this._isEnded = false;
+        /**
+         * Stores the methods, which can be called by the server.
+         */
+        this._methods = {};
+        this._connector = connector;
+        this._opts = opts || {};
+    }
+    /**
+     * Buffers a write until the next connection (s. 'writePolicy').
+     *
+     * @param {Function} action The action, that sends the data.
+     * @param {any} [err] The error of a failed attempt with a lost connection.
+     *
+     * @return {Promise<TResult>} The promise.
+     */
+    bufferWrite(action, err) {
+        let me = this;
+        return new Promise((resolve, reject) => {
+            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+            if (me._isEnded) {
+                completed(err || new Error('Client has been closed!'));
+                return;
+            }
+            if ('reject' === ssocket_helpers.normalizeString(me._opts.writePolicy)) {
+                completed(err || new Error('Not connected!'));
+                return;
+            }
+            if (me._buffer.length >= toNumber(me._opts.maxBufferSize, DEFAULT_MAX_BUFFER_SIZE)) {
+                completed(new Error('Write buffer is full!'));
+                return;
+            }
+            me._buffer.push({
+                action: action,
+                completed: completed,
+            });
+        });
+    }
+    /**
+     * Calls a method of the server.
+     *
+     * @param {string} method The name of the method.
+     * @param {any} [params] The parameters.
+     * @param {CallOptions} [opts] Additional options.
+     *
+     * @return {Promise<TResult>} The promise with the result.
+     */
+    call(method, params, opts) {
+        let me = this;
+        return me.withSocket((socket) => {
+            return socket.call(method, params, opts);
+        });
+    }
+    /**
+     * Connects to the server, if there is no connection.
+     *
+     * @return {Promise<SimpleSocket>} The promise with the socket.
+     */
+    connect() {
+        let me = this;
+        if (me._socket) {
+            return Promise.resolve(me._socket);
+        }
+        return me.reconnect(true);
+    }
+    /**
+     * Closes the connection and stops reconnecting.
+     *
+     * @return {Promise<any>} The promise.
+     */
+    end() {
+        let me = this;
+        me._isEnded = true;
+        if (me._timer) {
+            clearTimeout(me._timer);
+            me._timer = null;
+        }
+        me.rejectBuffer(new Error('Client has been closed!'));
+        let socket = me._socket;
+        me._socket = null;
+        if (socket) {
+            return socket.end();
+        }
+        return Promise.resolve();
+    }
+    /**
+     * Sends the writes, which have waited for a connection.
+     *
+     * @param {SimpleSocket} socket The new socket.
+     */
+    flush(socket) {
+        let me = this;
+        let buffer = me._buffer;
+        me._buffer = [];
+        // the socket keeps the order
+        buffer.forEach((bw) => {
+            try {
+                me.writeOrBuffer(bw.action).then((result) => {
+                    bw.completed(null, result);
+                }, (err) => {
+                    bw.completed(err);
+                });
+            }
+            catch (e) {
+                bw.completed(e);
+            }
+        });
+    }
+    /**
+     * Returns the delay before the next attempt.
+     *
+     * @param {number} retry The number of the attempt, beginning at 1.
+     *
+     * @return {number} The delay in milliseconds.
+     */
+    getDelay(retry) {
+        let opts = this._opts;
+        let initialDelay = toNumber(opts.initialDelay, DEFAULT_INITIAL_DELAY);
+        let factor = toNumber(opts.backoffFactor, DEFAULT_BACKOFF_FACTOR);
+        let maxDelay = toNumber(opts.maxDelay, DEFAULT_MAX_DELAY);
+        let jitter = Math.min(1, Math.max(0, toNumber(opts.jitter, DEFAULT_JITTER)));
+        let delay = Math.min(maxDelay, initialDelay * Math.pow(factor, retry - 1));
+        // do not let all clients reconnect at the same time
+        return Math.max(0, Math.round(delay * (1 - jitter * Math.random())));
+    }
+    /**
+     * Is invoked after the connection of a socket has been closed.
+     *
+     * @param {SimpleSocket} socket The socket.
+     */
+    handleClose(socket) {
+        let me = this;
+        if (me._socket !== socket) {
+            return;
+        }
+        me._socket = null;
+        if (!me._isEnded) {
+            me.reconnect(false).then(() => {
+            }, (err) => {
+                // s. 'gave-up' event
+            });
+        }
+    }
+    /**
+     * Gets if there is a connection or not.
+     */
+    get isConnected() {
+        return !!this._socket &&
+            !this._socket.socket.destroyed;
+    }
+    /**
+     * Prepares a new socket and makes the handshake.
+     *
+     * @param {SimpleSocket} socket The new socket.
+     *
+     * @return {Promise<any>} The promise.
+     */
+    prepareSocket(socket) {
+        let me = this;
+        return new Promise((resolve, reject) => {
+            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+            try {
+                for (let name in me._methods) {
+                    socket.registerMethod(name, me._methods[name]);
+                }
+                Promise.resolve(me._opts.setup ? me._opts.setup(socket) : null).then(() => {
+                    return socket.handshake();
+                }).then(() => {
+                    completed(null);
+                }, (err) => {
+                    completed(err);
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+    /**
+     * Reads data from the server.
+     *
+     * @param {OperationOptions} [opts] Additional options, like a timeout.
+     *
+     * @return {Promise<Buffer>} The promise.
+     */
+    read(opts) {
+        return this.withSocket((socket) => {
+            return socket.read(opts);
+        });
+    }
+    /**
+     * Reads data as JSON object.
+     *
+     * @param {OperationOptions} [opts] Additional options, like a timeout.
+     *
+     * @return {Promise<T>} The promise.
+     */
+    readJSON(opts) {
+        return this.withSocket((socket) => {
+            return socket.readJSON(opts);
+        });
+    }
+    /**
+     * Reads data as string.
+     *
+     * @param {OperationOptions} [opts] Additional options, like a timeout.
+     *
+     * @return {Promise<string>} The promise.
+     */
+    readString(opts) {
+        return this.withSocket((socket) => {
+            return socket.readString(opts);
+        });
+    }
+    /**
+     * Connects to the server, until it works or the client gives up.
+     *
+     * @param {boolean} isFirst Is first connection or not.
+     *
+     * @return {Promise<SimpleSocket>} The promise with the new socket.
+     */
+    reconnect(isFirst) {
+        let me = this;
+        if (me._connecting) {
+            return me._connecting; // already running
+        }
+        let connecting = me._connecting = new Promise((resolve, reject) => {
+            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+            let retries = 0;
+            let maxRetries = parseInt(ssocket_helpers.toStringSafe(me._opts.maxRetries).trim());
+            let tryConnect;
+            let retry = (err) => {
+                if (me._isEnded) {
+                    completed(new Error('Client has been closed!'));
+                    return;
+                }
+                ++retries;
+                if (!isNaN(maxRetries) && retries > maxRetries) {
+                    me.rejectBuffer(err);
+                    me.emit('gave-up', err, retries - 1);
+                    completed(err);
+                    return;
+                }
+                let delay = me.getDelay(retries);
+                me.emit('reconnecting', retries, delay, err);
+                me._timer = setTimeout(() => {
+                    me._timer = null;
+                    tryConnect();
+                }, delay);
+            };
+            tryConnect = () => {
+                if (me._isEnded) {
+                    completed(new Error('Client has been closed!'));
+                    return;
+                }
+                Promise.resolve(me._connector()).then((socket) => {
+                    socket.on('error', (err) => {
+                        // connection will be closed
+                    });
+                    return me.prepareSocket(socket).then(() => {
+                        return socket;
+                    }, (err) => {
+                        socket.socket.destroy();
+                        throw err;
+                    });
+                }).then((socket) => {
+                    if (me._isEnded) {
+                        socket.end();
+                        completed(new Error('Client has been closed!'));
+                        return;
+                    }
+                    me._socket = socket;
+                    socket.once('close', () => {
+                        me.handleClose(socket);
+                    });
+                    if (!isFirst) {
+                        me.emit('reconnected', socket, retries);
+                    }
+                    me.flush(socket);
+                    completed(null, socket);
+                }, (err) => {
+                    retry(err);
+                });
+            };
+            if (isFirst) {
+                tryConnect();
+            }
+            else {
+                retry(new Error('Connection has been closed!'));
+            }
+        });
+        let connectingCompleted = () => {
+            if (me._connecting === connecting) {
+                me._connecting = null;
+            }
+        };
+        connecting.then(connectingCompleted, connectingCompleted);
+        return connecting;
+    }
+    /**
+     * Registers a method, which can be called by the server, on each connection.
+     *
+     * @param {string} name The name of the method.
+     * @param {RPCHandler} handler The handler.
+     */
+    registerMethod(name, handler) {
+        this._methods[name] = handler;
+        if (this._socket) {
+            this._socket.registerMethod(name, handler);
+        }
+    }
+    /**
+     * Rejects all writes, which wait for a connection.
+     *
+     * @param {any} err The error.
+     */
+    rejectBuffer(err) {
+        let buffer = this._buffer;
+        this._buffer = [];
+        buffer.forEach((bw) => {
+            bw.completed(err);
+        });
+    }
+    /**
+     * Gets the current socket or (null) if there is no connection.
+     */
+    get socket() {
+        return this._socket;
+    }
+    /**
+     * Unregisters a method.
+     *
+     * @param {string} name The name of the method.
+     *
+     * @return {boolean} Method was registered or not.
+     */
+    unregisterMethod(name) {
+        let isRegistered = name in this._methods;
+        delete this._methods[name];
+        if (this._socket) {
+            this._socket.unregisterMethod(name);
+        }
+        return isRegistered;
+    }
+    /**
+     * Invokes an action with the current socket.
+     *
+     * @param {Function} action The action.
+     *
+     * @return {Promise<TResult>} The promise.
+     */
+    withSocket(action) {
+        let socket = this._socket;
+        if (!socket) {
+            return Promise.reject(new Error('Not connected!'));
+        }
+        return Promise.resolve(action(socket));
+    }
+    /**
+     * Sends data to the server.
+     *
+     * @param {any} data The data to send.
+     * @param {OperationOptions} [opts] Additional options, like a timeout.
+     *
+     * @return {Promise<Buffer>} The promise.
+     */
+    write(data, opts) {
+        return this.writeOrBuffer((socket) => {
+            return socket.write(data, opts);
+        });
+    }
+    /**
+     * Sends an object / value as JSON string.
+     *
+     * @param {T} obj The object to send.
+     * @param {OperationOptions} [opts] Additional options, like a timeout.
+     *
+     * @return {Promise<Buffer>} The promise.
+     */
+    writeJSON(obj, opts) {
+        return this.writeOrBuffer((socket) => {
+            return socket.writeJSON(obj, opts);
+        });
+    }
+    /**
+     * Sends data with the current socket or buffers it until
+     * the next connection (s. 'writePolicy').
+     *
+     * @param {Function} action The action, that sends the data.
+     *
+     * @return {Promise<TResult>} The promise.
+     */
+    writeOrBuffer(action) {
+        let me = this;
+        let socket = me._socket;
+        if (!socket || socket.socket.destroyed) {
+            // no connection or its 'close' event has not been emitted yet
+            return me.bufferWrite(action);
+        }
+        return Promise.resolve(action(socket)).then(null, (err) => {
+            if (socket.socket.destroyed) {
+                // connection has been lost while sending
+                return me.bufferWrite(action, err);
+            }
+            throw err;
+        });
+    }
+}
+exports.ReconnectingClient = ReconnectingClient;
+function toNumber(val, defaultValue) {
+    let result = parseFloat(ssocket_helpers.toStringSafe(val).trim());
+    if (isNaN(result)) {
+        result = defaultValue;
+    }
+    return result;
+}
+//# sourceMappingURL=reconnect.js.map
\ No newline at end of file
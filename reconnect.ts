@@ -0,0 +1,657 @@
+/// <reference types="node" />
+
+// The MIT License (MIT)
+// 
+// node-simple-socket (https://github.com/mkloubert/node-simple-socket)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+import * as Events from 'events';
+import * as ssocket_helpers from './helpers';
+import { ConnectOptions, OperationOptions, SimpleSocket } from './index';
+import { CallOptions, RPCHandler } from './rpc';
+
+
+const DEFAULT_BACKOFF_FACTOR = 2;
+const DEFAULT_INITIAL_DELAY = 500;
+const DEFAULT_JITTER = 0.5;
+const DEFAULT_MAX_BUFFER_SIZE = 1000;
+const DEFAULT_MAX_DELAY = 30000;
+
+
+/**
+ * A function, which connects to the server.
+ * 
+ * @return {PromiseLike<SimpleSocket>} The promise with the new socket.
+ */
+export type Connector = () => PromiseLike<SimpleSocket>;
+
+/**
+ * A write operation, which waits for a connection.
+ */
+export interface BufferedWrite {
+    /**
+     * Sends the data with the new socket.
+     * 
+     * @param {SimpleSocket} socket The socket.
+     * 
+     * @return {PromiseLike<any>} The promise.
+     */
+    action: (socket: SimpleSocket) => PromiseLike<any>;
+    /**
+     * Completes the write operation.
+     */
+    completed: ssocket_helpers.SimpleCompletedAction<any>;
+}
+
+/**
+ * Options for a ReconnectingClient.
+ */
+export interface ReconnectOptions extends ConnectOptions {
+    /**
+     * The factor, the delay is multiplied with after each failed attempt. Default: 2
+     */
+    backoffFactor?: number;
+    /**
+     * The delay in milliseconds before the first attempt. Default: 500
+     */
+    initialDelay?: number;
+    /**
+     * The random part of a delay, between 0 and 1. Default: 0.5
+     */
+    jitter?: number;
+    /**
+     * The maximum number of writes, which wait for a connection. Default: 1000
+     */
+    maxBufferSize?: number;
+    /**
+     * The maximum delay in milliseconds. Default: 30000
+     */
+    maxDelay?: number;
+    /**
+     * The maximum number of failed attempts in a row, before giving up. Default: unlimited
+     */
+    maxRetries?: number;
+    /**
+     * A function, which prepares each new socket, before the handshake is made.
+     * 
+     * @param {SimpleSocket} socket The new socket.
+     * 
+     * @return {any} The result (can be a promise).
+     */
+    setup?: (socket: SimpleSocket) => any;
+    /**
+     * What to do with writes, while there is no connection:
+     * 'buffer' (default) sends them after the next reconnect, 'reject' rejects them.
+     * 
+     * With 'buffer', a write, which fails because the connection is lost while sending,
+     * is also sent again, so it is delivered at least once: the server may already
+     * have received it and can receive it twice.
+     */
+    writePolicy?: WritePolicy;
+}
+
+/**
+ * What to do with writes, while there is no connection.
+ */
+export type WritePolicy = 'buffer' | 'reject';
+
+
+/**
+ * A client, which connects to a server again, if the connection has been lost.
+ */
+export class ReconnectingClient extends Events.EventEmitter {
+    /**
+     * Stores the writes, which wait for a connection.
+     */
+    protected _buffer: BufferedWrite[] = [];
+    /**
+     * Stores the running connection attempts.
+     */
+    protected _connecting: Promise<SimpleSocket>;
+    /**
+     * Stores the function, which connects to the server.
+     */
+    protected _connector: Connector;
+    /**
+     * Stores if the client has been closed or not.
+     */
+    protected _isEnded = false;
+    /**
+     * Stores the methods, which can be called by the server.
+     */
+    protected _methods: { [name: string]: RPCHandler } = {};
+    /**
+     * Stores the options.
+     */
+    protected _opts: ReconnectOptions;
+    /**
+     * Stores the current socket.
+     */
+    protected _socket: SimpleSocket;
+    /**
+     * Stores the timer for the next attempt.
+     */
+    protected _timer: NodeJS.Timer;
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {Connector} connector The function, which connects to the server.
+     * @param {ReconnectOptions} [opts] Additional options.
+     */
+    constructor(connector: Connector, opts?: ReconnectOptions) {
+        super();
+
+        this._connector = connector;
+        this._opts = opts || {};
+    }
+
+    /**
+     * Buffers a write until the next connection (s. 'writePolicy').
+     * 
+     * @param {Function} action The action, that sends the data.
+     * @param {any} [err] The error of a failed attempt with a lost connection.
+     * 
+     * @return {Promise<TResult>} The promise.
+     */
+    protected bufferWrite<TResult>(action: (socket: SimpleSocket) => PromiseLike<TResult>, err?: any): Promise<TResult> {
+        let me = this;
+
+        return new Promise<TResult>((resolve, reject) => {
+            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            if (me._isEnded) {
+                completed(err || new Error('Client has been closed!'));
+                return;
+            }
+
+            if ('reject' === ssocket_helpers.normalizeString(me._opts.writePolicy)) {
+                completed(err || new Error('Not connected!'));
+                return;
+            }
+
+            if (me._buffer.length >= toNumber(me._opts.maxBufferSize, DEFAULT_MAX_BUFFER_SIZE)) {
+                completed(new Error('Write buffer is full!'));
+                return;
+            }
+
+            me._buffer.push({
+                action: action,
+                completed: completed,
+            });
+        });
+    }
+
+    /**
+     * Calls a method of the server.
+     * 
+     * @param {string} method The name of the method.
+     * @param {any} [params] The parameters.
+     * @param {CallOptions} [opts] Additional options.
+     * 
+     * @return {Promise<TResult>} The promise with the result.
+     */
+    public call<TResult>(method: string, params?: any, opts?: CallOptions): Promise<TResult> {
+        let me = this;
+
+        return me.withSocket((socket) => {
+            return socket.call<TResult>(method, params, opts);
+        });
+    }
+
+    /**
+     * Connects to the server, if there is no connection.
+     * 
+     * @return {Promise<SimpleSocket>} The promise with the socket.
+     */
+    public connect(): Promise<SimpleSocket> {
+        let me = this;
+
+        if (me._socket) {
+            return Promise.resolve(me._socket);
+        }
+
+        return me.reconnect(true);
+    }
+
+    /**
+     * Closes the connection and stops reconnecting.
+     * 
+     * @return {Promise<any>} The promise.
+     */
+    public end(): Promise<any> {
+        let me = this;
+
+        me._isEnded = true;
+
+        if (me._timer) {
+            clearTimeout(me._timer);
+            me._timer = null;
+        }
+
+        me.rejectBuffer(new Error('Client has been closed!'));
+
+        let socket = me._socket;
+        me._socket = null;
+
+        if (socket) {
+            return socket.end();
+        }
+
+        return Promise.resolve();
+    }
+
+    /**
+     * Sends the writes, which have waited for a connection.
+     * 
+     * @param {SimpleSocket} socket The new socket.
+     */
+    protected flush(socket: SimpleSocket) {
+        let me = this;
+
+        let buffer = me._buffer;
+        me._buffer = [];
+
+        // the socket keeps the order
+        buffer.forEach((bw) => {
+            try {
+                me.writeOrBuffer(bw.action).then((result) => {
+                    bw.completed(null, result);
+                }, (err) => {
+                    bw.completed(err);
+                });
+            }
+            catch (e) {
+                bw.completed(e);
+            }
+        });
+    }
+
+    /**
+     * Returns the delay before the next attempt.
+     * 
+     * @param {number} retry The number of the attempt, beginning at 1.
+     * 
+     * @return {number} The delay in milliseconds.
+     */
+    protected getDelay(retry: number): number {
+        let opts = this._opts;
+
+        let initialDelay = toNumber(opts.initialDelay, DEFAULT_INITIAL_DELAY);
+        let factor = toNumber(opts.backoffFactor, DEFAULT_BACKOFF_FACTOR);
+        let maxDelay = toNumber(opts.maxDelay, DEFAULT_MAX_DELAY);
+        let jitter = Math.min(1, Math.max(0, toNumber(opts.jitter, DEFAULT_JITTER)));
+
+        let delay = Math.min(maxDelay,
+                             initialDelay * Math.pow(factor, retry - 1));
+
+        // do not let all clients reconnect at the same time
+        return Math.max(0, Math.round(delay * (1 - jitter * Math.random())));
+    }
+
+    /**
+     * Is invoked after the connection of a socket has been closed.
+     * 
+     * @param {SimpleSocket} socket The socket.
+     */
+    protected handleClose(socket: SimpleSocket) {
+        let me = this;
+
+        if (me._socket !== socket) {
+            return;
+        }
+
+        me._socket = null;
+
+        if (!me._isEnded) {
+            me.reconnect(false).then(() => {
+            }, (err) => {
+                // s. 'gave-up' event
+            });
+        }
+    }
+
+    /**
+     * Gets if there is a connection or not.
+     */
+    public get isConnected(): boolean {
+        return !!this._socket &&
+               !this._socket.socket.destroyed;
+    }
+
+    /**
+     * Prepares a new socket and makes the handshake.
+     * 
+     * @param {SimpleSocket} socket The new socket.
+     * 
+     * @return {Promise<any>} The promise.
+     */
+    protected prepareSocket(socket: SimpleSocket): Promise<any> {
+        let me = this;
+
+        return new Promise<any>((resolve, reject) => {
+            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            try {
+                for (let name in me._methods) {
+                    socket.registerMethod(name, me._methods[name]);
+                }
+
+                Promise.resolve(me._opts.setup ? me._opts.setup(socket) : null).then(() => {
+                    return socket.handshake();
+                }).then(() => {
+                    completed(null);
+                }, (err) => {
+                    completed(err);
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+
+    /**
+     * Reads data from the server.
+     * 
+     * @param {OperationOptions} [opts] Additional options, like a timeout.
+     * 
+     * @return {Promise<Buffer>} The promise.
+     */
+    public read(opts?: OperationOptions): Promise<Buffer> {
+        return this.withSocket((socket) => {
+            return socket.read(opts);
+        });
+    }
+
+    /**
+     * Reads data as JSON object.
+     * 
+     * @param {OperationOptions} [opts] Additional options, like a timeout.
+     * 
+     * @return {Promise<T>} The promise.
+     */
+    public readJSON<T>(opts?: OperationOptions): Promise<T> {
+        return this.withSocket((socket) => {
+            return socket.readJSON<T>(opts);
+        });
+    }
+
+    /**
+     * Reads data as string.
+     * 
+     * @param {OperationOptions} [opts] Additional options, like a timeout.
+     * 
+     * @return {Promise<string>} The promise.
+     */
+    public readString(opts?: OperationOptions): Promise<string> {
+        return this.withSocket((socket) => {
+            return socket.readString(opts);
+        });
+    }
+
+    /**
+     * Connects to the server, until it works or the client gives up.
+     * 
+     * @param {boolean} isFirst Is first connection or not.
+     * 
+     * @return {Promise<SimpleSocket>} The promise with the new socket.
+     */
+    protected reconnect(isFirst: boolean): Promise<SimpleSocket> {
+        let me = this;
+
+        if (me._connecting) {
+            return me._connecting;  // already running
+        }
+
+        let connecting = me._connecting = new Promise<SimpleSocket>((resolve, reject) => {
+            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            let retries = 0;
+            let maxRetries = parseInt(ssocket_helpers.toStringSafe(me._opts.maxRetries).trim());
+
+            let tryConnect: () => void;
+
+            let retry = (err: any) => {
+                if (me._isEnded) {
+                    completed(new Error('Client has been closed!'));
+                    return;
+                }
+
+                ++retries;
+                if (!isNaN(maxRetries) && retries > maxRetries) {
+                    me.rejectBuffer(err);
+
+                    me.emit('gave-up',
+                            err, retries - 1);
+
+                    completed(err);
+                    return;
+                }
+
+                let delay = me.getDelay(retries);
+
+                me.emit('reconnecting',
+                        retries, delay, err);
+
+                me._timer = setTimeout(() => {
+                    me._timer = null;
+
+                    tryConnect();
+                }, delay);
+            };
+
+            tryConnect = () => {
+                if (me._isEnded) {
+                    completed(new Error('Client has been closed!'));
+                    return;
+                }
+
+                Promise.resolve(me._connector()).then((socket) => {
+                    socket.on('error', (err) => {
+                        // connection will be closed
+                    });
+
+                    return me.prepareSocket(socket).then(() => {
+                        return socket;
+                    }, (err) => {
+                        socket.socket.destroy();
+
+                        throw err;
+                    });
+                }).then((socket) => {
+                    if (me._isEnded) {
+                        socket.end();
+
+                        completed(new Error('Client has been closed!'));
+                        return;
+                    }
+
+                    me._socket = socket;
+                    socket.once('close', () => {
+                        me.handleClose(socket);
+                    });
+
+                    if (!isFirst) {
+                        me.emit('reconnected',
+                                socket, retries);
+                    }
+
+                    me.flush(socket);
+
+                    completed(null, socket);
+                }, (err) => {
+                    retry(err);
+                });
+            };
+
+            if (isFirst) {
+                tryConnect();
+            }
+            else {
+                retry(new Error('Connection has been closed!'));
+            }
+        });
+
+        let connectingCompleted = () => {
+            if (me._connecting === connecting) {
+                me._connecting = null;
+            }
+        };
+        connecting.then(connectingCompleted, connectingCompleted);
+
+        return connecting;
+    }
+
+    /**
+     * Registers a method, which can be called by the server, on each connection.
+     * 
+     * @param {string} name The name of the method.
+     * @param {RPCHandler} handler The handler.
+     */
+    public registerMethod(name: string, handler: RPCHandler) {
+        this._methods[name] = handler;
+
+        if (this._socket) {
+            this._socket.registerMethod(name, handler);
+        }
+    }
+
+    /**
+     * Rejects all writes, which wait for a connection.
+     * 
+     * @param {any} err The error.
+     */
+    protected rejectBuffer(err: any) {
+        let buffer = this._buffer;
+        this._buffer = [];
+
+        buffer.forEach((bw) => {
+            bw.completed(err);
+        });
+    }
+
+    /**
+     * Gets the current socket or (null) if there is no connection.
+     */
+    public get socket(): SimpleSocket {
+        return this._socket;
+    }
+
+    /**
+     * Unregisters a method.
+     * 
+     * @param {string} name The name of the method.
+     * 
+     * @return {boolean} Method was registered or not.
+     */
+    public unregisterMethod(name: string): boolean {
+        let isRegistered = name in this._methods;
+        delete this._methods[name];
+
+        if (this._socket) {
+            this._socket.unregisterMethod(name);
+        }
+
+        return isRegistered;
+    }
+
+    /**
+     * Invokes an action with the current socket.
+     * 
+     * @param {Function} action The action.
+     * 
+     * @return {Promise<TResult>} The promise.
+     */
+    protected withSocket<TResult>(action: (socket: SimpleSocket) => PromiseLike<TResult>): Promise<TResult> {
+        let socket = this._socket;
+        if (!socket) {
+            return Promise.reject<TResult>(new Error('Not connected!'));
+        }
+
+        return Promise.resolve(action(socket));
+    }
+
+    /**
+     * Sends data to the server.
+     * 
+     * @param {any} data The data to send.
+     * @param {OperationOptions} [opts] Additional options, like a timeout.
+     * 
+     * @return {Promise<Buffer>} The promise.
+     */
+    public write(data: any, opts?: OperationOptions): Promise<Buffer> {
+        return this.writeOrBuffer((socket) => {
+            return socket.write(data, opts);
+        });
+    }
+
+    /**
+     * Sends an object / value as JSON string.
+     * 
+     * @param {T} obj The object to send.
+     * @param {OperationOptions} [opts] Additional options, like a timeout.
+     * 
+     * @return {Promise<Buffer>} The promise.
+     */
+    public writeJSON<T>(obj: T, opts?: OperationOptions): Promise<Buffer> {
+        return this.writeOrBuffer((socket) => {
+            return socket.writeJSON<T>(obj, opts);
+        });
+    }
+
+    /**
+     * Sends data with the current socket or buffers it until
+     * the next connection (s. 'writePolicy').
+     * 
+     * @param {Function} action The action, that sends the data.
+     * 
+     * @return {Promise<TResult>} The promise.
+     */
+    protected writeOrBuffer<TResult>(action: (socket: SimpleSocket) => PromiseLike<TResult>): Promise<TResult> {
+        let me = this;
+
+        let socket = me._socket;
+        if (!socket || socket.socket.destroyed) {
+            // no connection or its 'close' event has not been emitted yet
+            return me.bufferWrite(action);
+        }
+
+        return Promise.resolve(action(socket)).then(null, (err) => {
+            if (socket.socket.destroyed) {
+                // connection has been lost while sending
+                return me.bufferWrite(action, err);
+            }
+
+            throw err;
+        });
+    }
+}
+
+
+function toNumber(val: any, defaultValue: number): number {
+    let result = parseFloat(ssocket_helpers.toStringSafe(val).trim());
+    if (isNaN(result)) {
+        result = defaultValue;
+    }
+
+    return result;
+}
@@ -0,0 +1,224 @@
+/// <reference types="node" />
+import * as ssocket_helpers from './helpers';
+import { SimpleSocket } from './index';
+/**
+ * The error code for a method that has failed without an own code.
+ */
+export declare const ERROR_INTERNAL: string;
+/**
+ * The error code for an unknown method.
+ */
+export declare const ERROR_METHOD_NOT_FOUND: string;
+/**
+ * Options for a remote call.
+ */
+export interface CallOptions {
+    /**
+     * A signal that cancels the call.
+     */
+    signal?: ssocket_helpers.AbortSignalLike;
+    /**
+     * The maximum time in milliseconds to wait for the result.
+     */
+    timeout?: number;
+}
+/**
+ * A method that can be called by the remote.
+ *
+ * @param {any} params The parameters, submitted by the remote.
+ * @param {RPCContext} context The context.
+ *
+ * @return {any} The result (can be a promise).
+ */
+export declare type RPCHandler = (params: any, context: RPCContext) => any;
+/**
+ * The context of a call of a registered method.
+ */
+export interface RPCContext {
+    /**
+     * The ID of the request.
+     */
+    id: number;
+    /**
+     * Gets if the remote has cancelled the call or not.
+     */
+    isCancelled: boolean;
+    /**
+     * The name of the method.
+     */
+    method: string;
+    /**
+     * Registers a listener that is invoked if the remote cancels the call.
+     *
+     * @param {Function} listener The listener.
+     */
+    onCancel: (listener: () => void) => void;
+    /**
+     * The underlying socket.
+     */
+    socket: SimpleSocket;
+}
+/**
+ * An error, that is submitted to the remote.
+ */
+export interface RPCError {
+    /**
+     * The error code.
+     */
+    code: string;
+    /**
+     * Additional data.
+     */
+    data?: any;
+    /**
+     * The message.
+     */
+    message: string;
+}
+/**
+ * A RPC message.
+ */
+export interface RPCMessage {
+    /**
+     * The error (type 'response').
+     */
+    error?: RPCError;
+    /**
+     * The ID of the request.
+     */
+    id: number;
+    /**
+     * The name of the method (type 'request').
+     */
+    method?: string;
+    /**
+     * The parameters (type 'request').
+     */
+    params?: any;
+    /**
+     * The result (type 'response').
+     */
+    result?: any;
+    /**
+     * The type ('request', 'response' or 'cancel').
+     */
+    type: string;
+}
+/**
+ * A function that sends a RPC message to the remote.
+ *
+ * @param {RPCMessage} message The message to send.
+ *
+ * @return {PromiseLike<any>} The promise.
+ */
+export declare type RPCMessageSender = (message: RPCMessage) => PromiseLike<any>;
+/**
+ * Handles remote calls in both directions.
+ */
+export declare class RPCEndpoint {
+    /**
+     * Stores the calls that wait for a response.
+     */
+    protected _calls: {
+        [id: string]: ssocket_helpers.SimpleCompletedAction<any>;
+    };
+    /**
+     * Stores the registered methods.
+     */
+    protected _methods: {
+        [name: string]: RPCHandler;
+    };
+    /**
+     * Stores the ID of the last call.
+     */
+    protected _lastId: number;
+    /**
+     * Stores the requests of the remote that are currently running.
+     */
+    protected _requests: {
+        [id: string]: RPCContext;
+    };
+    /**
+     * Stores the function that sends messages.
+     */
+    protected _sender: RPCMessageSender;
+    /**
+     * Stores the underlying socket.
+     */
+    protected _socket: SimpleSocket;
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {SimpleSocket} socket The underlying socket.
+     * @param {RPCMessageSender} sender The function that sends messages.
+     */
+    constructor(socket: SimpleSocket, sender: RPCMessageSender);
+    /**
+     * Calls a method of the remote.
+     *
+     * @param {string} method The name of the method.
+     * @param {any} [params] The parameters.
+     * @param {CallOptions} [opts] Additional options.
+     *
+     * @return {Promise<any>} The promise with the result.
+     */
+    call(method: string, params?: any, opts?: CallOptions): Promise<any>;
+    /**
+     * Handles a message from the remote.
+     *
+     * @param {RPCMessage} message The message.
+     */
+    handleMessage(message: RPCMessage): void;
+    /**
+     * Handles the cancellation of a request.
+     *
+     * @param {RPCMessage} message The message.
+     */
+    protected handleCancel(message: RPCMessage): void;
+    /**
+     * Handles a request of the remote.
+     *
+     * @param {RPCMessage} message The message.
+     */
+    protected handleRequest(message: RPCMessage): void;
+    /**
+     * Handles the response of the remote.
+     *
+     * @param {RPCMessage} message The message.
+     */
+    protected handleResponse(message: RPCMessage): void;
+    /**
+     * Gets if messages from the remote are expected, because there
+     * are running calls or registered methods.
+     */
+    readonly isActive: boolean;
+    /**
+     * Registers a method, which can be called by the remote.
+     *
+     * @param {string} name The name of the method.
+     * @param {RPCHandler} handler The method.
+     */
+    registerMethod(name: string, handler: RPCHandler): void;
+    /**
+     * Rejects all calls that wait for a response.
+     *
+     * @param {any} err The error.
+     */
+    rejectAll(err: any): void;
+    /**
+     * Sends a message to the remote.
+     *
+     * @param {RPCMessage} message The message to send.
+     *
+     * @return {PromiseLike<any>} The promise.
+     */
+    protected send(message: RPCMessage): PromiseLike<any>;
+    /**
+     * Removes a registered method.
+     *
+     * @param {string} name The name of the method.
+     *
+     * @return {boolean} Method has been removed or not.
+     */
+    unregisterMethod(name: string): boolean;
+}
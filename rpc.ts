@@ -0,0 +1,528 @@
+/// <reference types="node" />
+
+// The MIT License (MIT)
+// 
+// node-simple-socket (https://github.com/mkloubert/node-simple-socket)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+import * as ssocket_errors from './errors';
+import * as ssocket_helpers from './helpers';
+import { SimpleSocket } from './index';
+
+
+/**
+ * The error code for a method that has failed without an own code.
+ */
+export const ERROR_INTERNAL = 'INTERNAL_ERROR';
+/**
+ * The error code for an unknown method.
+ */
+export const ERROR_METHOD_NOT_FOUND = 'METHOD_NOT_FOUND';
+const MESSAGE_TYPE_CANCEL = 'cancel';
+const MESSAGE_TYPE_REQUEST = 'request';
+const MESSAGE_TYPE_RESPONSE = 'response';
+
+
+/**
+ * Options for a remote call.
+ */
+export interface CallOptions {
+    /**
+     * A signal that cancels the call.
+     */
+    signal?: ssocket_helpers.AbortSignalLike;
+    /**
+     * The maximum time in milliseconds to wait for the result.
+     */
+    timeout?: number;
+}
+
+/**
+ * A method that can be called by the remote.
+ * 
+ * @param {any} params The parameters, submitted by the remote.
+ * @param {RPCContext} context The context.
+ * 
+ * @return {any} The result (can be a promise).
+ */
+export type RPCHandler = (params: any, context: RPCContext) => any;
+
+/**
+ * The context of a call of a registered method.
+ */
+export interface RPCContext {
+    /**
+     * The ID of the request.
+     */
+    id: number;
+    /**
+     * Gets if the remote has cancelled the call or not.
+     */
+    isCancelled: boolean;
+    /**
+     * The name of the method.
+     */
+    method: string;
+    /**
+     * Registers a listener that is invoked if the remote cancels the call.
+     * 
+     * @param {Function} listener The listener.
+     */
+    onCancel: (listener: () => void) => void;
+    /**
+     * The underlying socket.
+     */
+    socket: SimpleSocket;
+}
+
+/**
+ * An error, that is submitted to the remote.
+ */
+export interface RPCError {
+    /**
+     * The error code.
+     */
+    code: string;
+    /**
+     * Additional data.
+     */
+    data?: any;
+    /**
+     * The message.
+     */
+    message: string;
+}
+
+/**
+ * A RPC message.
+ */
+export interface RPCMessage {
+    /**
+     * The error (type 'response').
+     */
+    error?: RPCError;
+    /**
+     * The ID of the request.
+     */
+    id: number;
+    /**
+     * The name of the method (type 'request').
+     */
+    method?: string;
+    /**
+     * The parameters (type 'request').
+     */
+    params?: any;
+    /**
+     * The result (type 'response').
+     */
+    result?: any;
+    /**
+     * The type ('request', 'response' or 'cancel').
+     */
+    type: string;
+}
+
+/**
+ * A function that sends a RPC message to the remote.
+ * 
+ * @param {RPCMessage} message The message to send.
+ * 
+ * @return {PromiseLike<any>} The promise.
+ */
+export type RPCMessageSender = (message: RPCMessage) => PromiseLike<any>;
+
+
+/**
+ * Handles remote calls in both directions.
+ */
+export class RPCEndpoint {
+    /**
+     * Stores the calls that wait for a response.
+     */
+    protected _calls: { [id: string]: ssocket_helpers.SimpleCompletedAction<any> } = {};
+    /**
+     * Stores the registered methods.
+     */
+    protected _methods: { [name: string]: RPCHandler } = {};
+    /**
+     * Stores the ID of the last call.
+     */
+    protected _lastId = 0;
+    /**
+     * Stores the requests of the remote that are currently running.
+     */
+    protected _requests: { [id: string]: RPCContext } = {};
+    /**
+     * Stores the function that sends messages.
+     */
+    protected _sender: RPCMessageSender;
+    /**
+     * Stores the underlying socket.
+     */
+    protected _socket: SimpleSocket;
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {SimpleSocket} socket The underlying socket.
+     * @param {RPCMessageSender} sender The function that sends messages.
+     */
+    constructor(socket: SimpleSocket, sender: RPCMessageSender) {
+        this._sender = sender;
+        this._socket = socket;
+    }
+
+    /**
+     * Calls a method of the remote.
+     * 
+     * @param {string} method The name of the method.
+     * @param {any} [params] The parameters.
+     * @param {CallOptions} [opts] Additional options.
+     * 
+     * @return {Promise<any>} The promise with the result.
+     */
+    public call(method: string, params?: any, opts?: CallOptions): Promise<any> {
+        let me = this;
+
+        if (!opts) {
+            opts = {};
+        }
+
+        return new Promise<any>((resolve, reject) => {
+            let id = ++me._lastId;
+            let signal = opts.signal;
+            let timer: NodeJS.Timer;
+
+            let onAbort: () => void;
+            let completed = ssocket_helpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            let callCompleted = (err: any, result?: any) => {
+                delete me._calls[id];
+
+                if (timer) {
+                    clearTimeout(timer);
+                }
+                if (signal && onAbort) {
+                    signal.removeEventListener('abort', onAbort);
+                }
+
+                completed(err, result);
+            };
+
+            let cancel = (err: any) => {
+                if (!me._calls[id]) {
+                    return;  // already completed
+                }
+
+                callCompleted(err);
+
+                // tell remote that we do not need
+                // the result anymore
+                me.send({
+                    id: id,
+                    type: MESSAGE_TYPE_CANCEL,
+                }).then(() => { }, () => { });
+            };
+
+            try {
+                if (signal && signal.aborted) {
+                    completed(new ssocket_errors.AbortError(`Call of '${method}' has been aborted!`));
+                    return;
+                }
+
+                me._calls[id] = callCompleted;
+
+                let timeout = parseInt(ssocket_helpers.toStringSafe(opts.timeout).trim());
+                if (!isNaN(timeout) && timeout > 0) {
+                    timer = setTimeout(() => {
+                        cancel(new ssocket_errors.TimeoutError(`Call of '${method}' timed out after ${timeout} ms!`, timeout));
+                    }, timeout);
+                }
+
+                if (signal) {
+                    onAbort = () => {
+                        cancel(new ssocket_errors.AbortError(`Call of '${method}' has been aborted!`));
+                    };
+
+                    signal.addEventListener('abort', onAbort);
+                }
+
+                me.send({
+                    id: id,
+                    method: method,
+                    params: params,
+                    type: MESSAGE_TYPE_REQUEST,
+                }).then(() => {
+                    // wait for response
+                }, (err) => {
+                    if (me._calls[id]) {
+                        callCompleted(err);
+                    }
+                });
+            }
+            catch (e) {
+                callCompleted(e);
+            }
+        });
+    }
+
+    /**
+     * Handles a message from the remote.
+     * 
+     * @param {RPCMessage} message The message.
+     */
+    public handleMessage(message: RPCMessage) {
+        if (!message) {
+            return;
+        }
+
+        switch (message.type) {
+            case MESSAGE_TYPE_CANCEL:
+                this.handleCancel(message);
+                break;
+
+            case MESSAGE_TYPE_REQUEST:
+                this.handleRequest(message);
+                break;
+
+            case MESSAGE_TYPE_RESPONSE:
+                this.handleResponse(message);
+                break;
+        }
+    }
+
+    /**
+     * Handles the cancellation of a request.
+     * 
+     * @param {RPCMessage} message The message.
+     */
+    protected handleCancel(message: RPCMessage) {
+        let context = this._requests[message.id];
+        if (context) {
+            delete this._requests[message.id];
+
+            context.isCancelled = true;
+        }
+    }
+
+    /**
+     * Handles a request of the remote.
+     * 
+     * @param {RPCMessage} message The message.
+     */
+    protected handleRequest(message: RPCMessage) {
+        let me = this;
+
+        let id = message.id;
+
+        let respond = (response: RPCMessage) => {
+            if (me._requests[id] !== context) {
+                return;  // cancelled
+            }
+
+            delete me._requests[id];
+
+            me.send(response).then(() => { }, () => { });
+        };
+
+        let cancelListeners: (() => void)[] = [];
+        let isCancelled = false;
+
+        let context: RPCContext = {
+            id: id,
+            get isCancelled() {
+                return isCancelled;
+            },
+            set isCancelled(newValue: boolean) {
+                if (newValue && !isCancelled) {
+                    isCancelled = true;
+
+                    cancelListeners.forEach((l) => {
+                        try {
+                            l();
+                        }
+                        catch (e) {
+                            // ignore
+                        }
+                    });
+                }
+            },
+            method: message.method,
+            onCancel: (listener) => {
+                if (listener) {
+                    cancelListeners.push(listener);
+                }
+            },
+            socket: me._socket,
+        };
+        me._requests[id] = context;
+
+        let handler: RPCHandler;
+        if (me._methods.hasOwnProperty(message.method)) {
+            handler = me._methods[message.method];
+        }
+
+        if (!handler) {
+            respond({
+                error: {
+                    code: ERROR_METHOD_NOT_FOUND,
+                    message: `Method '${message.method}' not found!`,
+                },
+                id: id,
+                type: MESSAGE_TYPE_RESPONSE,
+            });
+
+            return;
+        }
+
+        new Promise<any>((resolve) => {
+            resolve(handler(message.params, context));
+        }).then((result) => {
+            respond({
+                id: id,
+                result: result,
+                type: MESSAGE_TYPE_RESPONSE,
+            });
+        }, (err) => {
+            respond({
+                error: toRPCError(err),
+                id: id,
+                type: MESSAGE_TYPE_RESPONSE,
+            });
+        });
+    }
+
+    /**
+     * Handles the response of the remote.
+     * 
+     * @param {RPCMessage} message The message.
+     */
+    protected handleResponse(message: RPCMessage) {
+        let callCompleted = this._calls[message.id];
+        if (!callCompleted) {
+            return;  // cancelled or timed out
+        }
+
+        if (message.error) {
+            callCompleted(new ssocket_errors.RemoteError(message.error.message,
+                                                         message.error.code,
+                                                         message.error.data));
+        }
+        else {
+            callCompleted(null, message.result);
+        }
+    }
+
+    /**
+     * Gets if messages from the remote are expected, because there
+     * are running calls or registered methods.
+     */
+    public get isActive(): boolean {
+        return Object.keys(this._calls).length > 0 ||
+               Object.keys(this._methods).length > 0;
+    }
+
+    /**
+     * Registers a method, which can be called by the remote.
+     * 
+     * @param {string} name The name of the method.
+     * @param {RPCHandler} handler The method.
+     */
+    public registerMethod(name: string, handler: RPCHandler) {
+        if (!handler) {
+            throw new Error('No handler defined!');
+        }
+
+        this._methods[name] = handler;
+    }
+
+    /**
+     * Rejects all calls that wait for a response.
+     * 
+     * @param {any} err The error.
+     */
+    public rejectAll(err: any) {
+        let calls = this._calls;
+        this._calls = {};
+
+        Object.keys(calls).forEach((id) => {
+            calls[id](err);
+        });
+    }
+
+    /**
+     * Sends a message to the remote.
+     * 
+     * @param {RPCMessage} message The message to send.
+     * 
+     * @return {PromiseLike<any>} The promise.
+     */
+    protected send(message: RPCMessage): PromiseLike<any> {
+        return this._sender(message);
+    }
+
+    /**
+     * Removes a registered method.
+     * 
+     * @param {string} name The name of the method.
+     * 
+     * @return {boolean} Method has been removed or not.
+     */
+    public unregisterMethod(name: string): boolean {
+        if (this._methods.hasOwnProperty(name)) {
+            delete this._methods[name];
+            return true;
+        }
+
+        return false;
+    }
+}
+
+
+function toRPCError(err: any): RPCError {
+    if (!err) {
+        err = {};
+    }
+
+    let code = ssocket_helpers.toStringSafe(err.code).trim();
+    if ('' === code) {
+        code = ERROR_INTERNAL;
+    }
+
+    let message: string;
+    if (err instanceof Error) {
+        message = err.message;
+    }
+    else {
+        message = ssocket_helpers.toStringSafe(err.message, ssocket_helpers.toStringSafe(err));
+    }
+
+    let result: RPCError = {
+        code: code,
+        message: message,
+    };
+    if (!ssocket_helpers.isNullOrUndefined(err.data)) {
+        result.data = err.data;
+    }
+
+    return result;
+}
@@ -0,0 +1,78 @@
+/// <reference types="node" />
+/**
+ * A serializer for values, like objects.
+ */
+export interface Serializer {
+    /**
+     * Restores a value.
+     *
+     * @param {Buffer} data The serialized value.
+     *
+     * @return {any} The value.
+     */
+    deserialize: (data: Buffer) => any;
+    /**
+     * Serializes a value.
+     *
+     * @param {any} value The value to serialize.
+     *
+     * @return {Buffer} The serialized value.
+     */
+    serialize: (value: any) => Buffer;
+}
+/**
+ * A codec for the instances of a class.
+ */
+export interface TypeCodec<T> {
+    /**
+     * Restores an instance.
+     *
+     * @param {any} data The data, which has been returned by 'encode()'.
+     *
+     * @return {T} The instance.
+     */
+    decode: (data: any) => T;
+    /**
+     * Converts an instance to a value, which can be serialized.
+     *
+     * @param {T} value The instance.
+     *
+     * @return {any} The value to serialize.
+     */
+    encode: (value: T) => any;
+    /**
+     * The (unique) name, which is sent to the remote.
+     */
+    name: string;
+    /**
+     * The class (constructor).
+     */
+    type: Function;
+}
+/**
+ * Restores a value, which has been serialized by 'serialize()'.
+ *
+ * @param {Buffer} data The serialized value.
+ *
+ * @return {any} The value.
+ */
+export declare function deserialize(data: Buffer): any;
+/**
+ * Registers a codec for the instances of a class.
+ *
+ * A codec with the same name is replaced.
+ *
+ * @param {TypeCodec<T>} codec The codec to register.
+ */
+export declare function registerType<T>(codec: TypeCodec<T>): void;
+/**
+ * Serializes a value to the binary format of that module.
+ *
+ * Supported are (null), (undefined), booleans, numbers, BigInts, strings, buffers, typed arrays, dates,
+ * arrays, plain objects, maps, sets and instances of registered classes (s. 'registerType()').
+ *
+ * @param {any} value The value to serialize.
+ *
+ * @return {Buffer} The serialized value.
+ */
+export declare function serialize(value: any): Buffer;
@@ -0,0 +1,515 @@
+/// <reference types="node" />
+"use strict";
+// The MIT License (MIT)
+// 
+// node-simple-socket (https://github.com/mkloubert/node-simple-socket)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+const OS = require('os');
+const ssocket_compat = require('./compat');
+const ssocket_errors = require('./errors');
+const ssocket_helpers = require('./helpers');
+const FORMAT_VERSION = 1;
+const MAX_DEPTH = 512;
+const TYPE_ARRAY = 13;
+const TYPE_BIGINT = 9;
+const TYPE_BUFFER = 11;
+const TYPE_CUSTOM = 17;
+const TYPE_DATE = 12;
+const TYPE_FALSE = 2;
+const TYPE_FLOAT32 = 7;
+const TYPE_FLOAT64 = 8;
+const TYPE_INT8 = 4;
+const TYPE_INT16 = 5;
+const TYPE_INT32 = 6;
+const TYPE_MAP = 15;
+const TYPE_NULL = 1;
+const TYPE_OBJECT = 14;
+const TYPE_SET = 16;
+const TYPE_STRING = 10;
+const TYPE_TRUE = 3;
+const TYPE_TYPED_ARRAY = 18;
+const TYPE_UNDEFINED = 0;
+/**
+ * The supported typed arrays, by their ID.
+ */
+const TYPED_ARRAYS = [
+    Int8Array, Uint8Array, Uint8ClampedArray,
+    Int16Array, Uint16Array,
+    Int32Array, Uint32Array,
+    Float32Array, Float64Array,
+    ssocket_compat.bigInt64Array, ssocket_compat.bigUint64Array,
+];
+/**
+ * Stores the registered type codecs.
+ */
+const TYPES = [];
+/**
+ * Restores a value, which has been serialized by 'serialize()'.
+ *
+ * @param {Buffer} data The serialized value.
+ *
+ * @return {any} The value.
+ */
+function deserialize(data) {
+    let reader = new BufferReader(data);
+    let version = reader.readByte();
+    if (FORMAT_VERSION !== version) {
+        throw new ssocket_errors.SerializationError('Unsupported format version: ' + version);
+    }
+    let value = readValue(reader, 0);
+    if (reader.offset !== data.length) {
+        throw new ssocket_errors.SerializationError('Data contains more than one value!');
+    }
+    return value;
+}
+exports.deserialize = deserialize;
+/**
+ * Registers a codec for the instances of a class.
+ *
+ * A codec with the same name is replaced.
+ *
+ * @param {TypeCodec<T>} codec The codec to register.
+ */
+function registerType(codec) {
+    let name = ssocket_helpers.toStringSafe(codec.name).trim();
+    if ('' === name) {
+        throw new Error('Type codec has no name!');
+    }
+    if ('function' !== typeof codec.type) {
+        throw new Error(`Type codec '${name}' has no class!`);
+    }
+    let newCodec = {
+        decode: codec.decode,
+        encode: codec.encode,
+        name: name,
+        type: codec.type,
+    };
+    for (let i = 0; i < TYPES.length; i++) {
+        if (TYPES[i].name === name) {
+            TYPES[i] = newCodec;
+            return;
+        }
+    }
+    TYPES.push(newCodec);
+}
+exports.registerType = registerType;
+/**
+ * Serializes a value to the binary format of that module.
+ *
+ * Supported are (null), (undefined), booleans, numbers, BigInts, strings, buffers, typed arrays, dates,
+ * arrays, plain objects, maps, sets and instances of registered classes (s. 'registerType()').
+ *
+ * @param {any} value The value to serialize.
+ *
+ * @return {Buffer} The serialized value.
+ */
+function serialize(value) {
+    let writer = new BufferWriter();
+    writer.writeByte(FORMAT_VERSION);
+    writeValue(writer, value, []);
+    return writer.toBuffer();
+}
+exports.serialize = serialize;
+class BufferReader {
+    constructor(data) {
+        this.offset = 0;
+        this._data = data || Buffer.alloc(0);
+    }
+    ensure(length) {
+        if ((this.offset + length) > this._data.length) {
+            throw new ssocket_errors.SerializationError('Unexpected end of data!');
+        }
+    }
+    readByte() {
+        this.ensure(1);
+        return this._data.readUInt8(this.offset++);
+    }
+    readBytes(length) {
+        this.ensure(length);
+        let bytes = Buffer.alloc(length);
+        this._data.copy(bytes, 0, this.offset, this.offset + length);
+        this.offset += length;
+        return bytes;
+    }
+    readNumber(type) {
+        let size;
+        let value;
+        switch (type) {
+            case TYPE_INT8:
+                size = 1;
+                this.ensure(size);
+                value = this._data.readInt8(this.offset);
+                break;
+            case TYPE_INT16:
+                size = 2;
+                this.ensure(size);
+                value = this._data.readInt16LE(this.offset);
+                break;
+            case TYPE_INT32:
+                size = 4;
+                this.ensure(size);
+                value = this._data.readInt32LE(this.offset);
+                break;
+            case TYPE_FLOAT32:
+                size = 4;
+                this.ensure(size);
+                value = this._data.readFloatLE(this.offset);
+                break;
+            default:
+                size = 8;
+                this.ensure(size);
+                value = this._data.readDoubleLE(this.offset);
+                break;
+        }
+        this.offset += size;
+        return value;
+    }
+    readString() {
+        return this.readBytes(this.readVarUInt()).toString('utf8');
+    }
+    readVarUInt() {
+        let value = 0;
+        let factor = 1;
+        for (let i = 0; i < 8; i++) {
+            let b = this.readByte();
+            value += (b & 0x7F) * factor;
+            if (b < 0x80) {
+                return value;
+            }
+            factor *= 128;
+        }
+        throw new ssocket_errors.SerializationError('Invalid length!');
+    }
+}
+class BufferWriter {
+    constructor() {
+        this._chunks = [];
+    }
+    toBuffer() {
+        return Buffer.concat(this._chunks);
+    }
+    writeByte(value) {
+        this._chunks.push(Buffer.from([value]));
+    }
+    writeBytes(data) {
+        this.writeVarUInt(data.length);
+        this.writeRaw(data);
+    }
+    writeNumber(value) {
+        let type;
+        let data;
+        if (value === Math.floor(value) && !(0 === value && 1 / value < 0)) {
+            // integer, which is not -0
+            if (value >= -128 && value <= 127) {
+                type = TYPE_INT8;
+                data = Buffer.alloc(1);
+                data.writeInt8(value, 0);
+            }
+            else if (value >= -32768 && value <= 32767) {
+                type = TYPE_INT16;
+                data = Buffer.alloc(2);
+                data.writeInt16LE(value, 0);
+            }
+            else if (value >= -2147483648 && value <= 2147483647) {
+                type = TYPE_INT32;
+                data = Buffer.alloc(4);
+                data.writeInt32LE(value, 0);
+            }
+        }
+        else if (Math.fround(value) === value) {
+            type = TYPE_FLOAT32;
+            data = Buffer.alloc(4);
+            data.writeFloatLE(value, 0);
+        }
+        if (!data) {
+            // big integers, NaN, Infinity, -0 and
+            // numbers, which require double precision
+            type = TYPE_FLOAT64;
+            data = Buffer.alloc(8);
+            data.writeDoubleLE(value, 0);
+        }
+        this.writeByte(type);
+        this.writeRaw(data);
+    }
+    writeRaw(data) {
+        this._chunks.push(data);
+    }
+    writeString(str) {
+        this.writeBytes(Buffer.from(str, 'utf8'));
+    }
+    writeVarUInt(value) {
+        let bytes = [];
+        do {
+            let b = value % 128;
+            value = Math.floor(value / 128);
+            bytes.push(value > 0 ? (b | 0x80) : b);
+        } while (value > 0);
+        this.writeRaw(Buffer.from(bytes));
+    }
+}
+function getBigIntFunction() {
+    let bigInt = ssocket_compat.bigInt;
+    if (!bigInt) {
+        throw new ssocket_errors.SerializationError('BigInt is not supported!');
+    }
+    return bigInt;
+}
+function getTypedArrayId(value) {
+    for (let i = 0; i < TYPED_ARRAYS.length; i++) {
+        if (TYPED_ARRAYS[i] && value instanceof TYPED_ARRAYS[i]) {
+            return i;
+        }
+    }
+    return -1;
+}
+function readValue(reader, depth) {
+    if (depth > MAX_DEPTH) {
+        throw new ssocket_errors.SerializationError('Data is nested too deeply!');
+    }
+    let type = reader.readByte();
+    switch (type) {
+        case TYPE_UNDEFINED:
+            return undefined;
+        case TYPE_NULL:
+            return null;
+        case TYPE_FALSE:
+            return false;
+        case TYPE_TRUE:
+            return true;
+        case TYPE_INT8:
+        case TYPE_INT16:
+        case TYPE_INT32:
+        case TYPE_FLOAT32:
+        case TYPE_FLOAT64:
+            return reader.readNumber(type);
+        case TYPE_BIGINT:
+            {
+                let bigInt = getBigIntFunction();
+                let isNegative = 1 === reader.readByte();
+                let magnitude = reader.readBytes(reader.readVarUInt());
+                let value = bigInt(magnitude.length > 0 ? '0x' + magnitude.toString('hex') : 0);
+                return isNegative ? -value : value;
+            }
+        case TYPE_STRING:
+            return reader.readString();
+        case TYPE_BUFFER:
+            return reader.readBytes(reader.readVarUInt());
+        case TYPE_DATE:
+            return new Date(reader.readNumber(TYPE_FLOAT64));
+        case TYPE_TYPED_ARRAY:
+            {
+                let id = reader.readByte();
+                let bytes = reader.readBytes(reader.readVarUInt());
+                let typedArray = TYPED_ARRAYS[id];
+                if (!typedArray) {
+                    throw new ssocket_errors.SerializationError('Unknown typed array ID: ' + id);
+                }
+                if (bytes.length % typedArray.BYTES_PER_ELEMENT) {
+                    throw new ssocket_errors.SerializationError('Invalid size of typed array!');
+                }
+                toLittleEndian(bytes, typedArray.BYTES_PER_ELEMENT);
+                let arrayBuffer = new ArrayBuffer(bytes.length);
+                new Uint8Array(arrayBuffer).set(bytes);
+                return new typedArray(arrayBuffer);
+            }
+        case TYPE_ARRAY:
+            {
+                let arr = [];
+                let count = reader.readVarUInt();
+                for (let i = 0; i < count; i++) {
+                    arr.push(readValue(reader, depth + 1));
+                }
+                return arr;
+            }
+        case TYPE_OBJECT:
+            {
+                let obj = {};
+                let count = reader.readVarUInt();
+                for (let i = 0; i < count; i++) {
+                    let key = reader.readString();
+                    // do not change the prototype
+                    Object.defineProperty(obj, key, {
+                        configurable: true,
+                        enumerable: true,
+                        value: readValue(reader, depth + 1),
+                        writable: true,
+                    });
+                }
+                return obj;
+            }
+        case TYPE_MAP:
+            {
+                let map = new Map();
+                let count = reader.readVarUInt();
+                for (let i = 0; i < count; i++) {
+                    let key = readValue(reader, depth + 1);
+                    map.set(key, readValue(reader, depth + 1));
+                }
+                return map;
+            }
+        case TYPE_SET:
+            {
+                let set = new Set();
+                let count = reader.readVarUInt();
+                for (let i = 0; i < count; i++) {
+                    set.add(readValue(reader, depth + 1));
+                }
+                return set;
+            }
+        case TYPE_CUSTOM:
+            {
+                let name = reader.readString();
+                let codec = TYPES.filter((t) => t.name === name)[0];
+                if (!codec) {
+                    throw new ssocket_errors.SerializationError(`Unknown type '${name}'!`);
+                }
+                return codec.decode(readValue(reader, depth + 1));
+            }
+    }
+    throw new ssocket_errors.SerializationError('Unknown type ID: ' + type);
+}
+function toLittleEndian(bytes, elementSize) {
+    if ('LE' === OS.endianness()) {
+        return;
+    }
+    // convert from / to the byte order of that machine
+    switch (elementSize) {
+        case 2:
+            bytes.swap16();
+            break;
+        case 4:
+            bytes.swap32();
+            break;
+        case 8:
+            bytes.swap64();
+            break;
+    }
+}
+function writeValue(writer, value, parents) {
+    switch (typeof value) {
+        case 'undefined':
+            writer.writeByte(TYPE_UNDEFINED);
+            return;
+        case 'boolean':
+            writer.writeByte(value ? TYPE_TRUE : TYPE_FALSE);
+            return;
+        case 'number':
+            writer.writeNumber(value);
+            return;
+        case 'bigint':
+            {
+                let isNegative = value < 0;
+                if (isNegative) {
+                    value = -value;
+                }
+                let hex = value.toString(16);
+                if (hex.length % 2) {
+                    hex = '0' + hex;
+                }
+                writer.writeByte(TYPE_BIGINT);
+                writer.writeByte(isNegative ? 1 : 0);
+                writer.writeBytes('00' === hex ? Buffer.alloc(0) : Buffer.from(hex, 'hex'));
+            }
+            return;
+        case 'string':
+            writer.writeByte(TYPE_STRING);
+            writer.writeString(value);
+            return;
+        case 'object':
+            break;
+        default:
+            throw new ssocket_errors.SerializationError(`Values of type '${typeof value}' cannot be serialized!`);
+    }
+    if (null === value) {
+        writer.writeByte(TYPE_NULL);
+        return;
+    }
+    if (parents.indexOf(value) > -1) {
+        throw new ssocket_errors.SerializationError('Circular structures cannot be serialized!');
+    }
+    parents.push(value);
+    try {
+        let codec = TYPES.filter((t) => value instanceof t.type)[0];
+        if (codec) {
+            writer.writeByte(TYPE_CUSTOM);
+            writer.writeString(codec.name);
+            writeValue(writer, codec.encode(value), parents);
+        }
+        else if (Buffer.isBuffer(value)) {
+            writer.writeByte(TYPE_BUFFER);
+            writer.writeBytes(value);
+        }
+        else if (getTypedArrayId(value) > -1) {
+            let bytes = Buffer.alloc(value.byteLength);
+            Buffer.from(value.buffer, value.byteOffset, value.byteLength).copy(bytes);
+            toLittleEndian(bytes, value.BYTES_PER_ELEMENT);
+            writer.writeByte(TYPE_TYPED_ARRAY);
+            writer.writeByte(getTypedArrayId(value));
+            writer.writeBytes(bytes);
+        }
+        else if (ArrayBuffer.isView(value) || value instanceof ArrayBuffer) {
+            throw new ssocket_errors.SerializationError('Array buffers and data views cannot be serialized!');
+        }
+        else if (value instanceof Date) {
+            let data = Buffer.alloc(8);
+            data.writeDoubleLE(value.getTime(), 0);
+            writer.writeByte(TYPE_DATE);
+            writer.writeRaw(data);
+        }
+        else if (Array.isArray(value)) {
+            writer.writeByte(TYPE_ARRAY);
+            writer.writeVarUInt(value.length);
+            for (let i = 0; i < value.length; i++) {
+                writeValue(writer, value[i], parents);
+            }
+        }
+        else if (value instanceof Map) {
+            writer.writeByte(TYPE_MAP);
+            writer.writeVarUInt(value.size);
+            value.forEach((v, k) => {
+                writeValue(writer, k, parents);
+                writeValue(writer, v, parents);
+            });
+        }
+        else if (value instanceof Set) {
+            writer.writeByte(TYPE_SET);
+            writer.writeVarUInt(value.size);
+            value.forEach((v) => {
+                writeValue(writer, v, parents);
+            });
+        }
+        else {
+            // like JSON, other objects are sent
+            // with their own properties only
+            let keys = Object.keys(value);
+            writer.writeByte(TYPE_OBJECT);
+            writer.writeVarUInt(keys.length);
+            keys.forEach((k) => {
+                writer.writeString(k);
+                writeValue(writer, value[k], parents);
+            });
+        }
+    }
+    finally {
+        parents.pop();
+    }
+}
+//# sourceMappingURL=serializer.js.map
\ No newline at end of file
@@ -0,0 +1,79 @@
+/// <reference types="node" />
+import * as Stream from 'stream';
+/**
+ * A function, which reads the next chunk from the remote.
+ *
+ * @return {PromiseLike<Buffer>} The promise with the chunk or (null) if there is no more data.
+ */
+export declare type ChunkReader = () => PromiseLike<Buffer>;
+/**
+ * A function, which sends a chunk to the remote.
+ *
+ * @param {Buffer} chunk The chunk to send. An empty chunk tells that there is no more data.
+ *
+ * @return {PromiseLike<any>} The promise.
+ */
+export declare type ChunkWriter = (chunk: Buffer) => PromiseLike<any>;
+/**
+ * A stream that reads data, which is sent by the remote via 'writeStream()',
+ * 'writeFile()' or a SocketWriteStream.
+ */
+export declare class SocketReadStream extends Stream.Readable {
+    /**
+     * Stores if a chunk is currently read or not.
+     */
+    protected _isReading: boolean;
+    /**
+     * Stores the function that reads the chunks.
+     */
+    protected _readChunk: ChunkReader;
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {ChunkReader} readChunk The function that reads the chunks.
+     * @param {Stream.ReadableOptions} [opts] Options for the stream.
+     */
+    constructor(readChunk: ChunkReader, opts?: Stream.ReadableOptions);
+    /**
+     * Reads the next chunk from the remote.
+     *
+     * @param {number} size The number of bytes to read.
+     */
+    _read(size: number): void;
+}
+/**
+ * A stream that sends data to the remote, which can be received
+ * via 'readStream()', 'readFile()' or a SocketReadStream.
+ */
+export declare class SocketWriteStream extends Stream.Writable {
+    /**
+     * Stores the maximum size of a chunk.
+     */
+    protected _chunkSize: number;
+    /**
+     * Stores the function that sends the chunks.
+     */
+    protected _writeChunk: ChunkWriter;
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {ChunkWriter} writeChunk The function that sends the chunks.
+     * @param {number} chunkSize The maximum size of a chunk.
+     * @param {Stream.WritableOptions} [opts] Options for the stream.
+     */
+    constructor(writeChunk: ChunkWriter, chunkSize: number, opts?: Stream.WritableOptions);
+    /**
+     * Tells the remote that there is no more data.
+     *
+     * @param {Function} callback The callback.
+     */
+    _final(callback: (err?: any) => void): void;
+    /**
+     * Sends data to the remote.
+     *
+     * @param {any} chunk The data to send.
+     * @param {string} encoding The encoding, if 'chunk' is a string.
+     * @param {Function} callback The callback.
+     */
+    _write(chunk: any, encoding: string, callback: Function): void;
+}
@@ -0,0 +1,122 @@
+/// <reference types="node" />
+"use strict";
+// The MIT License (MIT)
+// 
+// node-simple-socket (https://github.com/mkloubert/node-simple-socket)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+const Stream = require('stream');
+/**
+ * A stream that reads data, which is sent by the remote via 'writeStream()',
+ * 'writeFile()' or a SocketWriteStream.
+ */
+class SocketReadStream extends Stream.Readable {
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {ChunkReader} readChunk The function that reads the chunks.
+     * @param {Stream.ReadableOptions} [opts] Options for the stream.
+     */
+    constructor(readChunk, opts) {
+        super(opts);
+        /**
+         * Stores if a chunk is currently read or not.
+         */
+        this._isReading = false;
+        this._readChunk = readChunk;
+    }
+    /**
+     * Reads the next chunk from the remote.
+     *
+     * @param {number} size The number of bytes to read.
+     */
+    _read(size) {
+        let me = this;
+        if (me._isReading) {
+            return;
+        }
+        me._isReading = true;
+        me._readChunk().then((chunk) => {
+            me._isReading = false;
+            me.push(chunk); // (null) => no more data
+        }, (err) => {
+            me._isReading = false;
+            me.emit('error', err);
+        });
+    }
+}
+exports.SocketReadStream = SocketReadStream;
+/**
+ * A stream that sends data to the remote, which can be received
+ * via 'readStream()', 'readFile()' or a SocketReadStream.
+ */
+class SocketWriteStream extends Stream.Writable {
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {ChunkWriter} writeChunk The function that sends the chunks.
+     * @param {number} chunkSize The maximum size of a chunk.
+     * @param {Stream.WritableOptions} [opts] Options for the stream.
+     */
+    constructor(writeChunk, chunkSize, opts) {
+        super(opts);
+        this._chunkSize = chunkSize;
+        this._writeChunk = writeChunk;
+    }
+    /**
+     * Tells the remote that there is no more data.
+     *
+     * @param {Function} callback The callback.
+     */
+    _final(callback) {
+        this._writeChunk(Buffer.alloc(0)).then(() => {
+            callback();
+        }, (err) => {
+            callback(err);
+        });
+    }
+    /**
+     * Sends data to the remote.
+     *
+     * @param {any} chunk The data to send.
+     * @param {string} encoding The encoding, if 'chunk' is a string.
+     * @param {Function} callback The callback.
+     */
+    _write(chunk, encoding, callback) {
+        let me = this;
+        let data = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk, encoding);
+        let sendNext;
+        sendNext = (offset) => {
+            if (offset >= data.length) {
+                callback(); // all sent
+                return;
+            }
+            let part = data.slice(offset, offset + me._chunkSize);
+            me._writeChunk(part).then(() => {
+                sendNext(offset + part.length);
+            }, (err) => {
+                callback(err);
+            });
+        };
+        sendNext(0);
+    }
+}
+exports.SocketWriteStream = SocketWriteStream;
+//# sourceMappingURL=streams.js.map
\ No newline at end of file